@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+const { runAbiCodegen } = require("../dist/common/cli/index.js");
+
+runAbiCodegen(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
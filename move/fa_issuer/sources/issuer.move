@@ -0,0 +1,127 @@
+/// Issues fungible assets with primary stores enabled. The refs to mint, burn and freeze an asset are stored with its
+/// metadata, and only the owner of the metadata object can use them. Once published, the transactions of this module
+/// are built by the `FungibleAsset` namespace of the TypeScript SDK, given the address it was published at.
+module FAIssuer::issuer {
+    use aptos_framework::dispatchable_fungible_asset;
+    use aptos_framework::function_info::{Self, FunctionInfo};
+    use aptos_framework::fungible_asset::{Self, BurnRef, FungibleStore, Metadata, MintRef, TransferRef};
+    use aptos_framework::object::{Self, Object};
+    use aptos_framework::primary_fungible_store;
+    use std::error;
+    use std::option::{Self, Option};
+    use std::signer;
+    use std::string::String;
+
+    /// Only the owner of the metadata object can manage the fungible asset.
+    const ENOT_OWNER: u64 = 1;
+
+    #[resource_group_member(group = aptos_framework::object::ObjectGroup)]
+    /// Hold refs to control the minting, burning and freezing of the fungible asset.
+    struct IssuerRefs has key {
+        mint_ref: MintRef,
+        burn_ref: BurnRef,
+        transfer_ref: TransferRef,
+    }
+
+    /// Create a fungible asset at the address of the named object of the creator and the seed. The withdraw and
+    /// deposit functions, when given, are functions of `hook_module` at `hook_address`, which are registered as the
+    /// dispatchable hooks of the asset.
+    public entry fun create(
+        creator: &signer,
+        seed: vector<u8>,
+        maximum_supply: Option<u128>,
+        name: String,
+        symbol: String,
+        decimals: u8,
+        icon_uri: String,
+        project_uri: String,
+        hook_address: address,
+        hook_module: String,
+        withdraw_function: Option<String>,
+        deposit_function: Option<String>,
+    ) {
+        let constructor_ref = &object::create_named_object(creator, seed);
+        primary_fungible_store::create_primary_store_enabled_fungible_asset(
+            constructor_ref,
+            maximum_supply,
+            name,
+            symbol,
+            decimals,
+            icon_uri,
+            project_uri,
+        );
+        if (option::is_some(&withdraw_function) || option::is_some(&deposit_function)) {
+            dispatchable_fungible_asset::register_dispatch_functions(
+                constructor_ref,
+                hook(hook_address, hook_module, withdraw_function),
+                hook(hook_address, hook_module, deposit_function),
+                option::none(),
+            );
+        };
+
+        let metadata_object_signer = object::generate_signer(constructor_ref);
+        move_to(
+            &metadata_object_signer,
+            IssuerRefs {
+                mint_ref: fungible_asset::generate_mint_ref(constructor_ref),
+                burn_ref: fungible_asset::generate_burn_ref(constructor_ref),
+                transfer_ref: fungible_asset::generate_transfer_ref(constructor_ref),
+            }
+        );
+    }
+
+    /// Mint to the primary store of an account.
+    public entry fun mint(admin: &signer, asset: Object<Metadata>, to: address, amount: u64) acquires IssuerRefs {
+        let refs = authorized_borrow_refs(admin, asset);
+        primary_fungible_store::mint(&refs.mint_ref, to, amount);
+    }
+
+    /// Burn from the primary store of an account.
+    public entry fun burn(admin: &signer, asset: Object<Metadata>, from: address, amount: u64) acquires IssuerRefs {
+        let refs = authorized_borrow_refs(admin, asset);
+        primary_fungible_store::burn(&refs.burn_ref, from, amount);
+    }
+
+    /// Burn from any store of the fungible asset.
+    public entry fun burn_from_store(admin: &signer, store: Object<FungibleStore>, amount: u64) acquires IssuerRefs {
+        let refs = authorized_borrow_refs(admin, fungible_asset::store_metadata(store));
+        fungible_asset::burn_from(&refs.burn_ref, store, amount);
+    }
+
+    /// Freeze or unfreeze the primary store of an account, so it cannot, or can again, send or receive the asset.
+    public entry fun set_primary_store_frozen(
+        admin: &signer,
+        asset: Object<Metadata>,
+        account: address,
+        frozen: bool,
+    ) acquires IssuerRefs {
+        let refs = authorized_borrow_refs(admin, asset);
+        primary_fungible_store::set_frozen_flag(&refs.transfer_ref, account, frozen);
+    }
+
+    /// Freeze or unfreeze any store of the fungible asset.
+    public entry fun set_store_frozen(admin: &signer, store: Object<FungibleStore>, frozen: bool) acquires IssuerRefs {
+        let refs = authorized_borrow_refs(admin, fungible_asset::store_metadata(store));
+        fungible_asset::set_frozen_flag(&refs.transfer_ref, store, frozen);
+    }
+
+    fun hook(hook_address: address, hook_module: String, function_name: Option<String>): Option<FunctionInfo> {
+        if (option::is_some(&function_name)) {
+            option::some(
+                function_info::new_function_info_from_address(
+                    hook_address,
+                    hook_module,
+                    option::destroy_some(function_name),
+                )
+            )
+        } else {
+            option::none()
+        }
+    }
+
+    /// Borrow the refs of `asset`, validating that the signer is the owner of its metadata object.
+    inline fun authorized_borrow_refs(owner: &signer, asset: Object<Metadata>): &IssuerRefs acquires IssuerRefs {
+        assert!(object::is_owner(asset, signer::address_of(owner)), error::permission_denied(ENOT_OWNER));
+        borrow_global<IssuerRefs>(object::object_address(&asset))
+    }
+}
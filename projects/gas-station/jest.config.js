@@ -0,0 +1,8 @@
+/** @type {import("jest").Config} */
+module.exports = {
+    testEnvironment: 'node',
+    transform: {
+        // The tests run as CommonJS, while the build bundles ES modules
+        '^.+\\.ts$': ['ts-jest', {tsconfig: {module: 'commonjs', moduleResolution: 'node', esModuleInterop: true}}],
+    },
+};
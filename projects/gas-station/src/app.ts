@@ -0,0 +1,76 @@
+import express, {NextFunction, Request, Response} from 'express';
+import {AccountAuthenticator, Deserializer, SimpleTransaction} from '@aptos-labs/ts-sdk';
+import {GasStationError, GasStationErrorCode} from './errors';
+import {GasStation, SponsorRequest} from './gasStation';
+
+/**
+ * The body of a `POST /signAndSubmit` request: the BCS serialized `SimpleTransaction` and sender
+ * `AccountAuthenticator`, as hex strings.
+ */
+export type SignAndSubmitRequest = {
+    transaction: string;
+    senderAuthenticator: string;
+};
+
+/**
+ * The body of a `GET /feePayer` response.
+ */
+export type FeePayerResponse = {
+    address: string;
+};
+
+function parseSponsorRequest(body: Partial<SignAndSubmitRequest> | undefined): SponsorRequest {
+    if (typeof body?.transaction !== 'string') {
+        throw new GasStationError(GasStationErrorCode.InvalidRequest, 'transaction is required');
+    }
+    if (typeof body.senderAuthenticator !== 'string') {
+        throw new GasStationError(GasStationErrorCode.InvalidRequest, 'senderAuthenticator is required');
+    }
+    try {
+        return {
+            transaction: SimpleTransaction.deserialize(Deserializer.fromHex(body.transaction)),
+            senderAuthenticator: AccountAuthenticator.deserialize(Deserializer.fromHex(body.senderAuthenticator)),
+        };
+    } catch {
+        throw new GasStationError(GasStationErrorCode.InvalidRequest, 'transaction or senderAuthenticator is malformed');
+    }
+}
+
+/**
+ * Creates the HTTP API of a gas station.  Refused and failed requests are answered with a
+ * `GasStationErrorResponse`.
+ */
+export function createApp(gasStation: GasStation): express.Express {
+    const app = express();
+    app.use(express.json());
+
+    app.get('/feePayer', (req: Request, res: Response) => {
+        const response: FeePayerResponse = {address: gasStation.feePayerAddress.toString()};
+        res.json(response);
+    });
+
+    app.post('/signAndSubmit', async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            res.json(await gasStation.sponsor(parseSponsorRequest(req.body)));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+        if (error instanceof GasStationError) {
+            res.status(error.status).json(error.toResponse());
+            return;
+        }
+        if (error instanceof SyntaxError) {
+            const invalidRequest = new GasStationError(GasStationErrorCode.InvalidRequest, 'Request body is not JSON');
+            res.status(invalidRequest.status).json(invalidRequest.toResponse());
+            return;
+        }
+        console.error('Error processing request:', error);
+        const internalError = new GasStationError(GasStationErrorCode.InternalError, 'Internal error');
+        res.status(internalError.status).json(internalError.toResponse());
+    });
+
+    return app;
+}
@@ -1,52 +1,49 @@
-import axios from 'axios';
-import { Account, Aptos, AptosConfig, Network, } from '@aptos-labs/ts-sdk';
-
-const main = async () => {
-    const config = new AptosConfig({ network: Network.DEVNET });
-    const aptos = new Aptos(config);
-
-    // Create sender and recipient accounts
-    const alice = Account.generate();
-    const bob = Account.generate();
-
-    console.log("Alice's address:", alice.accountAddress.toStringLong());
-    console.log("Bob's address:", bob.accountAddress.toStringLong());
-
-    // Fund Alice's account
-    await aptos.fundAccount({ accountAddress: alice.accountAddress, amount: 100_000_000 });
-
-    const transaction = await aptos.transaction.build.simple({
-        sender: alice.accountAddress,
-        withFeePayer: true,
-        data: {
-            function: "0x1::aptos_account::transfer",
-            functionArguments: [bob.accountAddress, 100],
-        },
-    });
-
-    // Sign the transaction as Alice
-    const senderAuthenticator = aptos.transaction.sign({ signer: alice, transaction });
-
-    // Send the transaction to the sponsor server
-    const response = await axios.post(
-        "http://localhost:3000/signAndSubmit",
-        {
-            transactionBytes: Array.from(transaction.bcsToBytes()),
-            senderAuthenticator: Array.from(senderAuthenticator.bcsToBytes()),
-        },
-        {
-            headers: {
-                "Content-Type": "application/json",
-            },
+import axios, {AxiosInstance, isAxiosError} from 'axios';
+import {AccountAddress, AccountAuthenticator, SimpleTransaction} from '@aptos-labs/ts-sdk';
+import {FeePayerResponse, SignAndSubmitRequest} from './app';
+import {GasStationError, GasStationErrorCode, GasStationErrorResponse} from './errors';
+import {SponsoredTransaction} from './gasStation';
+
+/**
+ * A client for the HTTP API of a gas station.  Refused requests are thrown as a `GasStationError` with the code the
+ * gas station answered with.
+ */
+export class GasStationClient {
+    private readonly http: AxiosInstance;
+
+    constructor(baseURL: string) {
+        this.http = axios.create({baseURL, headers: {'Content-Type': 'application/json'}});
+    }
+
+    async getFeePayerAddress(): Promise<AccountAddress> {
+        const {address} = await this.request<FeePayerResponse>(() => this.http.get('/feePayer'));
+        return AccountAddress.from(address);
+    }
+
+    /**
+     * Has the gas station pay for a transaction built with `withFeePayer: true` and signed by its sender, and waits
+     * for it to be committed.
+     */
+    async signAndSubmit(args: {
+        transaction: SimpleTransaction;
+        senderAuthenticator: AccountAuthenticator;
+    }): Promise<SponsoredTransaction> {
+        const body: SignAndSubmitRequest = {
+            transaction: args.transaction.bcsToHex().toString(),
+            senderAuthenticator: args.senderAuthenticator.bcsToHex().toString(),
+        };
+        return this.request<SponsoredTransaction>(() => this.http.post('/signAndSubmit', body));
+    }
+
+    private async request<T>(send: () => Promise<{ data: T }>): Promise<T> {
+        try {
+            return (await send()).data;
+        } catch (error) {
+            const response = isAxiosError<GasStationErrorResponse>(error) ? error.response?.data : undefined;
+            if (response?.error && Object.values(GasStationErrorCode).includes(response.error.code)) {
+                throw new GasStationError(response.error.code, response.error.message);
+            }
+            throw error;
         }
-    );
-
-
-    const { transactionHash } = response.data;
-
-    console.log("Transaction submitted. Hash:", transactionHash);
-    const executedTx = await aptos.waitForTransaction({ transactionHash: transactionHash });
-    console.log("Executed transaction:", executedTx);
-};
-
-main();
+    }
+}
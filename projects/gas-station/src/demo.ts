@@ -0,0 +1,38 @@
+import {Account, Aptos, AptosConfig, Network, NetworkToNetworkName} from '@aptos-labs/ts-sdk';
+import {GasStationClient} from './client';
+
+const APTOS_NETWORK = NetworkToNetworkName[process.env.APTOS_NETWORK || ''] || Network.DEVNET;
+const GAS_STATION_URL = process.env.GAS_STATION_URL || 'http://localhost:3000';
+
+const main = async () => {
+    const aptos = new Aptos(new AptosConfig({network: APTOS_NETWORK}));
+    const gasStation = new GasStationClient(GAS_STATION_URL);
+
+    // Create sender and recipient accounts
+    const alice = Account.generate();
+    const bob = Account.generate();
+
+    console.log("Alice's address:", alice.accountAddress.toStringLong());
+    console.log("Bob's address:", bob.accountAddress.toStringLong());
+    console.log('Fee payer address:', (await gasStation.getFeePayerAddress()).toStringLong());
+
+    // Fund Alice's account
+    await aptos.fundAccount({accountAddress: alice.accountAddress, amount: 100_000_000});
+
+    const transaction = await aptos.transaction.build.simple({
+        sender: alice.accountAddress,
+        withFeePayer: true,
+        data: {
+            function: '0x1::aptos_account::transfer',
+            functionArguments: [bob.accountAddress, 100],
+        },
+    });
+
+    // Sign the transaction as Alice, and have the gas station pay for it
+    const senderAuthenticator = aptos.transaction.sign({signer: alice, transaction});
+    const sponsored = await gasStation.signAndSubmit({transaction, senderAuthenticator});
+
+    console.log('Sponsored transaction:', sponsored);
+};
+
+main();
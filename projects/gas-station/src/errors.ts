@@ -0,0 +1,58 @@
+/**
+ * The reasons the gas station refuses to sponsor a transaction, as returned in the `code` of an error response.
+ */
+export enum GasStationErrorCode {
+    InvalidRequest = 'INVALID_REQUEST',
+    InvalidSignature = 'INVALID_SIGNATURE',
+    PolicyViolation = 'POLICY_VIOLATION',
+    RateLimited = 'RATE_LIMITED',
+    BudgetExceeded = 'BUDGET_EXCEEDED',
+    ReplayedTransaction = 'REPLAYED_TRANSACTION',
+    SimulationFailed = 'SIMULATION_FAILED',
+    SubmissionFailed = 'SUBMISSION_FAILED',
+    InternalError = 'INTERNAL_ERROR',
+}
+
+const STATUS_CODES: Record<GasStationErrorCode, number> = {
+    [GasStationErrorCode.InvalidRequest]: 400,
+    [GasStationErrorCode.InvalidSignature]: 401,
+    [GasStationErrorCode.PolicyViolation]: 403,
+    [GasStationErrorCode.RateLimited]: 429,
+    [GasStationErrorCode.BudgetExceeded]: 429,
+    [GasStationErrorCode.ReplayedTransaction]: 409,
+    [GasStationErrorCode.SimulationFailed]: 422,
+    [GasStationErrorCode.SubmissionFailed]: 502,
+    [GasStationErrorCode.InternalError]: 500,
+};
+
+/**
+ * The body of every error response of the gas station.
+ */
+export type GasStationErrorResponse = {
+    error: {
+        code: GasStationErrorCode;
+        message: string;
+    };
+};
+
+/**
+ * An error the gas station reports to its callers.  The server turns it into an error response with the matching
+ * HTTP status, and the client turns such a response back into a `GasStationError`.
+ */
+export class GasStationError extends Error {
+    readonly code: GasStationErrorCode;
+
+    constructor(code: GasStationErrorCode, message: string) {
+        super(message);
+        this.name = 'GasStationError';
+        this.code = code;
+    }
+
+    get status(): number {
+        return STATUS_CODES[this.code];
+    }
+
+    toResponse(): GasStationErrorResponse {
+        return {error: {code: this.code, message: this.message}};
+    }
+}
@@ -0,0 +1,256 @@
+import {
+    Account,
+    AccountAddress,
+    AccountAuthenticator,
+    Aptos,
+    FeePayerRawTransaction,
+    PublicKey,
+    RAW_TRANSACTION_WITH_DATA_SALT,
+    Signature,
+    SimpleTransaction,
+    UserTransactionResponse,
+    generateSigningMessage,
+} from '@aptos-labs/ts-sdk';
+import {GasStationError, GasStationErrorCode} from './errors';
+import {GasStationPolicy, checkPolicy, createPolicy} from './policy';
+
+/**
+ * A transaction to sponsor: built with `withFeePayer: true` and signed by its sender.
+ */
+export type SponsorRequest = {
+    transaction: SimpleTransaction;
+    senderAuthenticator: AccountAuthenticator;
+};
+
+/**
+ * The outcome of a sponsored transaction once it has been committed.  Amounts are decimal strings, in octas.
+ */
+export type SponsoredTransaction = {
+    transactionHash: string;
+    success: boolean;
+    vmStatus: string;
+    gasUsed: string;
+    gasFee: string;
+};
+
+export type GasStationOptions = {
+    aptos: Aptos;
+    feePayer: Account;
+    policy?: Partial<GasStationPolicy>;
+};
+
+type Spending = {at: number; amount: bigint};
+
+/**
+ * Signs and submits transactions as their fee payer, within the limits of a {@link GasStationPolicy}.
+ *
+ * Before signing, a transaction has to pass the policy, come from a sender within its rate limit and budget, carry a
+ * valid sender signature, not have been sponsored before, and succeed in simulation.  The gas fee is reserved from the
+ * sender's budget up front at the transaction's maximum, and settled at the actual fee once the transaction has been
+ * committed.  Rate limits, budgets and replay protection are kept in memory, so they apply to a single instance.
+ */
+export class GasStation {
+    readonly aptos: Aptos;
+
+    readonly feePayer: Account;
+
+    readonly policy: GasStationPolicy;
+
+    // The times of the recent requests of every sender, in milliseconds
+    private readonly requests = new Map<string, number[]>();
+
+    // The gas fees charged to every sender in the current budget period
+    private readonly spending = new Map<string, Spending[]>();
+
+    // The expiration timestamp of every sponsored sender and sequence number
+    private readonly sponsored = new Map<string, bigint>();
+
+    constructor(options: GasStationOptions) {
+        this.aptos = options.aptos;
+        this.feePayer = options.feePayer;
+        this.policy = createPolicy(options.policy);
+    }
+
+    get feePayerAddress(): AccountAddress {
+        return this.feePayer.accountAddress;
+    }
+
+    async sponsor(request: SponsorRequest): Promise<SponsoredTransaction> {
+        const {transaction, senderAuthenticator} = request;
+        const now = Date.now();
+        const nowSeconds = Math.floor(now / 1000);
+        this.checkFeePayer(transaction);
+        const {rawTransaction} = transaction;
+        const sender = rawTransaction.sender.toString();
+
+        this.checkRateLimit(sender, now);
+        checkPolicy(this.policy, transaction, nowSeconds);
+        this.verifySenderSignature(transaction, senderAuthenticator);
+
+        const key = `${sender}:${rawTransaction.sequence_number}`;
+        this.pruneSponsored(nowSeconds);
+        if (this.sponsored.has(key)) {
+            throw new GasStationError(
+                GasStationErrorCode.ReplayedTransaction,
+                `Sequence number ${rawTransaction.sequence_number} of ${sender} has already been sponsored`,
+            );
+        }
+        const maxFee = rawTransaction.max_gas_amount * rawTransaction.gas_unit_price;
+        const reservation = this.reserve(rawTransaction.sender, maxFee, now);
+        this.sponsored.set(key, rawTransaction.expiration_timestamp_secs);
+
+        let hash: string;
+        try {
+            transaction.feePayerAddress = this.feePayer.accountAddress;
+            await this.simulate(transaction, senderAuthenticator);
+            const feePayerAuthenticator = this.aptos.transaction.signAsFeePayer({signer: this.feePayer, transaction});
+            ({hash} = await this.aptos.transaction.submit.simple({
+                transaction,
+                senderAuthenticator,
+                feePayerAuthenticator,
+            }));
+        } catch (error) {
+            // Nothing reached the chain, so the sender may try again
+            this.sponsored.delete(key);
+            reservation.amount = BigInt(0);
+            if (error instanceof GasStationError) throw error;
+            throw new GasStationError(GasStationErrorCode.SubmissionFailed, `Submission failed: ${messageOf(error)}`);
+        }
+
+        let committed: UserTransactionResponse;
+        try {
+            committed = (await this.aptos.waitForTransaction({
+                transactionHash: hash,
+                options: {checkSuccess: false},
+            })) as UserTransactionResponse;
+        } catch (error) {
+            // The reservation is kept, as the transaction may still be committed
+            throw new GasStationError(
+                GasStationErrorCode.SubmissionFailed,
+                `Transaction ${hash} was submitted but not confirmed: ${messageOf(error)}`,
+            );
+        }
+        const gasFee = BigInt(committed.gas_used) * rawTransaction.gas_unit_price;
+        reservation.amount = gasFee;
+        return {
+            transactionHash: hash,
+            success: committed.success,
+            vmStatus: committed.vm_status,
+            gasUsed: committed.gas_used,
+            gasFee: gasFee.toString(),
+        };
+    }
+
+    /**
+     * The gas fees charged to a sender in the current budget period, in octas.
+     */
+    spent(sender: AccountAddress, now = Date.now()): bigint {
+        const since = now - this.policy.budgetPeriodSeconds * 1000;
+        const spending = (this.spending.get(sender.toString()) ?? []).filter(({at}) => at > since);
+        this.spending.set(sender.toString(), spending);
+        return spending.reduce((total, {amount}) => total + amount, BigInt(0));
+    }
+
+    private checkFeePayer(transaction: SimpleTransaction): void {
+        const {feePayerAddress} = transaction;
+        if (!feePayerAddress) {
+            throw new GasStationError(GasStationErrorCode.InvalidRequest, 'Transaction is not a fee payer transaction');
+        }
+        if (!feePayerAddress.equals(AccountAddress.ZERO) && !feePayerAddress.equals(this.feePayer.accountAddress)) {
+            throw new GasStationError(GasStationErrorCode.InvalidRequest, 'Transaction names another fee payer');
+        }
+    }
+
+    private checkRateLimit(sender: string, now: number): void {
+        const since = now - this.policy.rateLimitWindowSeconds * 1000;
+        const requests = (this.requests.get(sender) ?? []).filter((at) => at > since);
+        if (requests.length >= this.policy.maxRequests) {
+            this.requests.set(sender, requests);
+            throw new GasStationError(GasStationErrorCode.RateLimited, `Too many requests from ${sender}`);
+        }
+        requests.push(now);
+        this.requests.set(sender, requests);
+    }
+
+    private reserve(sender: AccountAddress, maxFee: bigint, now: number): Spending {
+        const spent = this.spent(sender, now);
+        if (spent + maxFee > BigInt(this.policy.senderBudget)) {
+            throw new GasStationError(
+                GasStationErrorCode.BudgetExceeded,
+                `A maximum fee of ${maxFee} exceeds the remaining budget of ${sender}`,
+            );
+        }
+        const reservation = {at: now, amount: maxFee};
+        this.spending.get(sender.toString())!.push(reservation);
+        return reservation;
+    }
+
+    private pruneSponsored(nowSeconds: number): void {
+        this.sponsored.forEach((expiration, key) => {
+            if (expiration <= BigInt(nowSeconds)) this.sponsored.delete(key);
+        });
+    }
+
+    /**
+     * Checks the sender signature locally, so that invalid requests are turned away before simulating them.  The sender
+     * may have signed either with the fee payer address left empty, or with the address of this fee payer.
+     * Multi-key signatures, and signatures that can't be verified locally, are left to the chain.
+     */
+    private verifySenderSignature(transaction: SimpleTransaction, authenticator: AccountAuthenticator): void {
+        let publicKey: PublicKey;
+        let signature: Signature;
+        if (authenticator.isEd25519() || authenticator.isSingleKey()) {
+            publicKey = authenticator.public_key;
+            signature = authenticator.signature;
+        } else if (authenticator.isMultiKey() || authenticator.isMultiEd25519()) {
+            return;
+        } else {
+            throw new GasStationError(GasStationErrorCode.InvalidSignature, 'Unsupported sender authenticator');
+        }
+
+        let valid: boolean;
+        try {
+            valid = [AccountAddress.ZERO, this.feePayer.accountAddress].some((feePayerAddress) => {
+                const rawTransaction = new FeePayerRawTransaction(transaction.rawTransaction, [], feePayerAddress);
+                const message = generateSigningMessage(rawTransaction.bcsToBytes(), RAW_TRANSACTION_WITH_DATA_SALT);
+                return publicKey.verifySignature({message, signature});
+            });
+        } catch {
+            // e.g. a keyless signature, which is verified against the on-chain configuration
+            return;
+        }
+        if (!valid) {
+            throw new GasStationError(GasStationErrorCode.InvalidSignature, 'Invalid sender signature');
+        }
+    }
+
+    private async simulate(transaction: SimpleTransaction, senderAuthenticator: AccountAuthenticator): Promise<void> {
+        let signerPublicKey: PublicKey | undefined;
+        if (senderAuthenticator.isEd25519() || senderAuthenticator.isSingleKey()) {
+            signerPublicKey = senderAuthenticator.public_key;
+        } else if (senderAuthenticator.isMultiKey()) {
+            signerPublicKey = senderAuthenticator.public_keys;
+        }
+
+        let simulated: UserTransactionResponse;
+        try {
+            [simulated] = await this.aptos.transaction.simulate.simple({
+                transaction,
+                signerPublicKey,
+                feePayerPublicKey: this.feePayer.publicKey,
+            });
+        } catch (error) {
+            throw new GasStationError(GasStationErrorCode.SimulationFailed, `Simulation failed: ${messageOf(error)}`);
+        }
+        if (!simulated.success) {
+            throw new GasStationError(
+                GasStationErrorCode.SimulationFailed,
+                `Simulation failed with ${simulated.vm_status}`,
+            );
+        }
+    }
+}
+
+function messageOf(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,95 @@
+import {AccountAddress, SimpleTransaction, TransactionPayloadEntryFunction} from '@aptos-labs/ts-sdk';
+import {GasStationError, GasStationErrorCode} from './errors';
+
+/**
+ * What the gas station is willing to pay for.
+ *
+ * Entry functions are written as `address::module::function`, and `address::module::*` allows every function of a
+ * module.  Leaving out `allowedSenders` sponsors every sender.  Budgets and rate limits apply to each sender on its own.
+ */
+export type GasStationPolicy = {
+    allowedFunctions: string[];
+    allowedSenders?: string[];
+    maxGasAmount: number;
+    maxGasUnitPrice: number;
+    /** The latest expiration accepted, in seconds from now. */
+    maxExpirationSeconds: number;
+    /** The most a sender may spend in gas fees per budget period, in octas. */
+    senderBudget: number;
+    budgetPeriodSeconds: number;
+    /** The most requests a sender may make per rate limit window. */
+    maxRequests: number;
+    rateLimitWindowSeconds: number;
+};
+
+export const DEFAULT_POLICY: GasStationPolicy = {
+    allowedFunctions: ['0x1::aptos_account::transfer'],
+    maxGasAmount: 200_000,
+    maxGasUnitPrice: 1_000,
+    maxExpirationSeconds: 60,
+    senderBudget: 100_000_000,
+    budgetPeriodSeconds: 24 * 60 * 60,
+    maxRequests: 10,
+    rateLimitWindowSeconds: 60,
+};
+
+function normalizeFunction(functionId: string): string {
+    const [address, moduleName, functionName] = functionId.split('::');
+    if (!address || !moduleName || !functionName) {
+        throw new Error(`Invalid entry function in policy: ${functionId}`);
+    }
+    return `${AccountAddress.from(address).toString()}::${moduleName}::${functionName}`;
+}
+
+/**
+ * Fills in the defaults for a partial policy, e.g. one read from a configuration file, and normalizes its addresses.
+ */
+export function createPolicy(policy: Partial<GasStationPolicy> = {}): GasStationPolicy {
+    const merged = {...DEFAULT_POLICY, ...policy};
+    return {
+        ...merged,
+        allowedFunctions: merged.allowedFunctions.map(normalizeFunction),
+        allowedSenders: merged.allowedSenders?.map((sender) => AccountAddress.from(sender).toString()),
+    };
+}
+
+function violation(message: string): GasStationError {
+    return new GasStationError(GasStationErrorCode.PolicyViolation, message);
+}
+
+/**
+ * Checks a transaction against the allow-lists and limits of a policy, throwing a `PolicyViolation` error for the
+ * first one it breaks.
+ */
+export function checkPolicy(policy: GasStationPolicy, transaction: SimpleTransaction, nowSeconds: number): void {
+    const {rawTransaction} = transaction;
+    const sender = rawTransaction.sender.toString();
+    if (policy.allowedSenders && !policy.allowedSenders.includes(sender)) {
+        throw violation(`Sender ${sender} is not sponsored`);
+    }
+
+    if (!(rawTransaction.payload instanceof TransactionPayloadEntryFunction)) {
+        throw violation('Only entry function payloads are sponsored');
+    }
+    const {module_name: moduleId, function_name: functionName} = rawTransaction.payload.entryFunction;
+    const moduleName = `${moduleId.address.toString()}::${moduleId.name.identifier}`;
+    const functionId = `${moduleName}::${functionName.identifier}`;
+    if (!policy.allowedFunctions.includes(functionId) && !policy.allowedFunctions.includes(`${moduleName}::*`)) {
+        throw violation(`Entry function ${functionId} is not sponsored`);
+    }
+
+    if (rawTransaction.max_gas_amount > BigInt(policy.maxGasAmount)) {
+        throw violation(`Max gas amount ${rawTransaction.max_gas_amount} exceeds ${policy.maxGasAmount}`);
+    }
+    if (rawTransaction.gas_unit_price > BigInt(policy.maxGasUnitPrice)) {
+        throw violation(`Gas unit price ${rawTransaction.gas_unit_price} exceeds ${policy.maxGasUnitPrice}`);
+    }
+
+    const expiration = rawTransaction.expiration_timestamp_secs;
+    if (expiration <= BigInt(nowSeconds)) {
+        throw violation('Transaction has expired');
+    }
+    if (expiration > BigInt(nowSeconds + policy.maxExpirationSeconds)) {
+        throw violation(`Transaction expires more than ${policy.maxExpirationSeconds} seconds from now`);
+    }
+}
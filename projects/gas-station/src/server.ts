@@ -1,82 +1,44 @@
-import express, { Request, Response } from 'express';
-import {
-    Account, AccountAuthenticator,
-    Aptos,
-    AptosConfig,
-    Deserializer,
-    Network,
-    NetworkToNetworkName,
-    SimpleTransaction,
-} from '@aptos-labs/ts-sdk';
-
-const app = express();
-app.use(express.json());
-
-const PORT = 3000;
+import 'dotenv/config';
+import {readFileSync} from 'fs';
+import {Account, Aptos, AptosConfig, Ed25519PrivateKey, Network, NetworkToNetworkName} from '@aptos-labs/ts-sdk';
+import {createApp} from './app';
+import {GasStation} from './gasStation';
+import {GasStationPolicy} from './policy';
+
+// Configured through the environment, or a .env file:
+//   APTOS_NETWORK               - the network to sponsor transactions on, e.g. `local` for a local node
+//   FEE_PAYER_PRIVATE_KEY       - the Ed25519 private key of the fee payer; without it, a new fee payer is generated
+//                                 and funded, which works on devnet and local networks only
+//   GAS_STATION_POLICY          - the path of a JSON file with a partial `GasStationPolicy`
+//   PORT                        - the port to listen on
+const PORT = Number(process.env.PORT || 3000);
 
 const APTOS_NETWORK = NetworkToNetworkName[process.env.APTOS_NETWORK || ''] || Network.DEVNET;
 
-const config = new AptosConfig({network: APTOS_NETWORK});
-const aptos = new Aptos(config);
+const aptos = new Aptos(new AptosConfig({network: APTOS_NETWORK}));
 
-const feePayerAccount = Account.generate();
-console.log(`feePayerAccount's address is: ${feePayerAccount.accountAddress}`);
-
-// Fund the feePayerAccount account
-const fundFeePayerAccount = async () => {
-    console.log('\n=== Funding feePayerAccount ===\n');
-    await aptos.fundAccount({
-        accountAddress: feePayerAccount.accountAddress,
-        amount: 100_000_000,
-    });
-    console.log('feePayerAccount funded.');
+const loadPolicy = (): Partial<GasStationPolicy> => {
+    const path = process.env.GAS_STATION_POLICY;
+    return path ? JSON.parse(readFileSync(path, 'utf8')) : {};
 };
 
-app.post('/signAndSubmit', async (req: Request, res: Response) => {
-    try {
-        const {transactionBytes, senderAuthenticator} = req.body;
-
-        if (!transactionBytes) {
-            return res.status(400).json({error: 'transactionBytes is required'});
-        }
-        if (!senderAuthenticator) {
-            return res.status(400).json({error: 'senderAuthenticator is required'});
-        }
-
-        console.log('\n=== Received Transaction Bytes ===\n');
-
-        // Deserialize the raw transaction
-        const deserializer = new Deserializer(Uint8Array.from(transactionBytes));
-        const transaction = SimpleTransaction.deserialize(deserializer);
-
-        console.log('\n=== Signing Transaction as Sponsor ===\n');
-
-        // Sponsor signs the transaction
-        const feePayerAuthenticator = aptos.transaction.signAsFeePayer({
-            signer: feePayerAccount,
-            transaction,
-        });
-
-        const deserializedSenderAuth = AccountAuthenticator.deserialize(new Deserializer(Uint8Array.from(senderAuthenticator)));
-
-        console.log('\n=== Signed with Fee Payer ===\n');
-        const signedTxnInput = {
-            transaction,
-            senderAuthenticator: deserializedSenderAuth,
-            feePayerAuthenticator,
-        };
-        let response = await aptos.transaction.submit.simple(signedTxnInput);
-        await aptos.waitForTransaction({transactionHash: response.hash});
-        console.log('\n=== Transaction Signed by Sponsor ===\n');
-
-        return res.status(200).json({transactionHash: response.hash});
-    } catch (error) {
-        console.error('Error processing transaction:', error);
-        return res.status(500).json({error: error});
+const loadFeePayer = async (): Promise<Account> => {
+    const privateKey = process.env.FEE_PAYER_PRIVATE_KEY;
+    if (privateKey) {
+        return Account.fromPrivateKey({privateKey: new Ed25519PrivateKey(privateKey)});
     }
-});
+    const feePayer = Account.generate();
+    console.log(`Funding generated fee payer ${feePayer.accountAddress}`);
+    await aptos.fundAccount({accountAddress: feePayer.accountAddress, amount: 100_000_000});
+    return feePayer;
+};
+
+const main = async () => {
+    const gasStation = new GasStation({aptos, feePayer: await loadFeePayer(), policy: loadPolicy()});
+    createApp(gasStation).listen(PORT, () => {
+        console.log(`Gas station for ${APTOS_NETWORK} running on http://localhost:${PORT}`);
+        console.log(`Fee payer address is ${gasStation.feePayerAddress}`);
+    });
+};
 
-app.listen(PORT, async () => {
-    console.log(`Server running on http://localhost:${PORT}`);
-    await fundFeePayerAccount();
-});
+main();
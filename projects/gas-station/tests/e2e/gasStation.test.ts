@@ -0,0 +1,89 @@
+import {AddressInfo} from 'net';
+import {Server} from 'http';
+import {Account, Aptos, AptosConfig, Network} from '@aptos-labs/ts-sdk';
+import {LocalNode} from '@aptos-labs/ts-sdk/dist/common/cli/index.js';
+import {createApp} from '../../src/app';
+import {GasStationClient} from '../../src/client';
+import {GasStationErrorCode} from '../../src/errors';
+import {GasStation} from '../../src/gasStation';
+
+// Runs the gas station server against a local node, which is started unless one is already running
+describe('gas station on a local node', () => {
+    const localNode = new LocalNode({showStdout: false});
+    const aptos = new Aptos(new AptosConfig({network: Network.LOCAL}));
+    const feePayer = Account.generate();
+    let server: Server;
+    let client: GasStationClient;
+
+    beforeAll(async () => {
+        await localNode.run();
+        await aptos.fundAccount({accountAddress: feePayer.accountAddress, amount: 100_000_000});
+        const gasStation = new GasStation({aptos, feePayer});
+        server = createApp(gasStation).listen(0);
+        await new Promise((resolve) => server.once('listening', resolve));
+        client = new GasStationClient(`http://localhost:${(server.address() as AddressInfo).port}`);
+    }, 10 * 60 * 1000);
+
+    afterAll(async () => {
+        server?.close();
+        if (localNode.process) {
+            await localNode.stop();
+        }
+    });
+
+    const transfer = async (
+        sender: Account,
+        functionId: `${string}::${string}::${string}`,
+        typeArguments: string[] = [],
+    ) => {
+        const transaction = await aptos.transaction.build.simple({
+            sender: sender.accountAddress,
+            withFeePayer: true,
+            data: {function: functionId, typeArguments, functionArguments: [Account.generate().accountAddress, 100]},
+        });
+        return {transaction, senderAuthenticator: aptos.transaction.sign({signer: sender, transaction})};
+    };
+
+    const balanceOf = async (account: Account) => {
+        const [balance] = await aptos.view<[string]>({
+            payload: {
+                function: '0x1::coin::balance',
+                typeArguments: ['0x1::aptos_coin::AptosCoin'],
+                functionArguments: [account.accountAddress],
+            },
+        });
+        return BigInt(balance);
+    };
+
+    const codeOf = async (sponsoring: Promise<unknown>) => {
+        try {
+            await sponsoring;
+            return undefined;
+        } catch (error: any) {
+            return error.code;
+        }
+    };
+
+    it('pays for a transfer of the sender', async () => {
+        const sender = Account.generate();
+        await aptos.fundAccount({accountAddress: sender.accountAddress, amount: 1_000});
+        expect((await client.getFeePayerAddress()).equals(feePayer.accountAddress)).toBe(true);
+
+        const feePayerBalance = await balanceOf(feePayer);
+        const sponsored = await client.signAndSubmit(await transfer(sender, '0x1::aptos_account::transfer'));
+        expect(sponsored.success).toBe(true);
+        expect(await balanceOf(sender)).toBe(BigInt(900));
+        expect(feePayerBalance - (await balanceOf(feePayer))).toBe(BigInt(sponsored.gasFee));
+    });
+
+    it('refuses to pay twice for the same transaction, or for a transaction outside the policy', async () => {
+        const sender = Account.generate();
+        await aptos.fundAccount({accountAddress: sender.accountAddress, amount: 1_000});
+        const request = await transfer(sender, '0x1::aptos_account::transfer');
+        await client.signAndSubmit(request);
+        expect(await codeOf(client.signAndSubmit(request))).toBe(GasStationErrorCode.ReplayedTransaction);
+
+        const coinTransfer = await transfer(sender, '0x1::coin::transfer', ['0x1::aptos_coin::AptosCoin']);
+        expect(await codeOf(client.signAndSubmit(coinTransfer))).toBe(GasStationErrorCode.PolicyViolation);
+    });
+});
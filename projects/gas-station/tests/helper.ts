@@ -0,0 +1,38 @@
+import {
+    Account,
+    AccountAddress,
+    ChainId,
+    EntryFunction,
+    RawTransaction,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction,
+    U64,
+} from '@aptos-labs/ts-sdk';
+
+/**
+ * Builds a fee payer transaction calling an entry function, without reading the chain.
+ */
+export function feePayerTransaction(args: {
+    sender: Account;
+    functionId?: `${string}::${string}::${string}`;
+    sequenceNumber?: number;
+    maxGasAmount?: number;
+    gasUnitPrice?: number;
+    expiresInSeconds?: number;
+}): SimpleTransaction {
+    const {sender, sequenceNumber = 0, maxGasAmount = 1_000, gasUnitPrice = 100, expiresInSeconds = 30} = args;
+    const [address, moduleName, functionName] = (args.functionId ?? '0x1::aptos_account::transfer').split('::');
+    const payload = new TransactionPayloadEntryFunction(
+        EntryFunction.build(`${address}::${moduleName}`, functionName, [], [Account.generate().accountAddress, new U64(1)]),
+    );
+    const rawTransaction = new RawTransaction(
+        sender.accountAddress,
+        BigInt(sequenceNumber),
+        payload,
+        BigInt(maxGasAmount),
+        BigInt(gasUnitPrice),
+        BigInt(Math.floor(Date.now() / 1000) + expiresInSeconds),
+        new ChainId(4),
+    );
+    return new SimpleTransaction(rawTransaction, AccountAddress.ZERO);
+}
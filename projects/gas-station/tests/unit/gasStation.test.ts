@@ -0,0 +1,152 @@
+import {Account, AccountAddress, Aptos, AptosConfig, Network} from '@aptos-labs/ts-sdk';
+import {GasStationErrorCode} from '../../src/errors';
+import {GasStation} from '../../src/gasStation';
+import {GasStationPolicy} from '../../src/policy';
+import {feePayerTransaction} from '../helper';
+
+/**
+ * An `Aptos` client stub that simulates, submits and commits every transaction, as `chain` says.
+ */
+function stubAptos() {
+    const chain = {simulationSuccess: true, submitError: undefined as Error | undefined, gasUsed: '10', submitted: 0};
+    const aptos = {
+        config: new AptosConfig({network: Network.LOCAL}),
+        transaction: {
+            simulate: {
+                simple: jest.fn(async () => [
+                    {success: chain.simulationSuccess, vm_status: chain.simulationSuccess ? 'Executed' : 'Move abort'},
+                ]),
+            },
+            signAsFeePayer: jest.fn(({signer, transaction}) => signer.signTransactionWithAuthenticator(transaction)),
+            submit: {
+                simple: jest.fn(async () => {
+                    if (chain.submitError) throw chain.submitError;
+                    chain.submitted += 1;
+                    return {hash: `0x${chain.submitted}`};
+                }),
+            },
+        },
+        waitForTransaction: jest.fn(async () => ({success: true, vm_status: 'Executed', gas_used: chain.gasUsed})),
+    };
+    return {chain, aptos: aptos as unknown as Aptos};
+}
+
+function setup(policy?: Partial<GasStationPolicy>) {
+    const {chain, aptos} = stubAptos();
+    const feePayer = Account.generate();
+    const gasStation = new GasStation({aptos, feePayer, policy});
+    return {chain, gasStation, feePayer};
+}
+
+function signed(sender: Account, args: Omit<Parameters<typeof feePayerTransaction>[0], 'sender'> = {}) {
+    const transaction = feePayerTransaction({sender, ...args});
+    return {transaction, senderAuthenticator: sender.signTransactionWithAuthenticator(transaction)};
+}
+
+async function codeOf(sponsoring: Promise<unknown>): Promise<GasStationErrorCode | undefined> {
+    try {
+        await sponsoring;
+        return undefined;
+    } catch (error: any) {
+        return error.code;
+    }
+}
+
+describe('GasStation', () => {
+    it('sponsors a valid transaction and charges the actual gas fee to the sender', async () => {
+        const {gasStation, feePayer} = setup();
+        const sender = Account.generate();
+        const request = signed(sender, {maxGasAmount: 1_000, gasUnitPrice: 100});
+
+        expect(await gasStation.sponsor(request)).toEqual({
+            transactionHash: '0x1',
+            success: true,
+            vmStatus: 'Executed',
+            gasUsed: '10',
+            gasFee: '1000',
+        });
+        expect(request.transaction.feePayerAddress?.equals(feePayer.accountAddress)).toBe(true);
+        expect(gasStation.spent(sender.accountAddress)).toBe(BigInt(1_000));
+    });
+
+    it('accepts a sender that signed with the address of the fee payer', async () => {
+        const {gasStation, feePayer} = setup();
+        const sender = Account.generate();
+        const transaction = feePayerTransaction({sender});
+        transaction.feePayerAddress = feePayer.accountAddress;
+        const senderAuthenticator = sender.signTransactionWithAuthenticator(transaction);
+        expect((await gasStation.sponsor({transaction, senderAuthenticator})).success).toBe(true);
+    });
+
+    it('refuses transactions without a fee payer, or paid by another one', async () => {
+        const {gasStation} = setup();
+        const sender = Account.generate();
+        const request = signed(sender);
+        request.transaction.feePayerAddress = undefined;
+        expect(await codeOf(gasStation.sponsor(request))).toBe(GasStationErrorCode.InvalidRequest);
+        request.transaction.feePayerAddress = AccountAddress.ONE;
+        expect(await codeOf(gasStation.sponsor(request))).toBe(GasStationErrorCode.InvalidRequest);
+    });
+
+    it('refuses a transaction that breaks the policy or whose sender signature is invalid', async () => {
+        const {chain, gasStation} = setup();
+        const sender = Account.generate();
+        expect(await codeOf(gasStation.sponsor(signed(sender, {functionId: '0x1::coin::transfer'})))).toBe(
+            GasStationErrorCode.PolicyViolation,
+        );
+        // A signature of another transaction
+        const {transaction} = signed(sender, {sequenceNumber: 1});
+        const {senderAuthenticator} = signed(sender, {sequenceNumber: 2});
+        expect(await codeOf(gasStation.sponsor({transaction, senderAuthenticator}))).toBe(
+            GasStationErrorCode.InvalidSignature,
+        );
+        expect(chain.submitted).toBe(0);
+    });
+
+    it('sponsors a sequence number of a sender only once, unless it never reached the chain', async () => {
+        const {chain, gasStation} = setup();
+        const sender = Account.generate();
+        chain.submitError = new Error('mempool is full');
+        expect(await codeOf(gasStation.sponsor(signed(sender)))).toBe(GasStationErrorCode.SubmissionFailed);
+        expect(gasStation.spent(sender.accountAddress)).toBe(BigInt(0));
+
+        chain.submitError = undefined;
+        await gasStation.sponsor(signed(sender));
+        expect(await codeOf(gasStation.sponsor(signed(sender)))).toBe(GasStationErrorCode.ReplayedTransaction);
+        expect(chain.submitted).toBe(1);
+    });
+
+    it('does not pay for a transaction that fails in simulation', async () => {
+        const {chain, gasStation} = setup();
+        const sender = Account.generate();
+        chain.simulationSuccess = false;
+        expect(await codeOf(gasStation.sponsor(signed(sender)))).toBe(GasStationErrorCode.SimulationFailed);
+        expect(chain.submitted).toBe(0);
+        expect(gasStation.spent(sender.accountAddress)).toBe(BigInt(0));
+    });
+
+    it('limits the requests of each sender per window', async () => {
+        const {gasStation} = setup({maxRequests: 2});
+        const [sender, other] = [Account.generate(), Account.generate()];
+        await gasStation.sponsor(signed(sender, {sequenceNumber: 0}));
+        await gasStation.sponsor(signed(sender, {sequenceNumber: 1}));
+        expect(await codeOf(gasStation.sponsor(signed(sender, {sequenceNumber: 2})))).toBe(
+            GasStationErrorCode.RateLimited,
+        );
+        expect(await codeOf(gasStation.sponsor(signed(other)))).toBeUndefined();
+    });
+
+    it('reserves the maximum fee from the budget of the sender until the transaction is committed', async () => {
+        const {chain, gasStation} = setup({senderBudget: 150_000});
+        const sender = Account.generate();
+        // The maximum fee of 100000 fits the budget, but the remaining 50000 don't fit a second one
+        chain.gasUsed = '500';
+        await gasStation.sponsor(signed(sender, {sequenceNumber: 0, maxGasAmount: 1_000}));
+        expect(gasStation.spent(sender.accountAddress)).toBe(BigInt(50_000));
+        await gasStation.sponsor(signed(sender, {sequenceNumber: 1, maxGasAmount: 1_000}));
+        expect(await codeOf(gasStation.sponsor(signed(sender, {sequenceNumber: 2, maxGasAmount: 1_000})))).toBe(
+            GasStationErrorCode.BudgetExceeded,
+        );
+        expect(gasStation.spent(sender.accountAddress)).toBe(BigInt(100_000));
+    });
+});
@@ -0,0 +1,59 @@
+import {Account, SimpleTransaction} from '@aptos-labs/ts-sdk';
+import {GasStationErrorCode} from '../../src/errors';
+import {checkPolicy, createPolicy} from '../../src/policy';
+import {feePayerTransaction} from '../helper';
+
+const sender = Account.generate();
+const now = () => Math.floor(Date.now() / 1000);
+
+function violationOf(check: () => void): string | undefined {
+    try {
+        check();
+        return undefined;
+    } catch (error: any) {
+        expect(error.code).toBe(GasStationErrorCode.PolicyViolation);
+        return error.message;
+    }
+}
+
+describe('checkPolicy', () => {
+    const check = (transaction: SimpleTransaction, policy = createPolicy()) =>
+        violationOf(() => checkPolicy(policy, transaction, now()));
+
+    it('allows the listed entry functions and every function of a listed module', () => {
+        const policy = createPolicy({allowedFunctions: ['0x01::aptos_account::transfer', '0x1::coin::*']});
+        expect(check(feePayerTransaction({sender}), policy)).toBeUndefined();
+        expect(check(feePayerTransaction({sender, functionId: '0x1::coin::transfer'}), policy)).toBeUndefined();
+        expect(check(feePayerTransaction({sender, functionId: '0x1::aptos_account::create_account'}), policy)).toBe(
+            'Entry function 0x1::aptos_account::create_account is not sponsored',
+        );
+    });
+
+    it('only sponsors the allowed senders, if any are listed', () => {
+        const policy = createPolicy({allowedSenders: [sender.accountAddress.toStringLong()]});
+        expect(check(feePayerTransaction({sender}), policy)).toBeUndefined();
+        const other = Account.generate();
+        expect(check(feePayerTransaction({sender: other}), policy)).toBe(`Sender ${other.accountAddress} is not sponsored`);
+    });
+
+    it('limits the gas amount and the gas unit price', () => {
+        const policy = createPolicy({maxGasAmount: 1_000, maxGasUnitPrice: 100});
+        expect(check(feePayerTransaction({sender, maxGasAmount: 1_001}), policy)).toBe(
+            'Max gas amount 1001 exceeds 1000',
+        );
+        expect(check(feePayerTransaction({sender, gasUnitPrice: 101}), policy)).toBe('Gas unit price 101 exceeds 100');
+    });
+
+    it('only sponsors transactions expiring within the expiration window', () => {
+        const policy = createPolicy({maxExpirationSeconds: 60});
+        expect(check(feePayerTransaction({sender, expiresInSeconds: 60}), policy)).toBeUndefined();
+        expect(check(feePayerTransaction({sender, expiresInSeconds: 0}), policy)).toBe('Transaction has expired');
+        expect(check(feePayerTransaction({sender, expiresInSeconds: 120}), policy)).toBe(
+            'Transaction expires more than 60 seconds from now',
+        );
+    });
+
+    it('rejects an invalid entry function in the policy', () => {
+        expect(() => createPolicy({allowedFunctions: ['0x1::aptos_account']})).toThrow('Invalid entry function');
+    });
+});
@@ -0,0 +1,69 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import type { AccountAuthenticator } from "../transactions/authenticator/account";
+import type { AccountAddress } from "../core/accountAddress";
+import type { AccountPublicKey, Signature } from "../core/crypto";
+import type { HexInput } from "../types";
+import type { AnyRawTransaction } from "../transactions/types";
+import type { Account } from "./Account";
+
+/**
+ * A signer whose private key is not held in process memory, e.g. a key in a cloud KMS, an HSM, a hardware wallet or a
+ * remote signing service.  It mirrors the signing methods of `Account`, but signs asynchronously.
+ *
+ * An `AsyncSigner` can be used wherever a transaction is signed: `signTransaction`, `signAndSubmitTransaction`, the
+ * `Sign` API and `TransactionWorker`.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export interface AsyncSigner {
+  /**
+   * Public key associated with the signer, which is used to simulate transactions
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  readonly publicKey: AccountPublicKey;
+
+  /**
+   * Account address associated with the signer
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  readonly accountAddress: AccountAddress;
+
+  /**
+   * Sign a message, resolving to the AccountAuthenticator containing the signature, together with the public key.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  signWithAuthenticator(message: HexInput): Promise<AccountAuthenticator>;
+
+  /**
+   * Sign a transaction, resolving to the AccountAuthenticator containing the signature, together with the public key.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  signTransactionWithAuthenticator(transaction: AnyRawTransaction): Promise<AccountAuthenticator>;
+
+  /**
+   * Sign a message.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  sign(message: HexInput): Promise<Signature>;
+
+  /**
+   * Sign a transaction.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  signTransaction(transaction: AnyRawTransaction): Promise<Signature>;
+}
+
+/**
+ * Anything that can sign a transaction: an `Account` holding its private key, or an {@link AsyncSigner}.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type TransactionSigner = Account | AsyncSigner;
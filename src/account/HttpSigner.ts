@@ -0,0 +1,164 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AccountAuthenticator,
+  AccountAuthenticatorEd25519,
+  AccountAuthenticatorSingleKey,
+} from "../transactions/authenticator/account";
+import { AccountAddress, AccountAddressInput } from "../core/accountAddress";
+import { AnyPublicKey, AnySignature, Ed25519PublicKey, Ed25519Signature, Signature } from "../core/crypto";
+import { Deserializer } from "../bcs/deserializer";
+import { Hex } from "../core/hex";
+import { HexInput } from "../types";
+import { AnyRawTransaction } from "../transactions/types";
+import { generateSigningMessageForTransaction } from "../transactions/transactionBuilder/signingMessage";
+import { AsyncSigner } from "./AsyncSigner";
+
+/**
+ * The key types an {@link HttpSigner} supports: a legacy Ed25519 key, or a single key of any scheme.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type HttpSignerKeyType = "ed25519" | "single_key";
+
+/**
+ * The response of a signing service to `GET /account`.
+ *
+ * @param address - The address of the account the service signs for.
+ * @param keyType - The type of the account's public key.
+ * @param publicKey - The BCS serialized public key, an `Ed25519PublicKey` or an `AnyPublicKey`, as a hex string.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type HttpSignerAccountResponse = {
+  address: string;
+  keyType: HttpSignerKeyType;
+  publicKey: string;
+};
+
+/**
+ * The request to a signing service to `POST /sign`, with the message to sign as a hex string.  The service responds
+ * with an {@link HttpSignerSignResponse}.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type HttpSignerSignRequest = {
+  message: string;
+};
+
+/**
+ * The response of a signing service to `POST /sign`, with the BCS serialized signature, an `Ed25519Signature` or an
+ * `AnySignature` depending on the key type, as a hex string.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type HttpSignerSignResponse = {
+  signature: string;
+};
+
+/**
+ * A reference {@link AsyncSigner} which has its signatures made by an HTTP signing service, which keeps the private key.
+ *
+ * The service answers `GET /account` with an {@link HttpSignerAccountResponse} and `POST /sign` with an
+ * {@link HttpSignerSignResponse}.  The signer computes the signing message of a transaction itself, so the service
+ * only ever signs bytes.  `LocalSigningService`, in the CLI entry point, implements the service for an `Account`.
+ *
+ * @example
+ * ```typescript
+ * const signer = await HttpSigner.fromService({ url: "http://127.0.0.1:8200" });
+ * const pendingTransaction = await aptos.signAndSubmitTransaction({ signer, transaction });
+ * ```
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export class HttpSigner implements AsyncSigner {
+  readonly url: string;
+
+  readonly accountAddress: AccountAddress;
+
+  readonly publicKey: Ed25519PublicKey | AnyPublicKey;
+
+  readonly headers: Record<string, string>;
+
+  /**
+   * @param args.url - The base URL of the signing service.
+   * @param args.accountAddress - The address of the account the service signs for.
+   * @param args.publicKey - The public key of the account.
+   * @param args.headers - Optional. Headers sent with every request, e.g. for authentication.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  constructor(args: {
+    url: string;
+    accountAddress: AccountAddressInput;
+    publicKey: Ed25519PublicKey | AnyPublicKey;
+    headers?: Record<string, string>;
+  }) {
+    this.url = args.url.replace(/\/+$/, "");
+    this.accountAddress = AccountAddress.from(args.accountAddress);
+    this.publicKey = args.publicKey;
+    this.headers = args.headers ?? {};
+  }
+
+  /**
+   * Creates a signer for the account a signing service reports at `GET /account`.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  static async fromService(args: { url: string; headers?: Record<string, string> }): Promise<HttpSigner> {
+    const url = args.url.replace(/\/+$/, "");
+    const account = await HttpSigner.request<HttpSignerAccountResponse>(`${url}/account`, {
+      headers: args.headers,
+    });
+    const deserializer = Deserializer.fromHex(account.publicKey);
+    let publicKey: Ed25519PublicKey | AnyPublicKey;
+    switch (account.keyType) {
+      case "ed25519":
+        publicKey = Ed25519PublicKey.deserialize(deserializer);
+        break;
+      case "single_key":
+        publicKey = AnyPublicKey.deserialize(deserializer);
+        break;
+      default:
+        throw new Error(`Unsupported key type ${account.keyType} of signing service ${url}`);
+    }
+    return new HttpSigner({ url, accountAddress: account.address, publicKey, headers: args.headers });
+  }
+
+  async sign(message: HexInput): Promise<Signature> {
+    const body: HttpSignerSignRequest = { message: Hex.fromHexInput(message).toString() };
+    const { signature } = await HttpSigner.request<HttpSignerSignResponse>(`${this.url}/sign`, {
+      method: "POST",
+      headers: { ...this.headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const deserializer = Deserializer.fromHex(signature);
+    return this.publicKey instanceof Ed25519PublicKey
+      ? Ed25519Signature.deserialize(deserializer)
+      : AnySignature.deserialize(deserializer);
+  }
+
+  async signWithAuthenticator(message: HexInput): Promise<AccountAuthenticator> {
+    const signature = await this.sign(message);
+    return this.publicKey instanceof Ed25519PublicKey
+      ? new AccountAuthenticatorEd25519(this.publicKey, signature as Ed25519Signature)
+      : new AccountAuthenticatorSingleKey(this.publicKey, signature as AnySignature);
+  }
+
+  async signTransaction(transaction: AnyRawTransaction): Promise<Signature> {
+    return this.sign(generateSigningMessageForTransaction(transaction));
+  }
+
+  async signTransactionWithAuthenticator(transaction: AnyRawTransaction): Promise<AccountAuthenticator> {
+    return this.signWithAuthenticator(generateSigningMessageForTransaction(transaction));
+  }
+
+  private static async request<Res>(url: string, init: RequestInit): Promise<Res> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      throw new Error(`Signing service responded to ${url} with ${response.status}: ${await response.text()}`);
+    }
+    return response.json() as Promise<Res>;
+  }
+}
@@ -0,0 +1,324 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { randomBytes } from "@noble/hashes/utils";
+import { AccountAddress, AccountAddressInput } from "../core/accountAddress";
+import { Hex } from "../core/hex";
+import { Account } from "./Account";
+import { AccountUtils } from "./AccountUtils";
+
+/**
+ * The version of the keystore format written by {@link Keystore}.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * The parameters of the scrypt key derivation, see {@link https://www.rfc-editor.org/rfc/rfc7914}.  `n` sets the cost
+ * in CPU and memory, which is `128 * n * r` bytes.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type KeystoreScryptParams = {
+  n: number;
+  r: number;
+  p: number;
+};
+
+/**
+ * The default scrypt parameters, which take 128 MiB of memory.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export const DEFAULT_KEYSTORE_SCRYPT_PARAMS: KeystoreScryptParams = { n: 2 ** 17, r: 8, p: 1 };
+
+/**
+ * An account encrypted with a password.  The key is derived from the password with scrypt, and the account, serialized
+ * with `AccountUtils.toBytes`, is encrypted with AES-256-GCM, which also authenticates the address.
+ *
+ * @param address - The address of the account, in plaintext so that an entry can be found without the password.
+ * @param crypto.ciphertext - The encrypted account followed by the authentication tag, as a hex string.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type KeystoreEntry = {
+  address: string;
+  crypto: {
+    kdf: "scrypt";
+    kdfparams: KeystoreScryptParams & { dklen: number; salt: string };
+    cipher: "aes-256-gcm";
+    cipherparams: { iv: string };
+    ciphertext: string;
+  };
+};
+
+/**
+ * A keystore of one or more password-encrypted accounts, which can be written to disk or local storage as JSON.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type KeystoreFile = {
+  version: number;
+  accounts: KeystoreEntry[];
+};
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+async function deriveKey(password: string, salt: Uint8Array, params: KeystoreScryptParams): Promise<CryptoKey> {
+  const { n, r, p } = params;
+  const key = await scryptAsync(password.normalize("NFKC"), salt, { N: n, r, p, dkLen: KEY_LENGTH });
+  return globalThis.crypto.subtle.importKey("raw", key, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+function additionalData(address: AccountAddress): Uint8Array {
+  return new TextEncoder().encode(`aptos-keystore-v${KEYSTORE_VERSION}:${address.toStringLong()}`);
+}
+
+/**
+ * Encrypts and decrypts accounts in the versioned keystore format.  Every account type that `AccountUtils` serializes
+ * can be stored, including keyless accounts with their ephemeral key pairs.
+ *
+ * @example
+ * ```typescript
+ * const keystore = await Keystore.encrypt({ accounts: [alice, bob], password });
+ * fs.writeFileSync("keystore.json", JSON.stringify(keystore));
+ *
+ * const [restoredAlice, restoredBob] = await Keystore.decrypt({ keystore: fs.readFileSync("keystore.json", "utf8"), password });
+ * ```
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export namespace Keystore {
+  /**
+   * Encrypts an account into a keystore entry.
+   *
+   * @param args.account - The account to encrypt.
+   * @param args.password - The password to encrypt the account with.
+   * @param args.scrypt - Optional. The scrypt parameters, defaults to {@link DEFAULT_KEYSTORE_SCRYPT_PARAMS}.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export async function encryptAccount(args: {
+    account: Account;
+    password: string;
+    scrypt?: KeystoreScryptParams;
+  }): Promise<KeystoreEntry> {
+    const { account, password, scrypt = DEFAULT_KEYSTORE_SCRYPT_PARAMS } = args;
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const key = await deriveKey(password, salt, scrypt);
+    const ciphertext = await globalThis.crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: additionalData(account.accountAddress) },
+      key,
+      AccountUtils.toBytes(account),
+    );
+    return {
+      address: account.accountAddress.toString(),
+      crypto: {
+        kdf: "scrypt",
+        kdfparams: { ...scrypt, dklen: KEY_LENGTH, salt: Hex.fromHexInput(salt).toString() },
+        cipher: "aes-256-gcm",
+        cipherparams: { iv: Hex.fromHexInput(iv).toString() },
+        ciphertext: Hex.fromHexInput(new Uint8Array(ciphertext)).toString(),
+      },
+    };
+  }
+
+  /**
+   * Decrypts a keystore entry.
+   *
+   * @param args.entry - The keystore entry.
+   * @param args.password - The password the entry was encrypted with.
+   * @throws Error if the password is wrong or the entry has been tampered with.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export async function decryptAccount(args: { entry: KeystoreEntry; password: string }): Promise<Account> {
+    const { entry, password } = args;
+    const { kdf, kdfparams, cipher, cipherparams, ciphertext } = entry.crypto;
+    if (kdf !== "scrypt" || cipher !== "aes-256-gcm" || kdfparams.dklen !== KEY_LENGTH) {
+      throw new Error(`Unsupported keystore entry for ${entry.address}: ${kdf} with ${cipher}`);
+    }
+    const address = AccountAddress.from(entry.address);
+    const key = await deriveKey(password, Hex.fromHexInput(kdfparams.salt).toUint8Array(), kdfparams);
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await globalThis.crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: Hex.fromHexInput(cipherparams.iv).toUint8Array(),
+          additionalData: additionalData(address),
+        },
+        key,
+        Hex.fromHexInput(ciphertext).toUint8Array(),
+      );
+    } catch {
+      throw new Error(`Failed to decrypt the keystore entry for ${entry.address}: wrong password or corrupted entry`);
+    }
+    const account = AccountUtils.fromBytes(new Uint8Array(plaintext));
+    if (!account.accountAddress.equals(address)) {
+      throw new Error(`The keystore entry for ${entry.address} holds the account ${account.accountAddress.toString()}`);
+    }
+    return account;
+  }
+
+  /**
+   * Encrypts accounts into a new keystore, all with the same password.
+   *
+   * @param args.accounts - The accounts to encrypt.
+   * @param args.password - The password to encrypt the accounts with.
+   * @param args.scrypt - Optional. The scrypt parameters, defaults to {@link DEFAULT_KEYSTORE_SCRYPT_PARAMS}.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export async function encrypt(args: {
+    accounts: Account[];
+    password: string;
+    scrypt?: KeystoreScryptParams;
+  }): Promise<KeystoreFile> {
+    return addAccounts({ ...args, keystore: { version: KEYSTORE_VERSION, accounts: [] } });
+  }
+
+  /**
+   * Decrypts the accounts of a keystore which share a password.
+   *
+   * @param args.keystore - The keystore, or its JSON.
+   * @param args.password - The password the accounts were encrypted with.
+   * @param args.address - Optional. Decrypts only the account with this address.
+   * @throws Error if the keystore is invalid, an account cannot be decrypted, or there is no account with the address.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export async function decrypt(args: {
+    keystore: KeystoreFile | string;
+    password: string;
+    address?: AccountAddressInput;
+  }): Promise<Account[]> {
+    const { password } = args;
+    const keystore = parse(args.keystore);
+    let entries = keystore.accounts;
+    if (args.address !== undefined) {
+      entries = [findEntry(keystore, args.address)];
+    }
+    const accounts: Account[] = [];
+    // Decrypt one after another, as each key derivation takes a lot of memory
+    for (const entry of entries) {
+      // eslint-disable-next-line no-await-in-loop
+      accounts.push(await decryptAccount({ entry, password }));
+    }
+    return accounts;
+  }
+
+  /**
+   * Adds accounts to a keystore.  Accounts in one keystore may be encrypted with different passwords.
+   *
+   * @param args.keystore - The keystore, or its JSON.
+   * @returns A new keystore with the accounts added.
+   * @throws Error if an account is already in the keystore.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export async function addAccounts(args: {
+    keystore: KeystoreFile | string;
+    accounts: Account[];
+    password: string;
+    scrypt?: KeystoreScryptParams;
+  }): Promise<KeystoreFile> {
+    const { accounts, password, scrypt } = args;
+    const keystore = parse(args.keystore);
+    const entries = [...keystore.accounts];
+    for (const account of accounts) {
+      const address = account.accountAddress.toString();
+      if (entries.some((entry) => AccountAddress.from(entry.address).equals(account.accountAddress))) {
+        throw new Error(`The account ${address} is already in the keystore`);
+      }
+      // eslint-disable-next-line no-await-in-loop
+      entries.push(await encryptAccount({ account, password, scrypt }));
+    }
+    return { version: KEYSTORE_VERSION, accounts: entries };
+  }
+
+  /**
+   * Removes an account from a keystore.
+   *
+   * @returns A new keystore without the account.
+   * @throws Error if there is no account with the address.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export function removeAccount(args: { keystore: KeystoreFile | string; address: AccountAddressInput }): KeystoreFile {
+    const keystore = parse(args.keystore);
+    const removed = findEntry(keystore, args.address);
+    return { version: KEYSTORE_VERSION, accounts: keystore.accounts.filter((entry) => entry !== removed) };
+  }
+
+  /**
+   * Re-encrypts accounts of a keystore with a new password or new scrypt parameters.
+   *
+   * @param args.keystore - The keystore, or its JSON.
+   * @param args.password - The current password of the accounts.
+   * @param args.newPassword - The new password.
+   * @param args.address - Optional. Re-encrypts only the account with this address, otherwise every account.
+   * @param args.scrypt - Optional. The new scrypt parameters, defaults to {@link DEFAULT_KEYSTORE_SCRYPT_PARAMS}.
+   * @returns A new keystore with the accounts re-encrypted, in the same order.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export async function reencrypt(args: {
+    keystore: KeystoreFile | string;
+    password: string;
+    newPassword: string;
+    address?: AccountAddressInput;
+    scrypt?: KeystoreScryptParams;
+  }): Promise<KeystoreFile> {
+    const { password, newPassword, scrypt } = args;
+    const keystore = parse(args.keystore);
+    const selected = args.address !== undefined ? findEntry(keystore, args.address) : undefined;
+    const entries: KeystoreEntry[] = [];
+    for (const entry of keystore.accounts) {
+      if (selected !== undefined && entry !== selected) {
+        entries.push(entry);
+      } else {
+        // eslint-disable-next-line no-await-in-loop
+        const account = await decryptAccount({ entry, password });
+        // eslint-disable-next-line no-await-in-loop
+        entries.push(await encryptAccount({ account, password: newPassword, scrypt }));
+      }
+    }
+    return { version: KEYSTORE_VERSION, accounts: entries };
+  }
+
+  /**
+   * Parses and validates a keystore.
+   *
+   * @param keystore - The keystore, or its JSON.
+   * @throws Error if the keystore is malformed or of an unsupported version.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  export function parse(keystore: KeystoreFile | string): KeystoreFile {
+    const parsed: KeystoreFile = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+    if (parsed?.version !== KEYSTORE_VERSION) {
+      throw new Error(`Unsupported keystore version ${parsed?.version}, expected ${KEYSTORE_VERSION}`);
+    }
+    if (!Array.isArray(parsed.accounts)) {
+      throw new Error("The keystore has no accounts");
+    }
+    return parsed;
+  }
+
+  function findEntry(keystore: KeystoreFile, address: AccountAddressInput): KeystoreEntry {
+    const accountAddress = AccountAddress.from(address);
+    const entry = keystore.accounts.find(({ address: entryAddress }) =>
+      AccountAddress.from(entryAddress).equals(accountAddress),
+    );
+    if (entry === undefined) {
+      throw new Error(`The account ${accountAddress.toString()} is not in the keystore`);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,115 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAuthenticatorSingleKey } from "../transactions/authenticator/account";
+import { AccountAddress, AccountAddressInput } from "../core/accountAddress";
+import { AnyPublicKey, AnySignature, Secp256r1PublicKey, Secp256r1Signature, WebAuthnSignature } from "../core/crypto";
+import { HexInput } from "../types";
+import { AnyRawTransaction } from "../transactions/types";
+import { generateSigningMessageForTransaction } from "../transactions/transactionBuilder/signingMessage";
+import { AsyncSigner } from "./AsyncSigner";
+
+/**
+ * A WebAuthn assertion, as returned by the authenticator in an `AuthenticatorAssertionResponse`.
+ *
+ * @param authenticatorData - The authenticator data.
+ * @param clientDataJSON - The client data JSON.
+ * @param signature - The DER encoded signature.
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export type WebAuthnAssertion = {
+  authenticatorData: HexInput;
+  clientDataJSON: HexInput;
+  signature: HexInput;
+};
+
+/**
+ * An {@link AsyncSigner} for an account with a Secp256r1 WebAuthn credential, such as a passkey.
+ *
+ * The assertion is produced elsewhere, e.g. by `navigator.credentials.get` in a browser: the signer hands the challenge
+ * for each message to `getAssertion`, and checks that the returned assertion signs the message before using it.
+ *
+ * @example
+ * ```typescript
+ * const signer = new WebAuthnSigner({
+ *   publicKey: new Secp256r1PublicKey(credentialPublicKey),
+ *   getAssertion: async (challenge) => {
+ *     const credential = await navigator.credentials.get({ publicKey: { challenge, allowCredentials } });
+ *     const response = (credential as PublicKeyCredential).response as AuthenticatorAssertionResponse;
+ *     return {
+ *       authenticatorData: new Uint8Array(response.authenticatorData),
+ *       clientDataJSON: new Uint8Array(response.clientDataJSON),
+ *       signature: new Uint8Array(response.signature),
+ *     };
+ *   },
+ * });
+ * const pendingTransaction = await aptos.signAndSubmitTransaction({ signer, transaction });
+ * ```
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export class WebAuthnSigner implements AsyncSigner {
+  /**
+   * The public key of the credential, wrapped in the `AnyPublicKey` the account is authenticated with
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  readonly publicKey: AnyPublicKey;
+
+  readonly accountAddress: AccountAddress;
+
+  private readonly getAssertion: (challenge: Uint8Array) => Promise<WebAuthnAssertion>;
+
+  /**
+   * @param args.publicKey - The Secp256r1 public key of the credential.
+   * @param args.address - Optional. The account address, if the account's authentication key has been rotated.
+   * Defaults to the address derived from the public key.
+   * @param args.getAssertion - Produces an assertion for a challenge with the credential.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  constructor(args: {
+    publicKey: Secp256r1PublicKey;
+    address?: AccountAddressInput;
+    getAssertion: (challenge: Uint8Array) => Promise<WebAuthnAssertion>;
+  }) {
+    this.publicKey = new AnyPublicKey(args.publicKey);
+    this.accountAddress = args.address ? AccountAddress.from(args.address) : this.publicKey.authKey().derivedAddress();
+    this.getAssertion = args.getAssertion;
+  }
+
+  /**
+   * Signs a message by requesting an assertion for its challenge.
+   *
+   * @throws Error if the assertion does not sign the message with the credential.
+   * @group Implementation
+   * @category Account (On-Chain Model)
+   */
+  async sign(message: HexInput): Promise<AnySignature> {
+    const assertion = await this.getAssertion(WebAuthnSignature.challenge(message));
+    const signature = new AnySignature(
+      new WebAuthnSignature(
+        Secp256r1Signature.fromDER(assertion.signature),
+        assertion.authenticatorData,
+        assertion.clientDataJSON,
+      ),
+    );
+    if (!this.publicKey.verifySignature({ message, signature })) {
+      throw new Error(`The WebAuthn assertion does not sign the message for ${this.accountAddress.toString()}`);
+    }
+    return signature;
+  }
+
+  async signWithAuthenticator(message: HexInput): Promise<AccountAuthenticatorSingleKey> {
+    return new AccountAuthenticatorSingleKey(this.publicKey, await this.sign(message));
+  }
+
+  async signTransaction(transaction: AnyRawTransaction): Promise<AnySignature> {
+    return this.sign(generateSigningMessageForTransaction(transaction));
+  }
+
+  async signTransactionWithAuthenticator(transaction: AnyRawTransaction): Promise<AccountAuthenticatorSingleKey> {
+    return this.signWithAuthenticator(generateSigningMessageForTransaction(transaction));
+  }
+}
@@ -8,5 +8,9 @@ export * from "./FederatedKeylessAccount";
 export * from "./MultiKeyAccount";
 export * from "./MultiEd25519Account";
 export * from "./AccountUtils";
+export * from "./Keystore";
 export * from "./AbstractedAccount";
 export * from "./DerivableAbstractedAccount";
+export * from "./AsyncSigner";
+export * from "./HttpSigner";
+export * from "./WebAuthnSigner";
@@ -4,6 +4,7 @@
 import { Account as AccountModule } from "../account";
 import { AccountAddress, PrivateKey, AccountAddressInput, createObjectAddress } from "../core";
 import {
+  AcceptTypeArg,
   AccountData,
   AnyNumber,
   CursorPaginationArgs,
@@ -51,6 +52,7 @@ import { view } from "../internal/view";
 import { isEncodedStruct, parseEncodedStruct } from "../utils";
 import { memoizeAsync } from "../utils/memoize";
 import { AccountAbstraction } from "./account/abstraction";
+import { AccountActivityWatcher, AccountActivityWatcherOptions } from "./accountActivityWatcher";
 
 /**
  * A class to query all `Account` related queries on Aptos.
@@ -349,6 +351,8 @@ export class Account {
    * @param args.accountAddress - The Aptos account address to query.
    * @param args.resourceType - The string representation of an on-chain Move struct type, e.g., "0x1::aptos_coin::AptosCoin".
    * @param args.options.ledgerVersion - The ledger version to query; if not provided, it will get the latest version.
+   * @param args.options.acceptType - Optional. `MimeType.BCS` fetches the resource as BCS and decodes it with the ABIs of
+   * its modules into the same value as the JSON API returns. Defaults to `MimeType.JSON`.
    * @returns The account resource of the specified type.
    *
    * @example
@@ -374,7 +378,7 @@ export class Account {
   async getAccountResource<T extends {} = any>(args: {
     accountAddress: AccountAddressInput;
     resourceType: MoveStructId;
-    options?: LedgerVersionArg;
+    options?: LedgerVersionArg & AcceptTypeArg;
   }): Promise<T> {
     return getResource<T>({ aptosConfig: this.config, ...args });
   }
@@ -944,6 +948,49 @@ export class Account {
     });
   }
 
+  /**
+   * Watches the activity of an account: the coins and fungible assets deposited to and withdrawn from it, the gas fees
+   * it paid, and the tokens and objects transferred to and from it. The returned watcher is an async iterable that
+   * follows the chain from the given version or the latest ledger version, and yields the activities in order until
+   * it's stopped.
+   *
+   * The activities are derived from the events and write sets of the transactions of the fullnode. The watcher reports
+   * the version of the next transaction to read to `onCheckpoint`, so that it can be resumed after a restart.
+   *
+   * @param args.accountAddress - The address of the account to watch.
+   * @param args.fromVersion - Optional version to start at, e.g. a saved checkpoint.
+   * @param args.pollIntervalMs - Optional time to wait between polls once caught up. Defaults to 1000.
+   * @param args.batchSize - Optional number of transactions read per request. Defaults to 100.
+   * @param args.onCheckpoint - Optional callback for the checkpoint version, e.g. to save it.
+   * @returns The watcher.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network, AccountActivityType } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const watcher = aptos.watchAccountActivity({
+   *     accountAddress: "0x1", // replace with a real account address
+   *     onCheckpoint: (version) => console.log("Processed up to", version),
+   *   });
+   *
+   *   for await (const activity of watcher) {
+   *     if (activity.type === AccountActivityType.DEPOSIT) {
+   *       console.log(`Received ${activity.amount} of ${activity.asset} from ${activity.counterparties}`);
+   *     }
+   *   }
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Account
+   */
+  watchAccountActivity(args: AccountActivityWatcherOptions): AccountActivityWatcher {
+    return new AccountActivityWatcher(this.config, args);
+  }
+
   /**
    * Derives an account by providing a private key. This function resolves the provided private key type and derives the public
    * key from it.
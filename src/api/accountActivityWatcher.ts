@@ -0,0 +1,557 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress, AccountAddressInput, createUserDerivedObjectAddress } from "../core";
+import { AptosApiError } from "../errors";
+import { getResource } from "../internal/account";
+import { getLedgerInfo } from "../internal/general";
+import { getTransactions } from "../internal/transaction";
+import {
+  AnyNumber,
+  CommittedTransactionResponse,
+  Event as MoveEvent,
+  MoveStructId,
+  isUserTransactionResponse,
+  WriteSetChangeWriteResource,
+} from "../types";
+import { APTOS_COIN } from "../utils/const";
+import { AptosConfig } from "./aptosConfig";
+
+/**
+ * The kinds of activity an {@link AccountActivityWatcher} reports.
+ * @group Implementation
+ * @category Account
+ */
+export enum AccountActivityType {
+  DEPOSIT = "deposit",
+  WITHDRAW = "withdraw",
+  GAS_FEE = "gas_fee",
+  TOKEN_TRANSFER = "token_transfer",
+  OBJECT_TRANSFER = "object_transfer",
+}
+
+/**
+ * The fields shared by all account activities.
+ * @group Implementation
+ * @category Account
+ */
+export type AccountActivityBase = {
+  /**
+   * The version of the transaction the activity happened in
+   */
+  version: string;
+  hash: string;
+  /**
+   * The timestamp of the transaction in microseconds, if it has one
+   */
+  timestamp?: string;
+};
+
+/**
+ * An amount of a coin or fungible asset that was deposited to, or withdrawn from, the account.
+ * @group Implementation
+ * @category Account
+ */
+export type AssetActivity = AccountActivityBase & {
+  type: AccountActivityType.DEPOSIT | AccountActivityType.WITHDRAW;
+  /**
+   * The coin type, e.g. `0x1::aptos_coin::AptosCoin`, or the metadata address of the fungible asset, e.g. `0xa`
+   */
+  asset: string;
+  amount: string;
+  /**
+   * The fungible store of the account the asset moved to or from, for fungible assets
+   */
+  store?: string;
+  /**
+   * The accounts the asset came from for a deposit, or went to for a withdrawal. These are the owners of the stores
+   * on the other side of the transfer, or the sender of the transaction when there are none.
+   */
+  counterparties: Array<string>;
+};
+
+/**
+ * The gas fee the account paid for a transaction, as the sender or the fee payer.
+ * @group Implementation
+ * @category Account
+ */
+export type GasFeeActivity = AccountActivityBase & {
+  type: AccountActivityType.GAS_FEE;
+  asset: typeof APTOS_COIN;
+  amount: string;
+};
+
+/**
+ * An object transferred to or from the account. Transfers of digital asset tokens are token transfers.
+ * @group Implementation
+ * @category Account
+ */
+export type TransferActivity = AccountActivityBase & {
+  type: AccountActivityType.TOKEN_TRANSFER | AccountActivityType.OBJECT_TRANSFER;
+  object: string;
+  from: string;
+  to: string;
+};
+
+/**
+ * An activity of an account, delivered by an {@link AccountActivityWatcher}.
+ * @group Implementation
+ * @category Account
+ */
+export type AccountActivity = AssetActivity | GasFeeActivity | TransferActivity;
+
+/**
+ * The options of an {@link AccountActivityWatcher}.
+ * @group Implementation
+ * @category Account
+ */
+export type AccountActivityWatcherOptions = {
+  accountAddress: AccountAddressInput;
+  /**
+   * The version to start at, e.g. one saved by `onCheckpoint` before the process stopped. Defaults to the version
+   * after the latest ledger version, so that only new activity is delivered.
+   */
+  fromVersion?: AnyNumber;
+  /**
+   * How long to wait before polling again once the watcher has caught up, in milliseconds. Defaults to 1000.
+   */
+  pollIntervalMs?: number;
+  /**
+   * The number of transactions read per request. Defaults to 100.
+   */
+  batchSize?: number;
+  /**
+   * Called with the version of the next transaction to read when it changes. The watcher waits for the returned
+   * promise, so that the version can be saved before it moves on.
+   */
+  onCheckpoint?: (version: string) => void | Promise<void>;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 100;
+const STORE_CACHE_SIZE = 10000;
+
+const FA_DEPOSIT = "0x1::fungible_asset::Deposit";
+const FA_WITHDRAW = "0x1::fungible_asset::Withdraw";
+const COIN_DEPOSIT = "0x1::coin::CoinDeposit";
+const COIN_WITHDRAW = "0x1::coin::CoinWithdraw";
+const COIN_DEPOSIT_EVENT = "0x1::coin::DepositEvent";
+const COIN_WITHDRAW_EVENT = "0x1::coin::WithdrawEvent";
+const OBJECT_TRANSFER = "0x1::object::Transfer";
+const OBJECT_TRANSFER_EVENT = "0x1::object::TransferEvent";
+const FUNGIBLE_STORE = "0x1::fungible_asset::FungibleStore";
+const OBJECT_CORE = "0x1::object::ObjectCore";
+const TOKEN = "0x4::token::Token";
+const COIN_STORE_PREFIX = "0x1::coin::CoinStore<";
+
+/**
+ * A deposit or withdrawal of an asset found in the events of a transaction.
+ */
+type AssetMove = {
+  kind: AccountActivityType.DEPOSIT | AccountActivityType.WITHDRAW;
+  asset: string;
+  amount: string;
+  store?: string;
+  /**
+   * The owner of the account or store, if it's known without fetching it
+   */
+  owner?: string;
+};
+
+function normalize(address: AccountAddressInput): string {
+  return AccountAddress.from(address).toString();
+}
+
+/**
+ * Returns the resources the transaction wrote, by address and type.
+ */
+function writtenResources(transaction: CommittedTransactionResponse): Map<string, any> {
+  const resources = new Map<string, any>();
+  const changes = "changes" in transaction ? transaction.changes : [];
+  changes.forEach((change) => {
+    if (change.type === "write_resource") {
+      const { address, data } = change as WriteSetChangeWriteResource;
+      resources.set(`${normalize(address)}/${data.type}`, data.data);
+    }
+  });
+  return resources;
+}
+
+/**
+ * Returns the coin type of a v1 coin event, from the `CoinStore` with the event handle in the write set.
+ */
+function coinTypeOfHandle(transaction: CommittedTransactionResponse, event: MoveEvent): string | undefined {
+  const changes = "changes" in transaction ? transaction.changes : [];
+  const handle = event.type === COIN_DEPOSIT_EVENT ? "deposit_events" : "withdraw_events";
+  const account = normalize(event.guid.account_address);
+  const change = changes.find((item) => {
+    if (item.type !== "write_resource") return false;
+    const { address, data } = item as WriteSetChangeWriteResource;
+    return (
+      data.type.startsWith(COIN_STORE_PREFIX) &&
+      normalize(address) === account &&
+      (data.data as any)[handle]?.guid?.id?.creation_num === event.guid.creation_number
+    );
+  }) as WriteSetChangeWriteResource | undefined;
+  return change?.data.type.slice(COIN_STORE_PREFIX.length, -1);
+}
+
+/**
+ * Reads a resource at a version, or returns undefined when the address doesn't have it.
+ */
+async function getResourceIfExists<T extends {}>(
+  aptosConfig: AptosConfig,
+  accountAddress: string,
+  resourceType: MoveStructId,
+  version: string,
+): Promise<T | undefined> {
+  try {
+    return await getResource<T>({
+      aptosConfig,
+      accountAddress,
+      resourceType,
+      options: { ledgerVersion: BigInt(version) },
+    });
+  } catch (error) {
+    if (error instanceof AptosApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * A watcher of the activity of an account, returned by `aptos.watchAccountActivity`. It is an async iterable that
+ * follows the chain and yields the deposits, withdrawals, gas fees and transfers of the account in order of version,
+ * until it's stopped.
+ *
+ * The activities are derived from the events and write sets of the transactions of the fullnode: coin and fungible
+ * asset deposit and withdraw events, object transfer events and the gas of the transactions the account paid for.
+ * Fungible asset events count for the account when they're on its primary store, or on a store whose owner the
+ * watcher has seen in a write set.
+ *
+ * Activities are delivered at least once: the checkpoint moves past a transaction when the activity after its last
+ * one is requested, so the activities of a transaction that was being handled when the process stopped are delivered
+ * again after resuming from the checkpoint.
+ *
+ * @example
+ * ```typescript
+ * const watcher = aptos.watchAccountActivity({
+ *   accountAddress: "0x1",
+ *   fromVersion: await loadVersion(),
+ *   onCheckpoint: saveVersion,
+ * });
+ * for await (const activity of watcher) {
+ *   console.log(activity.version, activity.type);
+ * }
+ * ```
+ * @group Implementation
+ * @category Account
+ */
+export class AccountActivityWatcher implements AsyncIterable<AccountActivity> {
+  private readonly accountAddress: string;
+
+  private currentVersion?: string;
+
+  private stopped = false;
+
+  private wakeUp?: () => void;
+
+  private iterator?: AsyncGenerator<AccountActivity>;
+
+  /**
+   * The metadata addresses of fungible stores, which never change
+   */
+  private readonly storeMetadata = new Map<string, string>();
+
+  /**
+   * The stores other than primary stores that the account owns, as far as the watcher has seen
+   */
+  private readonly ownedStores = new Set<string>();
+
+  constructor(
+    readonly config: AptosConfig,
+    readonly options: AccountActivityWatcherOptions,
+  ) {
+    this.accountAddress = normalize(options.accountAddress);
+    if (options.fromVersion !== undefined) {
+      this.currentVersion = BigInt(options.fromVersion).toString();
+    }
+  }
+
+  /**
+   * The version of the next transaction the watcher reads, or undefined before it has started.
+   */
+  get checkpoint(): string | undefined {
+    return this.currentVersion;
+  }
+
+  /**
+   * Stops the watcher. An iteration that is waiting for new transactions ends.
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wakeUp?.();
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<AccountActivity> {
+    // A watcher has a single checkpoint, so all iterations share the same iterator
+    if (!this.iterator) {
+      this.iterator = this.poll();
+    }
+    return this.iterator;
+  }
+
+  private async moveTo(version: string): Promise<void> {
+    if (this.currentVersion === version) {
+      return;
+    }
+    this.currentVersion = version;
+    await this.options.onCheckpoint?.(version);
+  }
+
+  private async wait(): Promise<void> {
+    if (this.stopped) return;
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+      this.wakeUp = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+    this.wakeUp = undefined;
+  }
+
+  /**
+   * Reads the transactions from the fullnode, and yields the activities of the account in them.
+   */
+  private async *poll(): AsyncGenerator<AccountActivity> {
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (this.currentVersion === undefined) {
+      const { ledger_version: ledgerVersion } = await getLedgerInfo({ aptosConfig: this.config });
+      await this.moveTo((BigInt(ledgerVersion) + 1n).toString());
+    } else {
+      await this.options.onCheckpoint?.(this.currentVersion);
+    }
+    while (!this.stopped) {
+      const start = BigInt(this.currentVersion!);
+      // eslint-disable-next-line no-await-in-loop
+      const ledgerInfo = await getLedgerInfo({ aptosConfig: this.config });
+      if (start < BigInt(ledgerInfo.oldest_ledger_version)) {
+        throw new Error(
+          `Version ${start} has been pruned by the fullnode, which starts at version ${ledgerInfo.oldest_ledger_version}`,
+        );
+      }
+      const ledgerVersion = BigInt(ledgerInfo.ledger_version);
+      if (start > ledgerVersion) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.wait();
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+
+      const remaining = ledgerVersion - start + 1n;
+      // eslint-disable-next-line no-await-in-loop
+      const transactions = await getTransactions({
+        aptosConfig: this.config,
+        options: { offset: start, limit: remaining < batchSize ? Number(remaining) : batchSize },
+      });
+      let end = this.currentVersion!;
+      for (let i = 0; i < transactions.length && !this.stopped; i += 1) {
+        const transaction = transactions[i] as CommittedTransactionResponse;
+        // eslint-disable-next-line no-await-in-loop
+        const activities = await this.activitiesOf(transaction);
+        for (let j = 0; j < activities.length && !this.stopped; j += 1) {
+          yield activities[j];
+        }
+        if (!this.stopped) {
+          end = (BigInt(transaction.version) + 1n).toString();
+          if (activities.length > 0) {
+            // eslint-disable-next-line no-await-in-loop
+            await this.moveTo(end);
+          }
+        }
+      }
+      if (!this.stopped) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.moveTo(end);
+      }
+    }
+  }
+
+  /**
+   * Derives the activities of the account from the events and write set of a transaction.
+   */
+  private async activitiesOf(transaction: CommittedTransactionResponse): Promise<Array<AccountActivity>> {
+    const account = this.accountAddress;
+    const resources = writtenResources(transaction);
+    this.trackStores(resources);
+    const events: Array<MoveEvent> = "events" in transaction ? transaction.events : [];
+    const base: AccountActivityBase = {
+      version: transaction.version,
+      hash: transaction.hash,
+      timestamp: "timestamp" in transaction ? transaction.timestamp : undefined,
+    };
+
+    // The handle events of coins are only used when the transaction has no coin module events
+    const hasCoinModuleEvents = events.some((event) => event.type === COIN_DEPOSIT || event.type === COIN_WITHDRAW);
+    const moves: Array<AssetMove> = [];
+    const transfers: Array<TransferActivity> = [];
+    for (let i = 0; i < events.length; i += 1) {
+      const { type, data } = events[i];
+      if (type === FA_DEPOSIT || type === FA_WITHDRAW) {
+        const store = normalize(data.store);
+        // eslint-disable-next-line no-await-in-loop
+        const metadata = await this.metadataOf(store, transaction.version, resources);
+        if (metadata !== undefined) {
+          moves.push({
+            kind: type === FA_DEPOSIT ? AccountActivityType.DEPOSIT : AccountActivityType.WITHDRAW,
+            asset: metadata,
+            amount: String(data.amount),
+            store,
+            owner: this.knownOwnerOf(store, metadata, resources),
+          });
+        }
+      } else if (type === COIN_DEPOSIT || type === COIN_WITHDRAW) {
+        moves.push({
+          kind: type === COIN_DEPOSIT ? AccountActivityType.DEPOSIT : AccountActivityType.WITHDRAW,
+          asset: data.coin_type,
+          amount: String(data.amount),
+          owner: normalize(data.account),
+        });
+      } else if ((type === COIN_DEPOSIT_EVENT || type === COIN_WITHDRAW_EVENT) && !hasCoinModuleEvents) {
+        const coinType = coinTypeOfHandle(transaction, events[i]);
+        if (coinType !== undefined) {
+          moves.push({
+            kind: type === COIN_DEPOSIT_EVENT ? AccountActivityType.DEPOSIT : AccountActivityType.WITHDRAW,
+            asset: coinType,
+            amount: String(data.amount),
+            owner: normalize(events[i].guid.account_address),
+          });
+        }
+      } else if (type === OBJECT_TRANSFER || type === OBJECT_TRANSFER_EVENT) {
+        const from = normalize(data.from);
+        const to = normalize(data.to);
+        if (from === account || to === account) {
+          const object = normalize(data.object);
+          // eslint-disable-next-line no-await-in-loop
+          const isToken = await this.isToken(object, transaction.version, resources);
+          transfers.push({
+            ...base,
+            type: isToken ? AccountActivityType.TOKEN_TRANSFER : AccountActivityType.OBJECT_TRANSFER,
+            object,
+            from,
+            to,
+          });
+        }
+      }
+    }
+
+    const activities: Array<AccountActivity> = [];
+    const ownMoves = moves.filter((move) => move.owner === account);
+    for (let i = 0; i < ownMoves.length; i += 1) {
+      const { kind, asset, amount, store } = ownMoves[i];
+      const opposite = moves.filter((move) => move.kind !== kind && move.asset === asset);
+      // eslint-disable-next-line no-await-in-loop
+      const owners = await Promise.all(opposite.map((move) => this.ownerOf(move, transaction.version)));
+      const counterparties = [...new Set(owners.filter((owner): owner is string => !!owner && owner !== account))];
+      if (counterparties.length === 0 && isUserTransactionResponse(transaction)) {
+        const sender = normalize(transaction.sender);
+        if (sender !== account) counterparties.push(sender);
+      }
+      activities.push({ ...base, type: kind, asset, amount, ...(store ? { store } : {}), counterparties });
+    }
+    activities.push(...transfers);
+
+    if (isUserTransactionResponse(transaction)) {
+      const { signature } = transaction;
+      const payer = signature && "fee_payer_address" in signature ? signature.fee_payer_address : transaction.sender;
+      if (normalize(payer) === account) {
+        activities.push({
+          ...base,
+          type: AccountActivityType.GAS_FEE,
+          asset: APTOS_COIN,
+          amount: (BigInt(transaction.gas_used) * BigInt(transaction.gas_unit_price)).toString(),
+        });
+      }
+    }
+    return activities;
+  }
+
+  /**
+   * Remembers the stores the transaction created for the account or transferred to or from it.
+   */
+  private trackStores(resources: Map<string, any>): void {
+    resources.forEach((data, key) => {
+      const [address, type] = key.split("/");
+      if (type === OBJECT_CORE && resources.has(`${address}/${FUNGIBLE_STORE}`)) {
+        if (normalize(data.owner) === this.accountAddress) {
+          this.ownedStores.add(address);
+        } else {
+          this.ownedStores.delete(address);
+        }
+      }
+    });
+  }
+
+  /**
+   * Returns the metadata address of a fungible store, from the write set or the fullnode, or undefined if the store
+   * doesn't exist anymore.
+   */
+  private async metadataOf(store: string, version: string, resources: Map<string, any>): Promise<string | undefined> {
+    const written = resources.get(`${store}/${FUNGIBLE_STORE}`);
+    let metadata = written ? normalize(written.metadata.inner) : this.storeMetadata.get(store);
+    if (metadata === undefined) {
+      const resource = await getResourceIfExists<{ metadata: { inner: string } }>(
+        this.config,
+        store,
+        FUNGIBLE_STORE,
+        version,
+      );
+      if (resource === undefined) {
+        return undefined;
+      }
+      metadata = normalize(resource.metadata.inner);
+    }
+    if (this.storeMetadata.size >= STORE_CACHE_SIZE) {
+      this.storeMetadata.clear();
+    }
+    this.storeMetadata.set(store, metadata);
+    return metadata;
+  }
+
+  /**
+   * Returns the owner of a store if it's the primary store of the account, a store the account is known to own, or
+   * a store whose owner is in the write set.
+   */
+  private knownOwnerOf(store: string, metadata: string, resources: Map<string, any>): string | undefined {
+    const primaryStore = createUserDerivedObjectAddress(
+      AccountAddress.from(this.accountAddress),
+      AccountAddress.from(metadata),
+    );
+    if (this.ownedStores.has(store) || primaryStore.toString() === store) {
+      return this.accountAddress;
+    }
+    const objectCore = resources.get(`${store}/${OBJECT_CORE}`);
+    return objectCore ? normalize(objectCore.owner) : undefined;
+  }
+
+  /**
+   * Returns the owner of the account or store of an asset move, fetching the owner of the store if needed.
+   */
+  private async ownerOf(move: AssetMove, version: string): Promise<string | undefined> {
+    if (move.owner !== undefined || move.store === undefined) {
+      return move.owner;
+    }
+    const objectCore = await getResourceIfExists<{ owner: string }>(this.config, move.store, OBJECT_CORE, version);
+    return objectCore ? normalize(objectCore.owner) : undefined;
+  }
+
+  private async isToken(object: string, version: string, resources: Map<string, any>): Promise<boolean> {
+    if (resources.has(`${object}/${TOKEN}`)) {
+      return true;
+    }
+    const token = await getResourceIfExists(this.config, object, TOKEN, version);
+    return token !== undefined;
+  }
+}
@@ -3,12 +3,14 @@
 
 import { Account } from "./account";
 import { AptosConfig } from "./aptosConfig";
+import { Asset } from "./asset";
 import { Coin } from "./coin";
 import { DigitalAsset } from "./digitalAsset";
 import { Event } from "./event";
 import { Faucet } from "./faucet";
 import { FungibleAsset } from "./fungibleAsset";
 import { General } from "./general";
+import { Multisig } from "./multisig";
 import { ANS } from "./ans";
 import { Staking } from "./staking";
 import { Transaction } from "./transaction";
@@ -49,6 +51,8 @@ export class Aptos {
 
   readonly ans: ANS;
 
+  readonly asset: Asset;
+
   readonly coin: Coin;
 
   readonly digitalAsset: DigitalAsset;
@@ -61,6 +65,8 @@ export class Aptos {
 
   readonly general: General;
 
+  readonly multisig: Multisig;
+
   readonly staking: Staking;
 
   readonly transaction: Transaction;
@@ -97,12 +103,14 @@ export class Aptos {
     this.account = new Account(this.config);
     this.abstraction = new AccountAbstraction(this.config);
     this.ans = new ANS(this.config);
+    this.asset = new Asset(this.config);
     this.coin = new Coin(this.config);
     this.digitalAsset = new DigitalAsset(this.config);
     this.event = new Event(this.config);
     this.faucet = new Faucet(this.config);
     this.fungibleAsset = new FungibleAsset(this.config);
     this.general = new General(this.config);
+    this.multisig = new Multisig(this.config);
     this.staking = new Staking(this.config);
     this.transaction = new Transaction(this.config);
     this.table = new Table(this.config);
@@ -116,6 +124,7 @@ export class Aptos {
 export interface Aptos
   extends Account,
     ANS,
+    Asset,
     Coin,
     DigitalAsset,
     Event,
@@ -123,6 +132,7 @@ export interface Aptos
     FungibleAsset,
     General,
     Keyless,
+    Multisig,
     Staking,
     Table,
     AptosObject,
@@ -153,12 +163,14 @@ function applyMixin(targetClass: any, baseClass: any, baseClassProp: string) {
 applyMixin(Aptos, Account, "account");
 applyMixin(Aptos, AccountAbstraction, "abstraction");
 applyMixin(Aptos, ANS, "ans");
+applyMixin(Aptos, Asset, "asset");
 applyMixin(Aptos, Coin, "coin");
 applyMixin(Aptos, DigitalAsset, "digitalAsset");
 applyMixin(Aptos, Event, "event");
 applyMixin(Aptos, Faucet, "faucet");
 applyMixin(Aptos, FungibleAsset, "fungibleAsset");
 applyMixin(Aptos, General, "general");
+applyMixin(Aptos, Multisig, "multisig");
 applyMixin(Aptos, Staking, "staking");
 applyMixin(Aptos, Transaction, "transaction");
 applyMixin(Aptos, Table, "table");
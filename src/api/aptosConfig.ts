@@ -1,8 +1,17 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
-import aptosClient from "@aptos-labs/aptos-client";
-import { AptosSettings, ClientConfig, Client, FullNodeConfig, IndexerConfig, FaucetConfig } from "../types";
+import aptosClient, { bcsRequest } from "@aptos-labs/aptos-client";
+import {
+  AptosSettings,
+  CacheConfig,
+  ClientConfig,
+  Client,
+  ClientMiddleware,
+  FullNodeConfig,
+  IndexerConfig,
+  FaucetConfig,
+} from "../types";
 import {
   NetworkToNodeAPI,
   NetworkToFaucetAPI,
@@ -101,6 +110,18 @@ export class AptosConfig {
    */
   readonly faucetConfig?: FaucetConfig;
 
+  /**
+   * Optional middlewares wrapping every request sent by the client, in order of registration
+   * @group Client
+   */
+  readonly middlewares?: ClientMiddleware[];
+
+  /**
+   * Optional cache for fullnode responses, consulted before any middleware
+   * @group Client
+   */
+  readonly cache?: CacheConfig;
+
   /**
    * Initializes an instance of the Aptos client with the specified settings.
    * This allows users to configure various aspects of the client, such as network and endpoints.
@@ -117,6 +138,8 @@ export class AptosConfig {
    * @param settings.fullnodeConfig - Additional configuration for the fullnode.
    * @param settings.indexerConfig - Additional configuration for the indexer.
    * @param settings.faucetConfig - Additional configuration for the faucet.
+   * @param settings.middlewares - Middlewares to run around every request, see {@link ClientMiddleware}.
+   * @param settings.cache - A cache for fullnode responses, see {@link CacheConfig}.
    *
    * @example
    * ```typescript
@@ -149,11 +172,13 @@ export class AptosConfig {
     this.pepper = settings?.pepper;
     this.prover = settings?.prover;
     this.indexer = settings?.indexer;
-    this.client = settings?.client ?? { provider: aptosClient };
+    this.client = settings?.client ?? { provider: aptosClient, binaryProvider: bcsRequest };
     this.clientConfig = settings?.clientConfig ?? {};
     this.fullnodeConfig = settings?.fullnodeConfig ?? {};
     this.indexerConfig = settings?.indexerConfig ?? {};
     this.faucetConfig = settings?.faucetConfig ?? {};
+    this.middlewares = settings?.middlewares ?? [];
+    this.cache = settings?.cache;
   }
 
   /**
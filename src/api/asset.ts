@@ -0,0 +1,232 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddressInput } from "../core";
+import {
+  getAssetBalance,
+  getCoinMigrationStatus,
+  migrateCoinToFungibleStoreTransaction,
+  resolveAsset,
+  transferAssetTransaction,
+} from "../internal/asset";
+import { InputGenerateTransactionOptions } from "../transactions";
+import { SimpleTransaction } from "../transactions/instances/simpleTransaction";
+import { AnyNumber, CoinMigrationStatus, LedgerVersionArg, MoveStructId, UnifiedAsset } from "../types";
+import { AptosConfig } from "./aptosConfig";
+
+/**
+ * A class to handle coins and fungible assets as one asset, following their pairing by the coin to fungible asset
+ * migration. An asset is given by its coin type, its fungible asset metadata address, or both. All the reads use
+ * fullnode view functions, without the indexer.
+ * @group Asset
+ */
+export class Asset {
+  /**
+   * Initializes a new instance of the Aptos client with the provided configuration.
+   *
+   * @param config - The configuration settings for the Aptos client.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * async function runExample() {
+   *     // Create a new Aptos client with testnet configuration
+   *     const config = new AptosConfig({ network: Network.TESTNET });
+   *     const aptos = new Aptos(config);
+   *
+   *     console.log("Aptos client initialized:", aptos);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Asset
+   */
+  constructor(readonly config: AptosConfig) {}
+
+  /**
+   * Resolves the pairing of a coin and a fungible asset: the fungible asset a coin is paired with, or the coin a
+   * fungible asset is paired with. When both are given, they are trusted to be paired.
+   *
+   * @param args.coinType - The coin type of the asset.
+   * @param args.faMetadataAddress - The fungible asset metadata address of the asset.
+   * @returns The coin type and the fungible asset metadata address of the asset, when they exist.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const { faMetadataAddress } = await aptos.resolveAsset({ coinType: "0x1::aptos_coin::AptosCoin" });
+   *   console.log(faMetadataAddress); // 0x...000a
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Asset
+   */
+  async resolveAsset(args: {
+    coinType?: MoveStructId;
+    faMetadataAddress?: AccountAddressInput;
+  }): Promise<UnifiedAsset> {
+    return resolveAsset({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Reads the balance of an account in an asset from the fullnode. The balance of a coin includes both its
+   * `CoinStore` and the primary store of its paired fungible asset, and the balance of a fungible asset includes its
+   * paired coin.
+   *
+   * @param args.accountAddress - The account to read the balance of.
+   * @param args.coinType - The coin type of the asset.
+   * @param args.faMetadataAddress - The fungible asset metadata address of the asset.
+   * @param args.options.ledgerVersion - Optional ledger version to read the balance at.
+   * @returns The balance, in the smallest unit of the asset.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const balance = await aptos.getAssetBalance({
+   *     accountAddress: "0x1", // replace with a real account address
+   *     faMetadataAddress: "0xa",
+   *   });
+   *
+   *   console.log(BigInt(balance));
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Asset
+   */
+  async getAssetBalance(args: {
+    accountAddress: AccountAddressInput;
+    coinType?: MoveStructId;
+    faMetadataAddress?: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<string> {
+    return getAssetBalance({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that transfers an asset, with the payload its model needs:
+   * `0x1::aptos_account::transfer_coins` for a coin, paired or not, which withdraws from both its `CoinStore` and the
+   * primary store of its paired fungible asset, and `0x1::aptos_account::transfer_fungible_assets` for a fungible
+   * asset without a paired coin.
+   *
+   * @param args.sender - The account sending the asset.
+   * @param args.recipient - The account receiving the asset.
+   * @param args.amount - The amount to transfer.
+   * @param args.coinType - The coin type of the asset.
+   * @param args.faMetadataAddress - The fungible asset metadata address of the asset.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.transferAssetTransaction({
+   *     sender: "0x1", // replace with a real sender address
+   *     recipient: "0x2", // replace with a real recipient address
+   *     amount: 100,
+   *     faMetadataAddress: "0x3", // replace with a real fungible asset address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Asset
+   */
+  async transferAssetTransaction(args: {
+    sender: AccountAddressInput;
+    recipient: AccountAddressInput;
+    amount: AnyNumber;
+    coinType?: MoveStructId;
+    faMetadataAddress?: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return transferAssetTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that calls `0x1::coin::migrate_to_fungible_store`, which moves the balance of the sender
+   * from the `CoinStore` of a coin to the primary store of its paired fungible asset, and removes the `CoinStore`.
+   *
+   * @param args.sender - The account migrating its balance.
+   * @param args.coinType - The coin type to migrate.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.migrateCoinToFungibleStoreTransaction({
+   *     sender: "0x1", // replace with a real account address
+   *     coinType: "0x1::aptos_coin::AptosCoin",
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Asset
+   */
+  async migrateCoinToFungibleStoreTransaction(args: {
+    sender: AccountAddressInput;
+    coinType: MoveStructId;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return migrateCoinToFungibleStoreTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Reports the migration of an account from the `CoinStore` of a coin to the primary store of its paired fungible
+   * asset: whether it still has a `CoinStore`, and the balance in each store, read at the same ledger version.
+   *
+   * @param args.accountAddress - The account to report on.
+   * @param args.coinType - The coin type of the asset.
+   * @param args.options.ledgerVersion - Optional ledger version to read the balances at.
+   * @returns The migration status of the account.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const status = await aptos.getCoinMigrationStatus({
+   *     accountAddress: "0x1", // replace with a real account address
+   *     coinType: "0x1::aptos_coin::AptosCoin",
+   *   });
+   *
+   *   console.log(status.migrated, status.coinStoreBalance, status.fungibleStoreBalance);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Asset
+   */
+  async getCoinMigrationStatus(args: {
+    accountAddress: AccountAddressInput;
+    coinType: MoveStructId;
+    options?: LedgerVersionArg;
+  }): Promise<CoinMigrationStatus> {
+    return getCoinMigrationStatus({ aptosConfig: this.config, ...args });
+  }
+}
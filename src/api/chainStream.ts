@@ -0,0 +1,302 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { getLedgerInfo } from "../internal/general";
+import { getBlockByHeight, getTransactions } from "../internal/transaction";
+import { AnyNumber, Block, CommittedTransactionResponse, LedgerInfo } from "../types";
+import { AptosConfig } from "./aptosConfig";
+
+/**
+ * The options shared by {@link TransactionStream} and {@link BlockStream}.
+ * @group Implementation
+ * @category General
+ */
+export type ChainStreamOptions = {
+  /**
+   * How long to wait before polling again once the stream has reached the latest ledger version, in milliseconds. The
+   * wait doubles, up to `maxPollIntervalMs`, while no new items are committed. Defaults to 1000.
+   */
+  pollIntervalMs?: number;
+  /**
+   * The longest wait between polls at the latest ledger version, in milliseconds. Defaults to 10000.
+   */
+  maxPollIntervalMs?: number;
+  /**
+   * The number of requests sent at the same time while catching up. Defaults to 4.
+   */
+  concurrency?: number;
+};
+
+/**
+ * The options of a {@link TransactionStream}.
+ * @group Implementation
+ * @category Transaction
+ */
+export type TransactionStreamOptions = ChainStreamOptions & {
+  /**
+   * The version of the first transaction. Defaults to the version after the latest ledger version, so that only new
+   * transactions are delivered.
+   */
+  fromVersion?: AnyNumber;
+  /**
+   * The version of the last transaction, after which the stream ends. By default, the stream follows the chain until
+   * it's stopped.
+   */
+  toVersion?: AnyNumber;
+  /**
+   * The number of transactions read per request. Defaults to 100.
+   */
+  batchSize?: number;
+};
+
+/**
+ * The options of a {@link BlockStream}.
+ * @group Implementation
+ * @category General
+ */
+export type BlockStreamOptions = ChainStreamOptions & {
+  /**
+   * The height of the first block. Defaults to the height after the latest block, so that only new blocks are
+   * delivered.
+   */
+  fromHeight?: AnyNumber;
+  /**
+   * The height of the last block, after which the stream ends. By default, the stream follows the chain until it's
+   * stopped.
+   */
+  toHeight?: AnyNumber;
+  /**
+   * Whether the blocks include their transactions. Defaults to false.
+   */
+  withTransactions?: boolean;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_MAX_POLL_INTERVAL_MS = 10000;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * An async iterable over the items of the chain in order of their position, i.e. transaction versions or block
+ * heights, that follows the chain until it reaches its end bound or is stopped.
+ *
+ * @group Implementation
+ * @category General
+ */
+export abstract class ChainStream<T, Options extends ChainStreamOptions> implements AsyncIterable<T> {
+  private nextPosition?: bigint;
+
+  private readonly lastPosition?: bigint;
+
+  private stopped = false;
+
+  private wakeUp?: () => void;
+
+  private iterator?: AsyncGenerator<T>;
+
+  protected constructor(
+    readonly config: AptosConfig,
+    readonly options: Options,
+    bounds: { from?: AnyNumber; to?: AnyNumber },
+  ) {
+    if (bounds.from !== undefined) {
+      this.nextPosition = BigInt(bounds.from);
+    }
+    if (bounds.to !== undefined) {
+      this.lastPosition = BigInt(bounds.to);
+    }
+  }
+
+  /**
+   * The position the stream resumes from, or undefined before it has started. It moves past an item when the next one
+   * is requested, as the item may not have been handled before that, so a stream created with this position as its
+   * start resumes where this one stopped.
+   */
+  get checkpoint(): string | undefined {
+    return this.nextPosition?.toString();
+  }
+
+  /**
+   * Stops the stream. An iteration that is waiting for new items ends.
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wakeUp?.();
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<T> {
+    // A stream has a single position, so all iterations share the same iterator
+    if (!this.iterator) {
+      this.iterator = this.poll();
+    }
+    return this.iterator;
+  }
+
+  /**
+   * Returns the oldest position the fullnode has not pruned and the latest position.
+   */
+  protected abstract bounds(ledgerInfo: LedgerInfo): { oldest: bigint; latest: bigint };
+
+  /**
+   * The number of items read per request.
+   */
+  protected abstract get batchSize(): number;
+
+  /**
+   * Reads up to `count` items starting at `start`.
+   */
+  protected abstract fetch(start: bigint, count: number): Promise<Array<T>>;
+
+  protected abstract positionOf(item: T): bigint;
+
+  private reachedEnd(): boolean {
+    return this.lastPosition !== undefined && this.nextPosition !== undefined && this.nextPosition > this.lastPosition;
+  }
+
+  private async wait(delay: number): Promise<void> {
+    if (this.stopped) return;
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, delay);
+      this.wakeUp = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+    this.wakeUp = undefined;
+  }
+
+  private async *poll(): AsyncGenerator<T> {
+    const { concurrency = DEFAULT_CONCURRENCY } = this.options;
+    const pollIntervalMs = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const maxPollIntervalMs = this.options.maxPollIntervalMs ?? DEFAULT_MAX_POLL_INTERVAL_MS;
+    let delay = pollIntervalMs;
+    while (!this.stopped && !this.reachedEnd()) {
+      // eslint-disable-next-line no-await-in-loop
+      const { oldest, latest } = this.bounds(await getLedgerInfo({ aptosConfig: this.config }));
+      if (this.nextPosition === undefined) {
+        this.nextPosition = latest + 1n;
+      }
+      const start = this.nextPosition;
+      if (start < oldest) {
+        throw new Error(`Position ${start} has been pruned by the fullnode, which starts at ${oldest}`);
+      }
+      if (start > latest) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.wait(delay);
+        delay = Math.min(delay * 2, maxPollIntervalMs);
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+      delay = pollIntervalMs;
+
+      const end = this.lastPosition !== undefined && this.lastPosition < latest ? this.lastPosition : latest;
+      const ranges: Array<{ start: bigint; count: number }> = [];
+      for (
+        let rangeStart = start;
+        rangeStart <= end && ranges.length < concurrency;
+        rangeStart += BigInt(this.batchSize)
+      ) {
+        const remaining = end - rangeStart + 1n;
+        ranges.push({ start: rangeStart, count: remaining < this.batchSize ? Number(remaining) : this.batchSize });
+      }
+      // eslint-disable-next-line no-await-in-loop
+      const batches = await Promise.all(ranges.map((range) => this.fetch(range.start, range.count)));
+      for (let i = 0; i < batches.length && !this.stopped; i += 1) {
+        const batch = batches[i];
+        for (let j = 0; j < batch.length && !this.stopped; j += 1) {
+          yield batch[j];
+          this.nextPosition = this.positionOf(batch[j]) + 1n;
+        }
+        // A short batch leaves a gap before the next range, which is read again in the next round
+        if (batch.length < ranges[i].count) break;
+      }
+    }
+  }
+}
+
+/**
+ * A stream of committed transactions, returned by `aptos.streamTransactions`. It is an async iterable that yields
+ * the transactions in order of version, reading batches concurrently while catching up and polling with a backoff at
+ * the latest ledger version, until it reaches `toVersion` or is stopped.
+ *
+ * @example
+ * ```typescript
+ * const stream = aptos.streamTransactions({ fromVersion: await loadVersion() });
+ * for await (const transaction of stream) {
+ *   await handle(transaction);
+ *   await saveVersion(BigInt(transaction.version) + 1n);
+ * }
+ * ```
+ * @group Implementation
+ * @category Transaction
+ */
+export class TransactionStream extends ChainStream<CommittedTransactionResponse, TransactionStreamOptions> {
+  constructor(config: AptosConfig, options: TransactionStreamOptions = {}) {
+    super(config, options, { from: options.fromVersion, to: options.toVersion });
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  protected bounds(ledgerInfo: LedgerInfo): { oldest: bigint; latest: bigint } {
+    return { oldest: BigInt(ledgerInfo.oldest_ledger_version), latest: BigInt(ledgerInfo.ledger_version) };
+  }
+
+  protected get batchSize(): number {
+    return this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  protected async fetch(start: bigint, count: number): Promise<Array<CommittedTransactionResponse>> {
+    const transactions = await getTransactions({ aptosConfig: this.config, options: { offset: start, limit: count } });
+    return transactions as Array<CommittedTransactionResponse>;
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  protected positionOf(transaction: CommittedTransactionResponse): bigint {
+    return BigInt(transaction.version);
+  }
+}
+
+/**
+ * A stream of blocks, returned by `aptos.streamBlocks`. It is an async iterable that yields the blocks in order of
+ * height, reading blocks concurrently while catching up and polling with a backoff at the latest block, until it
+ * reaches `toHeight` or is stopped.
+ *
+ * @example
+ * ```typescript
+ * const stream = aptos.streamBlocks({ fromHeight: 1000, toHeight: 2000, withTransactions: true });
+ * for await (const block of stream) {
+ *   console.log(block.block_height, block.transactions?.length);
+ * }
+ * ```
+ * @group Implementation
+ * @category General
+ */
+export class BlockStream extends ChainStream<Block, BlockStreamOptions> {
+  constructor(config: AptosConfig, options: BlockStreamOptions = {}) {
+    super(config, options, { from: options.fromHeight, to: options.toHeight });
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  protected bounds(ledgerInfo: LedgerInfo): { oldest: bigint; latest: bigint } {
+    return { oldest: BigInt(ledgerInfo.oldest_block_height), latest: BigInt(ledgerInfo.block_height) };
+  }
+
+  // Blocks are read one per request
+  // eslint-disable-next-line class-methods-use-this
+  protected get batchSize(): number {
+    return 1;
+  }
+
+  protected async fetch(start: bigint): Promise<Array<Block>> {
+    const block = await getBlockByHeight({
+      aptosConfig: this.config,
+      blockHeight: start,
+      options: { withTransactions: this.options.withTransactions },
+    });
+    return [block];
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  protected positionOf(block: Block): bigint {
+    return BigInt(block.block_height);
+  }
+}
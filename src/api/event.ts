@@ -12,6 +12,7 @@ import { EventsBoolExp } from "../types/generated/types";
 import { AccountAddressInput } from "../core";
 import { ProcessorType } from "../utils/const";
 import { AptosConfig } from "./aptosConfig";
+import { EventSubscription, EventSubscriptionOptions } from "./eventSubscription";
 import { waitForIndexerOnVersion } from "./utils";
 
 /**
@@ -227,4 +228,49 @@ export class Event {
     });
     return getEvents({ aptosConfig: this.config, ...args });
   }
+
+  /**
+   * Subscribes to new events that match a filter. The returned subscription is an async iterable that follows the
+   * chain from a checkpoint, the given version or the latest ledger version, and yields the matching events in order
+   * until it's stopped.
+   *
+   * Events are read from the transactions of the fullnode by default, or from the indexer with `source: "indexer"`.
+   * The subscription catches up on the transactions since its checkpoint before it waits for new ones, and reports
+   * its checkpoint to `onCheckpoint` so that it can be resumed after a restart.
+   *
+   * @param args.filter - The event type, account address and creation number of the events. Every field that is set
+   * has to match.
+   * @param args.checkpoint - Optional checkpoint to resume from.
+   * @param args.fromVersion - Optional version to start at when there's no checkpoint.
+   * @param args.source - Optional source of the events, `fullnode` or `indexer`. Defaults to `fullnode`.
+   * @param args.pollIntervalMs - Optional time to wait between polls once caught up. Defaults to 1000.
+   * @param args.batchSize - Optional number of transactions or events read per request. Defaults to 100.
+   * @param args.onCheckpoint - Optional callback for the checkpoint, e.g. to save it.
+   * @returns The subscription.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const subscription = aptos.event.subscribe({
+   *     filter: { eventType: "0x1::transaction_fee::FeeStatement" },
+   *     onCheckpoint: (checkpoint) => console.log("Processed up to", checkpoint),
+   *   });
+   *
+   *   for await (const event of subscription) {
+   *     console.log(event.version, event.data);
+   *     if (event.data.total_charge_gas_units > 1000) subscription.stop();
+   *   }
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Event
+   */
+  subscribe(args: EventSubscriptionOptions): EventSubscription {
+    return new EventSubscription(this.config, args);
+  }
 }
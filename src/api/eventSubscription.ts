@@ -0,0 +1,345 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress, AccountAddressInput } from "../core";
+import { getEvents } from "../internal/event";
+import { getIndexerLastSuccessVersion, getLedgerInfo } from "../internal/general";
+import { getTransactions } from "../internal/transaction";
+import { AnyNumber, Event as MoveEvent, MoveStructId } from "../types";
+import { EventsBoolExp } from "../types/generated/types";
+import { AptosConfig } from "./aptosConfig";
+
+/**
+ * The events an {@link EventSubscription} delivers. Every field that is set has to match.
+ * @group Implementation
+ * @category Event
+ */
+export type EventFilter = {
+  /**
+   * The type of the events, e.g. `0x1::coin::CoinDeposit`
+   */
+  eventType?: MoveStructId;
+  /**
+   * The account of the event handle of the events. Module events have no event handle, and their account is `0x0`.
+   */
+  accountAddress?: AccountAddressInput;
+  /**
+   * The creation number of the event handle of the events
+   */
+  creationNumber?: AnyNumber;
+};
+
+/**
+ * The position of an {@link EventSubscription} in the chain: the next event it delivers is the event with index
+ * `eventIndex` in the transaction with version `version`, or the first matching event after it.
+ * @group Implementation
+ * @category Event
+ */
+export type EventCheckpoint = {
+  version: string;
+  eventIndex: number;
+};
+
+/**
+ * An event delivered by an {@link EventSubscription}.
+ * @group Implementation
+ * @category Event
+ */
+export type SubscribedEvent = {
+  /**
+   * The version of the transaction that emitted the event
+   */
+  version: string;
+  /**
+   * The index of the event in the events of its transaction
+   */
+  eventIndex: number;
+  type: string;
+  accountAddress: string;
+  creationNumber: string;
+  sequenceNumber: string;
+  /**
+   * The JSON representation of the event
+   */
+  data: any;
+};
+
+/**
+ * The options of an {@link EventSubscription}.
+ * @group Implementation
+ * @category Event
+ */
+export type EventSubscriptionOptions = {
+  filter: EventFilter;
+  /**
+   * The checkpoint to resume from, e.g. one saved by `onCheckpoint` before the process stopped.
+   */
+  checkpoint?: EventCheckpoint;
+  /**
+   * The version to start at when there's no checkpoint. Defaults to the version after the latest ledger version, so
+   * that only new events are delivered.
+   */
+  fromVersion?: AnyNumber;
+  /**
+   * Where events are read from. The fullnode scans the transactions for matching events, and can only catch up on
+   * transactions that it hasn't pruned. The indexer is queried for the matching events. Defaults to `fullnode`.
+   */
+  source?: "fullnode" | "indexer";
+  /**
+   * How long to wait before polling again once the subscription has caught up, in milliseconds. Defaults to 1000.
+   */
+  pollIntervalMs?: number;
+  /**
+   * The number of transactions, or indexer events, read per request. Defaults to 100.
+   */
+  batchSize?: number;
+  /**
+   * Called when the checkpoint moves, after an event has been handled and after a batch has been scanned. The
+   * subscription waits for the returned promise, so that the checkpoint can be saved before it moves on.
+   */
+  onCheckpoint?: (checkpoint: EventCheckpoint) => void | Promise<void>;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * A subscription to new events, returned by `aptos.event.subscribe`. It is an async iterable that follows the chain
+ * and yields the matching events in order of version and event index, until it's stopped.
+ *
+ * Events are delivered at least once: the checkpoint moves past an event when the next event is requested, so an
+ * event that was being handled when the process stopped is delivered again after resuming from the checkpoint.
+ *
+ * @example
+ * ```typescript
+ * const subscription = aptos.event.subscribe({
+ *   filter: { eventType: "0x1::fungible_asset::Deposit" },
+ *   checkpoint: await loadCheckpoint(),
+ *   onCheckpoint: saveCheckpoint,
+ * });
+ * for await (const event of subscription) {
+ *   console.log(event.version, event.data);
+ * }
+ * ```
+ * @group Implementation
+ * @category Event
+ */
+export class EventSubscription implements AsyncIterable<SubscribedEvent> {
+  private currentCheckpoint?: EventCheckpoint;
+
+  private stopped = false;
+
+  private wakeUp?: () => void;
+
+  private iterator?: AsyncGenerator<SubscribedEvent>;
+
+  constructor(
+    readonly config: AptosConfig,
+    readonly options: EventSubscriptionOptions,
+  ) {
+    this.currentCheckpoint = options.checkpoint;
+  }
+
+  /**
+   * The position of the subscription, or undefined before it has started.
+   */
+  get checkpoint(): EventCheckpoint | undefined {
+    return this.currentCheckpoint;
+  }
+
+  /**
+   * Stops the subscription. An iteration that is waiting for new events ends.
+   */
+  stop(): void {
+    this.stopped = true;
+    this.wakeUp?.();
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<SubscribedEvent> {
+    // A subscription has a single checkpoint, so all iterations share the same iterator
+    if (!this.iterator) {
+      this.iterator = this.options.source === "indexer" ? this.pollIndexer() : this.pollFullnode();
+    }
+    return this.iterator;
+  }
+
+  private async start(): Promise<EventCheckpoint> {
+    if (this.currentCheckpoint) {
+      return this.currentCheckpoint;
+    }
+    if (this.options.fromVersion !== undefined) {
+      return { version: BigInt(this.options.fromVersion).toString(), eventIndex: 0 };
+    }
+    const { ledger_version: ledgerVersion } = await getLedgerInfo({ aptosConfig: this.config });
+    return { version: (BigInt(ledgerVersion) + 1n).toString(), eventIndex: 0 };
+  }
+
+  private async moveTo(checkpoint: EventCheckpoint): Promise<void> {
+    const current = this.currentCheckpoint;
+    if (current && current.version === checkpoint.version && current.eventIndex === checkpoint.eventIndex) {
+      return;
+    }
+    this.currentCheckpoint = checkpoint;
+    await this.options.onCheckpoint?.(checkpoint);
+  }
+
+  private async wait(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+      this.wakeUp = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+    });
+    this.wakeUp = undefined;
+  }
+
+  private matches(event: MoveEvent): boolean {
+    const { eventType, accountAddress, creationNumber } = this.options.filter;
+    if (eventType !== undefined && event.type !== eventType) {
+      return false;
+    }
+    if (
+      accountAddress !== undefined &&
+      !AccountAddress.from(event.guid.account_address).equals(AccountAddress.from(accountAddress))
+    ) {
+      return false;
+    }
+    return creationNumber === undefined || BigInt(event.guid.creation_number) === BigInt(creationNumber);
+  }
+
+  /**
+   * Reads the transactions from the fullnode, and yields their matching events.
+   */
+  private async *pollFullnode(): AsyncGenerator<SubscribedEvent> {
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    await this.moveTo(await this.start());
+    while (!this.stopped) {
+      const checkpoint = this.currentCheckpoint!;
+      const start = BigInt(checkpoint.version);
+      // eslint-disable-next-line no-await-in-loop
+      const ledgerInfo = await getLedgerInfo({ aptosConfig: this.config });
+      if (start < BigInt(ledgerInfo.oldest_ledger_version)) {
+        throw new Error(
+          `Version ${start} has been pruned by the fullnode, which starts at version ${ledgerInfo.oldest_ledger_version}. ` +
+            "Subscribe with the indexer as source to catch up.",
+        );
+      }
+      const ledgerVersion = BigInt(ledgerInfo.ledger_version);
+      if (start > ledgerVersion) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.wait();
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+
+      const remaining = ledgerVersion - start + 1n;
+      // eslint-disable-next-line no-await-in-loop
+      const transactions = await getTransactions({
+        aptosConfig: this.config,
+        options: { offset: start, limit: remaining < batchSize ? Number(remaining) : batchSize },
+      });
+      for (let i = 0; i < transactions.length && !this.stopped; i += 1) {
+        const transaction = transactions[i];
+        const version = "version" in transaction ? transaction.version : undefined;
+        const events: Array<MoveEvent> = "events" in transaction ? transaction.events : [];
+        if (version !== undefined) {
+          const firstIndex = version === checkpoint.version ? checkpoint.eventIndex : 0;
+          for (let eventIndex = firstIndex; eventIndex < events.length && !this.stopped; eventIndex += 1) {
+            const event = events[eventIndex];
+            if (this.matches(event)) {
+              yield {
+                version,
+                eventIndex,
+                type: event.type,
+                accountAddress: event.guid.account_address,
+                creationNumber: event.guid.creation_number,
+                sequenceNumber: event.sequence_number,
+                data: event.data,
+              };
+              // eslint-disable-next-line no-await-in-loop
+              await this.moveTo({ version, eventIndex: eventIndex + 1 });
+            }
+          }
+          if (!this.stopped) {
+            this.currentCheckpoint = { version: (BigInt(version) + 1n).toString(), eventIndex: 0 };
+          }
+        }
+      }
+      if (!this.stopped && this.currentCheckpoint !== checkpoint) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.options.onCheckpoint?.(this.currentCheckpoint!);
+      }
+    }
+  }
+
+  /**
+   * Queries the indexer for the matching events.
+   */
+  private async *pollIndexer(): AsyncGenerator<SubscribedEvent> {
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const { eventType, accountAddress, creationNumber } = this.options.filter;
+    const filter: EventsBoolExp = {};
+    if (eventType !== undefined) {
+      filter.indexed_type = { _eq: eventType };
+    }
+    if (accountAddress !== undefined) {
+      filter.account_address = { _eq: AccountAddress.from(accountAddress).toStringLong() };
+    }
+    if (creationNumber !== undefined) {
+      // The variables are sent as JSON, which has no bigint
+      filter.creation_number = { _eq: String(creationNumber) };
+    }
+
+    await this.moveTo(await this.start());
+    while (!this.stopped) {
+      const { version, eventIndex } = this.currentCheckpoint!;
+      // Read the last version the indexer has processed first, so that no events are missed between the two queries
+      // eslint-disable-next-line no-await-in-loop
+      const lastSuccessVersion = await getIndexerLastSuccessVersion({ aptosConfig: this.config });
+      // eslint-disable-next-line no-await-in-loop
+      const events = await getEvents({
+        aptosConfig: this.config,
+        options: {
+          where: {
+            ...filter,
+            _or: [
+              { transaction_version: { _gt: version } },
+              { transaction_version: { _eq: version }, event_index: { _gte: eventIndex } },
+            ],
+          },
+          orderBy: [{ transaction_version: "asc" }, { event_index: "asc" }],
+          limit: batchSize,
+        },
+      });
+      for (let i = 0; i < events.length && !this.stopped; i += 1) {
+        const event = events[i];
+        const eventVersion = String(event.transaction_version);
+        yield {
+          version: eventVersion,
+          eventIndex: Number(event.event_index),
+          type: event.type,
+          accountAddress: event.account_address,
+          creationNumber: String(event.creation_number),
+          sequenceNumber: String(event.sequence_number),
+          data: event.data,
+        };
+        // eslint-disable-next-line no-await-in-loop
+        await this.moveTo({ version: eventVersion, eventIndex: Number(event.event_index) + 1 });
+      }
+      if (!this.stopped && events.length < batchSize) {
+        // Every event up to the last processed version has been delivered
+        const processed = (lastSuccessVersion + 1n).toString();
+        if (BigInt(processed) > BigInt(this.currentCheckpoint!.version)) {
+          // eslint-disable-next-line no-await-in-loop
+          await this.moveTo({ version: processed, eventIndex: 0 });
+        }
+        // eslint-disable-next-line no-await-in-loop
+        await this.wait();
+      }
+    }
+  }
+}
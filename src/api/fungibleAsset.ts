@@ -3,16 +3,23 @@
 
 import {
   AnyNumber,
+  FungibleStoreTarget,
   GetCurrentFungibleAssetBalancesResponse,
   GetFungibleAssetActivitiesResponse,
   GetFungibleAssetMetadataResponse,
+  HexInput,
+  MoveFunctionId,
   PaginationArgs,
   WhereArg,
 } from "../types";
 import {
+  burnFungibleAssetTransaction,
+  createFungibleAssetTransaction,
   getCurrentFungibleAssetBalances,
   getFungibleAssetActivities,
   getFungibleAssetMetadata,
+  mintFungibleAssetTransaction,
+  setFungibleStoreFrozenTransaction,
   transferFungibleAsset,
   transferFungibleAssetBetweenStores,
 } from "../internal/fungibleAsset";
@@ -368,4 +375,250 @@ export class FungibleAsset {
   }): Promise<SimpleTransaction> {
     return transferFungibleAssetBetweenStores({ aptosConfig: this.config, ...args });
   }
+
+  /**
+   * Generates a transaction that creates a fungible asset with primary stores enabled, owned by the sender. The
+   * transaction calls the `issuer` module of the `fa_issuer` Move package, which keeps the refs to mint, burn and
+   * freeze the asset for the owner of its metadata. The package is shipped with the SDK, in
+   * `node_modules/@aptos-labs/ts-sdk/move/fa_issuer`, and has to be published once, at `issuerAddress`, e.g. with
+   * `aptos move publish --package-dir node_modules/@aptos-labs/ts-sdk/move/fa_issuer --named-addresses FAIssuer=<address>`.
+   *
+   * The metadata of the asset is created at the address of the named object of the sender and the seed, which is
+   * returned with the transaction.
+   *
+   * @param args.sender - The creator, who owns the metadata and can mint, burn and freeze the asset.
+   * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+   * @param args.name - The name of the asset.
+   * @param args.symbol - The symbol of the asset.
+   * @param args.decimals - The number of decimals of the asset.
+   * @param args.iconUri - Optional URI of the icon of the asset.
+   * @param args.projectUri - Optional URI of the project of the asset.
+   * @param args.maxSupply - Optional maximum supply of the asset. The supply is unlimited when it isn't given.
+   * @param args.seed - Optional seed of the address of the metadata, unique for the creator. Defaults to the symbol.
+   * @param args.withdrawHook - Optional function registered as the dispatchable withdraw hook of the asset, e.g.
+   * `0x123::my_token::withdraw`.
+   * @param args.depositHook - Optional function registered as the dispatchable deposit hook of the asset. It has to be
+   * in the same module as the withdraw hook.
+   * @param args.options - Optional parameters for generating the transaction.
+   * @returns The transaction, and the address of the metadata of the asset it creates.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const { transaction, metadataAddress } = await aptos.createFungibleAssetTransaction({
+   *     sender: "0x1", // replace with a real account address
+   *     issuerAddress: "0x2", // replace with the address the fa_issuer package is published at
+   *     name: "My Token",
+   *     symbol: "MTK",
+   *     decimals: 8,
+   *     maxSupply: 1_000_000_000n,
+   *   });
+   *
+   *   console.log(transaction, metadataAddress.toString());
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group FungibleAsset
+   */
+  async createFungibleAssetTransaction(args: {
+    sender: AccountAddressInput;
+    issuerAddress: AccountAddressInput;
+    name: string;
+    symbol: string;
+    decimals: number;
+    iconUri?: string;
+    projectUri?: string;
+    maxSupply?: AnyNumber;
+    seed?: HexInput;
+    withdrawHook?: MoveFunctionId;
+    depositHook?: MoveFunctionId;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<{ transaction: SimpleTransaction; metadataAddress: AccountAddress }> {
+    return createFungibleAssetTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that mints a fungible asset created with `createFungibleAssetTransaction` to the primary
+   * store of the recipient. The sender has to own the metadata of the asset.
+   *
+   * @param args.sender - The owner of the metadata of the asset.
+   * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+   * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset.
+   * @param args.recipient - The account receiving the minted asset.
+   * @param args.amount - The amount to mint.
+   * @param args.options - Optional parameters for generating the transaction.
+   * @returns A SimpleTransaction that can be simulated or submitted to the chain.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.mintFungibleAssetTransaction({
+   *     sender: "0x1", // replace with the owner of the asset
+   *     issuerAddress: "0x2", // replace with the address the fa_issuer package is published at
+   *     fungibleAssetMetadataAddress: "0x3", // replace with a real fungible asset address
+   *     recipient: "0x4", // replace with a real account address
+   *     amount: 100,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group FungibleAsset
+   */
+  async mintFungibleAssetTransaction(args: {
+    sender: AccountAddressInput;
+    issuerAddress: AccountAddressInput;
+    fungibleAssetMetadataAddress: AccountAddressInput;
+    recipient: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return mintFungibleAssetTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that burns a fungible asset created with `createFungibleAssetTransaction`, from the
+   * primary store of an account or from any store. The sender has to own the metadata of the asset.
+   *
+   * @param args.sender - The owner of the metadata of the asset.
+   * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+   * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset, to use the primary store of
+   * `owner`.
+   * @param args.owner - The account whose primary store to use.
+   * @param args.store - The address of the store to use, instead of a primary store.
+   * @param args.amount - The amount to burn.
+   * @param args.options - Optional parameters for generating the transaction.
+   * @returns A SimpleTransaction that can be simulated or submitted to the chain.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.burnFungibleAssetTransaction({
+   *     sender: "0x1", // replace with the owner of the asset
+   *     issuerAddress: "0x2", // replace with the address the fa_issuer package is published at
+   *     fungibleAssetMetadataAddress: "0x3", // replace with a real fungible asset address
+   *     owner: "0x4", // replace with a real account address
+   *     amount: 100,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group FungibleAsset
+   */
+  async burnFungibleAssetTransaction(
+    args: {
+      sender: AccountAddressInput;
+      issuerAddress: AccountAddressInput;
+      amount: AnyNumber;
+      options?: InputGenerateTransactionOptions;
+    } & FungibleStoreTarget,
+  ): Promise<SimpleTransaction> {
+    return burnFungibleAssetTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that freezes the primary store of an account, or any store, of a fungible asset created
+   * with `createFungibleAssetTransaction`. A frozen store can't send or receive the asset. The sender has to own the
+   * metadata of the asset.
+   *
+   * @param args.sender - The owner of the metadata of the asset.
+   * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+   * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset, to use the primary store of
+   * `owner`.
+   * @param args.owner - The account whose primary store to use.
+   * @param args.store - The address of the store to use, instead of a primary store.
+   * @param args.options - Optional parameters for generating the transaction.
+   * @returns A SimpleTransaction that can be simulated or submitted to the chain.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.freezeFungibleStoreTransaction({
+   *     sender: "0x1", // replace with the owner of the asset
+   *     issuerAddress: "0x2", // replace with the address the fa_issuer package is published at
+   *     store: "0x5", // replace with a real fungible store address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group FungibleAsset
+   */
+  async freezeFungibleStoreTransaction(
+    args: {
+      sender: AccountAddressInput;
+      issuerAddress: AccountAddressInput;
+      options?: InputGenerateTransactionOptions;
+    } & FungibleStoreTarget,
+  ): Promise<SimpleTransaction> {
+    return setFungibleStoreFrozenTransaction({ aptosConfig: this.config, ...args, frozen: true });
+  }
+
+  /**
+   * Generates a transaction that unfreezes a store frozen with `freezeFungibleStoreTransaction`. The sender has to own
+   * the metadata of the asset.
+   *
+   * @param args.sender - The owner of the metadata of the asset.
+   * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+   * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset, to use the primary store of
+   * `owner`.
+   * @param args.owner - The account whose primary store to use.
+   * @param args.store - The address of the store to use, instead of a primary store.
+   * @param args.options - Optional parameters for generating the transaction.
+   * @returns A SimpleTransaction that can be simulated or submitted to the chain.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.unfreezeFungibleStoreTransaction({
+   *     sender: "0x1", // replace with the owner of the asset
+   *     issuerAddress: "0x2", // replace with the address the fa_issuer package is published at
+   *     fungibleAssetMetadataAddress: "0x3", // replace with a real fungible asset address
+   *     owner: "0x4", // replace with a real account address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group FungibleAsset
+   */
+  async unfreezeFungibleStoreTransaction(
+    args: {
+      sender: AccountAddressInput;
+      issuerAddress: AccountAddressInput;
+      options?: InputGenerateTransactionOptions;
+    } & FungibleStoreTarget,
+  ): Promise<SimpleTransaction> {
+    return setFungibleStoreFrozenTransaction({ aptosConfig: this.config, ...args, frozen: false });
+  }
 }
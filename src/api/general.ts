@@ -12,6 +12,7 @@ import {
 import { getBlockByHeight, getBlockByVersion } from "../internal/transaction";
 import { view, viewJson } from "../internal/view";
 import {
+  AcceptTypeArg,
   AnyNumber,
   Block,
   GetChainTopUserTransactionsResponse,
@@ -23,6 +24,7 @@ import {
 } from "../types";
 import { ProcessorType } from "../utils/const";
 import { InputViewFunctionData, InputViewFunctionJsonData } from "../transactions";
+import { BlockStream, BlockStreamOptions } from "./chainStream";
 
 /**
  * A class to query various Aptos-related information and perform operations on the Aptos blockchain.
@@ -181,10 +183,50 @@ export class General {
     return getBlockByHeight({ aptosConfig: this.config, ...args });
   }
 
+  /**
+   * Streams the blocks of the chain in order of height. The returned stream is an async iterable that starts at
+   * `fromHeight`, or after the latest block, and follows the chain until it reaches `toHeight` or is stopped.
+   *
+   * While catching up, blocks are read concurrently. At the latest block, the stream polls the ledger info with a
+   * backoff from `pollIntervalMs` up to `maxPollIntervalMs`.
+   *
+   * @param args.fromHeight - Optional height of the first block, e.g. a saved checkpoint.
+   * @param args.toHeight - Optional height of the last block.
+   * @param args.withTransactions - Optional, whether the blocks include their transactions. Defaults to false.
+   * @param args.concurrency - Optional number of requests sent at the same time while catching up. Defaults to 4.
+   * @param args.pollIntervalMs - Optional initial wait between polls at the latest block. Defaults to 1000.
+   * @param args.maxPollIntervalMs - Optional longest wait between polls at the latest block. Defaults to 10000.
+   * @returns The stream of blocks.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   // Follow the new blocks with their transactions
+   *   const stream = aptos.streamBlocks({ withTransactions: true });
+   *
+   *   for await (const block of stream) {
+   *     console.log(block.block_height, block.transactions?.length);
+   *   }
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group General
+   */
+  streamBlocks(args?: BlockStreamOptions): BlockStream {
+    return new BlockStream(this.config, args);
+  }
+
   /**
    * Queries for a Move view function
    * @param args.payload Payload for the view function
    * @param args.options.ledgerVersion The ledger version to query, if not provided it will get the latest version
+   * @param args.options.acceptType Optional. `MimeType.BCS` fetches the return values as BCS and decodes them with the
+   * ABI of the function into the same values as the JSON API returns. Defaults to `MimeType.JSON`.
    *
    * @example
    * const data = await aptos.view({
@@ -195,12 +237,12 @@ export class General {
    *  }
    * })
    *
-   * @returns an array of Move values
+   * @returns an array of Move values, with function values decoded into `MoveClosure`s
    * @group General
    */
   async view<T extends Array<MoveValue>>(args: {
     payload: InputViewFunctionData;
-    options?: LedgerVersionArg;
+    options?: LedgerVersionArg & AcceptTypeArg;
   }): Promise<T> {
     return view<T>({ aptosConfig: this.config, ...args });
   }
@@ -219,7 +261,7 @@ export class General {
    *  }
    * })
    *
-   * @returns an array of Move values
+   * @returns an array of Move values, with function values decoded into `MoveClosure`s
    * @group General
    */
   async viewJson<T extends Array<MoveValue>>(args: {
@@ -1,5 +1,8 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
+export * from "./accountActivityWatcher";
 export * from "./aptos";
 export * from "./aptosConfig";
+export * from "./chainStream";
+export * from "./eventSubscription";
@@ -0,0 +1,544 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress, AccountAddressInput } from "../core";
+import {
+  createMultisigAccountTransaction,
+  decodeMultisigTransactionPayload,
+  executeMultisigTransaction,
+  executeRejectedMultisigTransaction,
+  getMultisigOwners,
+  getMultisigPendingTransactions,
+  getMultisigSignaturesRequired,
+  getMultisigTransaction,
+  getMultisigVote,
+  getNextMultisigAccountAddress,
+  proposeMultisigOwnersChangeTransaction,
+  proposeMultisigTransaction,
+  voteMultisigTransaction,
+} from "../internal/multisig";
+import { EntryFunction, InputEntryFunctionData, InputGenerateTransactionOptions } from "../transactions";
+import { SimpleTransaction } from "../transactions/instances/simpleTransaction";
+import { AnyNumber, HexInput, LedgerVersionArg, MultisigTransaction, MultisigVote } from "../types";
+import { AptosConfig } from "./aptosConfig";
+
+/**
+ * A class to manage multisig accounts of `0x1::multisig_account`: creating them, proposing, voting on and executing
+ * their transactions, and changing their owners.
+ * @group Multisig
+ */
+export class Multisig {
+  /**
+   * Initializes a new instance of the Aptos client with the provided configuration.
+   *
+   * @param config - The configuration settings for the Aptos client.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * async function runExample() {
+   *     // Create a new Aptos client with testnet configuration
+   *     const config = new AptosConfig({ network: Network.TESTNET });
+   *     const aptos = new Aptos(config);
+   *
+   *     console.log("Aptos client initialized:", aptos);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  constructor(readonly config: AptosConfig) {}
+
+  /**
+   * Generates a transaction that creates a multisig account, owned by the sender and the additional owners. The
+   * address of the new account is returned by `getNextMultisigAccountAddress` before the transaction is submitted.
+   *
+   * @param args.sender - The account creating the multisig account, which becomes its first owner.
+   * @param args.additionalOwners - The other owners of the multisig account.
+   * @param args.signaturesRequired - The number of approvals a transaction needs to be executed.
+   * @param args.metadata - Optional metadata of the multisig account, as keys and byte values.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const multisigAddress = await aptos.getNextMultisigAccountAddress({ creator: "0x1" });
+   *   const transaction = await aptos.createMultisigAccountTransaction({
+   *     sender: "0x1", // replace with a real account address
+   *     additionalOwners: ["0x2", "0x3"], // replace with real account addresses
+   *     signaturesRequired: 2,
+   *   });
+   *
+   *   console.log(multisigAddress, transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async createMultisigAccountTransaction(args: {
+    sender: AccountAddressInput;
+    additionalOwners: Array<AccountAddressInput>;
+    signaturesRequired: AnyNumber;
+    metadata?: Record<string, HexInput>;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return createMultisigAccountTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that proposes a transaction to a multisig account, for its owners to vote on. The proposer
+   * approves the transaction. The payload is stored on chain, or only its hash with `hashOnly`, in which case the
+   * payload has to be given again when the transaction is executed.
+   *
+   * @param args.sender - The owner proposing the transaction.
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.data - The entry function the multisig account runs.
+   * @param args.hashOnly - Optional, whether to store only the hash of the payload. Defaults to false.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   // Propose a transfer of 100 octas from the multisig account
+   *   const transaction = await aptos.proposeMultisigTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *     data: { function: "0x1::aptos_account::transfer", functionArguments: ["0x3", 100] },
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async proposeMultisigTransaction(args: {
+    sender: AccountAddressInput;
+    multisigAddress: AccountAddressInput;
+    data: InputEntryFunctionData;
+    hashOnly?: boolean;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return proposeMultisigTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that proposes a change to the owners or the number of signatures required of a multisig
+   * account. The change is a transaction of the multisig account, which is executed once enough owners approved it.
+   * Owners can either be added or removed, and the number of signatures required can be changed with them.
+   *
+   * @param args.sender - The owner proposing the change.
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.addOwners - Optional owners to add.
+   * @param args.removeOwners - Optional owners to remove.
+   * @param args.signaturesRequired - Optional new number of approvals a transaction needs to be executed.
+   * @param args.hashOnly - Optional, whether to store only the hash of the payload. Defaults to false.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   // Propose to add an owner and require 3 approvals
+   *   const transaction = await aptos.proposeMultisigOwnersChangeTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *     addOwners: ["0x4"],
+   *     signaturesRequired: 3,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async proposeMultisigOwnersChangeTransaction(args: {
+    sender: AccountAddressInput;
+    multisigAddress: AccountAddressInput;
+    addOwners?: Array<AccountAddressInput>;
+    removeOwners?: Array<AccountAddressInput>;
+    signaturesRequired?: AnyNumber;
+    hashOnly?: boolean;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return proposeMultisigOwnersChangeTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that approves a transaction of a multisig account.
+   *
+   * @param args.sender - The owner approving the transaction.
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.approveMultisigTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *     sequenceNumber: 1,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async approveMultisigTransaction(args: {
+    sender: AccountAddressInput;
+    multisigAddress: AccountAddressInput;
+    sequenceNumber: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return voteMultisigTransaction({ aptosConfig: this.config, ...args, approve: true });
+  }
+
+  /**
+   * Generates a transaction that rejects a transaction of a multisig account.
+   *
+   * @param args.sender - The owner rejecting the transaction.
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.rejectMultisigTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *     sequenceNumber: 1,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async rejectMultisigTransaction(args: {
+    sender: AccountAddressInput;
+    multisigAddress: AccountAddressInput;
+    sequenceNumber: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return voteMultisigTransaction({ aptosConfig: this.config, ...args, approve: false });
+  }
+
+  /**
+   * Generates a transaction that executes the next transaction of a multisig account, once enough owners approved it.
+   * The stored payload is executed when `data` is omitted; it's required when only the hash of the payload was stored.
+   *
+   * @param args.sender - The owner executing the transaction.
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.data - Optional entry function of the transaction.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.executeMultisigTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async executeMultisigTransaction(args: {
+    sender: AccountAddressInput;
+    multisigAddress: AccountAddressInput;
+    data?: InputEntryFunctionData;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return executeMultisigTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that removes the next transaction of a multisig account, once enough owners rejected it.
+   *
+   * @param args.sender - The owner removing the transaction.
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.executeRejectedMultisigTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async executeRejectedMultisigTransaction(args: {
+    sender: AccountAddressInput;
+    multisigAddress: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return executeRejectedMultisigTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Returns the address of the next multisig account an account creates.
+   *
+   * @param args.creator - The account creating the multisig account.
+   * @returns The address of the multisig account.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const address = await aptos.getNextMultisigAccountAddress({ creator: "0x1" }); // replace with a real account address
+   *   console.log(address.toString());
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async getNextMultisigAccountAddress(args: { creator: AccountAddressInput }): Promise<AccountAddress> {
+    return getNextMultisigAccountAddress({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Returns the owners of a multisig account.
+   *
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.options.ledgerVersion - Optional ledger version to read the owners at.
+   * @returns The addresses of the owners.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const owners = await aptos.getMultisigOwners({ multisigAddress: "0x2" }); // replace with a real multisig account address
+   *   console.log(owners);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async getMultisigOwners(args: {
+    multisigAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<Array<string>> {
+    return getMultisigOwners({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Returns the number of approvals a transaction of a multisig account needs to be executed.
+   *
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.options.ledgerVersion - Optional ledger version to read the number at.
+   * @returns The number of signatures required.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const required = await aptos.getMultisigSignaturesRequired({ multisigAddress: "0x2" }); // replace with a real address
+   *   console.log(required);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async getMultisigSignaturesRequired(args: {
+    multisigAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<number> {
+    return getMultisigSignaturesRequired({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Returns a transaction of a multisig account, with the entry function decoded from its stored payload and the
+   * votes of the owners.
+   *
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+   * @param args.options.ledgerVersion - Optional ledger version to read the transaction at.
+   * @returns The multisig transaction.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.getMultisigTransaction({
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *     sequenceNumber: 1,
+   *   });
+   *
+   *   console.log(transaction.payload?.function_name.identifier, transaction.approvals);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async getMultisigTransaction(args: {
+    multisigAddress: AccountAddressInput;
+    sequenceNumber: AnyNumber;
+    options?: LedgerVersionArg;
+  }): Promise<MultisigTransaction> {
+    return getMultisigTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Returns the transactions of a multisig account that haven't been executed or removed yet, in order of sequence
+   * number, with the entry functions decoded from their stored payloads and the votes of the owners.
+   *
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.options.ledgerVersion - Optional ledger version to read the transactions at.
+   * @returns The pending multisig transactions.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const pending = await aptos.getMultisigPendingTransactions({ multisigAddress: "0x2" }); // replace with a real address
+   *   pending.forEach((transaction) => console.log(transaction.sequenceNumber, transaction.approvals.length));
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async getMultisigPendingTransactions(args: {
+    multisigAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<Array<MultisigTransaction>> {
+    return getMultisigPendingTransactions({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Returns the vote of an owner on a transaction of a multisig account.
+   *
+   * @param args.multisigAddress - The address of the multisig account.
+   * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+   * @param args.owner - The owner whose vote to return.
+   * @param args.options.ledgerVersion - Optional ledger version to read the vote at.
+   * @returns Whether the owner voted, and whether it approved the transaction.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const { voted, approved } = await aptos.getMultisigVote({
+   *     multisigAddress: "0x2", // replace with a real multisig account address
+   *     sequenceNumber: 1,
+   *     owner: "0x1", // replace with a real owner address
+   *   });
+   *
+   *   console.log(voted, approved);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Multisig
+   */
+  async getMultisigVote(args: {
+    multisigAddress: AccountAddressInput;
+    sequenceNumber: AnyNumber;
+    owner: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<MultisigVote> {
+    return getMultisigVote({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Decodes the payload of a multisig transaction, as stored on chain, into the entry function it runs.
+   *
+   * @param args.payload - The BCS bytes of the payload.
+   * @returns The entry function. Its arguments are the BCS bytes of the values.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * const entryFunction = aptos.decodeMultisigTransactionPayload({ payload: "0x00..." }); // replace with a real payload
+   * console.log(entryFunction.module_name.name.identifier, entryFunction.function_name.identifier);
+   * ```
+   * @group Multisig
+   */
+  // eslint-disable-next-line class-methods-use-this
+  decodeMultisigTransactionPayload(args: { payload: HexInput }): EntryFunction {
+    return decodeMultisigTransactionPayload(args.payload);
+  }
+}
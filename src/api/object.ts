@@ -1,15 +1,39 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
-import { AnyNumber, GetObjectDataQueryResponse, OrderByArg, PaginationArgs } from "../types";
-import { AccountAddressInput } from "../core";
+import {
+  AnyNumber,
+  GetObjectDataQueryResponse,
+  LedgerVersionArg,
+  MoveStructId,
+  ObjectCore,
+  ObjectOwnership,
+  OrderByArg,
+  PaginationArgs,
+} from "../types";
+import { AccountAddress, AccountAddressInput } from "../core";
 import { AptosConfig } from "./aptosConfig";
 import { ProcessorType } from "../utils";
 import { waitForIndexerOnVersion } from "./utils";
-import { getObjectDataByObjectAddress } from "../internal/object";
+import {
+  burnObjectTransaction,
+  getNextGuidObjectAddress,
+  getObjectCore,
+  getObjectDataByObjectAddress,
+  getObjectOwnership,
+  getObjectResources,
+  isObjectUngatedTransferAllowed,
+  transferObjectToObjectTransaction,
+  transferObjectTransaction,
+  unburnObjectTransaction,
+} from "../internal/object";
+import { InputGenerateTransactionOptions } from "../transactions";
+import { SimpleTransaction } from "../transactions/instances/simpleTransaction";
 
 /**
- * A class to query all `Object` related queries on Aptos.
+ * A class to query all `Object` related queries on Aptos, and to build the transactions of the `0x1::object` module.
+ * The addresses of named, GUID-based and user-derived objects are derived with {@link createObjectAddress},
+ * {@link createGuidObjectAddress} and {@link createUserDerivedObjectAddress}.
  * @group Object
  */
 export class AptosObject {
@@ -87,4 +111,323 @@ export class AptosObject {
       ...args,
     });
   }
+
+  /**
+   * Reads the `0x1::object::ObjectCore` resource of an object from the fullnode, with its owner and whether it allows
+   * ungated transfer.
+   *
+   * @param args.objectAddress - The address of the object.
+   * @param args.options.ledgerVersion - Optional ledger version to read the object at.
+   * @returns The `ObjectCore` of the object.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const core = await aptos.getObjectCore({
+   *     objectAddress: "0x1", // replace with a real object address
+   *   });
+   *
+   *   console.log(core.owner);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async getObjectCore(args: { objectAddress: AccountAddressInput; options?: LedgerVersionArg }): Promise<ObjectCore> {
+    return getObjectCore({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Follows the owners of an object, which can be other objects, up to its root owner, the first owner that isn't an
+   * object. All the owners are read from the fullnode at the same ledger version.
+   *
+   * @param args.objectAddress - The address of the object.
+   * @param args.options.ledgerVersion - Optional ledger version to read the owners at. Defaults to the latest ledger
+   * version.
+   * @returns The owners of the object, from its direct owner to its root owner.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const { owners, rootOwner } = await aptos.getObjectOwnership({
+   *     objectAddress: "0x1", // replace with a real object address
+   *   });
+   *
+   *   console.log(`Owned by ${owners[0]}, held by ${rootOwner}`);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async getObjectOwnership(args: {
+    objectAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<ObjectOwnership> {
+    return getObjectOwnership({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Checks whether the owner of an object can transfer it with `0x1::object::transfer`, without a `TransferRef`.
+   *
+   * @param args.objectAddress - The address of the object.
+   * @param args.options.ledgerVersion - Optional ledger version to read the object at.
+   * @returns Whether the object allows ungated transfer.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transferable = await aptos.isObjectUngatedTransferAllowed({
+   *     objectAddress: "0x1", // replace with a real object address
+   *   });
+   *
+   *   console.log(transferable);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async isObjectUngatedTransferAllowed(args: {
+    objectAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<boolean> {
+    return isObjectUngatedTransferAllowed({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Derives the address of the next object created from the GUID of an account or an object, such as by
+   * `0x1::object::create_object_from_account` or `0x1::object::create_object_from_object`, from its current
+   * `guid_creation_num`.
+   *
+   * @param args.creatorAddress - The address of the account or object creating the object.
+   * @param args.options.ledgerVersion - Optional ledger version to read the creator at.
+   * @returns The address the next object created from the GUID of the creator will have.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const objectAddress = await aptos.getNextGuidObjectAddress({
+   *     creatorAddress: "0x1", // replace with a real account or object address
+   *   });
+   *
+   *   console.log(objectAddress.toString());
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async getNextGuidObjectAddress(args: {
+    creatorAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<AccountAddress> {
+    return getNextGuidObjectAddress({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Reads resources of the object resource group at an object address from the fullnode, at the same ledger version.
+   * Each resource is returned at the key its type is given at, and is undefined when the object doesn't have it.
+   *
+   * @param args.objectAddress - The address of the object.
+   * @param args.resourceTypes - The type of each resource to read, by the key to return it at.
+   * @param args.options.ledgerVersion - Optional ledger version to read the resources at. Defaults to the latest
+   * ledger version.
+   * @returns The resources of the object, by key.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network, ObjectCore } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const { core, token } = await aptos.getObjectResources<{ core: ObjectCore; token: { name: string } }>({
+   *     objectAddress: "0x1", // replace with a real object address
+   *     resourceTypes: { core: "0x1::object::ObjectCore", token: "0x4::token::Token" },
+   *   });
+   *
+   *   console.log(core?.owner, token?.name);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async getObjectResources<T extends Record<string, {}>>(args: {
+    objectAddress: AccountAddressInput;
+    resourceTypes: { [K in keyof T]: MoveStructId };
+    options?: LedgerVersionArg;
+  }): Promise<{ [K in keyof T]?: T[K] }> {
+    return getObjectResources<T>({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that transfers an object owned by the sender to an account or an object, with
+   * `0x1::object::transfer`. The object must allow ungated transfer.
+   *
+   * @param args.sender - The owner of the object.
+   * @param args.objectAddress - The address of the object.
+   * @param args.recipient - The address receiving the object.
+   * @param args.objectType - The type of a resource of the object, `0x1::object::ObjectCore` by default.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.transferObjectTransaction({
+   *     sender: "0x1", // replace with a real sender address
+   *     objectAddress: "0x2", // replace with a real object address
+   *     recipient: "0x3", // replace with a real recipient address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async transferObjectTransaction(args: {
+    sender: AccountAddressInput;
+    objectAddress: AccountAddressInput;
+    recipient: AccountAddressInput;
+    objectType?: MoveStructId;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return transferObjectTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that transfers an object owned by the sender to another object, with
+   * `0x1::object::transfer_to_object`.
+   *
+   * @param args.sender - The owner of the object.
+   * @param args.objectAddress - The address of the object.
+   * @param args.toObjectAddress - The address of the object receiving it.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.transferObjectToObjectTransaction({
+   *     sender: "0x1", // replace with a real sender address
+   *     objectAddress: "0x2", // replace with a real object address
+   *     toObjectAddress: "0x3", // replace with the address of the object receiving it
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async transferObjectToObjectTransaction(args: {
+    sender: AccountAddressInput;
+    objectAddress: AccountAddressInput;
+    toObjectAddress: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return transferObjectToObjectTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that burns an object owned by the sender with `0x1::object::burn`, which hands it over to
+   * the burn address until the sender takes it back with {@link unburnObjectTransaction}.
+   *
+   * @param args.sender - The owner of the object.
+   * @param args.objectAddress - The address of the object.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.burnObjectTransaction({
+   *     sender: "0x1", // replace with a real sender address
+   *     objectAddress: "0x2", // replace with a real object address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async burnObjectTransaction(args: {
+    sender: AccountAddressInput;
+    objectAddress: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return burnObjectTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that returns a burnt object to its original owner, the sender, with
+   * `0x1::object::unburn`.
+   *
+   * @param args.sender - The original owner of the object.
+   * @param args.objectAddress - The address of the object.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.unburnObjectTransaction({
+   *     sender: "0x1", // replace with the original owner address
+   *     objectAddress: "0x2", // replace with a real object address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Object
+   */
+  async unburnObjectTransaction(args: {
+    sender: AccountAddressInput;
+    objectAddress: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return unburnObjectTransaction({ aptosConfig: this.config, ...args });
+  }
 }
@@ -2,18 +2,39 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import {
+  delegatedStakeTransaction,
   getDelegatedStakingActivities,
+  getDelegatedStakingPosition,
   getNumberOfDelegators,
   getNumberOfDelegatorsForAllPools,
+  increaseStakePoolLockupTransaction,
+  initializeDelegationPoolTransaction,
+  initializeStakePoolTransaction,
+  setDelegationPoolOperatorTransaction,
+  setStakePoolRoleTransaction,
+  stakePoolStakeTransaction,
+  updateDelegationPoolCommissionTransaction,
+  validatorSetTransaction,
 } from "../internal/staking";
-import { AnyNumber, GetDelegatedStakingActivitiesResponse, GetNumberOfDelegatorsResponse, OrderByArg } from "../types";
+import {
+  AnyNumber,
+  DelegatedStakingPosition,
+  GetDelegatedStakingActivitiesResponse,
+  GetNumberOfDelegatorsResponse,
+  HexInput,
+  LedgerVersionArg,
+  OrderByArg,
+} from "../types";
 import { AccountAddressInput } from "../core";
+import { InputGenerateTransactionOptions } from "../transactions";
+import { SimpleTransaction } from "../transactions/instances/simpleTransaction";
 import { ProcessorType } from "../utils/const";
 import { AptosConfig } from "./aptosConfig";
 import { waitForIndexerOnVersion } from "./utils";
 
 /**
- * A class to query all `Staking` related queries on Aptos.
+ * A class to query all `Staking` related queries on Aptos, and to build the transactions of the lifecycle of
+ * delegation pools and stake pools.
  * @group Staking
  */
 export class Staking {
@@ -158,4 +179,675 @@ export class Staking {
     });
     return getDelegatedStakingActivities({ aptosConfig: this.config, ...args });
   }
+
+  /**
+   * Generates a transaction that creates a delegation pool owned by the sender, which is also its operator until
+   * another one is set.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.operatorCommissionPercentage - The percentage of the rewards going to the operator, e.g. 10.5 for
+   * 10.5%.
+   * @param args.seed - The seed the address of the pool is derived from, which has to be unique for the owner.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.initializeDelegationPoolTransaction({
+   *     sender: "0x1", // replace with a real account address
+   *     operatorCommissionPercentage: 10,
+   *     seed: "0x01",
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async initializeDelegationPoolTransaction(args: {
+    sender: AccountAddressInput;
+    operatorCommissionPercentage: number;
+    seed: HexInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return initializeDelegationPoolTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that adds stake of the sender to a delegation pool. The stake becomes
+   * active at the end of the epoch.
+   *
+   * @param args.sender - The delegator.
+   * @param args.poolAddress - The address of the delegation pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.addDelegatedStakeTransaction({
+   *     sender: "0x1", // replace with a real delegator address
+   *     poolAddress: "0x2", // replace with a real pool address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async addDelegatedStakeTransaction(args: {
+    sender: AccountAddressInput;
+    poolAddress: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return delegatedStakeTransaction({ aptosConfig: this.config, ...args, action: "add_stake" });
+  }
+
+  /**
+   * Generates a transaction that unlocks active stake of the sender in a delegation pool. The stake
+   * becomes pending inactive, and inactive once the lockup of the pool expires.
+   *
+   * @param args.sender - The delegator.
+   * @param args.poolAddress - The address of the delegation pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.unlockDelegatedStakeTransaction({
+   *     sender: "0x1", // replace with a real delegator address
+   *     poolAddress: "0x2", // replace with a real pool address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async unlockDelegatedStakeTransaction(args: {
+    sender: AccountAddressInput;
+    poolAddress: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return delegatedStakeTransaction({ aptosConfig: this.config, ...args, action: "unlock" });
+  }
+
+  /**
+   * Generates a transaction that moves pending inactive stake of the sender in a delegation pool back to
+   * active stake.
+   *
+   * @param args.sender - The delegator.
+   * @param args.poolAddress - The address of the delegation pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.reactivateDelegatedStakeTransaction({
+   *     sender: "0x1", // replace with a real delegator address
+   *     poolAddress: "0x2", // replace with a real pool address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async reactivateDelegatedStakeTransaction(args: {
+    sender: AccountAddressInput;
+    poolAddress: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return delegatedStakeTransaction({ aptosConfig: this.config, ...args, action: "reactivate_stake" });
+  }
+
+  /**
+   * Generates a transaction that withdraws inactive stake of the sender from a delegation pool. The
+   * `withdrawable` amount of `getDelegatedStakingPosition` is the stake that can be withdrawn.
+   *
+   * @param args.sender - The delegator.
+   * @param args.poolAddress - The address of the delegation pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.withdrawDelegatedStakeTransaction({
+   *     sender: "0x1", // replace with a real delegator address
+   *     poolAddress: "0x2", // replace with a real pool address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async withdrawDelegatedStakeTransaction(args: {
+    sender: AccountAddressInput;
+    poolAddress: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return delegatedStakeTransaction({ aptosConfig: this.config, ...args, action: "withdraw" });
+  }
+
+  /**
+   * Generates a transaction that sets the operator of the delegation pool of the sender.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.operator - The new operator.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.setDelegationPoolOperatorTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     operator: "0x2", // replace with a real operator address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async setDelegationPoolOperatorTransaction(args: {
+    sender: AccountAddressInput;
+    operator: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return setDelegationPoolOperatorTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that changes the commission of the operator of the delegation pool of the sender, from
+   * the next lockup cycle.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.operatorCommissionPercentage - The percentage of the rewards going to the operator, e.g. 10.5 for
+   * 10.5%.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.updateDelegationPoolCommissionTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     operatorCommissionPercentage: 8.5,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async updateDelegationPoolCommissionTransaction(args: {
+    sender: AccountAddressInput;
+    operatorCommissionPercentage: number;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return updateDelegationPoolCommissionTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that creates a stake pool owned by the sender, with an initial stake.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.amount - The initial stake, in octas.
+   * @param args.operator - Optional operator of the pool. Defaults to the sender.
+   * @param args.voter - Optional voter of the pool. Defaults to the sender.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.initializeStakePoolTransaction({
+   *     sender: "0x1", // replace with a real account address
+   *     amount: 1_000_000_000_000,
+   *     operator: "0x2", // replace with a real operator address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async initializeStakePoolTransaction(args: {
+    sender: AccountAddressInput;
+    amount: AnyNumber;
+    operator?: AccountAddressInput;
+    voter?: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return initializeStakePoolTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that adds stake to the stake pool of the sender. The stake becomes active at the
+   * end of the epoch when the pool is in the validator set, and right away otherwise.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.addStakePoolStakeTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async addStakePoolStakeTransaction(args: {
+    sender: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return stakePoolStakeTransaction({ aptosConfig: this.config, ...args, action: "add_stake" });
+  }
+
+  /**
+   * Generates a transaction that unlocks active stake in the stake pool of the sender. The stake becomes
+   * pending inactive, and inactive once the lockup of the pool expires.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.unlockStakePoolStakeTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async unlockStakePoolStakeTransaction(args: {
+    sender: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return stakePoolStakeTransaction({ aptosConfig: this.config, ...args, action: "unlock" });
+  }
+
+  /**
+   * Generates a transaction that moves pending inactive stake in the stake pool of the sender back to active
+   * stake.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.reactivateStakePoolStakeTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async reactivateStakePoolStakeTransaction(args: {
+    sender: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return stakePoolStakeTransaction({ aptosConfig: this.config, ...args, action: "reactivate_stake" });
+  }
+
+  /**
+   * Generates a transaction that withdraws inactive stake from the stake pool of the sender.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.amount - The amount of octas.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.withdrawStakePoolStakeTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     amount: 100_000_000,
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async withdrawStakePoolStakeTransaction(args: {
+    sender: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return stakePoolStakeTransaction({ aptosConfig: this.config, ...args, action: "withdraw" });
+  }
+
+  /**
+   * Generates a transaction that renews the lockup of the stake pool of the sender, for the recurring lockup
+   * duration.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.increaseStakePoolLockupTransaction({ sender: "0x1" }); // replace with a real address
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async increaseStakePoolLockupTransaction(args: {
+    sender: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return increaseStakePoolLockupTransaction({ aptosConfig: this.config, ...args });
+  }
+
+  /**
+   * Generates a transaction that sets the operator of the stake pool of the sender.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.operator - The new operator.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.setStakePoolOperatorTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     operator: "0x2", // replace with a real address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async setStakePoolOperatorTransaction(args: {
+    sender: AccountAddressInput;
+    operator: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return setStakePoolRoleTransaction({
+      aptosConfig: this.config,
+      sender: args.sender,
+      role: "operator",
+      address: args.operator,
+      options: args.options,
+    });
+  }
+
+  /**
+   * Generates a transaction that sets the voter of the stake pool of the sender.
+   *
+   * @param args.sender - The owner of the pool.
+   * @param args.voter - The new voter.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.setStakePoolVoterTransaction({
+   *     sender: "0x1", // replace with a real owner address
+   *     voter: "0x2", // replace with a real address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async setStakePoolVoterTransaction(args: {
+    sender: AccountAddressInput;
+    voter: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return setStakePoolRoleTransaction({
+      aptosConfig: this.config,
+      sender: args.sender,
+      role: "voter",
+      address: args.voter,
+      options: args.options,
+    });
+  }
+
+  /**
+   * Generates a transaction that makes a stake pool join the validator set from the next epoch, once its
+   * active stake is within the bounds of the staking config.
+   *
+   * @param args.sender - The operator of the pool.
+   * @param args.poolAddress - The address of the stake pool.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.joinValidatorSetTransaction({
+   *     sender: "0x1", // replace with a real operator address
+   *     poolAddress: "0x2", // replace with a real pool address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async joinValidatorSetTransaction(args: {
+    sender: AccountAddressInput;
+    poolAddress: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return validatorSetTransaction({ aptosConfig: this.config, ...args, join: true });
+  }
+
+  /**
+   * Generates a transaction that makes a stake pool leave the validator set from the next epoch.
+   *
+   * @param args.sender - The operator of the pool.
+   * @param args.poolAddress - The address of the stake pool.
+   * @param args.options - Optional options for generating the transaction.
+   * @returns SimpleTransaction
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const transaction = await aptos.leaveValidatorSetTransaction({
+   *     sender: "0x1", // replace with a real operator address
+   *     poolAddress: "0x2", // replace with a real pool address
+   *   });
+   *
+   *   console.log(transaction);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async leaveValidatorSetTransaction(args: {
+    sender: AccountAddressInput;
+    poolAddress: AccountAddressInput;
+    options?: InputGenerateTransactionOptions;
+  }): Promise<SimpleTransaction> {
+    return validatorSetTransaction({ aptosConfig: this.config, ...args, join: false });
+  }
+
+  /**
+   * Retrieves the stake of a delegator in a delegation pool: the active, inactive and pending inactive amounts, when
+   * the lockup of the pool expires, the commission of its operator, and how much can be withdrawn now and after the
+   * lockup. All the values are read at the same ledger version.
+   *
+   * @param args.poolAddress - The address of the delegation pool.
+   * @param args.delegatorAddress - The address of the delegator.
+   * @param args.options.ledgerVersion - Optional ledger version to read the stake at.
+   * @returns The staking position of the delegator.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   const position = await aptos.getDelegatedStakingPosition({
+   *     poolAddress: "0x2", // replace with a real pool address
+   *     delegatorAddress: "0x1", // replace with a real delegator address
+   *   });
+   *
+   *   console.log(position.active, position.withdrawable, position.lockupExpirationSecs);
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Staking
+   */
+  async getDelegatedStakingPosition(args: {
+    poolAddress: AccountAddressInput;
+    delegatorAddress: AccountAddressInput;
+    options?: LedgerVersionArg;
+  }): Promise<DelegatedStakingPosition> {
+    return getDelegatedStakingPosition({ aptosConfig: this.config, ...args });
+  }
 }
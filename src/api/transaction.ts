@@ -36,13 +36,14 @@ import {
   InputGenerateTransactionPayloadData,
 } from "../transactions";
 import { AccountAddressInput, AuthenticationKey, Ed25519PrivateKey } from "../core";
-import { Account } from "../account";
+import { Account, AsyncSigner, TransactionSigner } from "../account";
 import { Build } from "./transactionSubmission/build";
 import { Simulate } from "./transactionSubmission/simulate";
 import { Submit } from "./transactionSubmission/submit";
 import { TransactionManagement } from "./transactionSubmission/management";
 import { SimpleTransaction } from "../transactions/instances/simpleTransaction";
 import { rotateAuthKey } from "../internal/account";
+import { TransactionStream, TransactionStreamOptions } from "./chainStream";
 
 /**
  * Represents a transaction in the Aptos blockchain,
@@ -210,6 +211,45 @@ export class Transaction {
     });
   }
 
+  /**
+   * Streams the committed transactions of the chain in order of version. The returned stream is an async iterable
+   * that starts at `fromVersion`, or after the latest ledger version, and follows the chain until it reaches
+   * `toVersion` or is stopped.
+   *
+   * While catching up, batches of transactions are read concurrently. At the latest ledger version, the stream polls
+   * the ledger info with a backoff from `pollIntervalMs` up to `maxPollIntervalMs`.
+   *
+   * @param args.fromVersion - Optional version of the first transaction, e.g. a saved checkpoint.
+   * @param args.toVersion - Optional version of the last transaction.
+   * @param args.batchSize - Optional number of transactions read per request. Defaults to 100.
+   * @param args.concurrency - Optional number of requests sent at the same time while catching up. Defaults to 4.
+   * @param args.pollIntervalMs - Optional initial wait between polls at the latest version. Defaults to 1000.
+   * @param args.maxPollIntervalMs - Optional longest wait between polls at the latest version. Defaults to 10000.
+   * @returns The stream of transactions.
+   *
+   * @example
+   * ```typescript
+   * import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+   *
+   * const config = new AptosConfig({ network: Network.TESTNET });
+   * const aptos = new Aptos(config);
+   *
+   * async function runExample() {
+   *   // Read the transactions from version 1000 to 2000
+   *   const stream = aptos.streamTransactions({ fromVersion: 1000, toVersion: 2000 });
+   *
+   *   for await (const transaction of stream) {
+   *     console.log(transaction.version, transaction.type);
+   *   }
+   * }
+   * runExample().catch(console.error);
+   * ```
+   * @group Transaction
+   */
+  streamTransactions(args?: TransactionStreamOptions): TransactionStream {
+    return new TransactionStream(this.config, args);
+  }
+
   /**
    * Queries on-chain transaction by version. This function will not return pending transactions.
    *
@@ -536,10 +576,11 @@ export class Transaction {
    * This function is essential for ensuring the authenticity of the transaction by using the provided account's signing capabilities.
    *
    * @param args - The arguments for signing the transaction.
-   * @param args.signer - The account that will sign the transaction.
+   * @param args.signer - The account that will sign the transaction, or an `AsyncSigner`.
    * @param args.transaction - A raw transaction to sign.
    *
-   * @returns AccountAuthenticator - The authenticator for the signed transaction.
+   * @returns AccountAuthenticator - The authenticator for the signed transaction, or a promise for it when signing with an
+   * `AsyncSigner`.
    *
    * @example
    * ```typescript
@@ -569,8 +610,20 @@ export class Transaction {
    * ```
    * @group Transaction
    */
+  sign(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator;
+
+  sign(args: { signer: AsyncSigner; transaction: AnyRawTransaction }): Promise<AccountAuthenticator>;
+
+  sign(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator>;
+
   // eslint-disable-next-line class-methods-use-this
-  sign(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator {
+  sign(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator> {
     return signTransaction({
       ...args,
     });
@@ -581,10 +634,11 @@ export class Transaction {
    * This function ensures that the transaction is marked with the fee payer's address, allowing it to be processed correctly.
    *
    * @param args - The arguments for signing the transaction.
-   * @param args.signer - The fee payer signer account.
+   * @param args.signer - The fee payer signer account, or an `AsyncSigner`.
    * @param args.transaction - A raw transaction to sign on. This transaction must include a `feePayerAddress` property.
    *
-   * @returns AccountAuthenticator - The authenticator for the signed transaction.
+   * @returns AccountAuthenticator - The authenticator for the signed transaction, or a promise for it when signing with an
+   * `AsyncSigner`.
    *
    * @example
    * ```typescript
@@ -613,8 +667,20 @@ export class Transaction {
    * ```
    * @group Transaction
    */
+  signAsFeePayer(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator;
+
+  signAsFeePayer(args: { signer: AsyncSigner; transaction: AnyRawTransaction }): Promise<AccountAuthenticator>;
+
+  signAsFeePayer(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator>;
+
   // eslint-disable-next-line class-methods-use-this
-  signAsFeePayer(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator {
+  signAsFeePayer(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator> {
     return signAsFeePayer({
       ...args,
     });
@@ -715,7 +781,7 @@ export class Transaction {
    */
   async signAndSubmitTransaction(
     args: FeePayerOrFeePayerAuthenticatorOrNeither & {
-      signer: Account;
+      signer: TransactionSigner;
       transaction: AnyRawTransaction;
     },
   ): Promise<PendingTransactionResponse> {
@@ -745,7 +811,7 @@ export class Transaction {
    * @group Transaction
    */
   async signAndSubmitAsFeePayer(args: {
-    feePayer: Account;
+    feePayer: TransactionSigner;
     senderAuthenticator: AccountAuthenticator;
     transaction: AnyRawTransaction;
   }): Promise<PendingTransactionResponse> {
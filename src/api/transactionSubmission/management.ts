@@ -2,10 +2,10 @@ import EventEmitter from "eventemitter3";
 import { TransactionWorkerEvents, TransactionWorker, TransactionWorkerEventsEnum } from "../../transactions/management";
 import { InputGenerateTransactionPayloadData, InputGenerateTransactionOptions } from "../../transactions";
 import { AptosConfig } from "../aptosConfig";
-import { Account } from "../../account";
+import { TransactionSigner } from "../../account";
 
 export class TransactionManagement extends EventEmitter<TransactionWorkerEvents> {
-  account!: Account;
+  account!: TransactionSigner;
 
   transactionWorker!: TransactionWorker;
 
@@ -71,7 +71,7 @@ export class TransactionManagement extends EventEmitter<TransactionWorkerEvents>
    * ```
    * @group Implementation
    */
-  private start(args: { sender: Account }): void {
+  private start(args: { sender: TransactionSigner }): void {
     const { sender } = args;
     this.account = sender;
     this.transactionWorker = new TransactionWorker(this.config, sender);
@@ -195,7 +195,7 @@ export class TransactionManagement extends EventEmitter<TransactionWorkerEvents>
    * @group Implementation
    */
   forSingleAccount(args: {
-    sender: Account;
+    sender: TransactionSigner;
     data: InputGenerateTransactionPayloadData[];
     options?: Omit<InputGenerateTransactionOptions, "accountSequenceNumber">;
   }): void {
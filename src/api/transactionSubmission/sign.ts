@@ -1,7 +1,7 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
-import { Account } from "../../account";
+import { Account, AsyncSigner, TransactionSigner } from "../../account";
 import { signTransaction } from "../../internal/transactionSubmission";
 import { AccountAuthenticator, AnyRawTransaction } from "../../transactions";
 import { AptosConfig } from "../aptosConfig";
@@ -44,7 +44,7 @@ export class Sign {
    * authenticated before being sent to the network.
    *
    * @param args - The arguments for signing the transaction.
-   * @param args.signer - The account that will sign the transaction.
+   * @param args.signer - The account that will sign the transaction, or an `AsyncSigner`.
    * @param args.transaction - The raw transaction data to be signed.
    *
    * @example
@@ -76,8 +76,20 @@ export class Sign {
    * ```
    * @group Implementation
    */
+  transaction(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator;
+
+  transaction(args: { signer: AsyncSigner; transaction: AnyRawTransaction }): Promise<AccountAuthenticator>;
+
+  transaction(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator>;
+
   // eslint-disable-next-line class-methods-use-this
-  transaction(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator {
+  transaction(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator> {
     return signTransaction({
       ...args,
     });
@@ -88,7 +100,7 @@ export class Sign {
    * This function is essential for transactions that require a designated fee payer.
    *
    * @param args - The arguments for the function.
-   * @param args.signer - The account that will sign the transaction.
+   * @param args.signer - The account that will sign the transaction, or an `AsyncSigner`.
    * @param args.transaction - The transaction object that requires a fee payer address.
    *
    * @throws Error if the transaction does not have a feePayerAddress property.
@@ -121,8 +133,20 @@ export class Sign {
    * ```
    * @group Implementation
    */
+  transactionAsFeePayer(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator;
+
+  transactionAsFeePayer(args: { signer: AsyncSigner; transaction: AnyRawTransaction }): Promise<AccountAuthenticator>;
+
+  transactionAsFeePayer(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator>;
+
   // eslint-disable-next-line class-methods-use-this
-  transactionAsFeePayer(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator {
+  transactionAsFeePayer(args: {
+    signer: TransactionSigner;
+    transaction: AnyRawTransaction;
+  }): AccountAuthenticator | Promise<AccountAuthenticator> {
     const { signer, transaction } = args;
 
     // if transaction doesn't hold a "feePayerAddress" prop it means
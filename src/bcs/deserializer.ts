@@ -3,7 +3,21 @@
 
 /* eslint-disable no-bitwise */
 import { MAX_U32_NUMBER } from "./consts";
-import { Uint8, Uint16, Uint32, Uint64, Uint128, Uint256, HexInput } from "../types";
+import {
+  Uint8,
+  Uint16,
+  Uint32,
+  Uint64,
+  Uint128,
+  Uint256,
+  HexInput,
+  Int8,
+  Int16,
+  Int32,
+  Int64,
+  Int128,
+  Int256,
+} from "../types";
 import { Hex } from "../core/hex";
 
 /**
@@ -345,6 +359,72 @@ export class Deserializer {
     return BigInt((high << BigInt(128)) | low);
   }
 
+  /**
+   * Deserializes an int8 number from its two's complement representation.
+   *
+   * @returns {number} The deserialized int8 number.
+   * @group Implementation
+   * @category BCS
+   */
+  deserializeI8(): Int8 {
+    return new DataView(this.read(1)).getInt8(0);
+  }
+
+  /**
+   * Deserializes an int16 number from its little-endian two's complement representation.
+   *
+   * @example
+   * ```typescript
+   * const deserializer = new Deserializer(new Uint8Array([0xFE, 0xFF]));
+   * assert(deserializer.deserializeI16() === -2);
+   * ```
+   * @group Implementation
+   * @category BCS
+   */
+  deserializeI16(): Int16 {
+    return new DataView(this.read(2)).getInt16(0, true);
+  }
+
+  /**
+   * Deserializes an int32 number from its little-endian two's complement representation.
+   *
+   * @group Implementation
+   * @category BCS
+   */
+  deserializeI32(): Int32 {
+    return new DataView(this.read(4)).getInt32(0, true);
+  }
+
+  /**
+   * Deserializes an int64 number from its little-endian two's complement representation.
+   *
+   * @group Implementation
+   * @category BCS
+   */
+  deserializeI64(): Int64 {
+    return BigInt.asIntN(64, this.deserializeU64());
+  }
+
+  /**
+   * Deserializes an int128 number from its little-endian two's complement representation.
+   *
+   * @group Implementation
+   * @category BCS
+   */
+  deserializeI128(): Int128 {
+    return BigInt.asIntN(128, this.deserializeU128());
+  }
+
+  /**
+   * Deserializes an int256 number from its little-endian two's complement representation.
+   *
+   * @group Implementation
+   * @category BCS
+   */
+  deserializeI256(): Int256 {
+    return BigInt.asIntN(256, this.deserializeU256());
+  }
+
   /**
    * Deserializes a uleb128 encoded uint32 number.
    *
@@ -1,18 +1,32 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
+/* eslint-disable max-classes-per-file */
+
 import {
+  MAX_I128_BIG_INT,
+  MAX_I16_NUMBER,
+  MAX_I256_BIG_INT,
+  MAX_I32_NUMBER,
+  MAX_I64_BIG_INT,
+  MAX_I8_NUMBER,
   MAX_U128_BIG_INT,
   MAX_U16_NUMBER,
   MAX_U32_NUMBER,
   MAX_U64_BIG_INT,
   MAX_U8_NUMBER,
   MAX_U256_BIG_INT,
+  MIN_I128_BIG_INT,
+  MIN_I16_NUMBER,
+  MIN_I256_BIG_INT,
+  MIN_I32_NUMBER,
+  MIN_I64_BIG_INT,
+  MIN_I8_NUMBER,
 } from "../consts";
 import { Deserializer } from "../deserializer";
 import { Serializable, Serializer, ensureBoolean, validateNumberInRange } from "../serializer";
 import { TransactionArgument } from "../../transactions/instances/transactionArgument";
-import { AnyNumber, Uint16, Uint32, Uint8, ScriptTransactionArgumentVariants } from "../../types";
+import { AnyNumber, Int16, Int32, Int8, Uint16, Uint32, Uint8, ScriptTransactionArgumentVariants } from "../../types";
 
 /**
  * Represents a boolean value that can be serialized and deserialized.
@@ -326,3 +340,227 @@ export class U256 extends Serializable implements TransactionArgument {
     return new U256(deserializer.deserializeU256());
   }
 }
+
+/**
+ * Represents a signed 8-bit integer (I8) value.
+ * This class extends the Serializable class and provides methods for serialization and deserialization of I8 values,
+ * ensuring that the values are within the valid range.
+ *
+ * Script arguments have no variant for signed integers, so they are passed to scripts as serialized arguments.
+ *
+ * @extends Serializable
+ * @group Implementation
+ * @category BCS
+ */
+export class I8 extends Serializable implements TransactionArgument {
+  public readonly value: Int8;
+
+  constructor(value: Int8) {
+    super();
+    validateNumberInRange(value, MIN_I8_NUMBER, MAX_I8_NUMBER);
+    this.value = value;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeI8(this.value);
+  }
+
+  serializeForEntryFunction(serializer: Serializer): void {
+    const bcsBytes = this.bcsToBytes();
+    serializer.serializeBytes(bcsBytes);
+  }
+
+  serializeForScriptFunction(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(ScriptTransactionArgumentVariants.Serialized);
+    serializer.serializeBytes(this.bcsToBytes());
+  }
+
+  static deserialize(deserializer: Deserializer): I8 {
+    return new I8(deserializer.deserializeI8());
+  }
+}
+
+/**
+ * Represents a signed 16-bit integer (I16) value.
+ * This class extends the Serializable class and provides methods for serialization and deserialization of I16 values,
+ * ensuring that the values are within the valid range.
+ *
+ * @extends Serializable
+ * @group Implementation
+ * @category BCS
+ */
+export class I16 extends Serializable implements TransactionArgument {
+  public readonly value: Int16;
+
+  constructor(value: Int16) {
+    super();
+    validateNumberInRange(value, MIN_I16_NUMBER, MAX_I16_NUMBER);
+    this.value = value;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeI16(this.value);
+  }
+
+  serializeForEntryFunction(serializer: Serializer): void {
+    const bcsBytes = this.bcsToBytes();
+    serializer.serializeBytes(bcsBytes);
+  }
+
+  serializeForScriptFunction(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(ScriptTransactionArgumentVariants.Serialized);
+    serializer.serializeBytes(this.bcsToBytes());
+  }
+
+  static deserialize(deserializer: Deserializer): I16 {
+    return new I16(deserializer.deserializeI16());
+  }
+}
+
+/**
+ * Represents a signed 32-bit integer (I32) value.
+ * This class extends the Serializable class and provides methods for serialization and deserialization of I32 values,
+ * ensuring that the values are within the valid range.
+ *
+ * @extends Serializable
+ * @group Implementation
+ * @category BCS
+ */
+export class I32 extends Serializable implements TransactionArgument {
+  public readonly value: Int32;
+
+  constructor(value: Int32) {
+    super();
+    validateNumberInRange(value, MIN_I32_NUMBER, MAX_I32_NUMBER);
+    this.value = value;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeI32(this.value);
+  }
+
+  serializeForEntryFunction(serializer: Serializer): void {
+    const bcsBytes = this.bcsToBytes();
+    serializer.serializeBytes(bcsBytes);
+  }
+
+  serializeForScriptFunction(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(ScriptTransactionArgumentVariants.Serialized);
+    serializer.serializeBytes(this.bcsToBytes());
+  }
+
+  static deserialize(deserializer: Deserializer): I32 {
+    return new I32(deserializer.deserializeI32());
+  }
+}
+
+/**
+ * Represents a signed 64-bit integer (I64) value.
+ * This class extends the Serializable class and provides methods for serialization and deserialization of I64 values,
+ * ensuring that the values are within the valid range.
+ *
+ * @extends Serializable
+ * @group Implementation
+ * @category BCS
+ */
+export class I64 extends Serializable implements TransactionArgument {
+  public readonly value: bigint;
+
+  constructor(value: AnyNumber) {
+    super();
+    validateNumberInRange(value, MIN_I64_BIG_INT, MAX_I64_BIG_INT);
+    this.value = BigInt(value);
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeI64(this.value);
+  }
+
+  serializeForEntryFunction(serializer: Serializer): void {
+    const bcsBytes = this.bcsToBytes();
+    serializer.serializeBytes(bcsBytes);
+  }
+
+  serializeForScriptFunction(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(ScriptTransactionArgumentVariants.Serialized);
+    serializer.serializeBytes(this.bcsToBytes());
+  }
+
+  static deserialize(deserializer: Deserializer): I64 {
+    return new I64(deserializer.deserializeI64());
+  }
+}
+
+/**
+ * Represents a signed 128-bit integer (I128) value.
+ * This class extends the Serializable class and provides methods for serialization and deserialization of I128 values,
+ * ensuring that the values are within the valid range.
+ *
+ * @extends Serializable
+ * @group Implementation
+ * @category BCS
+ */
+export class I128 extends Serializable implements TransactionArgument {
+  public readonly value: bigint;
+
+  constructor(value: AnyNumber) {
+    super();
+    validateNumberInRange(value, MIN_I128_BIG_INT, MAX_I128_BIG_INT);
+    this.value = BigInt(value);
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeI128(this.value);
+  }
+
+  serializeForEntryFunction(serializer: Serializer): void {
+    const bcsBytes = this.bcsToBytes();
+    serializer.serializeBytes(bcsBytes);
+  }
+
+  serializeForScriptFunction(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(ScriptTransactionArgumentVariants.Serialized);
+    serializer.serializeBytes(this.bcsToBytes());
+  }
+
+  static deserialize(deserializer: Deserializer): I128 {
+    return new I128(deserializer.deserializeI128());
+  }
+}
+
+/**
+ * Represents a signed 256-bit integer (I256) value.
+ * This class extends the Serializable class and provides methods for serialization and deserialization of I256 values,
+ * ensuring that the values are within the valid range.
+ *
+ * @extends Serializable
+ * @group Implementation
+ * @category BCS
+ */
+export class I256 extends Serializable implements TransactionArgument {
+  public readonly value: bigint;
+
+  constructor(value: AnyNumber) {
+    super();
+    validateNumberInRange(value, MIN_I256_BIG_INT, MAX_I256_BIG_INT);
+    this.value = BigInt(value);
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeI256(this.value);
+  }
+
+  serializeForEntryFunction(serializer: Serializer): void {
+    const bcsBytes = this.bcsToBytes();
+    serializer.serializeBytes(bcsBytes);
+  }
+
+  serializeForScriptFunction(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(ScriptTransactionArgumentVariants.Serialized);
+    serializer.serializeBytes(this.bcsToBytes());
+  }
+
+  static deserialize(deserializer: Deserializer): I256 {
+    return new I256(deserializer.deserializeI256());
+  }
+}
@@ -3,15 +3,27 @@
 
 /* eslint-disable no-bitwise */
 import {
+  MAX_I128_BIG_INT,
+  MAX_I16_NUMBER,
+  MAX_I256_BIG_INT,
+  MAX_I32_NUMBER,
+  MAX_I64_BIG_INT,
+  MAX_I8_NUMBER,
   MAX_U128_BIG_INT,
   MAX_U16_NUMBER,
   MAX_U32_NUMBER,
   MAX_U64_BIG_INT,
   MAX_U8_NUMBER,
   MAX_U256_BIG_INT,
+  MIN_I128_BIG_INT,
+  MIN_I16_NUMBER,
+  MIN_I256_BIG_INT,
+  MIN_I32_NUMBER,
+  MIN_I64_BIG_INT,
+  MIN_I8_NUMBER,
 } from "./consts";
 import { Hex } from "../core/hex";
-import { AnyNumber, Uint16, Uint32, Uint8 } from "../types";
+import { AnyNumber, Int16, Int32, Int8, Uint16, Uint32, Uint8 } from "../types";
 
 /**
  * This class serves as a base class for all serializable types. It facilitates
@@ -338,6 +350,87 @@ export class Serializer {
     this.serializeU128(high);
   }
 
+  /**
+   * Serializes an 8-bit signed integer.
+   * BCS layout for "int8": One byte. Binary format in two's complement representation.
+   *
+   * @param value - The 8-bit signed integer value to serialize.
+   * @group Implementation
+   * @category BCS
+   */
+  @checkNumberRange(MIN_I8_NUMBER, MAX_I8_NUMBER)
+  serializeI8(value: Int8) {
+    this.serializeWithFunction(DataView.prototype.setInt8, 1, value);
+  }
+
+  /**
+   * Serializes a 16-bit signed integer.
+   * BCS layout for "int16": Two bytes. Binary format in little-endian two's complement representation.
+   *
+   * @param value - The 16-bit signed integer value to serialize.
+   * @example
+   * ```typescript
+   * const serializer = new Serializer();
+   * serializer.serializeI16(-2);
+   * assert(serializer.toUint8Array() === new Uint8Array([0xFE, 0xFF]));
+   * ```
+   * @group Implementation
+   * @category BCS
+   */
+  @checkNumberRange(MIN_I16_NUMBER, MAX_I16_NUMBER)
+  serializeI16(value: Int16) {
+    this.serializeWithFunction(DataView.prototype.setInt16, 2, value);
+  }
+
+  /**
+   * Serializes a 32-bit signed integer.
+   * BCS layout for "int32": Four bytes. Binary format in little-endian two's complement representation.
+   *
+   * @param value - The 32-bit signed integer value to serialize.
+   * @group Implementation
+   * @category BCS
+   */
+  @checkNumberRange(MIN_I32_NUMBER, MAX_I32_NUMBER)
+  serializeI32(value: Int32) {
+    this.serializeWithFunction(DataView.prototype.setInt32, 4, value);
+  }
+
+  /**
+   * Serializes a 64-bit signed integer as the unsigned integer with the same two's complement representation.
+   *
+   * @param value - The 64-bit signed integer value to serialize.
+   * @group Implementation
+   * @category BCS
+   */
+  @checkNumberRange(MIN_I64_BIG_INT, MAX_I64_BIG_INT)
+  serializeI64(value: AnyNumber) {
+    this.serializeU64(BigInt.asUintN(64, BigInt(value)));
+  }
+
+  /**
+   * Serializes a 128-bit signed integer as the unsigned integer with the same two's complement representation.
+   *
+   * @param value - The 128-bit signed integer value to serialize.
+   * @group Implementation
+   * @category BCS
+   */
+  @checkNumberRange(MIN_I128_BIG_INT, MAX_I128_BIG_INT)
+  serializeI128(value: AnyNumber) {
+    this.serializeU128(BigInt.asUintN(128, BigInt(value)));
+  }
+
+  /**
+   * Serializes a 256-bit signed integer as the unsigned integer with the same two's complement representation.
+   *
+   * @param value - The 256-bit signed integer value to serialize.
+   * @group Implementation
+   * @category BCS
+   */
+  @checkNumberRange(MIN_I256_BIG_INT, MAX_I256_BIG_INT)
+  serializeI256(value: AnyNumber) {
+    this.serializeU256(BigInt.asUintN(256, BigInt(value)));
+  }
+
   /**
    * Serializes a 32-bit unsigned integer as a variable-length ULEB128 encoded byte array.
    * BCS uses uleb128 encoding in two cases: (1) lengths of variable-length sequences and (2) tags of enum values
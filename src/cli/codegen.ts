@@ -0,0 +1,150 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { parseArgs } from "util";
+
+import { Aptos } from "../api/aptos";
+import { AptosConfig } from "../api/aptosConfig";
+import { generateTypeScriptFromAbis, GeneratedModuleFile } from "../transactions/transactionBuilder/abiCodegen";
+import { MoveModule, MoveModuleBytecode } from "../types";
+import { Network, NetworkToNetworkName } from "../utils/apiEndpoints";
+
+const USAGE = `Usage: aptos-abi-codegen [options]
+
+Generates typed TypeScript modules from the ABIs of Move modules.
+
+Options:
+  --module <address::name>  A module to fetch the ABI of, can be repeated
+  --account <address>       An account to fetch the ABIs of all modules of, can be repeated
+  --abi-file <path>         A JSON file with a module ABI, a module as returned by the API, or an array of them,
+                            can be repeated
+  --network <network>       The network to fetch ABIs from, defaults to devnet
+  --node-url <url>          The fullnode to fetch ABIs from, instead of a network
+  --out <dir>               The directory to write the modules to, defaults to ./generated
+  --sdk-import <module>     The module the generated code imports the SDK from, defaults to @aptos-labs/ts-sdk
+  --help                    Shows this message`;
+
+/**
+ * Returns the module ABIs in the JSON of a file, which may be a module ABI, a module with its bytecode and ABI as
+ * returned by the API, or an array of either.
+ */
+function modulesFromJson(json: any, path: string): Array<MoveModule> {
+  const entries: Array<MoveModule | MoveModuleBytecode> = Array.isArray(json) ? json : [json];
+  return entries.map((entry) => {
+    const moduleAbi = "bytecode" in entry ? entry.abi : entry;
+    if (!moduleAbi || !Array.isArray(moduleAbi.exposed_functions) || !Array.isArray(moduleAbi.structs)) {
+      throw new Error(`'${path}' doesn't contain module ABIs`);
+    }
+    return moduleAbi;
+  });
+}
+
+/**
+ * Reads module ABIs from a JSON file, for generating code offline with {@link generateTypeScriptFromAbis}. The file
+ * may contain a module ABI, a module with its bytecode and ABI as returned by `aptos.getAccountModule`, or an array
+ * of either.
+ *
+ * @param path - The path of the JSON file.
+ * @returns The module ABIs in the file.
+ * @group Implementation
+ * @category CLI
+ */
+export async function readModuleAbis(path: string): Promise<Array<MoveModule>> {
+  return modulesFromJson(JSON.parse(await readFile(path, "utf8")), path);
+}
+
+/**
+ * Generates TypeScript modules with {@link generateTypeScriptFromAbis} and writes them to a directory.
+ *
+ * @param args.modules - The ABIs of the modules to generate code for.
+ * @param args.outDir - The directory to write the files to. It's created if it doesn't exist.
+ * @param args.sdkImport - The module the generated code imports the SDK from. Defaults to `@aptos-labs/ts-sdk`.
+ * @returns The files that were written.
+ * @group Implementation
+ * @category CLI
+ */
+export async function writeTypeScriptFromAbis(args: {
+  modules: Array<MoveModule>;
+  outDir: string;
+  sdkImport?: string;
+}): Promise<Array<GeneratedModuleFile>> {
+  const { modules, outDir, sdkImport } = args;
+  const files = generateTypeScriptFromAbis({ modules, sdkImport });
+  await mkdir(outDir, { recursive: true });
+  await Promise.all(files.map((file) => writeFile(join(outDir, file.fileName), file.code, "utf8")));
+  return files;
+}
+
+/**
+ * Runs the `aptos-abi-codegen` command: fetches or reads module ABIs and writes the TypeScript modules generated from
+ * them.
+ *
+ * @example
+ * ```sh
+ * aptos-abi-codegen --network mainnet --module 0x1::coin --module 0x1::primary_fungible_store --out src/generated
+ * aptos-abi-codegen --abi-file ./build/abis.json --out src/generated
+ * ```
+ *
+ * @param argv - The command line arguments, without the node and script paths.
+ * @group Implementation
+ * @category CLI
+ */
+export async function runAbiCodegen(argv: Array<string>): Promise<void> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      module: { type: "string", multiple: true },
+      account: { type: "string", multiple: true },
+      "abi-file": { type: "string", multiple: true },
+      network: { type: "string" },
+      "node-url": { type: "string" },
+      out: { type: "string" },
+      "sdk-import": { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+  const moduleIds = values.module ?? [];
+  const accounts = values.account ?? [];
+  const abiFiles = values["abi-file"] ?? [];
+  if (values.help || moduleIds.length + accounts.length + abiFiles.length === 0) {
+    // eslint-disable-next-line no-console
+    console.log(USAGE);
+    return;
+  }
+
+  const modules: Array<MoveModule> = [];
+  for (let i = 0; i < abiFiles.length; i += 1) {
+    // eslint-disable-next-line no-await-in-loop
+    modules.push(...(await readModuleAbis(abiFiles[i])));
+  }
+
+  if (moduleIds.length + accounts.length > 0) {
+    const nodeUrl = values["node-url"];
+    const network = nodeUrl ? Network.CUSTOM : NetworkToNetworkName[values.network ?? Network.DEVNET];
+    if (!network) {
+      throw new Error(`Unknown network '${values.network}'`);
+    }
+    const aptos = new Aptos(new AptosConfig({ network, fullnode: nodeUrl }));
+    const fetched = await Promise.all([
+      ...moduleIds.map(async (moduleId) => {
+        const [accountAddress, moduleName] = moduleId.split("::");
+        if (!accountAddress || !moduleName) {
+          throw new Error(`Invalid module '${moduleId}', expected <address>::<name>`);
+        }
+        return [await aptos.getAccountModule({ accountAddress, moduleName })];
+      }),
+      ...accounts.map((accountAddress) => aptos.getAccountModules({ accountAddress })),
+    ]);
+    fetched.flat().forEach((moduleBytecode) => {
+      if (moduleBytecode.abi) {
+        modules.push(moduleBytecode.abi);
+      }
+    });
+  }
+
+  const outDir = values.out ?? "generated";
+  const files = await writeTypeScriptFromAbis({ modules, outDir, sdkImport: values["sdk-import"] });
+  files.forEach((file) => {
+    // eslint-disable-next-line no-console
+    console.log(`${file.moduleId} -> ${join(outDir, file.fileName)}`);
+  });
+}
@@ -1,2 +1,5 @@
 export * from "./localNode";
 export * from "./move";
+export * from "./transactionWorkerStorage";
+export * from "./signingService";
+export * from "./codegen";
@@ -0,0 +1,105 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+import { Account } from "../account/Account";
+import { HttpSignerAccountResponse, HttpSignerSignRequest, HttpSignerSignResponse } from "../account/HttpSigner";
+import { Ed25519PublicKey } from "../core/crypto/ed25519";
+import { AnyPublicKey } from "../core/crypto/singleKey";
+
+/**
+ * A signing service for an `HttpSigner`, which signs with an `Account` held by this process.  It is meant for local
+ * development and tests: it signs whatever it is asked to, for anyone who can reach it.
+ *
+ * @example
+ * ```typescript
+ * const service = new LocalSigningService(Account.generate());
+ * const url = await service.start();
+ * const signer = await HttpSigner.fromService({ url });
+ * // ...
+ * await service.stop();
+ * ```
+ * @group Implementation
+ * @category CLI
+ */
+export class LocalSigningService {
+  private server: Server | null = null;
+
+  /**
+   * @param account - The account to sign with. Its public key has to be a legacy Ed25519 key or a single key.
+   */
+  constructor(readonly account: Account) {
+    if (!(account.publicKey instanceof Ed25519PublicKey) && !(account.publicKey instanceof AnyPublicKey)) {
+      throw new Error("LocalSigningService only supports accounts with an Ed25519 or a single key");
+    }
+  }
+
+  /**
+   * Starts listening, by default on a free port on the loopback interface.
+   *
+   * @returns The URL of the service.
+   * @group Implementation
+   * @category CLI
+   */
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        LocalSigningService.respond(res, 500, { error: String(error) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    return `http://${host}:${(server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    const { server } = this;
+    this.server = null;
+    if (!server) return;
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method === "GET" && req.url === "/account") {
+      const response: HttpSignerAccountResponse = {
+        address: this.account.accountAddress.toString(),
+        keyType: this.account.publicKey instanceof Ed25519PublicKey ? "ed25519" : "single_key",
+        publicKey: this.account.publicKey.bcsToHex().toString(),
+      };
+      LocalSigningService.respond(res, 200, response);
+      return;
+    }
+    if (req.method === "POST" && req.url === "/sign") {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      let request: HttpSignerSignRequest;
+      try {
+        request = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        LocalSigningService.respond(res, 400, { error: "The request body is not JSON" });
+        return;
+      }
+      if (typeof request?.message !== "string") {
+        LocalSigningService.respond(res, 400, { error: "message is required" });
+        return;
+      }
+      const response: HttpSignerSignResponse = {
+        signature: this.account.sign(request.message).bcsToHex().toString(),
+      };
+      LocalSigningService.respond(res, 200, response);
+      return;
+    }
+    LocalSigningService.respond(res, 404, { error: `No route for ${req.method} ${req.url}` });
+  }
+
+  private static respond(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
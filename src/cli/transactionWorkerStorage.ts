@@ -0,0 +1,46 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+import { TransactionWorkerState, TransactionWorkerStorage } from "../transactions/management/transactionWorkerStorage";
+
+/**
+ * A {@link TransactionWorkerStorage} keeping the state of a `TransactionWorker` in a JSON file, so that the worker
+ * can resume after the process restarts.
+ *
+ * The state is written to a temporary file next to the target which is then renamed over it, so a crash while saving
+ * leaves the previous state intact.  Every worker needs a file of its own.
+ *
+ * @example
+ * ```typescript
+ * const storage = new FileTransactionWorkerStorage("./worker-state.json");
+ * const worker = new TransactionWorker(config, account, 30, 100, 10, storage);
+ * ```
+ * @group Implementation
+ * @category CLI
+ */
+export class FileTransactionWorkerStorage implements TransactionWorkerStorage {
+  /**
+   * @param path - The path of the JSON file the state is kept in. Missing directories are created on the first save.
+   */
+  constructor(readonly path: string) {}
+
+  async load(): Promise<TransactionWorkerState | undefined> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+    return JSON.parse(contents);
+  }
+
+  async save(state: TransactionWorkerState): Promise<void> {
+    const tempPath = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(state, null, 2), "utf8");
+    await rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,159 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  CacheConfig,
+  CachedResponse,
+  CacheRule,
+  ClientMiddleware,
+  ClientRequest,
+  ClientResponse,
+  ResponseCache,
+} from "../types";
+import { AptosApiType } from "../utils/const";
+
+/**
+ * How long account modules fetched at the latest ledger version are cached, as they can be upgraded.
+ */
+const LATEST_MODULE_TTL_MS = 1000 * 60 * 5; // 5 minutes
+
+/**
+ * The cache rules used when a `CacheConfig` does not specify any.
+ *
+ * Transactions, blocks and any state read at a fixed ledger version can never change, and are cached indefinitely.
+ * The only exception are transactions looked up by hash, which are only cached once they are committed.  Account modules
+ * at the latest ledger version are cached for 5 minutes.
+ * @group Implementation
+ * @category Client
+ */
+export const DEFAULT_CACHE_RULES: CacheRule[] = [
+  { method: "GET", pattern: /\/transactions\/by_version\/\d+$/ },
+  {
+    method: "GET",
+    pattern: /\/transactions\/by_hash\/0x[0-9a-fA-F]+$/,
+    isCacheable: (response) => response.data?.type !== "pending_transaction",
+  },
+  { method: "GET", pattern: /\/blocks\/by_(height|version)\/\d+$/ },
+  { method: "GET", pattern: /\/accounts\/[^/]+\/(module|resource)\/[^/]+$/, requiresLedgerVersion: true },
+  { method: "GET", pattern: /\/accounts\/[^/]+\/module\/[^/]+$/, ttlMs: LATEST_MODULE_TTL_MS },
+  { method: "POST", pattern: /\/view$/, requiresLedgerVersion: true },
+  { method: "POST", pattern: /\/tables\/[^/]+\/(raw_)?item$/, requiresLedgerVersion: true },
+];
+
+/**
+ * An in-memory {@link ResponseCache} evicting the least recently used entries once it is full.
+ *
+ * Responses are copied when stored and when returned, so callers changing a response do not change the cache.
+ * @group Implementation
+ * @category Client
+ */
+export class LruResponseCache implements ResponseCache {
+  private readonly entries = new Map<string, { response: CachedResponse; expiresAt?: number }>();
+
+  /**
+   * @param maxEntries - The number of responses kept at most. Defaults to 1000.
+   */
+  constructor(readonly maxEntries: number = 1000) {
+    if (maxEntries < 1) {
+      throw new Error(`maxEntries must be at least 1, received ${maxEntries}`);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Re-inserting moves the entry to the end, marking it as the most recently used
+    this.entries.set(key, entry);
+    return structuredClone(entry.response);
+  }
+
+  set(key: string, response: CachedResponse, ttlMs?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      response: structuredClone(response),
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Finds the rule a request is cached under, if any.
+ */
+function findCacheRule(rules: CacheRule[], request: ClientRequest<any>): CacheRule | undefined {
+  const hasLedgerVersion = request.params?.ledger_version !== undefined;
+  return rules.find(
+    (rule) =>
+      rule.method === request.method &&
+      rule.pattern.test(request.url) &&
+      (!rule.requiresLedgerVersion || hasLedgerVersion),
+  );
+}
+
+/**
+ * Converts a response to the form it is stored in, turning fetch `Headers` into a plain object.
+ */
+function toCachedResponse(response: ClientResponse<any>): CachedResponse {
+  const headers: Record<string, string> = {};
+  if (response.headers && typeof response.headers.forEach === "function") {
+    response.headers.forEach((value: string, name: string) => {
+      headers[name] = value;
+    });
+  } else {
+    Object.entries(response.headers ?? {}).forEach(([name, value]) => {
+      headers[name] = String(value);
+    });
+  }
+  return { status: response.status, statusText: response.statusText, data: response.data, headers };
+}
+
+/**
+ * Creates a middleware that answers fullnode requests matching the cache rules from a {@link ResponseCache}, and
+ * stores successful responses to them.
+ *
+ * This is applied automatically, ahead of all other middlewares, when a `cache` is set on the `AptosConfig`.
+ *
+ * @param config - The cache store and rules.
+ * @returns The caching middleware.
+ * @group Implementation
+ * @category Client
+ */
+export function cacheMiddleware(config: CacheConfig): ClientMiddleware {
+  const { store, rules = DEFAULT_CACHE_RULES } = config;
+
+  return async (request, context, next) => {
+    const rule = context.apiType === AptosApiType.FULLNODE ? findCacheRule(rules, request) : undefined;
+    if (rule === undefined) {
+      return next(request);
+    }
+
+    const { accept, "content-type": contentType } = request.headers ?? {};
+    const key = JSON.stringify([request.method, request.url, request.params, accept, contentType, request.body]);
+    const cached = await store.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await next(request);
+    if (response.status === 200 && (rule.isCacheable?.(response) ?? true)) {
+      await store.set(key, toCachedResponse(response), rule.ttlMs);
+    }
+    return response;
+  };
+}
@@ -3,9 +3,21 @@
 
 import { AptosConfig } from "../api/aptosConfig";
 import { VERSION } from "../version";
-import { AnyNumber, AptosRequest, AptosResponse, Client, ClientRequest, ClientResponse, MimeType } from "../types";
-import { AptosApiType } from "../utils";
-import { AptosApiError } from "../errors";
+import {
+  AnyNumber,
+  AptosRequest,
+  AptosResponse,
+  Client,
+  ClientRequest,
+  ClientResponse,
+  MimeType,
+  RequestAttempt,
+} from "../types";
+import { AptosApiType, sleep } from "../utils";
+import { AptosApiError, AptosNetworkError } from "../errors";
+import { applyMiddlewares, sendWithProvider } from "./middleware";
+import { cacheMiddleware } from "./cache";
+import { computeRetryDelayMs, isIdempotentRequest, parseRetryAfterMs, shouldRetryAttempt } from "./retry";
 
 /**
  * Sends a request using the specified options and returns the response.
@@ -15,6 +27,7 @@ import { AptosApiError } from "../errors";
  * @param options.method - The HTTP method to use for the request.
  * @param options.body - The body of the request.
  * @param options.contentType - The content type of the request.
+ * @param options.acceptType - The accepted response type, sent as the `accept` header.
  * @param options.params - The query parameters to include in the request.
  * @param options.overrides - Additional overrides for the request.
  * @param options.overrides.HEADERS - Custom headers to include in the request.
@@ -28,13 +41,16 @@ import { AptosApiError } from "../errors";
  * @category Client
  */
 export async function request<Req, Res>(options: ClientRequest<Req>, client: Client): Promise<ClientResponse<Res>> {
-  const { url, method, body, contentType, params, overrides, originMethod } = options;
+  const { url, method, body, contentType, acceptType, params, overrides, originMethod } = options;
   const headers: Record<string, string | AnyNumber | boolean | undefined> = {
     ...overrides?.HEADERS,
     "x-aptos-client": `aptos-typescript-sdk/${VERSION}`,
     "content-type": contentType ?? MimeType.JSON,
     "x-aptos-typescript-sdk-origin-method": originMethod,
   };
+  if (acceptType) {
+    headers.accept = acceptType;
+  }
 
   if (overrides?.AUTH_TOKEN) {
     headers.Authorization = `Bearer ${overrides?.AUTH_TOKEN}`;
@@ -47,7 +63,7 @@ export async function request<Req, Res>(options: ClientRequest<Req>, client: Cli
    * make a call using the @aptos-labs/aptos-client package
    * {@link https://www.npmjs.com/package/@aptos-labs/aptos-client}
    */
-  return client.provider<Req, Res>({
+  return sendWithProvider<Req, Res>(client, {
     url,
     method,
     body,
@@ -60,6 +76,10 @@ export async function request<Req, Res>(options: ClientRequest<Req>, client: Cli
 /**
  * The main function to use when making an API request, returning the response or throwing an AptosApiError on failure.
  *
+ * If a retry policy is configured through the `RETRY` override, failed attempts of idempotent requests are retried
+ * with backoff and, for fullnode and indexer requests, optionally moved to the configured failover URLs.  Every failed
+ * attempt is then recorded on the thrown error.  The middlewares of the `aptosConfig` run around every attempt.
+ *
  * @param aptosRequestOpts - Options for the Aptos request, including the URL and path.
  * @param aptosConfig - The configuration information for the SDK client instance.
  * @param apiType - The type of API being accessed, which determines how the response is handled.
@@ -72,11 +92,79 @@ export async function aptosRequest<Req extends {}, Res extends {}>(
   aptosConfig: AptosConfig,
   apiType: AptosApiType,
 ): Promise<AptosResponse<Req, Res>> {
-  const { url, path } = aptosRequestOpts;
-  const fullUrl = path ? `${url}/${path}` : url;
-  const clientResponse = await request<Req, Res>({ ...aptosRequestOpts, url: fullUrl }, aptosConfig.client);
+  const retryConfig = aptosRequestOpts.overrides?.RETRY;
+  if (retryConfig === undefined) {
+    const aptosResponse = await sendAptosRequest<Req, Res>(
+      aptosRequestOpts,
+      aptosRequestOpts.url,
+      aptosConfig,
+      apiType,
+    );
+    return parseAptosResponse(aptosRequestOpts, aptosResponse, apiType);
+  }
+
+  const urls = [aptosRequestOpts.url, ...(retryConfig.failoverUrls ?? [])];
+  const idempotent = isIdempotentRequest(aptosRequestOpts, apiType);
+  const attempts: RequestAttempt[] = [];
+
+  for (let attempt = 1; ; attempt += 1) {
+    const url = urls[(attempt - 1) % urls.length];
+    let retryAfterMs: number | undefined;
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      const aptosResponse = await sendAptosRequest<Req, Res>(aptosRequestOpts, url, aptosConfig, apiType);
+      retryAfterMs = parseRetryAfterMs(aptosResponse.headers);
+      // The error thrown here holds on to `attempts`, so the failure recorded below still shows up on it
+      return parseAptosResponse(aptosRequestOpts, aptosResponse, apiType, attempts);
+    } catch (error) {
+      const failure: RequestAttempt =
+        error instanceof AptosApiError
+          ? { attempt, url: error.url, status: error.status }
+          : { attempt, url: aptosRequestPath(url, aptosRequestOpts.path), error };
+      attempts.push(failure);
+
+      if (!shouldRetryAttempt(retryConfig, failure, idempotent)) {
+        if (error instanceof AptosApiError) {
+          throw error;
+        }
+        throw new AptosNetworkError({ apiType, aptosRequest: aptosRequestOpts, attempts });
+      }
+
+      failure.delayMs = computeRetryDelayMs(retryConfig, attempt, retryAfterMs);
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(failure.delayMs);
+    }
+  }
+}
+
+/**
+ * Joins the base URL of an API with the path of a request.
+ */
+function aptosRequestPath(url: string, path?: string): string {
+  return path ? `${url}/${path}` : url;
+}
 
-  const aptosResponse: AptosResponse<Req, Res> = {
+/**
+ * Sends a single attempt of a request to the given base URL through the configured cache and middlewares, without
+ * interpreting the response status.
+ */
+async function sendAptosRequest<Req extends {}, Res extends {}>(
+  aptosRequestOpts: AptosRequest,
+  url: string,
+  aptosConfig: AptosConfig,
+  apiType: AptosApiType,
+): Promise<AptosResponse<Req, Res>> {
+  const fullUrl = aptosRequestPath(url, aptosRequestOpts.path);
+  const middlewares = aptosConfig.cache
+    ? [cacheMiddleware(aptosConfig.cache), ...(aptosConfig.middlewares ?? [])]
+    : aptosConfig.middlewares;
+  const client = applyMiddlewares(aptosConfig.client, middlewares, {
+    apiType,
+    originMethod: aptosRequestOpts.originMethod,
+  });
+  const clientResponse = await request<Req, Res>({ ...aptosRequestOpts, url: fullUrl }, client);
+
+  return {
     status: clientResponse.status,
     statusText: clientResponse.statusText ?? "No status text provided",
     data: clientResponse.data,
@@ -85,10 +173,20 @@ export async function aptosRequest<Req extends {}, Res extends {}>(
     request: clientResponse.request,
     url: fullUrl,
   };
+}
 
+/**
+ * Returns the response of a successful request, unwrapping indexer responses, or throws an AptosApiError.
+ */
+function parseAptosResponse<Req extends {}, Res extends {}>(
+  aptosRequestOpts: AptosRequest,
+  aptosResponse: AptosResponse<Req, Res>,
+  apiType: AptosApiType,
+  attempts?: RequestAttempt[],
+): AptosResponse<Req, Res> {
   // Handle case for `Unauthorized` error (i.e. API_KEY error)
   if (aptosResponse.status === 401) {
-    throw new AptosApiError({ apiType, aptosRequest: aptosRequestOpts, aptosResponse });
+    throw new AptosApiError({ apiType, aptosRequest: aptosRequestOpts, aptosResponse, attempts });
   }
 
   // to support both fullnode and indexer responses,
@@ -101,12 +199,14 @@ export async function aptosRequest<Req extends {}, Res extends {}>(
         apiType,
         aptosRequest: aptosRequestOpts,
         aptosResponse,
+        attempts,
       });
     }
+    // eslint-disable-next-line no-param-reassign
     aptosResponse.data = indexerResponse.data as Res;
   } else if (apiType === AptosApiType.PEPPER || apiType === AptosApiType.PROVER) {
     if (aptosResponse.status >= 400) {
-      throw new AptosApiError({ apiType, aptosRequest: aptosRequestOpts, aptosResponse });
+      throw new AptosApiError({ apiType, aptosRequest: aptosRequestOpts, aptosResponse, attempts });
     }
   }
 
@@ -116,5 +216,5 @@ export async function aptosRequest<Req extends {}, Res extends {}>(
 
   // We have to explicitly check for all request types, because if the error is a non-indexer error, but
   // comes from an indexer request (e.g. 404), we'll need to mention it appropriately
-  throw new AptosApiError({ apiType, aptosRequest: aptosRequestOpts, aptosResponse });
+  throw new AptosApiError({ apiType, aptosRequest: aptosRequestOpts, aptosResponse, attempts });
 }
@@ -4,3 +4,7 @@
 export * from "./core";
 export * from "./get";
 export * from "./post";
+export * from "./retry";
+export * from "./middleware";
+export * from "./rateLimit";
+export * from "./cache";
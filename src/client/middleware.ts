@@ -0,0 +1,142 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { Client, ClientMiddleware, ClientMiddlewareContext, ClientRequest, ClientResponse, MimeType } from "../types";
+import { getErrorMessage } from "../utils/helpers";
+
+/**
+ * Sends a request with the given client, using its `binaryProvider` for requests that accept BCS if it has one.
+ *
+ * @param client - The client that sends the request.
+ * @param request - The request to send.
+ * @returns The response of the client.
+ * @group Implementation
+ * @category Client
+ */
+export function sendWithProvider<Req, Res>(client: Client, request: ClientRequest<Req>): Promise<ClientResponse<Res>> {
+  if (request.headers?.accept === MimeType.BCS && client.binaryProvider) {
+    return client.binaryProvider(request) as Promise<ClientResponse<any>>;
+  }
+  return client.provider(request);
+}
+
+/**
+ * Wraps a client so that every request it sends passes through the given middlewares first.
+ *
+ * @param client - The client that eventually sends the request.
+ * @param middlewares - The middlewares to apply, outermost first.
+ * @param context - The context handed to every middleware.
+ * @returns A client running the middleware chain, or the given client if there are no middlewares.
+ * @group Implementation
+ * @category Client
+ */
+export function applyMiddlewares(
+  client: Client,
+  middlewares: ClientMiddleware[] | undefined,
+  context: ClientMiddlewareContext,
+): Client {
+  if (!middlewares || middlewares.length === 0) {
+    return client;
+  }
+
+  const dispatch = (index: number, request: ClientRequest<any>): Promise<ClientResponse<any>> => {
+    if (index === middlewares.length) {
+      return sendWithProvider(client, request);
+    }
+    return middlewares[index](request, context, (nextRequest) => dispatch(index + 1, nextRequest));
+  };
+
+  return {
+    provider: <Req, Res>(requestOptions: ClientRequest<Req>) =>
+      dispatch(0, requestOptions) as Promise<ClientResponse<Res>>,
+  };
+}
+
+/**
+ * Creates a middleware that logs every request and its outcome.
+ *
+ * @example
+ * ```typescript
+ * const config = new AptosConfig({ network: Network.TESTNET, middlewares: [loggingMiddleware()] });
+ * ```
+ *
+ * @param args.log - The function receiving the log lines. Defaults to `console.log`.
+ * @returns The logging middleware.
+ * @group Implementation
+ * @category Client
+ */
+export function loggingMiddleware(args?: { log?: (message: string) => void }): ClientMiddleware {
+  // eslint-disable-next-line no-console
+  const log = args?.log ?? ((message: string) => console.log(message));
+
+  return async (request, context, next) => {
+    const prelude = `[${context.apiType}] ${request.method} ${request.url} (${context.originMethod ?? "unknown"})`;
+    log(`${prelude} sending`);
+    try {
+      const response = await next(request);
+      log(`${prelude} responded with ${response.status} ${response.statusText}`);
+      return response;
+    } catch (error) {
+      log(`${prelude} failed with ${getErrorMessage(error)}`);
+      throw error;
+    }
+  };
+}
+
+/**
+ * The duration of a single request, as reported by {@link timingMiddleware}.
+ *
+ * @param method - The HTTP method of the request.
+ * @param url - The URL of the request.
+ * @param status - The HTTP status of the response, if a response was received.
+ * @param error - The error thrown while sending the request, if any.
+ * @param durationMs - The time from sending the request to receiving the response or error.
+ */
+export type RequestTiming = ClientMiddlewareContext & {
+  method: "GET" | "POST";
+  url: string;
+  status?: number;
+  error?: unknown;
+  durationMs: number;
+};
+
+/**
+ * Creates a middleware that measures how long every request takes.
+ *
+ * @example
+ * ```typescript
+ * const config = new AptosConfig({
+ *   network: Network.TESTNET,
+ *   middlewares: [timingMiddleware({ onTiming: (timing) => histogram.observe(timing.durationMs) })],
+ * });
+ * ```
+ *
+ * @param args.onTiming - Called with the timing of every request once it completes or fails.
+ * @returns The timing middleware.
+ * @group Implementation
+ * @category Client
+ */
+export function timingMiddleware(args: { onTiming: (timing: RequestTiming) => void }): ClientMiddleware {
+  const { onTiming } = args;
+
+  return async (request, context, next) => {
+    const start = performance.now();
+    const report = (outcome: { status?: number; error?: unknown }) =>
+      onTiming({
+        ...context,
+        method: request.method,
+        url: request.url,
+        durationMs: performance.now() - start,
+        ...outcome,
+      });
+
+    try {
+      const response = await next(request);
+      report({ status: response.status });
+      return response;
+    } catch (error) {
+      report({ error });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,223 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { ClientMiddleware, ClientRequest, ClientResponse } from "../types";
+import { AptosApiType } from "../utils/const";
+
+/**
+ * Limits for the requests sent to one type of API.
+ *
+ * @param requestsPerSecond - The rate at which a token bucket is refilled, every request takes one token.
+ * If unset, requests are not rate limited.
+ * @param burst - The capacity of the token bucket, i.e. how many requests can be sent at once after a quiet period.
+ * Defaults to `requestsPerSecond`, and at least 1.
+ * @param maxConcurrency - The maximum number of requests in flight at the same time. If unset, there is no limit.
+ * @param dedupe - Whether identical concurrent GET requests and view function calls share a single network request.
+ * Defaults to false.
+ */
+export type RequestLimitConfig = {
+  requestsPerSecond?: number;
+  burst?: number;
+  maxConcurrency?: number;
+  dedupe?: boolean;
+};
+
+/**
+ * Header set by the SDK on every request that names the calling method, ignored when comparing requests for deduplication.
+ */
+const ORIGIN_METHOD_HEADER = "x-aptos-typescript-sdk-origin-method";
+
+/**
+ * A token bucket handing out tokens in the order they were asked for.
+ */
+class TokenBucket {
+  private tokens: number;
+
+  private lastRefillMs: number;
+
+  private readonly waiters: Array<() => void> = [];
+
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number,
+  ) {
+    this.tokens = capacity;
+    this.lastRefillMs = Date.now();
+  }
+
+  take(): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiters.push(resolve);
+      this.drain();
+    });
+  }
+
+  private drain() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefillMs) / 1000) * this.ratePerSecond);
+    this.lastRefillMs = now;
+
+    while (this.waiters.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiters.shift()!();
+    }
+
+    if (this.waiters.length > 0 && this.timer === undefined) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+/**
+ * A semaphore letting a fixed number of holders through at a time, in the order they arrived.
+ */
+class Semaphore {
+  private available: number;
+
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(permits: number) {
+    this.available = permits;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.available > 0) {
+      this.available -= 1;
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.waiters.push(resolve);
+    });
+  }
+
+  release() {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.available += 1;
+    }
+  }
+}
+
+/**
+ * Applies a {@link RequestLimitConfig} to the requests of one type of API.
+ * @group Implementation
+ * @category Client
+ */
+export class RequestLimiter {
+  private readonly bucket?: TokenBucket;
+
+  private readonly semaphore?: Semaphore;
+
+  private readonly inFlight = new Map<string, Promise<ClientResponse<any>>>();
+
+  constructor(private readonly config: RequestLimitConfig) {
+    const { requestsPerSecond, burst, maxConcurrency } = config;
+    if (requestsPerSecond !== undefined) {
+      if (requestsPerSecond <= 0) {
+        throw new Error(`requestsPerSecond must be positive, received ${requestsPerSecond}`);
+      }
+      this.bucket = new TokenBucket(requestsPerSecond, Math.max(1, burst ?? requestsPerSecond));
+    }
+    if (maxConcurrency !== undefined) {
+      if (maxConcurrency < 1) {
+        throw new Error(`maxConcurrency must be at least 1, received ${maxConcurrency}`);
+      }
+      this.semaphore = new Semaphore(maxConcurrency);
+    }
+  }
+
+  /**
+   * Sends a request once the limits allow it, or joins an identical request already in flight if deduplication is on.
+   *
+   * @param request - The request to send.
+   * @param send - Sends the request over the network.
+   * @returns The response for the request.
+   */
+  async schedule(
+    request: ClientRequest<any>,
+    send: (limitedRequest: ClientRequest<any>) => Promise<ClientResponse<any>>,
+  ): Promise<ClientResponse<any>> {
+    const key = this.config.dedupe ? dedupeKey(request) : undefined;
+    if (key === undefined) {
+      return this.limit(() => send(request));
+    }
+
+    let pending = this.inFlight.get(key);
+    if (pending === undefined) {
+      pending = this.limit(() => send(request)).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    // Every caller gets its own copy of the data, so that one caller changing the response does not affect the others
+    const response = await pending;
+    return { ...response, data: structuredClone(response.data) };
+  }
+
+  private async limit<T>(task: () => Promise<T>): Promise<T> {
+    await this.semaphore?.acquire();
+    try {
+      await this.bucket?.take();
+      return await task();
+    } finally {
+      this.semaphore?.release();
+    }
+  }
+}
+
+/**
+ * Derives the key under which identical requests are deduplicated, or undefined if the request may have side effects.
+ */
+function dedupeKey(request: ClientRequest<any>): string | undefined {
+  const isView = request.method === "POST" && /\/view\/?$/.test(request.url);
+  if (request.method !== "GET" && !isView) {
+    return undefined;
+  }
+  const headers = { ...request.headers };
+  delete headers[ORIGIN_METHOD_HEADER];
+  const body = request.body instanceof Uint8Array ? Array.from(request.body) : request.body;
+  return JSON.stringify([request.method, request.url, request.params, headers, body]);
+}
+
+/**
+ * Creates a middleware that rate limits, caps the concurrency of and deduplicates requests, separately for every
+ * type of API.  Register it before middlewares measuring the time spent on the network, such as
+ * {@link timingMiddleware}, so that the time a request is held back is not counted.
+ *
+ * @example
+ * ```typescript
+ * const config = new AptosConfig({
+ *   network: Network.MAINNET,
+ *   middlewares: [
+ *     rateLimitMiddleware({
+ *       [AptosApiType.FULLNODE]: { requestsPerSecond: 20, maxConcurrency: 8, dedupe: true },
+ *       [AptosApiType.INDEXER]: { requestsPerSecond: 5 },
+ *     }),
+ *   ],
+ * });
+ * ```
+ *
+ * @param limits - The limits for each type of API. Types without limits are passed through unchanged.
+ * @returns The rate limiting middleware.
+ * @group Implementation
+ * @category Client
+ */
+export function rateLimitMiddleware(limits: Partial<Record<AptosApiType, RequestLimitConfig>>): ClientMiddleware {
+  const limiters = new Map<AptosApiType, RequestLimiter>();
+  Object.entries(limits).forEach(([apiType, config]) => {
+    if (config) {
+      limiters.set(apiType as AptosApiType, new RequestLimiter(config));
+    }
+  });
+
+  return async (request, context, next) => {
+    const limiter = limiters.get(context.apiType);
+    return limiter ? limiter.schedule(request, next) : next(request);
+  };
+}
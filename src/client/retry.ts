@@ -0,0 +1,144 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosRequest, FailoverRetryConfig, RequestAttempt } from "../types";
+import { AptosApiType } from "../utils/const";
+
+/**
+ * The retry policy applied for any option left unset in a `RetryConfig`.
+ * @group Implementation
+ * @category Client
+ */
+export const DEFAULT_RETRY_CONFIG = {
+  maxAttempts: 3,
+  initialDelayMs: 200,
+  maxDelayMs: 10_000,
+  backoffMultiplier: 2,
+  jitter: true,
+  respectRetryAfter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false,
+};
+
+/**
+ * Fullnode POST endpoints that only read state and are therefore safe to send more than once.
+ */
+const IDEMPOTENT_FULLNODE_POST_PATHS = [/^view$/, /^transactions\/simulate$/, /^tables\/[^/]+\/(raw_)?item$/];
+
+/**
+ * Determines whether a request can be repeated without side effects on chain.
+ *
+ * GET requests, indexer queries and the pepper and prover services are always idempotent.  Fullnode POST requests are
+ * only idempotent for views, simulations and table reads, so a transaction submission is never repeated blindly.
+ *
+ * @param request - The request to check.
+ * @param apiType - The type of API the request is sent to.
+ * @returns Whether the request is safe to retry.
+ * @group Implementation
+ * @category Client
+ */
+export function isIdempotentRequest(request: AptosRequest, apiType: AptosApiType): boolean {
+  if (request.method === "GET") {
+    return true;
+  }
+  switch (apiType) {
+    case AptosApiType.INDEXER:
+    case AptosApiType.PEPPER:
+    case AptosApiType.PROVER:
+      return true;
+    case AptosApiType.FULLNODE:
+      return IDEMPOTENT_FULLNODE_POST_PATHS.some((pattern) => pattern.test(request.path ?? ""));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Reads the `Retry-After` header of a response and converts it to milliseconds.
+ *
+ * Both forms allowed by RFC 9110 are supported, a number of seconds and an HTTP date.  The headers may either be a plain
+ * object, as returned by the node client, or a fetch `Headers` instance, as returned by the browser client.
+ *
+ * @param headers - The response headers.
+ * @returns The requested delay in milliseconds, or undefined if the header is absent or malformed.
+ * @group Implementation
+ * @category Client
+ */
+export function parseRetryAfterMs(headers: Headers | Record<string, unknown> | undefined): number | undefined {
+  if (!headers) {
+    return undefined;
+  }
+  const value =
+    typeof headers.get === "function"
+      ? (headers as Headers).get("retry-after")
+      : (headers as Record<string, unknown>)["retry-after"];
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds < 0 ? undefined : seconds * 1000;
+  }
+
+  const date = Date.parse(String(value));
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes how long to wait after a failed attempt before sending the next one.
+ *
+ * @param config - The retry policy.
+ * @param attempt - The 1-based number of the attempt that failed.
+ * @param retryAfterMs - The delay requested by the server, if any.
+ * @returns The delay in milliseconds.
+ * @group Implementation
+ * @category Client
+ */
+export function computeRetryDelayMs(config: FailoverRetryConfig, attempt: number, retryAfterMs?: number): number {
+  const {
+    initialDelayMs = DEFAULT_RETRY_CONFIG.initialDelayMs,
+    maxDelayMs = DEFAULT_RETRY_CONFIG.maxDelayMs,
+    backoffMultiplier = DEFAULT_RETRY_CONFIG.backoffMultiplier,
+    jitter = DEFAULT_RETRY_CONFIG.jitter,
+    respectRetryAfter = DEFAULT_RETRY_CONFIG.respectRetryAfter,
+  } = config;
+
+  if (respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+
+  const backoff = Math.min(initialDelayMs * backoffMultiplier ** (attempt - 1), maxDelayMs);
+  return jitter ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Decides whether a failed attempt should be followed by another one.
+ *
+ * @param config - The retry policy.
+ * @param failure - The failed attempt.
+ * @param idempotent - Whether the request is safe to repeat, see {@link isIdempotentRequest}.
+ * @returns Whether to retry.
+ * @group Implementation
+ * @category Client
+ */
+export function shouldRetryAttempt(config: FailoverRetryConfig, failure: RequestAttempt, idempotent: boolean): boolean {
+  const {
+    maxAttempts = DEFAULT_RETRY_CONFIG.maxAttempts,
+    retryableStatusCodes = DEFAULT_RETRY_CONFIG.retryableStatusCodes,
+    retryNonIdempotent = DEFAULT_RETRY_CONFIG.retryNonIdempotent,
+    shouldRetry,
+  } = config;
+
+  if (failure.attempt >= maxAttempts || (!idempotent && !retryNonIdempotent)) {
+    return false;
+  }
+  if (shouldRetry) {
+    return shouldRetry(failure);
+  }
+  // Requests that never received a response, e.g. because of a connection reset, are always worth another try
+  return failure.status === undefined || retryableStatusCodes.includes(failure.status);
+}
@@ -1,6 +1,7 @@
 import { sha3_256 } from "@noble/hashes/sha3";
+import { Serializer } from "../../../bcs/serializer";
 import { AccountAddress } from "../../accountAddress";
-import { DeriveScheme } from "../../../types";
+import { AnyNumber, DeriveScheme } from "../../../types";
 
 /**
  * Creates an object address from creator address and seed
@@ -22,6 +23,29 @@ export const createObjectAddress = (creatorAddress: AccountAddress, seed: Uint8A
   return new AccountAddress(sha3_256(bytes));
 };
 
+/**
+ * Creates the address of an object created from the GUID of an account or an object, such as by
+ * `0x1::object::create_object_from_account`
+ *
+ * @param sourceAddress The address of the account or object the GUID is created for
+ * @param creationNum The creation number of the GUID, i.e. the `guid_creation_num` of the source before the object is
+ * created
+ *
+ * @returns The object account address
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export const createGuidObjectAddress = (sourceAddress: AccountAddress, creationNum: AnyNumber): AccountAddress => {
+  // The BCS of a `0x1::guid::ID`, which puts the creation number before the address
+  const serializer = new Serializer();
+  serializer.serializeU64(creationNum);
+  sourceAddress.serialize(serializer);
+
+  const bytes = new Uint8Array([...serializer.toUint8Array(), DeriveScheme.DeriveObjectAddressFromGuid]);
+
+  return new AccountAddress(sha3_256(bytes));
+};
+
 /**
  * Creates a resource address from creator address and seed
  *
@@ -61,3 +85,27 @@ export const createTokenAddress = (
   const seed = `${collectionName}::${tokenName}`;
   return createObjectAddress(creatorAddress, seed);
 };
+
+/**
+ * Creates the address of an object derived from another object, such as the primary fungible store of an account
+ * for a fungible asset
+ *
+ * @param sourceAddress The address the object is derived for, e.g. the owner of a primary store
+ * @param derivedFromAddress The address the object is derived from, e.g. the metadata of a fungible asset
+ *
+ * @returns The derived object address
+ * @group Implementation
+ * @category Account (On-Chain Model)
+ */
+export const createUserDerivedObjectAddress = (
+  sourceAddress: AccountAddress,
+  derivedFromAddress: AccountAddress,
+): AccountAddress => {
+  const bytes = new Uint8Array([
+    ...sourceAddress.bcsToBytes(),
+    ...derivedFromAddress.bcsToBytes(),
+    DeriveScheme.DeriveObjectAddressFromObject,
+  ]);
+
+  return new AccountAddress(sha3_256(bytes));
+};
@@ -0,0 +1,339 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { sha256 } from "@noble/hashes/sha256";
+import { p256 } from "@noble/curves/p256";
+import { Serializable, Deserializer, Serializer } from "../../bcs";
+import { Hex } from "../hex";
+import { HexInput, PrivateKeyVariants } from "../../types";
+import { PrivateKey } from "./privateKey";
+import { PublicKey } from "./publicKey";
+import { Signature } from "./signature";
+import { convertSigningMessage } from "./utils";
+import type { WebAuthnSignature } from "./webauthn";
+
+/**
+ * Represents a Secp256r1 (P-256) ECDSA public key, the key type of WebAuthn credentials such as passkeys.
+ *
+ * On chain, a Secp256r1 public key is used inside an `AnyPublicKey`, and signs transactions with a
+ * {@link WebAuthnSignature}.
+ *
+ * @extends PublicKey
+ * @property LENGTH - The length of the Secp256r1 public key in bytes.
+ * @group Implementation
+ * @category Serialization
+ */
+export class Secp256r1PublicKey extends PublicKey {
+  // Secp256r1 ecdsa public keys contain a prefix indicating compression and two 32-byte coordinates.
+  static readonly LENGTH: number = 65;
+
+  // If it's compressed, it is only 33 bytes
+  static readonly COMPRESSED_LENGTH: number = 33;
+
+  // Hex value of the public key
+  private readonly key: Hex;
+
+  /**
+   * Create a new PublicKey instance from a HexInput, which can be a string or Uint8Array.
+   * A compressed public key is decompressed.
+   *
+   * @param hexInput - A HexInput (string or Uint8Array) representing the public key.
+   * @throws Error if the length of the public key is not Secp256r1PublicKey.LENGTH or
+   * Secp256r1PublicKey.COMPRESSED_LENGTH.
+   * @group Implementation
+   * @category Serialization
+   */
+  constructor(hexInput: HexInput) {
+    super();
+
+    const hex = Hex.fromHexInput(hexInput);
+    const { length } = hex.toUint8Array();
+    if (length === Secp256r1PublicKey.LENGTH) {
+      this.key = hex;
+    } else if (length === Secp256r1PublicKey.COMPRESSED_LENGTH) {
+      const point = p256.ProjectivePoint.fromHex(hex.toUint8Array());
+      this.key = Hex.fromHexInput(point.toRawBytes(false));
+    } else {
+      throw new Error(
+        `PublicKey length should be ${Secp256r1PublicKey.LENGTH} or ${Secp256r1PublicKey.COMPRESSED_LENGTH}, received ${length}`,
+      );
+    }
+  }
+
+  // region PublicKey
+
+  /**
+   * Verifies a Secp256r1 signature, or a WebAuthn assertion, against the public key.
+   *
+   * A Secp256r1 signature is verified over the SHA2-256 hash of the message, and has to be canonical (low S) as a
+   * malleability check.  A WebAuthn signature is verified with {@link WebAuthnSignature.verify}, which checks that the
+   * challenge of the assertion is the message.
+   *
+   * @param args - The arguments for verifying the signature.
+   * @param args.message - The message that was signed.
+   * @param args.signature - The signature to verify against the public key.
+   * @group Implementation
+   * @category Serialization
+   */
+  verifySignature(args: { message: HexInput; signature: Secp256r1Signature | WebAuthnSignature }): boolean {
+    const { message, signature } = args;
+    if (!(signature instanceof Secp256r1Signature)) {
+      return signature.verify({ message, publicKey: this });
+    }
+    const messageToVerify = convertSigningMessage(message);
+    const messageBytes = Hex.fromHexInput(messageToVerify).toUint8Array();
+    const messageSha256Bytes = sha256(messageBytes);
+    return p256.verify(signature.toUint8Array(), messageSha256Bytes, this.key.toUint8Array(), { lowS: true });
+  }
+
+  /**
+   * Get the data as a Uint8Array representation.
+   *
+   * @returns Uint8Array representation of the data.
+   * @group Implementation
+   * @category Serialization
+   */
+  toUint8Array(): Uint8Array {
+    return this.key.toUint8Array();
+  }
+
+  // endregion
+
+  // region Serializable
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeBytes(this.key.toUint8Array());
+  }
+
+  static deserialize(deserializer: Deserializer): Secp256r1PublicKey {
+    const bytes = deserializer.deserializeBytes();
+    return new Secp256r1PublicKey(bytes);
+  }
+
+  // endregion
+}
+
+/**
+ * Represents a Secp256r1 (P-256) ECDSA private key.  It can stand in for a WebAuthn authenticator, e.g. in tests, as
+ * the authenticator signs the SHA2-256 hash of the assertion with such a key.
+ * @group Implementation
+ * @category Serialization
+ */
+export class Secp256r1PrivateKey extends Serializable implements PrivateKey {
+  /**
+   * Length of Secp256r1 ecdsa private key
+   * @group Implementation
+   * @category Serialization
+   */
+  static readonly LENGTH: number = 32;
+
+  /**
+   * The private key bytes
+   * @private
+   * @group Implementation
+   * @category Serialization
+   */
+  private readonly key: Hex;
+
+  // region Constructors
+
+  /**
+   * Create a new PrivateKey instance from a Uint8Array or String.
+   *
+   * [Read about AIP-80](https://github.com/aptos-foundation/AIPs/blob/main/aips/aip-80.md)
+   *
+   * @param hexInput A HexInput (string or Uint8Array)
+   * @param strict If true, private key must AIP-80 compliant.
+   * @group Implementation
+   * @category Serialization
+   */
+  constructor(hexInput: HexInput, strict?: boolean) {
+    super();
+
+    const privateKeyHex = PrivateKey.parseHexInput(hexInput, PrivateKeyVariants.Secp256r1, strict);
+    if (privateKeyHex.toUint8Array().length !== Secp256r1PrivateKey.LENGTH) {
+      throw new Error(`PrivateKey length should be ${Secp256r1PrivateKey.LENGTH}`);
+    }
+
+    this.key = privateKeyHex;
+  }
+
+  /**
+   * Generate a new random private key.
+   *
+   * @returns Secp256r1PrivateKey - A newly generated Secp256r1 private key.
+   * @group Implementation
+   * @category Serialization
+   */
+  static generate(): Secp256r1PrivateKey {
+    const hexInput = p256.utils.randomPrivateKey();
+    return new Secp256r1PrivateKey(hexInput, false);
+  }
+
+  // endregion
+
+  // region PrivateKey
+
+  /**
+   * Sign the SHA2-256 hash of the given message with the private key.  The signature is canonical (low S).
+   *
+   * @param message - A message in HexInput format to be signed.
+   * @returns Signature - The generated signature for the provided message.
+   * @group Implementation
+   * @category Serialization
+   */
+  sign(message: HexInput): Secp256r1Signature {
+    const messageToSign = convertSigningMessage(message);
+    const messageBytes = Hex.fromHexInput(messageToSign);
+    const messageHashBytes = sha256(messageBytes.toUint8Array());
+    const signature = p256.sign(messageHashBytes, this.key.toUint8Array(), { lowS: true });
+    return new Secp256r1Signature(signature.toCompactRawBytes());
+  }
+
+  /**
+   * Derive the Secp256r1PublicKey from this private key.
+   *
+   * @returns Secp256r1PublicKey The derived public key.
+   * @group Implementation
+   * @category Serialization
+   */
+  publicKey(): Secp256r1PublicKey {
+    const bytes = p256.getPublicKey(this.key.toUint8Array(), false);
+    return new Secp256r1PublicKey(bytes);
+  }
+
+  /**
+   * Get the private key in bytes (Uint8Array).
+   *
+   * @returns
+   * @group Implementation
+   * @category Serialization
+   */
+  toUint8Array(): Uint8Array {
+    return this.key.toUint8Array();
+  }
+
+  /**
+   * Get the private key as a string representation.
+   *
+   * @returns string representation of the private key
+   * @group Implementation
+   * @category Serialization
+   */
+  toString(): string {
+    return this.toAIP80String();
+  }
+
+  /**
+   * Get the private key as a hex string with the 0x prefix.
+   *
+   * @returns string representation of the private key.
+   */
+  toHexString(): string {
+    return this.key.toString();
+  }
+
+  /**
+   * Get the private key as a AIP-80 compliant hex string.
+   *
+   * [Read about AIP-80](https://github.com/aptos-foundation/AIPs/blob/main/aips/aip-80.md)
+   *
+   * @returns AIP-80 compliant string representation of the private key.
+   */
+  toAIP80String(): string {
+    return PrivateKey.formatPrivateKey(this.key.toString(), PrivateKeyVariants.Secp256r1);
+  }
+
+  // endregion
+
+  // region Serializable
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeBytes(this.toUint8Array());
+  }
+
+  static deserialize(deserializer: Deserializer): Secp256r1PrivateKey {
+    const bytes = deserializer.deserializeBytes();
+    return new Secp256r1PrivateKey(bytes, false);
+  }
+
+  // endregion
+}
+
+/**
+ * Represents a signature of a message signed using a Secp256r1 ECDSA private key, as the 32-byte r and s values.
+ *
+ * @group Implementation
+ * @category Serialization
+ */
+export class Secp256r1Signature extends Signature {
+  /**
+   * Secp256r1 ecdsa signatures are 256-bit.
+   * @group Implementation
+   * @category Serialization
+   */
+  static readonly LENGTH = 64;
+
+  /**
+   * The signature bytes
+   * @private
+   * @group Implementation
+   * @category Serialization
+   */
+  private readonly data: Hex;
+
+  // region Constructors
+
+  /**
+   * Create a new Signature instance from a Uint8Array or String.
+   *
+   * @param hexInput A HexInput (string or Uint8Array)
+   * @group Implementation
+   * @category Serialization
+   */
+  constructor(hexInput: HexInput) {
+    super();
+    const data = Hex.fromHexInput(hexInput);
+    if (data.toUint8Array().length !== Secp256r1Signature.LENGTH) {
+      throw new Error(
+        `Signature length should be ${Secp256r1Signature.LENGTH}, received ${data.toUint8Array().length}`,
+      );
+    }
+    this.data = data;
+  }
+
+  /**
+   * Creates a canonical (low S) signature from a DER encoded one, the encoding WebAuthn authenticators use.
+   *
+   * @param hexInput - The DER encoded signature.
+   * @group Implementation
+   * @category Serialization
+   */
+  static fromDER(hexInput: HexInput): Secp256r1Signature {
+    const signature = p256.Signature.fromDER(Hex.fromHexInput(hexInput).toUint8Array()).normalizeS();
+    return new Secp256r1Signature(signature.toCompactRawBytes());
+  }
+
+  // endregion
+
+  // region Signature
+
+  toUint8Array(): Uint8Array {
+    return this.data.toUint8Array();
+  }
+
+  // endregion
+
+  // region Serializable
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeBytes(this.data.toUint8Array());
+  }
+
+  static deserialize(deserializer: Deserializer): Secp256r1Signature {
+    const hex = deserializer.deserializeBytes();
+    return new Secp256r1Signature(hex);
+  }
+
+  // endregion
+}
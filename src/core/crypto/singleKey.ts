@@ -9,6 +9,8 @@ import { AuthenticationKey } from "../authenticationKey";
 import { Ed25519PrivateKey, Ed25519PublicKey, Ed25519Signature } from "./ed25519";
 import { AccountPublicKey, PublicKey } from "./publicKey";
 import { Secp256k1PrivateKey, Secp256k1PublicKey, Secp256k1Signature } from "./secp256k1";
+import { Secp256r1PublicKey } from "./secp256r1";
+import { WebAuthnSignature } from "./webauthn";
 import { KeylessPublicKey, KeylessSignature } from "./keyless";
 import { Signature } from "./signature";
 import { FederatedKeylessPublicKey } from "./federatedKeyless";
@@ -45,7 +47,7 @@ export class AnyPublicKey extends AccountPublicKey {
 
   /**
    * Creates an instance of the signature class based on the provided signature type.
-   * This allows for the handling of different signature variants such as Ed25519, Secp256k1, and Keyless.
+   * This allows for the handling of different signature variants such as Ed25519, Secp256k1, Secp256r1 and Keyless.
    *
    * @param publicKey - The publicKey object which determines the variant to be used.
    * @throws Error if the provided signature type is unsupported.
@@ -59,6 +61,8 @@ export class AnyPublicKey extends AccountPublicKey {
       this.variant = AnyPublicKeyVariant.Ed25519;
     } else if (publicKey instanceof Secp256k1PublicKey) {
       this.variant = AnyPublicKeyVariant.Secp256k1;
+    } else if (publicKey instanceof Secp256r1PublicKey) {
+      this.variant = AnyPublicKeyVariant.Secp256r1;
     } else if (publicKey instanceof KeylessPublicKey) {
       this.variant = AnyPublicKeyVariant.Keyless;
     } else if (publicKey instanceof FederatedKeylessPublicKey) {
@@ -188,6 +192,9 @@ export class AnyPublicKey extends AccountPublicKey {
       case AnyPublicKeyVariant.Secp256k1:
         publicKey = Secp256k1PublicKey.deserialize(deserializer);
         break;
+      case AnyPublicKeyVariant.Secp256r1:
+        publicKey = Secp256r1PublicKey.deserialize(deserializer);
+        break;
       case AnyPublicKeyVariant.Keyless:
         publicKey = KeylessPublicKey.deserialize(deserializer);
         break;
@@ -278,6 +285,8 @@ export class AnySignature extends Signature {
       this.variant = AnySignatureVariant.Ed25519;
     } else if (signature instanceof Secp256k1Signature) {
       this.variant = AnySignatureVariant.Secp256k1;
+    } else if (signature instanceof WebAuthnSignature) {
+      this.variant = AnySignatureVariant.WebAuthn;
     } else if (signature instanceof KeylessSignature) {
       this.variant = AnySignatureVariant.Keyless;
     } else {
@@ -318,6 +327,9 @@ export class AnySignature extends Signature {
       case AnySignatureVariant.Secp256k1:
         signature = Secp256k1Signature.deserialize(deserializer);
         break;
+      case AnySignatureVariant.WebAuthn:
+        signature = WebAuthnSignature.deserialize(deserializer);
+        break;
       case AnySignatureVariant.Keyless:
         signature = KeylessSignature.deserialize(deserializer);
         break;
@@ -0,0 +1,163 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { sha256 } from "@noble/hashes/sha256";
+import { sha3_256 } from "@noble/hashes/sha3";
+import { toUint8Array } from "js-base64";
+import { Deserializer, Serializer } from "../../bcs";
+import { Hex } from "../hex";
+import { AssertionSignatureVariant, HexInput } from "../../types";
+import { Secp256r1PublicKey, Secp256r1Signature } from "./secp256r1";
+import { Signature } from "./signature";
+import { convertSigningMessage } from "./utils";
+
+/**
+ * The fields of the client data of a WebAuthn assertion that are checked on chain.
+ * {@link https://www.w3.org/TR/webauthn-3/#dictionary-client-data}
+ * @group Implementation
+ * @category Serialization
+ */
+export type WebAuthnClientData = {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+};
+
+/**
+ * Represents a WebAuthn assertion, e.g. from a passkey, that signs a message with a Secp256r1 key.
+ *
+ * The authenticator signs its authenticator data followed by the SHA2-256 hash of the client data JSON.  The client
+ * data JSON carries the challenge, which has to be the SHA3-256 hash of the signed message, e.g. of the signing
+ * message of a transaction.
+ *
+ * @extends Signature
+ * @group Implementation
+ * @category Serialization
+ */
+export class WebAuthnSignature extends Signature {
+  /**
+   * The canonical (low S) signature of the authenticator
+   * @group Implementation
+   * @category Serialization
+   */
+  readonly signature: Secp256r1Signature;
+
+  /**
+   * The authenticator data of the assertion
+   * @group Implementation
+   * @category Serialization
+   */
+  readonly authenticatorData: Hex;
+
+  /**
+   * The client data JSON of the assertion, as the bytes the authenticator signed
+   * @group Implementation
+   * @category Serialization
+   */
+  readonly clientDataJSON: Hex;
+
+  // region Constructors
+
+  /**
+   * @param signature - The signature of the authenticator, as a `Secp256r1Signature` or its 64 bytes.
+   * @param authenticatorData - The authenticator data of the assertion.
+   * @param clientDataJSON - The client data JSON of the assertion.
+   * @group Implementation
+   * @category Serialization
+   */
+  constructor(signature: Secp256r1Signature | HexInput, authenticatorData: HexInput, clientDataJSON: HexInput) {
+    super();
+    this.signature = signature instanceof Secp256r1Signature ? signature : new Secp256r1Signature(signature);
+    this.authenticatorData = Hex.fromHexInput(authenticatorData);
+    this.clientDataJSON = Hex.fromHexInput(clientDataJSON);
+  }
+
+  // endregion
+
+  /**
+   * Computes the challenge an assertion has to carry to sign the given message, the SHA3-256 hash of the message.
+   *
+   * @param message - The message to sign, e.g. the signing message of a transaction.
+   * @returns The challenge to pass to the authenticator.
+   * @group Implementation
+   * @category Serialization
+   */
+  static challenge(message: HexInput): Uint8Array {
+    return sha3_256(Hex.fromHexInput(convertSigningMessage(message)).toUint8Array());
+  }
+
+  /**
+   * Parses the client data JSON of the assertion.
+   *
+   * @throws Error if the client data is not JSON.
+   * @group Implementation
+   * @category Serialization
+   */
+  getClientData(): WebAuthnClientData {
+    return JSON.parse(new TextDecoder().decode(this.clientDataJSON.toUint8Array()));
+  }
+
+  /**
+   * Verifies that the assertion signs the given message with the given public key: the assertion is a `webauthn.get`
+   * one, its challenge is the challenge of the message and the authenticator's signature is valid.
+   *
+   * @param args.message - The message that was signed.
+   * @param args.publicKey - The public key of the credential.
+   * @returns A boolean indicating whether the assertion is valid for the given message.
+   * @group Implementation
+   * @category Serialization
+   */
+  verify(args: { message: HexInput; publicKey: Secp256r1PublicKey }): boolean {
+    const { message, publicKey } = args;
+    let clientData: WebAuthnClientData;
+    try {
+      clientData = this.getClientData();
+    } catch {
+      return false;
+    }
+    if (clientData.type !== "webauthn.get" || typeof clientData.challenge !== "string") {
+      return false;
+    }
+    const challenge = Hex.fromHexInput(toUint8Array(clientData.challenge));
+    if (!challenge.equals(Hex.fromHexInput(WebAuthnSignature.challenge(message)))) {
+      return false;
+    }
+    const authenticatorData = this.authenticatorData.toUint8Array();
+    const clientDataHash = sha256(this.clientDataJSON.toUint8Array());
+    const verificationData = new Uint8Array(authenticatorData.length + clientDataHash.length);
+    verificationData.set(authenticatorData);
+    verificationData.set(clientDataHash, authenticatorData.length);
+    return publicKey.verifySignature({ message: verificationData, signature: this.signature });
+  }
+
+  // region Signature
+
+  toUint8Array(): Uint8Array {
+    return this.bcsToBytes();
+  }
+
+  // endregion
+
+  // region Serializable
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(AssertionSignatureVariant.Secp256r1);
+    this.signature.serialize(serializer);
+    serializer.serializeBytes(this.authenticatorData.toUint8Array());
+    serializer.serializeBytes(this.clientDataJSON.toUint8Array());
+  }
+
+  static deserialize(deserializer: Deserializer): WebAuthnSignature {
+    const variantIndex = deserializer.deserializeUleb128AsU32();
+    if (variantIndex !== AssertionSignatureVariant.Secp256r1) {
+      throw new Error(`Unknown variant index for AssertionSignature: ${variantIndex}`);
+    }
+    const signature = Secp256r1Signature.deserialize(deserializer);
+    const authenticatorData = deserializer.deserializeBytes();
+    const clientDataJSON = deserializer.deserializeBytes();
+    return new WebAuthnSignature(signature, authenticatorData, clientDataJSON);
+  }
+
+  // endregion
+}
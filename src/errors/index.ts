@@ -1,6 +1,6 @@
 import { AptosApiType } from "../utils/const";
 import { getErrorMessage } from "../utils/helpers";
-import { AptosRequest, AptosResponse } from "../types";
+import { AptosRequest, AptosResponse, RequestAttempt } from "../types";
 
 export enum KeylessErrorCategory {
   API_ERROR,
@@ -349,6 +349,7 @@ type AptosApiErrorOpts = {
   apiType: AptosApiType;
   aptosRequest: AptosRequest;
   aptosResponse: AptosResponse<any, any>;
+  attempts?: RequestAttempt[];
 };
 
 /**
@@ -361,6 +362,7 @@ type AptosApiErrorOpts = {
  * @param statusText - The message associated with the response status.
  * @param data - The response data returned from the API.
  * @param request - The original AptosRequest that triggered the error.
+ * @param attempts - Every failed attempt of the request, set when a retry policy is configured.
  */
 export class AptosApiError extends Error {
   readonly url: string;
@@ -373,6 +375,8 @@ export class AptosApiError extends Error {
 
   readonly request: AptosRequest;
 
+  readonly attempts?: RequestAttempt[];
+
   /**
    * Constructs an instance of AptosApiError with relevant error details.
    *
@@ -380,10 +384,11 @@ export class AptosApiError extends Error {
    * @param opts.apiType - The type of API that generated the error.
    * @param opts.aptosRequest - The request object that caused the error.
    * @param opts.aptosResponse - The response object containing error details.
+   * @param opts.attempts - The failed attempts of the request, if it was retried under a retry policy.
    *
    * @internal This constructor is for SDK internal use - do not instantiate outside the SDK codebase.
    */
-  constructor({ apiType, aptosRequest, aptosResponse }: AptosApiErrorOpts) {
+  constructor({ apiType, aptosRequest, aptosResponse, attempts }: AptosApiErrorOpts) {
     super(deriveErrorMessage({ apiType, aptosRequest, aptosResponse }));
 
     this.name = "AptosApiError";
@@ -392,6 +397,43 @@ export class AptosApiError extends Error {
     this.statusText = aptosResponse.statusText;
     this.data = aptosResponse.data;
     this.request = aptosRequest;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Represents a request that never received a response from the Aptos API, e.g. because of a connection failure,
+ * after all attempts allowed by the configured retry policy were used up.
+ *
+ * @param name - The name of the error, which is always "AptosNetworkError".
+ * @param url - The URL of the last attempt.
+ * @param request - The original AptosRequest.
+ * @param attempts - Every failed attempt of the request.
+ * @param innerError - The error thrown by the client on the last attempt.
+ */
+export class AptosNetworkError extends Error {
+  readonly url: string;
+
+  readonly request: AptosRequest;
+
+  readonly attempts: RequestAttempt[];
+
+  readonly innerError: unknown;
+
+  /**
+   * @internal This constructor is for SDK internal use - do not instantiate outside the SDK codebase.
+   */
+  constructor(args: { apiType: AptosApiType; aptosRequest: AptosRequest; attempts: RequestAttempt[] }) {
+    const { apiType, aptosRequest, attempts } = args;
+    const lastAttempt = attempts[attempts.length - 1];
+    const errorPrelude = `Request to [${apiType}]: ${aptosRequest.method} ${lastAttempt.url}`;
+    super(`${errorPrelude} failed after ${attempts.length} attempt(s) with: ${getErrorMessage(lastAttempt.error)}`);
+
+    this.name = "AptosNetworkError";
+    this.url = lastAttempt.url;
+    this.request = aptosRequest;
+    this.attempts = attempts;
+    this.innerError = lastAttempt.error;
   }
 }
 
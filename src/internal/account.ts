@@ -16,6 +16,7 @@ import {
   paginateWithObfuscatedCursor,
 } from "../client";
 import {
+  AcceptTypeArg,
   AccountData,
   CursorPaginationArgs,
   GetAccountCoinsDataResponse,
@@ -24,6 +25,7 @@ import {
   GetAccountOwnedTokensQueryResponse,
   GetObjectDataQueryResponse,
   LedgerVersionArg,
+  MimeType,
   MoveModuleBytecode,
   MoveResource,
   MoveStructId,
@@ -65,7 +67,15 @@ import { getTableItem } from "./table";
 import { APTOS_COIN } from "../utils";
 import { AptosApiError } from "../errors";
 import { signAndSubmitTransaction, generateTransaction } from "./transactionSubmission";
-import { EntryFunctionABI, RotationProofChallenge, TypeTagU8, TypeTagVector } from "../transactions";
+import {
+  decodeMoveValue,
+  EntryFunctionABI,
+  fetchStructAbis,
+  parseTypeTag,
+  RotationProofChallenge,
+  TypeTagU8,
+  TypeTagVector,
+} from "../transactions";
 import { U8, MoveVector } from "../bcs";
 import { waitForTransaction } from "./transaction";
 
@@ -260,16 +270,30 @@ export async function getResourcesPage(args: {
  * @param args.aptosConfig - The configuration settings for Aptos.
  * @param args.accountAddress - The address of the account from which to retrieve the resource.
  * @param args.resourceType - The type of the resource to retrieve, specified as a MoveStructId.
- * @param args.options - Optional parameters for specifying the ledger version.
+ * @param args.options - Optional parameters for specifying the ledger version, and whether to fetch the resource as
+ * BCS and decode it with the ABIs of its modules.
  * @group Implementation
  */
 export async function getResource<T extends {}>(args: {
   aptosConfig: AptosConfig;
   accountAddress: AccountAddressInput;
   resourceType: MoveStructId;
-  options?: LedgerVersionArg;
+  options?: LedgerVersionArg & AcceptTypeArg;
 }): Promise<T> {
   const { aptosConfig, accountAddress, resourceType, options } = args;
+  if (options?.acceptType === MimeType.BCS) {
+    const { data } = await getAptosFullNode<{}, ArrayBuffer | Uint8Array>({
+      aptosConfig,
+      originMethod: "getResource",
+      path: `accounts/${AccountAddress.from(accountAddress).toString()}/resource/${resourceType}`,
+      params: { ledger_version: options?.ledgerVersion },
+      acceptType: MimeType.BCS,
+    });
+    const typeTag = parseTypeTag(resourceType);
+    const modules = await fetchStructAbis({ aptosConfig, typeTags: [typeTag] });
+    return decodeMoveValue<any>({ typeTag, bytes: new Uint8Array(data), modules }) as T;
+  }
+
   const { data } = await getAptosFullNode<{}, MoveResource>({
     aptosConfig,
     originMethod: "getResource",
@@ -0,0 +1,308 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * This file contains the underlying implementations for exposed API surface in
+ * the {@link api/asset}. By moving the methods out into a separate file,
+ * other namespaces and processes can access these methods without depending on the entire
+ * asset namespace and without having a dependency cycle error.
+ * @group Implementation
+ */
+
+import { AptosConfig } from "../api/aptosConfig";
+import { AccountAddress, AccountAddressInput } from "../core";
+import { AptosApiError } from "../errors";
+import {
+  InputGenerateTransactionOptions,
+  parseTypeTag,
+  SimpleTransaction,
+  TypeTagAddress,
+  TypeTagU64,
+} from "../transactions";
+import { AnyNumber, CoinMigrationStatus, LedgerVersionArg, MoveStructId, UnifiedAsset } from "../types";
+import { APTOS_COIN, APTOS_FA } from "../utils/const";
+import { isEncodedStruct, parseEncodedStruct } from "../utils/helpers";
+import { memoizeAsync } from "../utils/memoize";
+import { getResource } from "./account";
+import { getLedgerInfo } from "./general";
+import { generateTransaction } from "./transactionSubmission";
+import { view } from "./view";
+
+/**
+ * How long the pairing of a coin and a fungible asset is cached, as a coin that isn't paired yet may become paired.
+ */
+const PAIRING_TTL_MS = 1000 * 60 * 5;
+
+/**
+ * Returns the fungible asset metadata address the coin is paired with, if any.
+ */
+async function pairedMetadataOf(aptosConfig: AptosConfig, coinType: MoveStructId): Promise<string | undefined> {
+  const [metadata] = await view<[{ vec: Array<{ inner: string }> }]>({
+    aptosConfig,
+    payload: {
+      function: "0x1::coin::paired_metadata",
+      typeArguments: [coinType],
+      functionArguments: [],
+      abi: { typeParameters: [{ constraints: [] }], parameters: [], returnTypes: [] },
+    },
+  });
+  return metadata.vec.length > 0 ? AccountAddress.from(metadata.vec[0].inner).toStringLong() : undefined;
+}
+
+/**
+ * Returns the coin type the fungible asset is paired with, if any.
+ */
+async function pairedCoinOf(aptosConfig: AptosConfig, faMetadataAddress: string): Promise<MoveStructId | undefined> {
+  const [coin] = await view<[{ vec: Array<unknown> }]>({
+    aptosConfig,
+    payload: {
+      function: "0x1::coin::paired_coin",
+      functionArguments: [faMetadataAddress],
+      abi: { typeParameters: [], parameters: [parseTypeTag("0x1::object::Object")], returnTypes: [] },
+    },
+  });
+  return coin.vec.length > 0 && isEncodedStruct(coin.vec[0]) ? parseEncodedStruct(coin.vec[0]) : undefined;
+}
+
+/**
+ * Resolves the pairing of a coin and a fungible asset, from the coin type, the fungible asset metadata address, or
+ * both, which are then trusted to be paired.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.coinType - The coin type of the asset.
+ * @param args.faMetadataAddress - The fungible asset metadata address of the asset.
+ * @group Implementation
+ */
+export async function resolveAsset(args: {
+  aptosConfig: AptosConfig;
+  coinType?: MoveStructId;
+  faMetadataAddress?: AccountAddressInput;
+}): Promise<UnifiedAsset> {
+  const { aptosConfig, coinType } = args;
+  const faMetadataAddress =
+    args.faMetadataAddress === undefined ? undefined : AccountAddress.from(args.faMetadataAddress).toStringLong();
+  if (coinType !== undefined && faMetadataAddress !== undefined) {
+    return { coinType, faMetadataAddress };
+  }
+  const cacheKey = `asset-pairing-${aptosConfig.network}-${aptosConfig.fullnode}`;
+  if (coinType !== undefined) {
+    if (coinType === APTOS_COIN) {
+      return { coinType, faMetadataAddress: APTOS_FA };
+    }
+    return {
+      coinType,
+      faMetadataAddress: await memoizeAsync(
+        () => pairedMetadataOf(aptosConfig, coinType),
+        `${cacheKey}-${coinType}`,
+        PAIRING_TTL_MS,
+      )(),
+    };
+  }
+  if (faMetadataAddress !== undefined) {
+    if (faMetadataAddress === APTOS_FA) {
+      return { coinType: APTOS_COIN, faMetadataAddress };
+    }
+    return {
+      coinType: await memoizeAsync(
+        () => pairedCoinOf(aptosConfig, faMetadataAddress),
+        `${cacheKey}-${faMetadataAddress}`,
+        PAIRING_TTL_MS,
+      )(),
+      faMetadataAddress,
+    };
+  }
+  throw new Error("Either coinType, faMetadataAddress, or both must be provided");
+}
+
+/**
+ * Reads the balance of an account in the primary store of a fungible asset.
+ */
+async function primaryStoreBalance(args: {
+  aptosConfig: AptosConfig;
+  accountAddress: AccountAddressInput;
+  faMetadataAddress: string;
+  options?: LedgerVersionArg;
+}): Promise<string> {
+  const { aptosConfig, accountAddress, faMetadataAddress, options } = args;
+  const [balance] = await view<[string]>({
+    aptosConfig,
+    payload: {
+      function: "0x1::primary_fungible_store::balance",
+      typeArguments: ["0x1::object::ObjectCore"],
+      functionArguments: [AccountAddress.from(accountAddress), faMetadataAddress],
+      abi: {
+        typeParameters: [{ constraints: [] }],
+        parameters: [new TypeTagAddress(), parseTypeTag("0x1::object::Object")],
+        returnTypes: [],
+      },
+    },
+    options,
+  });
+  return balance;
+}
+
+/**
+ * Reads the balance of an account in an asset from the fullnode. The balance of a coin includes the primary store of
+ * its paired fungible asset.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.accountAddress - The account to read the balance of.
+ * @param args.coinType - The coin type of the asset.
+ * @param args.faMetadataAddress - The fungible asset metadata address of the asset.
+ * @param args.options - Optional ledger version to read the balance at.
+ * @group Implementation
+ */
+export async function getAssetBalance(args: {
+  aptosConfig: AptosConfig;
+  accountAddress: AccountAddressInput;
+  coinType?: MoveStructId;
+  faMetadataAddress?: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<string> {
+  const { aptosConfig, accountAddress, options } = args;
+  const { coinType, faMetadataAddress } = await resolveAsset(args);
+  if (coinType === undefined) {
+    return primaryStoreBalance({ aptosConfig, accountAddress, faMetadataAddress: faMetadataAddress!, options });
+  }
+  const [balance] = await view<[string]>({
+    aptosConfig,
+    payload: {
+      function: "0x1::coin::balance",
+      typeArguments: [coinType],
+      functionArguments: [AccountAddress.from(accountAddress)],
+      abi: { typeParameters: [{ constraints: [] }], parameters: [new TypeTagAddress()], returnTypes: [] },
+    },
+    options,
+  });
+  return balance;
+}
+
+/**
+ * Generates a transaction that transfers an asset. A coin, paired or not, is transferred with
+ * `0x1::aptos_account::transfer_coins`, which withdraws from both its `CoinStore` and the primary store of its paired
+ * fungible asset, and a fungible asset without a paired coin with `0x1::aptos_account::transfer_fungible_assets`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The account sending the asset.
+ * @param args.recipient - The account receiving the asset.
+ * @param args.amount - The amount to transfer.
+ * @param args.coinType - The coin type of the asset.
+ * @param args.faMetadataAddress - The fungible asset metadata address of the asset.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function transferAssetTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  recipient: AccountAddressInput;
+  amount: AnyNumber;
+  coinType?: MoveStructId;
+  faMetadataAddress?: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, recipient, amount, options } = args;
+  const { coinType, faMetadataAddress } = await resolveAsset(args);
+  if (coinType === undefined) {
+    return generateTransaction({
+      aptosConfig,
+      sender,
+      data: {
+        function: "0x1::aptos_account::transfer_fungible_assets",
+        functionArguments: [faMetadataAddress!, AccountAddress.from(recipient), amount],
+        abi: {
+          typeParameters: [],
+          parameters: [parseTypeTag("0x1::object::Object"), new TypeTagAddress(), new TypeTagU64()],
+        },
+      },
+      options,
+    });
+  }
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: "0x1::aptos_account::transfer_coins",
+      typeArguments: [coinType],
+      functionArguments: [AccountAddress.from(recipient), amount],
+      abi: { typeParameters: [{ constraints: [] }], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+    },
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that moves the balance of the sender from the `CoinStore` of a coin to the primary store
+ * of its paired fungible asset, and removes the `CoinStore`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The account migrating its balance.
+ * @param args.coinType - The coin type to migrate.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function migrateCoinToFungibleStoreTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  coinType: MoveStructId;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, coinType, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: "0x1::coin::migrate_to_fungible_store",
+      typeArguments: [coinType],
+      functionArguments: [],
+      abi: { typeParameters: [{ constraints: [] }], parameters: [] },
+    },
+    options,
+  });
+}
+
+/**
+ * Reports how much of the balance of an account in a coin is still in its `CoinStore`, and how much is in the primary
+ * store of the paired fungible asset.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.accountAddress - The account to report on.
+ * @param args.coinType - The coin type of the asset.
+ * @param args.options - Optional ledger version to read the balances at. Defaults to the latest ledger version.
+ * @group Implementation
+ */
+export async function getCoinMigrationStatus(args: {
+  aptosConfig: AptosConfig;
+  accountAddress: AccountAddressInput;
+  coinType: MoveStructId;
+  options?: LedgerVersionArg;
+}): Promise<CoinMigrationStatus> {
+  const { aptosConfig, accountAddress, coinType } = args;
+  const { faMetadataAddress } = await resolveAsset({ aptosConfig, coinType });
+  // Both balances have to be read at the same version, as a migration moves the balance between them
+  const ledgerVersion = args.options?.ledgerVersion ?? (await getLedgerInfo({ aptosConfig })).ledger_version;
+  const options = { ledgerVersion: BigInt(ledgerVersion) };
+  const [coinStore, fungibleStoreBalance] = await Promise.all([
+    getResource<{ coin: { value: string } }>({
+      aptosConfig,
+      accountAddress,
+      resourceType: `0x1::coin::CoinStore<${coinType}>`,
+      options,
+    }).catch((error) => {
+      if (error instanceof AptosApiError && error.status === 404) {
+        return undefined;
+      }
+      throw error;
+    }),
+    faMetadataAddress === undefined
+      ? "0"
+      : primaryStoreBalance({ aptosConfig, accountAddress, faMetadataAddress, options }),
+  ]);
+  return {
+    coinType,
+    faMetadataAddress,
+    hasCoinStore: coinStore !== undefined,
+    coinStoreBalance: coinStore?.coin.value ?? "0",
+    fungibleStoreBalance,
+    migrated: coinStore === undefined && faMetadataAddress !== undefined,
+  };
+}
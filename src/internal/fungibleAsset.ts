@@ -12,9 +12,12 @@
 import { AptosConfig } from "../api/aptosConfig";
 import {
   AnyNumber,
+  FungibleStoreTarget,
   GetCurrentFungibleAssetBalancesResponse,
   GetFungibleAssetActivitiesResponse,
   GetFungibleAssetMetadataResponse,
+  HexInput,
+  MoveFunctionId,
   PaginationArgs,
   WhereArg,
 } from "../types";
@@ -34,13 +37,17 @@ import {
   FungibleAssetActivitiesBoolExp,
   FungibleAssetMetadataBoolExp,
 } from "../types/generated/types";
-import { AccountAddressInput } from "../core";
+import { AccountAddress, AccountAddressInput, createObjectAddress, Hex } from "../core";
 import { Account } from "../account";
 import {
   EntryFunctionABI,
+  EntryFunctionArgumentTypes,
   InputGenerateTransactionOptions,
   parseTypeTag,
+  SimpleEntryFunctionArgumentTypes,
+  TypeTag,
   TypeTagAddress,
+  TypeTagBool,
   TypeTagU64,
 } from "../transactions";
 import { generateTransaction } from "./transactionSubmission";
@@ -231,3 +238,265 @@ export async function transferFungibleAssetBetweenStores(args: {
     options,
   });
 }
+
+/**
+ * Generates a transaction that calls an entry function of the `issuer` module of the `fa_issuer` Move package,
+ * shipped with the SDK in `move/fa_issuer` and published at `issuerAddress`.
+ */
+async function issuerTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  issuerAddress: AccountAddressInput;
+  functionName: string;
+  functionArguments: Array<EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes>;
+  parameters: Array<TypeTag>;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, issuerAddress, functionName, functionArguments, parameters, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: `${AccountAddress.from(issuerAddress).toString()}::issuer::${functionName}`,
+      typeArguments: [],
+      functionArguments,
+      abi: { typeParameters: [], parameters },
+    },
+    options,
+  });
+}
+
+/**
+ * Splits the dispatchable hooks of a fungible asset into the module they belong to and their function names.
+ */
+function hooksOf(hooks: { withdrawHook?: MoveFunctionId; depositHook?: MoveFunctionId }): {
+  hookAddress: AccountAddress;
+  hookModule: string;
+  withdrawFunction?: string;
+  depositFunction?: string;
+} {
+  const [withdraw, deposit] = [hooks.withdrawHook, hooks.depositHook].map((hook) => hook?.split("::"));
+  const [hookAddress, hookModule] = withdraw ?? deposit ?? [AccountAddress.ZERO.toString(), ""];
+  const sameModule =
+    !withdraw ||
+    !deposit ||
+    (AccountAddress.from(withdraw[0]).equals(AccountAddress.from(deposit[0])) && withdraw[1] === deposit[1]);
+  if (!sameModule) {
+    throw new Error(`Hooks ${hooks.withdrawHook} and ${hooks.depositHook} must be functions of the same module`);
+  }
+  return {
+    hookAddress: AccountAddress.from(hookAddress),
+    hookModule,
+    withdrawFunction: withdraw?.[2],
+    depositFunction: deposit?.[2],
+  };
+}
+
+/**
+ * Generates a transaction that creates a fungible asset with primary stores enabled, owned by the sender, and returns
+ * the address of its metadata.
+ *
+ * @param args.aptosConfig - The configuration settings for the Aptos network.
+ * @param args.sender - The creator, who owns the metadata and can mint, burn and freeze the asset.
+ * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+ * @param args.name - The name of the asset.
+ * @param args.symbol - The symbol of the asset.
+ * @param args.decimals - The number of decimals of the asset.
+ * @param args.iconUri - Optional URI of the icon of the asset.
+ * @param args.projectUri - Optional URI of the project of the asset.
+ * @param args.maxSupply - Optional maximum supply of the asset. The supply is unlimited when it isn't given.
+ * @param args.seed - Optional seed of the address of the metadata, unique for the creator. Defaults to the symbol.
+ * @param args.withdrawHook - Optional dispatchable withdraw function of the asset.
+ * @param args.depositHook - Optional dispatchable deposit function of the asset, of the same module as the withdraw
+ * function.
+ * @param args.options - Optional settings for generating the transaction.
+ * @group Implementation
+ */
+export async function createFungibleAssetTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  issuerAddress: AccountAddressInput;
+  name: string;
+  symbol: string;
+  decimals: number;
+  iconUri?: string;
+  projectUri?: string;
+  maxSupply?: AnyNumber;
+  seed?: HexInput;
+  withdrawHook?: MoveFunctionId;
+  depositHook?: MoveFunctionId;
+  options?: InputGenerateTransactionOptions;
+}): Promise<{ transaction: SimpleTransaction; metadataAddress: AccountAddress }> {
+  const { aptosConfig, sender, issuerAddress, name, symbol, decimals, iconUri = "", projectUri = "" } = args;
+  const seed = args.seed === undefined ? new TextEncoder().encode(symbol) : Hex.fromHexInput(args.seed).toUint8Array();
+  const { hookAddress, hookModule, withdrawFunction, depositFunction } = hooksOf(args);
+  const transaction = await issuerTransaction({
+    aptosConfig,
+    sender,
+    issuerAddress,
+    functionName: "create",
+    functionArguments: [
+      seed,
+      args.maxSupply,
+      name,
+      symbol,
+      decimals,
+      iconUri,
+      projectUri,
+      hookAddress,
+      hookModule,
+      withdrawFunction,
+      depositFunction,
+    ],
+    parameters: [
+      parseTypeTag("vector<u8>"),
+      parseTypeTag("0x1::option::Option<u128>"),
+      parseTypeTag("0x1::string::String"),
+      parseTypeTag("0x1::string::String"),
+      parseTypeTag("u8"),
+      parseTypeTag("0x1::string::String"),
+      parseTypeTag("0x1::string::String"),
+      new TypeTagAddress(),
+      parseTypeTag("0x1::string::String"),
+      parseTypeTag("0x1::option::Option<0x1::string::String>"),
+      parseTypeTag("0x1::option::Option<0x1::string::String>"),
+    ],
+    options: args.options,
+  });
+  // The asset is created at the address of the named object of the sender and the seed
+  return { transaction, metadataAddress: createObjectAddress(AccountAddress.from(sender), seed) };
+}
+
+/**
+ * Generates a transaction that mints a fungible asset created with `createFungibleAssetTransaction` to the primary
+ * store of the recipient.
+ *
+ * @param args.aptosConfig - The configuration settings for the Aptos network.
+ * @param args.sender - The owner of the metadata of the asset.
+ * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+ * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset.
+ * @param args.recipient - The account receiving the minted asset.
+ * @param args.amount - The amount to mint.
+ * @param args.options - Optional settings for generating the transaction.
+ * @group Implementation
+ */
+export async function mintFungibleAssetTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  issuerAddress: AccountAddressInput;
+  fungibleAssetMetadataAddress: AccountAddressInput;
+  recipient: AccountAddressInput;
+  amount: AnyNumber;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, issuerAddress, fungibleAssetMetadataAddress, recipient, amount, options } = args;
+  return issuerTransaction({
+    aptosConfig,
+    sender,
+    issuerAddress,
+    functionName: "mint",
+    functionArguments: [AccountAddress.from(fungibleAssetMetadataAddress), AccountAddress.from(recipient), amount],
+    parameters: [parseTypeTag("0x1::object::Object"), new TypeTagAddress(), new TypeTagU64()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that burns a fungible asset created with `createFungibleAssetTransaction`, from the primary
+ * store of an account or from any store.
+ *
+ * @param args.aptosConfig - The configuration settings for the Aptos network.
+ * @param args.sender - The owner of the metadata of the asset.
+ * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+ * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset, with `owner`.
+ * @param args.owner - The account whose primary store to use, with `fungibleAssetMetadataAddress`.
+ * @param args.store - The address of the store to use, instead of a primary store.
+ * @param args.amount - The amount to burn.
+ * @param args.options - Optional settings for generating the transaction.
+ * @group Implementation
+ */
+export async function burnFungibleAssetTransaction(
+  args: {
+    aptosConfig: AptosConfig;
+    sender: AccountAddressInput;
+    issuerAddress: AccountAddressInput;
+    amount: AnyNumber;
+    options?: InputGenerateTransactionOptions;
+  } & FungibleStoreTarget,
+): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, issuerAddress, amount, options } = args;
+  if ("store" in args) {
+    return issuerTransaction({
+      aptosConfig,
+      sender,
+      issuerAddress,
+      functionName: "burn_from_store",
+      functionArguments: [AccountAddress.from(args.store), amount],
+      parameters: [parseTypeTag("0x1::object::Object"), new TypeTagU64()],
+      options,
+    });
+  }
+  return issuerTransaction({
+    aptosConfig,
+    sender,
+    issuerAddress,
+    functionName: "burn",
+    functionArguments: [
+      AccountAddress.from(args.fungibleAssetMetadataAddress),
+      AccountAddress.from(args.owner),
+      amount,
+    ],
+    parameters: [parseTypeTag("0x1::object::Object"), new TypeTagAddress(), new TypeTagU64()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that freezes or unfreezes the primary store of an account, or any store, of a fungible
+ * asset created with `createFungibleAssetTransaction`. A frozen store can't send or receive the asset.
+ *
+ * @param args.aptosConfig - The configuration settings for the Aptos network.
+ * @param args.sender - The owner of the metadata of the asset.
+ * @param args.issuerAddress - The address the `fa_issuer` Move package is published at.
+ * @param args.fungibleAssetMetadataAddress - The address of the metadata of the asset, with `owner`.
+ * @param args.owner - The account whose primary store to use, with `fungibleAssetMetadataAddress`.
+ * @param args.store - The address of the store to use, instead of a primary store.
+ * @param args.frozen - Whether to freeze or unfreeze the store.
+ * @param args.options - Optional settings for generating the transaction.
+ * @group Implementation
+ */
+export async function setFungibleStoreFrozenTransaction(
+  args: {
+    aptosConfig: AptosConfig;
+    sender: AccountAddressInput;
+    issuerAddress: AccountAddressInput;
+    frozen: boolean;
+    options?: InputGenerateTransactionOptions;
+  } & FungibleStoreTarget,
+): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, issuerAddress, frozen, options } = args;
+  if ("store" in args) {
+    return issuerTransaction({
+      aptosConfig,
+      sender,
+      issuerAddress,
+      functionName: "set_store_frozen",
+      functionArguments: [AccountAddress.from(args.store), frozen],
+      parameters: [parseTypeTag("0x1::object::Object"), new TypeTagBool()],
+      options,
+    });
+  }
+  return issuerTransaction({
+    aptosConfig,
+    sender,
+    issuerAddress,
+    functionName: "set_primary_store_frozen",
+    functionArguments: [
+      AccountAddress.from(args.fungibleAssetMetadataAddress),
+      AccountAddress.from(args.owner),
+      frozen,
+    ],
+    parameters: [parseTypeTag("0x1::object::Object"), new TypeTagAddress(), new TypeTagBool()],
+    options,
+  });
+}
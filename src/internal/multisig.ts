@@ -0,0 +1,531 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * This file contains the underlying implementations for exposed API surface in
+ * the {@link api/multisig}. By moving the methods out into a separate file,
+ * other namespaces and processes can access these methods without depending on the entire
+ * multisig namespace and without having a dependency cycle error.
+ * @group Implementation
+ */
+
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import { AptosConfig } from "../api/aptosConfig";
+import { Deserializer } from "../bcs";
+import { AccountAddress, AccountAddressInput, Hex } from "../core";
+import {
+  EntryFunction,
+  EntryFunctionArgumentTypes,
+  InputEntryFunctionData,
+  InputGenerateTransactionOptions,
+  MultiSig,
+  MultiSigTransactionPayload,
+  SimpleEntryFunctionArgumentTypes,
+  SimpleTransaction,
+  TransactionPayloadMultiSig,
+  TypeTag,
+  TypeTagAddress,
+  TypeTagStruct,
+  TypeTagU64,
+  TypeTagVector,
+  buildTransaction,
+  generateTransactionPayload,
+  stringStructTag,
+} from "../transactions";
+import { AnyNumber, HexInput, LedgerVersionArg, MoveValue, MultisigTransaction, MultisigVote } from "../types";
+import { getLedgerInfo } from "./general";
+import { generateTransaction } from "./transactionSubmission";
+import { view } from "./view";
+
+const MULTISIG_MODULE = "0x1::multisig_account";
+
+/**
+ * The JSON of a `0x1::multisig_account::MultisigTransaction`.
+ */
+type MultisigTransactionResource = {
+  payload: { vec: Array<string> };
+  payload_hash: { vec: Array<string> };
+  votes: { data: Array<{ key: string; value: boolean }> };
+  creator: string;
+  creation_time_secs: string;
+};
+
+/**
+ * Generates a transaction that calls an entry function of `0x1::multisig_account` without type arguments.
+ */
+async function multisigAccountTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  functionName: string;
+  functionArguments: Array<EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes>;
+  parameters: Array<TypeTag>;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, functionName, functionArguments, parameters, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: `${MULTISIG_MODULE}::${functionName}`,
+      typeArguments: [],
+      functionArguments,
+      abi: { typeParameters: [], parameters },
+    },
+    options,
+  });
+}
+
+/**
+ * Calls a view function of `0x1::multisig_account` without type arguments.
+ */
+async function multisigAccountView<T extends Array<MoveValue>>(args: {
+  aptosConfig: AptosConfig;
+  functionName: string;
+  functionArguments: Array<EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes>;
+  parameters: Array<TypeTag>;
+  options?: LedgerVersionArg;
+}): Promise<T> {
+  const { aptosConfig, functionName, functionArguments, parameters, options } = args;
+  return view<T>({
+    aptosConfig,
+    payload: {
+      function: `${MULTISIG_MODULE}::${functionName}`,
+      functionArguments,
+      abi: { typeParameters: [], parameters, returnTypes: [] },
+    },
+    options,
+  });
+}
+
+/**
+ * Decodes the payload of a multisig transaction, as stored on chain by `0x1::multisig_account::create_transaction`,
+ * into the entry function it runs.
+ *
+ * @param payload - The BCS bytes of the `MultiSigTransactionPayload`.
+ * @returns The entry function of the payload. Its arguments are the BCS bytes of the values.
+ * @group Implementation
+ */
+export function decodeMultisigTransactionPayload(payload: HexInput): EntryFunction {
+  const deserializer = new Deserializer(Hex.fromHexInput(payload).toUint8Array());
+  return MultiSigTransactionPayload.deserialize(deserializer).transaction_payload;
+}
+
+/**
+ * Converts a `MultisigTransaction` returned by the view functions of `0x1::multisig_account`.
+ */
+function parseMultisigTransaction(sequenceNumber: bigint, resource: MultisigTransactionResource): MultisigTransaction {
+  const {
+    payload: { vec: payload },
+    payload_hash: { vec: payloadHash },
+    votes: { data: votes },
+  } = resource;
+  return {
+    sequenceNumber: sequenceNumber.toString(),
+    creator: resource.creator,
+    creationTimeSecs: resource.creation_time_secs,
+    payload: payload.length > 0 ? decodeMultisigTransactionPayload(payload[0]) : undefined,
+    payloadHash: payloadHash.length > 0 ? payloadHash[0] : undefined,
+    approvals: votes.filter((vote) => vote.value).map((vote) => vote.key),
+    rejections: votes.filter((vote) => !vote.value).map((vote) => vote.key),
+  };
+}
+
+/**
+ * Generates a transaction that creates a multisig account with the sender and the additional owners as owners.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The account creating the multisig account, which becomes its first owner.
+ * @param args.additionalOwners - The other owners of the multisig account.
+ * @param args.signaturesRequired - The number of approvals a transaction needs to be executed.
+ * @param args.metadata - Optional metadata of the multisig account, as keys and byte values.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function createMultisigAccountTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  additionalOwners: Array<AccountAddressInput>;
+  signaturesRequired: AnyNumber;
+  metadata?: Record<string, HexInput>;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, additionalOwners, signaturesRequired, metadata = {}, options } = args;
+  return multisigAccountTransaction({
+    aptosConfig,
+    sender,
+    functionName: "create_with_owners",
+    functionArguments: [
+      additionalOwners.map((owner) => AccountAddress.from(owner)),
+      signaturesRequired,
+      Object.keys(metadata),
+      Object.values(metadata).map((value) => Hex.fromHexInput(value).toUint8Array()),
+    ],
+    parameters: [
+      new TypeTagVector(new TypeTagAddress()),
+      new TypeTagU64(),
+      new TypeTagVector(new TypeTagStruct(stringStructTag())),
+      new TypeTagVector(TypeTagVector.u8()),
+    ],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that proposes a transaction to a multisig account. The payload of the proposed transaction
+ * is stored on chain, or only its hash with `hashOnly`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner proposing the transaction.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.data - The entry function the multisig account runs.
+ * @param args.hashOnly - Optional, whether to store only the hash of the payload. Defaults to false.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function proposeMultisigTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  multisigAddress: AccountAddressInput;
+  data: InputEntryFunctionData;
+  hashOnly?: boolean;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, multisigAddress, data, hashOnly, options } = args;
+  const { entryFunction } = await generateTransactionPayload({ aptosConfig, ...data });
+  const payload = new MultiSigTransactionPayload(entryFunction).bcsToBytes();
+  return multisigAccountTransaction({
+    aptosConfig,
+    sender,
+    functionName: hashOnly ? "create_transaction_with_hash" : "create_transaction",
+    functionArguments: [AccountAddress.from(multisigAddress), hashOnly ? sha3Hash(payload) : payload],
+    parameters: [new TypeTagAddress(), TypeTagVector.u8()],
+    options,
+  });
+}
+
+/**
+ * Returns the entry function data of a change to the owners or the number of signatures required of a multisig
+ * account, which the multisig account runs itself.
+ */
+function ownersChangeData(args: {
+  addOwners?: Array<AccountAddressInput>;
+  removeOwners?: Array<AccountAddressInput>;
+  signaturesRequired?: AnyNumber;
+}): InputEntryFunctionData {
+  const { addOwners, removeOwners, signaturesRequired } = args;
+  const owners = (addOwners ?? removeOwners ?? []).map((owner) => AccountAddress.from(owner));
+  if (addOwners && removeOwners) {
+    throw new Error("Owners can't be added and removed in the same transaction");
+  }
+  let functionName;
+  const functionArguments: Array<SimpleEntryFunctionArgumentTypes | EntryFunctionArgumentTypes> = [];
+  const parameters: Array<TypeTag> = [];
+  if (removeOwners && signaturesRequired !== undefined) {
+    // The framework has no entry function to remove owners and update the signatures required, but swapping no owner
+    // for the removed ones does it
+    functionName = "swap_owners_and_update_signatures_required";
+    functionArguments.push([], owners);
+    parameters.push(new TypeTagVector(new TypeTagAddress()), new TypeTagVector(new TypeTagAddress()));
+  } else if (addOwners || removeOwners) {
+    functionName = addOwners ? "add_owners" : "remove_owners";
+    if (signaturesRequired !== undefined) {
+      functionName += "_and_update_signatures_required";
+    }
+    functionArguments.push(owners);
+    parameters.push(new TypeTagVector(new TypeTagAddress()));
+  } else if (signaturesRequired !== undefined) {
+    functionName = "update_signatures_required";
+  } else {
+    throw new Error("Expected owners to add or remove, or a number of signatures required");
+  }
+  if (signaturesRequired !== undefined) {
+    functionArguments.push(signaturesRequired);
+    parameters.push(new TypeTagU64());
+  }
+  return {
+    function: `${MULTISIG_MODULE}::${functionName}`,
+    typeArguments: [],
+    functionArguments,
+    abi: { signers: 1, typeParameters: [], parameters },
+  };
+}
+
+/**
+ * Generates a transaction that proposes a change to the owners or the number of signatures required of a multisig
+ * account. Owners can either be added or removed, and the number of signatures required can be changed with them.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner proposing the change.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.addOwners - Optional owners to add.
+ * @param args.removeOwners - Optional owners to remove.
+ * @param args.signaturesRequired - Optional new number of approvals a transaction needs to be executed.
+ * @param args.hashOnly - Optional, whether to store only the hash of the payload. Defaults to false.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function proposeMultisigOwnersChangeTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  multisigAddress: AccountAddressInput;
+  addOwners?: Array<AccountAddressInput>;
+  removeOwners?: Array<AccountAddressInput>;
+  signaturesRequired?: AnyNumber;
+  hashOnly?: boolean;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { addOwners, removeOwners, signaturesRequired, ...rest } = args;
+  return proposeMultisigTransaction({
+    ...rest,
+    data: ownersChangeData({ addOwners, removeOwners, signaturesRequired }),
+  });
+}
+
+/**
+ * Generates a transaction that approves or rejects a transaction of a multisig account.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner voting.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+ * @param args.approve - Whether to approve or reject the transaction.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function voteMultisigTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  multisigAddress: AccountAddressInput;
+  sequenceNumber: AnyNumber;
+  approve: boolean;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, multisigAddress, sequenceNumber, approve, options } = args;
+  return multisigAccountTransaction({
+    aptosConfig,
+    sender,
+    functionName: approve ? "approve_transaction" : "reject_transaction",
+    functionArguments: [AccountAddress.from(multisigAddress), sequenceNumber],
+    parameters: [new TypeTagAddress(), new TypeTagU64()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that executes the next transaction of a multisig account, once it has enough approvals.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner executing the transaction.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.data - The entry function of the transaction. Required when only the hash of the payload was stored,
+ * and otherwise optional, as the stored payload is executed.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function executeMultisigTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  multisigAddress: AccountAddressInput;
+  data?: InputEntryFunctionData;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, multisigAddress, data, options } = args;
+  if (data) {
+    return generateTransaction({ aptosConfig, sender, data: { ...data, multisigAddress }, options });
+  }
+  return buildTransaction({
+    aptosConfig,
+    sender,
+    payload: new TransactionPayloadMultiSig(new MultiSig(AccountAddress.from(multisigAddress))),
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that removes the next transaction of a multisig account, once it has enough rejections.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner removing the transaction.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function executeRejectedMultisigTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  multisigAddress: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, multisigAddress, options } = args;
+  return multisigAccountTransaction({
+    aptosConfig,
+    sender,
+    functionName: "execute_rejected_transaction",
+    functionArguments: [AccountAddress.from(multisigAddress)],
+    parameters: [new TypeTagAddress()],
+    options,
+  });
+}
+
+/**
+ * Returns the address of the next multisig account the creator creates.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.creator - The account creating the multisig account.
+ * @group Implementation
+ */
+export async function getNextMultisigAccountAddress(args: {
+  aptosConfig: AptosConfig;
+  creator: AccountAddressInput;
+}): Promise<AccountAddress> {
+  const { aptosConfig, creator } = args;
+  const [address] = await multisigAccountView<[string]>({
+    aptosConfig,
+    functionName: "get_next_multisig_account_address",
+    functionArguments: [AccountAddress.from(creator)],
+    parameters: [new TypeTagAddress()],
+  });
+  return AccountAddress.from(address);
+}
+
+/**
+ * Returns the owners of a multisig account.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.options - Optional ledger version to read the owners at.
+ * @group Implementation
+ */
+export async function getMultisigOwners(args: {
+  aptosConfig: AptosConfig;
+  multisigAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<Array<string>> {
+  const { aptosConfig, multisigAddress, options } = args;
+  const [owners] = await multisigAccountView<[Array<string>]>({
+    aptosConfig,
+    functionName: "owners",
+    functionArguments: [AccountAddress.from(multisigAddress)],
+    parameters: [new TypeTagAddress()],
+    options,
+  });
+  return owners;
+}
+
+/**
+ * Returns the number of approvals a transaction of a multisig account needs to be executed.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.options - Optional ledger version to read the number at.
+ * @group Implementation
+ */
+export async function getMultisigSignaturesRequired(args: {
+  aptosConfig: AptosConfig;
+  multisigAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<number> {
+  const { aptosConfig, multisigAddress, options } = args;
+  const [signaturesRequired] = await multisigAccountView<[string]>({
+    aptosConfig,
+    functionName: "num_signatures_required",
+    functionArguments: [AccountAddress.from(multisigAddress)],
+    parameters: [new TypeTagAddress()],
+    options,
+  });
+  return Number(signaturesRequired);
+}
+
+/**
+ * Returns a transaction of a multisig account, with its decoded payload and votes.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+ * @param args.options - Optional ledger version to read the transaction at.
+ * @group Implementation
+ */
+export async function getMultisigTransaction(args: {
+  aptosConfig: AptosConfig;
+  multisigAddress: AccountAddressInput;
+  sequenceNumber: AnyNumber;
+  options?: LedgerVersionArg;
+}): Promise<MultisigTransaction> {
+  const { aptosConfig, multisigAddress, sequenceNumber, options } = args;
+  const [transaction] = await multisigAccountView<[MultisigTransactionResource]>({
+    aptosConfig,
+    functionName: "get_transaction",
+    functionArguments: [AccountAddress.from(multisigAddress), sequenceNumber],
+    parameters: [new TypeTagAddress(), new TypeTagU64()],
+    options,
+  });
+  return parseMultisigTransaction(BigInt(sequenceNumber), transaction);
+}
+
+/**
+ * Returns the transactions of a multisig account that haven't been executed or removed yet, in order of sequence
+ * number.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.options - Optional ledger version to read the transactions at. Defaults to the latest ledger version.
+ * @group Implementation
+ */
+export async function getMultisigPendingTransactions(args: {
+  aptosConfig: AptosConfig;
+  multisigAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<Array<MultisigTransaction>> {
+  const { aptosConfig, multisigAddress } = args;
+  // Both views have to read the same version for the sequence numbers to match the transactions
+  const ledgerVersion = args.options?.ledgerVersion ?? (await getLedgerInfo({ aptosConfig })).ledger_version;
+  const options = { ledgerVersion: BigInt(ledgerVersion) };
+  const address = AccountAddress.from(multisigAddress);
+  const [[transactions], [lastResolved]] = await Promise.all([
+    multisigAccountView<[Array<MultisigTransactionResource>]>({
+      aptosConfig,
+      functionName: "get_pending_transactions",
+      functionArguments: [address],
+      parameters: [new TypeTagAddress()],
+      options,
+    }),
+    multisigAccountView<[string]>({
+      aptosConfig,
+      functionName: "last_resolved_sequence_number",
+      functionArguments: [address],
+      parameters: [new TypeTagAddress()],
+      options,
+    }),
+  ]);
+  return transactions.map((transaction, i) =>
+    parseMultisigTransaction(BigInt(lastResolved) + BigInt(i) + 1n, transaction),
+  );
+}
+
+/**
+ * Returns the vote of an owner on a transaction of a multisig account.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.multisigAddress - The address of the multisig account.
+ * @param args.sequenceNumber - The sequence number of the transaction in the multisig account.
+ * @param args.owner - The owner whose vote to return.
+ * @param args.options - Optional ledger version to read the vote at.
+ * @group Implementation
+ */
+export async function getMultisigVote(args: {
+  aptosConfig: AptosConfig;
+  multisigAddress: AccountAddressInput;
+  sequenceNumber: AnyNumber;
+  owner: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<MultisigVote> {
+  const { aptosConfig, multisigAddress, sequenceNumber, owner, options } = args;
+  const [voted, approved] = await multisigAccountView<[boolean, boolean]>({
+    aptosConfig,
+    functionName: "vote",
+    functionArguments: [AccountAddress.from(multisigAddress), sequenceNumber, AccountAddress.from(owner)],
+    parameters: [new TypeTagAddress(), new TypeTagU64(), new TypeTagAddress()],
+    options,
+  });
+  return { voted, approved };
+}
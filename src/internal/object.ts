@@ -1,10 +1,32 @@
 import { AptosConfig } from "../api/aptosConfig";
-import { AccountAddressInput, AccountAddress } from "../core";
-import { PaginationArgs, OrderByArg, GetObjectDataQueryResponse, WhereArg } from "../types";
+import { AccountAddressInput, AccountAddress, createGuidObjectAddress } from "../core";
+import { AptosApiError } from "../errors";
+import {
+  EntryFunctionABI,
+  InputGenerateTransactionOptions,
+  objectStructTag,
+  SimpleTransaction,
+  TypeTagAddress,
+  TypeTagGeneric,
+  TypeTagStruct,
+} from "../transactions";
+import {
+  PaginationArgs,
+  OrderByArg,
+  GetObjectDataQueryResponse,
+  WhereArg,
+  LedgerVersionArg,
+  MoveAbility,
+  MoveStructId,
+  ObjectCore,
+  ObjectOwnership,
+} from "../types";
 import { GetObjectDataQuery } from "../types/generated/operations";
 import { GetObjectData } from "../types/generated/queries";
 import { CurrentObjectsBoolExp } from "../types/generated/types";
-import { queryIndexer } from "./general";
+import { getResource } from "./account";
+import { getLedgerInfo, queryIndexer } from "./general";
+import { generateTransaction } from "./transactionSubmission";
 
 /**
  * Retrieves the current objects based on specified filtering and pagination options.
@@ -66,3 +88,312 @@ export async function getObjectDataByObjectAddress(args: {
   };
   return (await getObjectData({ aptosConfig, options: { ...options, where: whereCondition } }))[0];
 }
+
+/**
+ * The deepest an object can be nested in other objects, as `MAXIMUM_OBJECT_NESTING` in `0x1::object`.
+ */
+const MAXIMUM_OBJECT_NESTING = 8;
+
+/**
+ * Reads a resource, or returns undefined when the address doesn't have it.
+ */
+async function getResourceIfExists<T extends {}>(args: {
+  aptosConfig: AptosConfig;
+  accountAddress: AccountAddressInput;
+  resourceType: MoveStructId;
+  options?: LedgerVersionArg;
+}): Promise<T | undefined> {
+  try {
+    return await getResource<T>(args);
+  } catch (error) {
+    if (error instanceof AptosApiError && error.status === 404) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the ledger version to read at, pinning the latest one when none is given, so that multiple reads see the
+ * same state.
+ */
+async function pinLedgerVersion(args: { aptosConfig: AptosConfig; options?: LedgerVersionArg }): Promise<bigint> {
+  const { aptosConfig, options } = args;
+  return BigInt(options?.ledgerVersion ?? (await getLedgerInfo({ aptosConfig })).ledger_version);
+}
+
+/**
+ * Reads the `0x1::object::ObjectCore` resource of an object from the fullnode.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.objectAddress - The address of the object.
+ * @param args.options - Optional ledger version to read the object at.
+ * @group Implementation
+ */
+export async function getObjectCore(args: {
+  aptosConfig: AptosConfig;
+  objectAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<ObjectCore> {
+  const { aptosConfig, objectAddress, options } = args;
+  return getResource<ObjectCore>({
+    aptosConfig,
+    accountAddress: objectAddress,
+    resourceType: "0x1::object::ObjectCore",
+    options,
+  });
+}
+
+/**
+ * Follows the owners of an object up to its root owner, the first owner that isn't an object. All the owners are read
+ * at the same ledger version.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.objectAddress - The address of the object.
+ * @param args.options - Optional ledger version to read the owners at. Defaults to the latest ledger version.
+ * @group Implementation
+ */
+export async function getObjectOwnership(args: {
+  aptosConfig: AptosConfig;
+  objectAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<ObjectOwnership> {
+  const { aptosConfig } = args;
+  const objectAddress = AccountAddress.from(args.objectAddress).toStringLong();
+  const options = { ledgerVersion: await pinLedgerVersion(args) };
+  const owners: Array<string> = [];
+  let core: ObjectCore | undefined = await getObjectCore({ aptosConfig, objectAddress, options });
+  while (core !== undefined) {
+    if (owners.length > MAXIMUM_OBJECT_NESTING) {
+      throw new Error(`Object ${objectAddress} is nested in more than ${MAXIMUM_OBJECT_NESTING} objects`);
+    }
+    const owner = AccountAddress.from(core.owner).toStringLong();
+    owners.push(owner);
+    // eslint-disable-next-line no-await-in-loop
+    core = await getResourceIfExists<ObjectCore>({
+      aptosConfig,
+      accountAddress: owner,
+      resourceType: "0x1::object::ObjectCore",
+      options,
+    });
+  }
+  return { objectAddress, owners, rootOwner: owners[owners.length - 1] };
+}
+
+/**
+ * Checks whether the owner of an object can transfer it with `0x1::object::transfer`, without a `TransferRef`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.objectAddress - The address of the object.
+ * @param args.options - Optional ledger version to read the object at.
+ * @group Implementation
+ */
+export async function isObjectUngatedTransferAllowed(args: {
+  aptosConfig: AptosConfig;
+  objectAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<boolean> {
+  const core = await getObjectCore(args);
+  return core.allow_ungated_transfer;
+}
+
+/**
+ * Derives the address of the next object created from the GUID of an account or an object, such as by
+ * `0x1::object::create_object_from_account` or `0x1::object::create_object_from_object`, from its current
+ * `guid_creation_num`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.creatorAddress - The address of the account or object creating the object.
+ * @param args.options - Optional ledger version to read the creator at.
+ * @group Implementation
+ */
+export async function getNextGuidObjectAddress(args: {
+  aptosConfig: AptosConfig;
+  creatorAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<AccountAddress> {
+  const { aptosConfig, options } = args;
+  const creatorAddress = AccountAddress.from(args.creatorAddress);
+  const creator =
+    (await getResourceIfExists<{ guid_creation_num: string }>({
+      aptosConfig,
+      accountAddress: creatorAddress,
+      resourceType: "0x1::object::ObjectCore",
+      options,
+    })) ??
+    (await getResourceIfExists<{ guid_creation_num: string }>({
+      aptosConfig,
+      accountAddress: creatorAddress,
+      resourceType: "0x1::account::Account",
+      options,
+    }));
+  if (creator === undefined) {
+    throw new Error(`${creatorAddress.toStringLong()} has neither an ObjectCore nor an Account resource`);
+  }
+  return createGuidObjectAddress(creatorAddress, BigInt(creator.guid_creation_num));
+}
+
+/**
+ * Reads resources of the object resource group at an object address, such as its `0x1::object::ObjectCore` and the
+ * resources of the modules that created it, at the same ledger version. A resource the object doesn't have is
+ * undefined.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.objectAddress - The address of the object.
+ * @param args.resourceTypes - The type of each resource to read, by the key to return it at.
+ * @param args.options - Optional ledger version to read the resources at. Defaults to the latest ledger version.
+ * @group Implementation
+ */
+export async function getObjectResources<T extends Record<string, {}>>(args: {
+  aptosConfig: AptosConfig;
+  objectAddress: AccountAddressInput;
+  resourceTypes: { [K in keyof T]: MoveStructId };
+  options?: LedgerVersionArg;
+}): Promise<{ [K in keyof T]?: T[K] }> {
+  const { aptosConfig, objectAddress, resourceTypes } = args;
+  const options = { ledgerVersion: await pinLedgerVersion(args) };
+  const resources = await Promise.all(
+    Object.entries(resourceTypes).map(async ([key, resourceType]) => [
+      key,
+      await getResourceIfExists({ aptosConfig, accountAddress: objectAddress, resourceType, options }),
+    ]),
+  );
+  return Object.fromEntries(resources) as { [K in keyof T]?: T[K] };
+}
+
+const objectAbi = (parameters: EntryFunctionABI["parameters"]): EntryFunctionABI => ({
+  typeParameters: [{ constraints: [MoveAbility.KEY] }],
+  parameters: [new TypeTagStruct(objectStructTag(new TypeTagGeneric(0))), ...parameters],
+});
+
+/**
+ * Generates a transaction that transfers an object owned by the sender to an account or an object, with
+ * `0x1::object::transfer`. The object must allow ungated transfer.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the object.
+ * @param args.objectAddress - The address of the object.
+ * @param args.recipient - The address receiving the object.
+ * @param args.objectType - The type of a resource of the object, `0x1::object::ObjectCore` by default.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function transferObjectTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  objectAddress: AccountAddressInput;
+  recipient: AccountAddressInput;
+  objectType?: MoveStructId;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, objectAddress, recipient, objectType, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: "0x1::object::transfer",
+      typeArguments: [objectType ?? "0x1::object::ObjectCore"],
+      functionArguments: [AccountAddress.from(objectAddress), AccountAddress.from(recipient)],
+      abi: objectAbi([new TypeTagAddress()]),
+    },
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that transfers an object owned by the sender to another object, with
+ * `0x1::object::transfer_to_object`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the object.
+ * @param args.objectAddress - The address of the object.
+ * @param args.toObjectAddress - The address of the object receiving it.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function transferObjectToObjectTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  objectAddress: AccountAddressInput;
+  toObjectAddress: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, objectAddress, toObjectAddress, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: "0x1::object::transfer_to_object",
+      typeArguments: ["0x1::object::ObjectCore", "0x1::object::ObjectCore"],
+      functionArguments: [AccountAddress.from(objectAddress), AccountAddress.from(toObjectAddress)],
+      abi: {
+        typeParameters: [{ constraints: [MoveAbility.KEY] }, { constraints: [MoveAbility.KEY] }],
+        parameters: [
+          new TypeTagStruct(objectStructTag(new TypeTagGeneric(0))),
+          new TypeTagStruct(objectStructTag(new TypeTagGeneric(1))),
+        ],
+      },
+    },
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that burns an object owned by the sender with `0x1::object::burn`, which hands it over to
+ * the burn address until the sender takes it back with `0x1::object::unburn`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the object.
+ * @param args.objectAddress - The address of the object.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function burnObjectTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  objectAddress: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, objectAddress, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: "0x1::object::burn",
+      typeArguments: ["0x1::object::ObjectCore"],
+      functionArguments: [AccountAddress.from(objectAddress)],
+      abi: objectAbi([]),
+    },
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that returns a burnt object to its original owner, the sender, with
+ * `0x1::object::unburn`.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The original owner of the object.
+ * @param args.objectAddress - The address of the object.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function unburnObjectTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  objectAddress: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, objectAddress, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: {
+      function: "0x1::object::unburn",
+      typeArguments: ["0x1::object::ObjectCore"],
+      functionArguments: [AccountAddress.from(objectAddress)],
+      abi: objectAbi([]),
+    },
+    options,
+  });
+}
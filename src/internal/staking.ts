@@ -10,11 +10,40 @@
  */
 
 import { AptosConfig } from "../api/aptosConfig";
-import { AccountAddress, AccountAddressInput } from "../core";
-import { GetDelegatedStakingActivitiesResponse, GetNumberOfDelegatorsResponse, OrderByArg } from "../types";
+import { AccountAddress, AccountAddressInput, Hex } from "../core";
+import {
+  EntryFunctionArgumentTypes,
+  InputGenerateTransactionOptions,
+  SimpleEntryFunctionArgumentTypes,
+  SimpleTransaction,
+  TypeTag,
+  TypeTagAddress,
+  TypeTagU64,
+  TypeTagVector,
+} from "../transactions";
+import {
+  AnyNumber,
+  DelegatedStakingPosition,
+  GetDelegatedStakingActivitiesResponse,
+  GetNumberOfDelegatorsResponse,
+  HexInput,
+  LedgerVersionArg,
+  MoveFunctionId,
+  MoveValue,
+  OrderByArg,
+} from "../types";
 import { GetDelegatedStakingActivitiesQuery, GetNumberOfDelegatorsQuery } from "../types/generated/operations";
 import { GetDelegatedStakingActivities, GetNumberOfDelegators } from "../types/generated/queries";
-import { queryIndexer } from "./general";
+import { getLedgerInfo, queryIndexer } from "./general";
+import { generateTransaction } from "./transactionSubmission";
+import { view } from "./view";
+
+/**
+ * The entry functions moving stake between the states of a pool, which take an amount of octas. They have the same
+ * name in `0x1::delegation_pool` and `0x1::stake`.
+ * @group Implementation
+ */
+export type StakeAction = "add_stake" | "unlock" | "reactivate_stake" | "withdraw";
 
 /**
  * Retrieves the number of active delegators for a specified pool address.
@@ -94,3 +123,366 @@ export async function getDelegatedStakingActivities(args: {
   const data = await queryIndexer<GetDelegatedStakingActivitiesQuery>({ aptosConfig, query });
   return data.delegated_staking_activities;
 }
+
+/**
+ * Generates a transaction that calls a staking entry function without type arguments.
+ */
+async function stakingTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  func: MoveFunctionId;
+  functionArguments: Array<EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes>;
+  parameters: Array<TypeTag>;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, func, functionArguments, parameters, options } = args;
+  return generateTransaction({
+    aptosConfig,
+    sender,
+    data: { function: func, typeArguments: [], functionArguments, abi: { typeParameters: [], parameters } },
+    options,
+  });
+}
+
+/**
+ * Calls a staking view function that takes the address of a pool.
+ */
+async function stakingView<T extends Array<MoveValue>>(args: {
+  aptosConfig: AptosConfig;
+  func: MoveFunctionId;
+  functionArguments: Array<AccountAddress>;
+  options?: LedgerVersionArg;
+}): Promise<T> {
+  const { aptosConfig, func, functionArguments, options } = args;
+  return view<T>({
+    aptosConfig,
+    payload: {
+      function: func,
+      functionArguments,
+      abi: { typeParameters: [], parameters: functionArguments.map(() => new TypeTagAddress()), returnTypes: [] },
+    },
+    options,
+  });
+}
+
+/**
+ * Converts a commission percentage to the hundredths of a percent stored on chain.
+ */
+function commissionOf(percentage: number): number {
+  if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+    throw new Error(`Operator commission percentage ${percentage} must be between 0 and 100`);
+  }
+  return Math.round(percentage * 100);
+}
+
+/**
+ * Generates a transaction that creates a delegation pool owned by the sender, which is also its operator until
+ * another one is set.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.operatorCommissionPercentage - The percentage of the rewards going to the operator, e.g. 10.5 for 10.5%.
+ * @param args.seed - The seed the address of the pool is derived from, which has to be unique for the owner.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function initializeDelegationPoolTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  operatorCommissionPercentage: number;
+  seed: HexInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, operatorCommissionPercentage, seed, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: "0x1::delegation_pool::initialize_delegation_pool",
+    functionArguments: [commissionOf(operatorCommissionPercentage), Hex.fromHexInput(seed).toUint8Array()],
+    parameters: [new TypeTagU64(), TypeTagVector.u8()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that adds, unlocks, reactivates or withdraws the stake of the sender in a delegation pool.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The delegator.
+ * @param args.poolAddress - The address of the delegation pool.
+ * @param args.amount - The amount of octas.
+ * @param args.action - The entry function of `0x1::delegation_pool` to call.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function delegatedStakeTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  poolAddress: AccountAddressInput;
+  amount: AnyNumber;
+  action: StakeAction;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, poolAddress, amount, action, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: `0x1::delegation_pool::${action}`,
+    functionArguments: [AccountAddress.from(poolAddress), amount],
+    parameters: [new TypeTagAddress(), new TypeTagU64()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that sets the operator of the delegation pool of the sender.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.operator - The new operator.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function setDelegationPoolOperatorTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  operator: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, operator, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: "0x1::delegation_pool::set_operator",
+    functionArguments: [AccountAddress.from(operator)],
+    parameters: [new TypeTagAddress()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that changes the commission of the operator of the delegation pool of the sender, from the
+ * next lockup cycle.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.operatorCommissionPercentage - The percentage of the rewards going to the operator, e.g. 10.5 for 10.5%.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function updateDelegationPoolCommissionTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  operatorCommissionPercentage: number;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, operatorCommissionPercentage, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: "0x1::delegation_pool::update_commission_percentage",
+    functionArguments: [commissionOf(operatorCommissionPercentage)],
+    parameters: [new TypeTagU64()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that creates a stake pool owned by the sender, with an initial stake.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.amount - The initial stake, in octas.
+ * @param args.operator - Optional operator of the pool. Defaults to the sender.
+ * @param args.voter - Optional voter of the pool. Defaults to the sender.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function initializeStakePoolTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  amount: AnyNumber;
+  operator?: AccountAddressInput;
+  voter?: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, amount, operator = sender, voter = sender, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: "0x1::stake::initialize_stake_owner",
+    functionArguments: [amount, AccountAddress.from(operator), AccountAddress.from(voter)],
+    parameters: [new TypeTagU64(), new TypeTagAddress(), new TypeTagAddress()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that adds, unlocks, reactivates or withdraws stake in the stake pool of the sender.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.amount - The amount of octas.
+ * @param args.action - The entry function of `0x1::stake` to call.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function stakePoolStakeTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  amount: AnyNumber;
+  action: StakeAction;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, amount, action, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: `0x1::stake::${action}`,
+    functionArguments: [amount],
+    parameters: [new TypeTagU64()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that renews the lockup of the stake pool of the sender.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function increaseStakePoolLockupTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: "0x1::stake::increase_lockup",
+    functionArguments: [],
+    parameters: [],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that sets the operator or the voter of the stake pool of the sender.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The owner of the pool.
+ * @param args.role - Whether to set the operator or the voter.
+ * @param args.address - The new operator or voter.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function setStakePoolRoleTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  role: "operator" | "voter";
+  address: AccountAddressInput;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, role, address, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: role === "operator" ? "0x1::stake::set_operator" : "0x1::stake::set_delegated_voter",
+    functionArguments: [AccountAddress.from(address)],
+    parameters: [new TypeTagAddress()],
+    options,
+  });
+}
+
+/**
+ * Generates a transaction that makes a stake pool join or leave the validator set, from the next epoch.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.sender - The operator of the pool.
+ * @param args.poolAddress - The address of the stake pool.
+ * @param args.join - Whether to join or leave the validator set.
+ * @param args.options - Optional options for generating the transaction.
+ * @group Implementation
+ */
+export async function validatorSetTransaction(args: {
+  aptosConfig: AptosConfig;
+  sender: AccountAddressInput;
+  poolAddress: AccountAddressInput;
+  join: boolean;
+  options?: InputGenerateTransactionOptions;
+}): Promise<SimpleTransaction> {
+  const { aptosConfig, sender, poolAddress, join, options } = args;
+  return stakingTransaction({
+    aptosConfig,
+    sender,
+    func: join ? "0x1::stake::join_validator_set" : "0x1::stake::leave_validator_set",
+    functionArguments: [AccountAddress.from(poolAddress)],
+    parameters: [new TypeTagAddress()],
+    options,
+  });
+}
+
+/**
+ * Retrieves the stake of a delegator in a delegation pool, with the lockup and the commission of the pool.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.poolAddress - The address of the delegation pool.
+ * @param args.delegatorAddress - The address of the delegator.
+ * @param args.options - Optional ledger version to read the stake at. Defaults to the latest ledger version.
+ * @group Implementation
+ */
+export async function getDelegatedStakingPosition(args: {
+  aptosConfig: AptosConfig;
+  poolAddress: AccountAddressInput;
+  delegatorAddress: AccountAddressInput;
+  options?: LedgerVersionArg;
+}): Promise<DelegatedStakingPosition> {
+  const { aptosConfig } = args;
+  // The views have to read the same version for the withdrawable stake to match the lockup
+  const ledgerVersion = args.options?.ledgerVersion ?? (await getLedgerInfo({ aptosConfig })).ledger_version;
+  const options = { ledgerVersion: BigInt(ledgerVersion) };
+  const poolAddress = AccountAddress.from(args.poolAddress);
+  const delegatorAddress = AccountAddress.from(args.delegatorAddress);
+  const [[active, inactive, pendingInactive], [commission], [lockupExpirationSecs], [canWithdrawPendingInactive]] =
+    await Promise.all([
+      stakingView<[string, string, string]>({
+        aptosConfig,
+        func: "0x1::delegation_pool::get_stake",
+        functionArguments: [poolAddress, delegatorAddress],
+        options,
+      }),
+      stakingView<[string]>({
+        aptosConfig,
+        func: "0x1::delegation_pool::operator_commission_percentage",
+        functionArguments: [poolAddress],
+        options,
+      }),
+      stakingView<[string]>({
+        aptosConfig,
+        func: "0x1::stake::get_lockup_secs",
+        functionArguments: [poolAddress],
+        options,
+      }),
+      stakingView<[boolean]>({
+        aptosConfig,
+        func: "0x1::delegation_pool::can_withdraw_pending_inactive",
+        functionArguments: [poolAddress],
+        options,
+      }),
+    ]);
+  const withdrawableAfterLockup = (BigInt(inactive) + BigInt(pendingInactive)).toString();
+  return {
+    poolAddress: poolAddress.toStringLong(),
+    delegatorAddress: delegatorAddress.toStringLong(),
+    active,
+    inactive,
+    pendingInactive,
+    lockupExpirationSecs,
+    operatorCommissionPercentage: Number(commission) / 100,
+    withdrawable: canWithdrawPendingInactive ? withdrawableAfterLockup : inactive,
+    withdrawableAfterLockup,
+  };
+}
@@ -9,7 +9,7 @@
 import { AptosConfig } from "../api/aptosConfig";
 import { Deserializer, MoveVector } from "../bcs";
 import { postAptosFullNode } from "../client";
-import { Account, AbstractKeylessAccount, isKeylessSigner } from "../account";
+import { Account, AbstractKeylessAccount, AsyncSigner, TransactionSigner, isKeylessSigner } from "../account";
 import { AccountAddress, AccountAddressInput } from "../core/accountAddress";
 import { FederatedKeylessPublicKey, KeylessPublicKey, KeylessSignature } from "../core/crypto";
 import { AccountAuthenticator } from "../transactions/authenticator/account";
@@ -230,18 +230,42 @@ export function getSigningMessage(args: { transaction: AnyRawTransaction }): Uin
  * Sign a transaction that can later be submitted to the chain.
  *
  * @param args The arguments for signing the transaction.
- * @param args.signer The signer account to sign the transaction.
+ * @param args.signer The signer account, or an AsyncSigner, to sign the transaction.
  * @param args.transaction An instance of a RawTransaction, plus optional secondary/fee payer addresses.
  *
- * @return The signer AccountAuthenticator.
+ * @return The signer AccountAuthenticator, or a promise for it when signing with an AsyncSigner.
  * @group Implementation
  */
-export function signTransaction(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator {
+export function signTransaction(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator;
+export function signTransaction(args: {
+  signer: AsyncSigner;
+  transaction: AnyRawTransaction;
+}): Promise<AccountAuthenticator>;
+export function signTransaction(args: {
+  signer: TransactionSigner;
+  transaction: AnyRawTransaction;
+}): AccountAuthenticator | Promise<AccountAuthenticator>;
+export function signTransaction(args: {
+  signer: TransactionSigner;
+  transaction: AnyRawTransaction;
+}): AccountAuthenticator | Promise<AccountAuthenticator> {
   const { signer, transaction } = args;
   return signer.signTransactionWithAuthenticator(transaction);
 }
 
-export function signAsFeePayer(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator {
+export function signAsFeePayer(args: { signer: Account; transaction: AnyRawTransaction }): AccountAuthenticator;
+export function signAsFeePayer(args: {
+  signer: AsyncSigner;
+  transaction: AnyRawTransaction;
+}): Promise<AccountAuthenticator>;
+export function signAsFeePayer(args: {
+  signer: TransactionSigner;
+  transaction: AnyRawTransaction;
+}): AccountAuthenticator | Promise<AccountAuthenticator>;
+export function signAsFeePayer(args: {
+  signer: TransactionSigner;
+  transaction: AnyRawTransaction;
+}): AccountAuthenticator | Promise<AccountAuthenticator> {
   const { signer, transaction } = args;
 
   // if transaction doesn't hold a "feePayerAddress" prop it means
@@ -349,14 +373,14 @@ export async function submitTransaction(
 }
 
 export type FeePayerOrFeePayerAuthenticatorOrNeither =
-  | { feePayer: Account; feePayerAuthenticator?: never }
+  | { feePayer: TransactionSigner; feePayerAuthenticator?: never }
   | { feePayer?: never; feePayerAuthenticator: AccountAuthenticator }
   | { feePayer?: never; feePayerAuthenticator?: never };
 
 export async function signAndSubmitTransaction(
   args: FeePayerOrFeePayerAuthenticatorOrNeither & {
     aptosConfig: AptosConfig;
-    signer: Account;
+    signer: TransactionSigner;
     transaction: AnyRawTransaction;
   },
 ): Promise<PendingTransactionResponse> {
@@ -370,9 +394,9 @@ export async function signAndSubmitTransaction(
     await feePayer.checkKeylessAccountValidity(aptosConfig);
   }
   const feePayerAuthenticator =
-    args.feePayerAuthenticator || (feePayer && signAsFeePayer({ signer: feePayer, transaction }));
+    args.feePayerAuthenticator || (feePayer && (await signAsFeePayer({ signer: feePayer, transaction })));
 
-  const senderAuthenticator = signTransaction({ signer, transaction });
+  const senderAuthenticator = await signTransaction({ signer, transaction });
   return submitTransaction({
     aptosConfig,
     transaction,
@@ -383,7 +407,7 @@ export async function signAndSubmitTransaction(
 
 export async function signAndSubmitAsFeePayer(args: {
   aptosConfig: AptosConfig;
-  feePayer: Account;
+  feePayer: TransactionSigner;
   senderAuthenticator: AccountAuthenticator;
   transaction: AnyRawTransaction;
 }): Promise<PendingTransactionResponse> {
@@ -393,7 +417,7 @@ export async function signAndSubmitAsFeePayer(args: {
     await feePayer.checkKeylessAccountValidity(aptosConfig);
   }
 
-  const feePayerAuthenticator = signAsFeePayer({ signer: feePayer, transaction });
+  const feePayerAuthenticator = await signAsFeePayer({ signer: feePayer, transaction });
 
   return submitTransaction({
     aptosConfig,
@@ -1,21 +1,27 @@
 // Copyright © Aptos Foundation
 // SPDX-License-Identifier: Apache-2.0
 
-import { LedgerVersionArg, MimeType, MoveValue } from "../types";
+import { AcceptTypeArg, LedgerVersionArg, MimeType, MoveClosure, MoveFunctionId, MoveValue } from "../types";
 import { AptosConfig } from "../api/aptosConfig";
 import {
+  decodeMoveValue,
+  fetchStructAbis,
+  fetchViewFunctionAbi,
   generateViewFunctionPayload,
   InputViewFunctionData,
   InputViewFunctionJsonData,
+  standardizeTypeTags,
+  substituteTypeArguments,
   ViewFunctionJsonPayload,
 } from "../transactions";
-import { Serializer } from "../bcs";
+import { Deserializer, Serializer } from "../bcs";
+import { getFunctionParts } from "../utils/helpers";
 import { postAptosFullNode } from "../client";
 
 export async function view<T extends Array<MoveValue> = Array<MoveValue>>(args: {
   aptosConfig: AptosConfig;
   payload: InputViewFunctionData;
-  options?: LedgerVersionArg;
+  options?: LedgerVersionArg & AcceptTypeArg;
 }): Promise<T> {
   const { aptosConfig, payload, options } = args;
   const viewFunctionPayload = await generateViewFunctionPayload({
@@ -27,6 +33,10 @@ export async function view<T extends Array<MoveValue> = Array<MoveValue>>(args:
   viewFunctionPayload.serialize(serializer);
   const bytes = serializer.toUint8Array();
 
+  if (options?.acceptType === MimeType.BCS) {
+    return viewBcs<T>({ aptosConfig, payload, bytes, options });
+  }
+
   const { data } = await postAptosFullNode<Uint8Array, MoveValue[]>({
     aptosConfig,
     path: "view",
@@ -36,7 +46,44 @@ export async function view<T extends Array<MoveValue> = Array<MoveValue>>(args:
     body: bytes,
   });
 
-  return data as T;
+  return data.map(decodeMoveClosures) as T;
+}
+
+/**
+ * Calls a view function with a BCS response, and decodes each return value with the return types of the function.
+ */
+async function viewBcs<T extends Array<MoveValue>>(args: {
+  aptosConfig: AptosConfig;
+  payload: InputViewFunctionData;
+  bytes: Uint8Array;
+  options?: LedgerVersionArg;
+}): Promise<T> {
+  const { aptosConfig, payload, bytes, options } = args;
+  const { data } = await postAptosFullNode<Uint8Array, ArrayBuffer | Uint8Array>({
+    aptosConfig,
+    path: "view",
+    originMethod: "view",
+    contentType: MimeType.BCS_VIEW_FUNCTION,
+    acceptType: MimeType.BCS,
+    params: { ledger_version: options?.ledgerVersion },
+    body: bytes,
+  });
+
+  const { moduleAddress, moduleName, functionName } = getFunctionParts(payload.function);
+  const abi = payload.abi ?? (await fetchViewFunctionAbi(moduleAddress, moduleName, functionName, aptosConfig));
+  const typeArguments = standardizeTypeTags(payload.typeArguments);
+  const returnTypes = abi.returnTypes.map((returnType) => substituteTypeArguments(returnType, typeArguments));
+  const modules = await fetchStructAbis({ aptosConfig, typeTags: returnTypes });
+
+  // The return values are serialized one by one, as a vector of their bytes
+  const deserializer = new Deserializer(new Uint8Array(data));
+  const length = deserializer.deserializeUleb128AsU32();
+  if (length !== returnTypes.length) {
+    throw new Error(`Expected ${returnTypes.length} return values from '${payload.function}', received ${length}`);
+  }
+  return returnTypes.map((typeTag) =>
+    decodeMoveValue({ typeTag, bytes: deserializer.deserializeBytes(), modules }),
+  ) as T;
 }
 
 export async function viewJson<T extends Array<MoveValue> = Array<MoveValue>>(args: {
@@ -57,5 +104,34 @@ export async function viewJson<T extends Array<MoveValue> = Array<MoveValue>>(ar
     },
   });
 
-  return data as T;
+  return data.map(decodeMoveClosures) as T;
+}
+
+/**
+ * Decodes the function values in a JSON Move value into {@link MoveClosure}s. The node returns them as objects with
+ * `__fun_name__`, `__mask__` and `__captured__` fields, nested anywhere in the value.
+ *
+ * @param value - A Move value from the JSON output of a view function.
+ * @returns The value with its function values decoded.
+ */
+function decodeMoveClosures(value: MoveValue): MoveValue {
+  if (Array.isArray(value)) {
+    return value.map(decodeMoveClosures);
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  const fields = value as Record<string, MoveValue>;
+  const { __fun_name__: name, __mask__: mask, __captured__: captured } = fields;
+  if (typeof name === "string") {
+    const closure: MoveClosure = {
+      function: name as MoveFunctionId,
+      mask: Number(mask ?? 0),
+      captured: Array.isArray(captured) ? captured.map(decodeMoveClosures) : [],
+    };
+    return closure;
+  }
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, field]) => [key, decodeMoveClosures(field)]),
+  ) as MoveValue;
 }
@@ -2,6 +2,7 @@
 // SPDX-License-Identifier: Apache-2.0
 
 /* eslint-disable @typescript-eslint/naming-convention */
+/* eslint-disable max-classes-per-file */
 
 import { Deserializer } from "../../bcs/deserializer";
 import { Serializable, Serializer } from "../../bcs/serializer";
@@ -12,7 +13,15 @@ import { AccountAddress } from "../../core";
 import { Identifier } from "./identifier";
 import { ModuleId } from "./moduleId";
 import type { EntryFunctionArgument, ScriptFunctionArgument, TransactionArgument } from "./transactionArgument";
-import { MoveModuleId, ScriptTransactionArgumentVariants, TransactionPayloadVariants } from "../../types";
+import {
+  AnyNumber,
+  MoveModuleId,
+  ScriptTransactionArgumentVariants,
+  TransactionExecutableVariants,
+  TransactionExtraConfigVariants,
+  TransactionInnerPayloadVariants,
+  TransactionPayloadVariants,
+} from "../../types";
 import { TypeTag } from "../typeTag";
 
 /**
@@ -95,6 +104,8 @@ export abstract class TransactionPayload extends Serializable {
         return TransactionPayloadEntryFunction.load(deserializer);
       case TransactionPayloadVariants.Multisig:
         return TransactionPayloadMultiSig.load(deserializer);
+      case TransactionPayloadVariants.Payload:
+        return TransactionInnerPayload.load(deserializer);
       default:
         throw new Error(`Unknown variant index for TransactionPayload: ${index}`);
     }
@@ -202,6 +213,65 @@ export class TransactionPayloadMultiSig extends TransactionPayload {
   }
 }
 
+/**
+ * Represents a transaction payload in the newer format, which separates the code the transaction runs from its extra
+ * configuration, such as the multisig account it runs as or the replay protection nonce of an orderless transaction.
+ * @group Implementation
+ * @category Transactions
+ */
+export abstract class TransactionInnerPayload extends TransactionPayload {
+  /**
+   * The replay protection nonce if this is the payload of an orderless transaction, otherwise undefined.
+   * @group Implementation
+   * @category Transactions
+   */
+  abstract get replayProtectionNonce(): bigint | undefined;
+
+  static load(deserializer: Deserializer): TransactionInnerPayload {
+    const index = deserializer.deserializeUleb128AsU32();
+    switch (index) {
+      case TransactionInnerPayloadVariants.V1:
+        return TransactionInnerPayloadV1.load(deserializer);
+      default:
+        throw new Error(`Unknown variant index for TransactionInnerPayload: ${index}`);
+    }
+  }
+}
+
+/**
+ * Represents the first version of the newer transaction payload format.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionInnerPayloadV1 extends TransactionInnerPayload {
+  public readonly executable: TransactionExecutable;
+
+  public readonly extra_config: TransactionExtraConfig;
+
+  constructor(executable: TransactionExecutable, extra_config: TransactionExtraConfig) {
+    super();
+    this.executable = executable;
+    this.extra_config = extra_config;
+  }
+
+  get replayProtectionNonce(): bigint | undefined {
+    return this.extra_config.replayProtectionNonce;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TransactionPayloadVariants.Payload);
+    serializer.serializeU32AsUleb128(TransactionInnerPayloadVariants.V1);
+    this.executable.serialize(serializer);
+    this.extra_config.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): TransactionInnerPayloadV1 {
+    const executable = TransactionExecutable.deserialize(deserializer);
+    const extraConfig = TransactionExtraConfig.deserialize(deserializer);
+    return new TransactionInnerPayloadV1(executable, extraConfig);
+  }
+}
+
 /**
  * Represents an entry function that can be serialized and deserialized.
  * This class encapsulates the details required to invoke a function within a module,
@@ -511,3 +581,157 @@ export class MultiSigTransactionPayload extends Serializable {
     return new MultiSigTransactionPayload(EntryFunction.deserialize(deserializer));
   }
 }
+
+/**
+ * Represents the code a transaction in the newer payload format runs: a script, an entry function, or nothing at all,
+ * e.g. when approving a multisig transaction whose payload is stored on chain.
+ * @group Implementation
+ * @category Transactions
+ */
+export abstract class TransactionExecutable extends Serializable {
+  abstract serialize(serializer: Serializer): void;
+
+  static deserialize(deserializer: Deserializer): TransactionExecutable {
+    const index = deserializer.deserializeUleb128AsU32();
+    switch (index) {
+      case TransactionExecutableVariants.Script:
+        return TransactionExecutableScript.load(deserializer);
+      case TransactionExecutableVariants.EntryFunction:
+        return TransactionExecutableEntryFunction.load(deserializer);
+      case TransactionExecutableVariants.Empty:
+        return TransactionExecutableEmpty.load();
+      default:
+        throw new Error(`Unknown variant index for TransactionExecutable: ${index}`);
+    }
+  }
+}
+
+/**
+ * Represents a script run by a transaction in the newer payload format.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionExecutableScript extends TransactionExecutable {
+  public readonly script: Script;
+
+  constructor(script: Script) {
+    super();
+    this.script = script;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TransactionExecutableVariants.Script);
+    this.script.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): TransactionExecutableScript {
+    return new TransactionExecutableScript(Script.deserialize(deserializer));
+  }
+}
+
+/**
+ * Represents an entry function run by a transaction in the newer payload format.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionExecutableEntryFunction extends TransactionExecutable {
+  public readonly entryFunction: EntryFunction;
+
+  constructor(entryFunction: EntryFunction) {
+    super();
+    this.entryFunction = entryFunction;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TransactionExecutableVariants.EntryFunction);
+    this.entryFunction.serialize(serializer);
+  }
+
+  static load(deserializer: Deserializer): TransactionExecutableEntryFunction {
+    return new TransactionExecutableEntryFunction(EntryFunction.deserialize(deserializer));
+  }
+}
+
+/**
+ * Represents a transaction in the newer payload format that runs no code of its own.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionExecutableEmpty extends TransactionExecutable {
+  // eslint-disable-next-line class-methods-use-this
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TransactionExecutableVariants.Empty);
+  }
+
+  static load(): TransactionExecutableEmpty {
+    return new TransactionExecutableEmpty();
+  }
+}
+
+/**
+ * Represents the extra configuration of a transaction in the newer payload format.
+ * @group Implementation
+ * @category Transactions
+ */
+export abstract class TransactionExtraConfig extends Serializable {
+  abstract serialize(serializer: Serializer): void;
+
+  /**
+   * The replay protection nonce if the transaction is orderless, otherwise undefined.
+   * @group Implementation
+   * @category Transactions
+   */
+  abstract get replayProtectionNonce(): bigint | undefined;
+
+  static deserialize(deserializer: Deserializer): TransactionExtraConfig {
+    const index = deserializer.deserializeUleb128AsU32();
+    switch (index) {
+      case TransactionExtraConfigVariants.V1:
+        return TransactionExtraConfigV1.load(deserializer);
+      default:
+        throw new Error(`Unknown variant index for TransactionExtraConfig: ${index}`);
+    }
+  }
+}
+
+/**
+ * Represents the first version of the extra configuration of a transaction in the newer payload format.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionExtraConfigV1 extends TransactionExtraConfig {
+  public readonly multisig_address?: AccountAddress;
+
+  public readonly replay_protection_nonce?: bigint;
+
+  /**
+   * @param multisig_address - The multisig account the transaction runs as, if any.
+   * @param replay_protection_nonce - The nonce of an orderless transaction.  An orderless transaction is protected
+   * against replays by its sender and nonce instead of by its sequence number, which is ignored.
+   * @group Implementation
+   * @category Transactions
+   */
+  constructor(multisig_address?: AccountAddress, replay_protection_nonce?: AnyNumber) {
+    super();
+    this.multisig_address = multisig_address;
+    this.replay_protection_nonce = replay_protection_nonce === undefined ? undefined : BigInt(replay_protection_nonce);
+  }
+
+  get replayProtectionNonce(): bigint | undefined {
+    return this.replay_protection_nonce;
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TransactionExtraConfigVariants.V1);
+    serializer.serializeOption(this.multisig_address);
+    serializer.serializeOption(
+      this.replay_protection_nonce === undefined ? undefined : new U64(this.replay_protection_nonce),
+    );
+  }
+
+  static load(deserializer: Deserializer): TransactionExtraConfigV1 {
+    const multisigAddress = deserializer.deserializeOption(AccountAddress);
+    const replayProtectionNonce = deserializer.deserializeOption(U64);
+    return new TransactionExtraConfigV1(multisigAddress, replayProtectionNonce?.value);
+  }
+}
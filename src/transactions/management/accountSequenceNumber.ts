@@ -18,18 +18,75 @@
  * The state of an account cannot be used across multiple AccountSequenceNumber services.
  * The synchronize method will create a barrier that prevents additional nextSequenceNumber
  * calls until it is complete.
- * This only manages the distribution of sequence numbers it does not help handle transaction
- * failures.
- * If a transaction fails, you should call synchronize and wait for timeouts.
+ * This only manages the distribution of sequence numbers, it does not submit transactions itself.
+ * If a transaction is rejected before it reaches the mempool, call release with its sequence number, so that the
+ * gap it leaves is filled according to the `gapPolicy` instead of stalling every later transaction.
  * @group Implementation
  * @category Transactions
  */
 
+import EventEmitter from "eventemitter3";
 import { AptosConfig } from "../../api/aptosConfig";
-import { Account } from "../../account";
+import { TransactionSigner } from "../../account";
+import { AptosApiError } from "../../errors";
 import { getInfo } from "../../internal/account";
+import { generateTransaction, signAndSubmitTransaction } from "../../internal/transactionSubmission";
+import { TypeTagAddress, TypeTagU64 } from "../typeTag";
 import { nowInSeconds, sleep } from "../../utils/helpers";
 
+/**
+ * How an {@link AccountSequenceNumber} fills the gap left by a released sequence number.
+ *
+ * - `reuse`: the sequence number is handed out again by the next `nextSequenceNumber()` call, so that it is filled
+ * by the next transaction.
+ * - `noop`: a transaction transferring nothing from the account to itself is submitted with the sequence number right
+ * away.  If that fails too, the sequence number is reused instead.
+ * @group Implementation
+ * @category Transactions
+ */
+export type SequenceNumberGapPolicy = "reuse" | "noop";
+
+/**
+ * Events emitted by an {@link AccountSequenceNumber} while it recovers from gaps and re-syncs with the chain.
+ * @group Implementation
+ * @category Transactions
+ */
+export enum AccountSequenceNumberEventsEnum {
+  // fired when a sequence number below the local one is released
+  GapDetected = "gapDetected",
+  // fired when a released sequence number has been handed out again or taken by a no-op transaction
+  GapFilled = "gapFilled",
+  // fired when the local sequence number has been reset to the one on chain
+  Resynced = "resynced",
+  // fired when the sequence number could not be read from the chain, or a no-op transaction could not be submitted
+  SequenceNumberError = "sequenceNumberError",
+}
+
+/**
+ * Defines the events emitted by an {@link AccountSequenceNumber}.
+ * @group Implementation
+ * @category Transactions
+ */
+export interface AccountSequenceNumberEvents {
+  gapDetected: (data: SequenceNumberGapEventData) => void;
+  gapFilled: (
+    data: SequenceNumberGapEventData & { filledWith: "transaction" | "noop"; transactionHash?: string },
+  ) => void;
+  resynced: (data: { message: string; sequenceNumber: bigint }) => void;
+  sequenceNumberError: (data: { message: string; error: any }) => void;
+}
+
+/**
+ * The payload for an event about a gap in the sequence numbers of an account.
+ * @group Implementation
+ * @category Transactions
+ */
+export type SequenceNumberGapEventData = {
+  message: string;
+  sequenceNumber: bigint;
+  policy: SequenceNumberGapPolicy;
+};
+
 /**
  * Represents an account's sequence number management for transaction handling on the Aptos blockchain.
  * This class provides methods to retrieve the next available sequence number, synchronize with the on-chain sequence number,
@@ -40,13 +97,14 @@ import { nowInSeconds, sleep } from "../../utils/helpers";
  * @param maxWaitTime - The maximum time to wait for a transaction to commit.
  * @param maximumInFlight - The maximum number of transactions that can be in flight at once.
  * @param sleepTime - The time to wait before retrying to get the sequence number.
+ * @param gapPolicy - How to fill the gap left by a released sequence number, defaults to `reuse`.
  * @group Implementation
  * @category Transactions
  */
-export class AccountSequenceNumber {
+export class AccountSequenceNumber extends EventEmitter<AccountSequenceNumberEvents> {
   readonly aptosConfig: AptosConfig;
 
-  readonly account: Account;
+  readonly account: TransactionSigner;
 
   // sequence number on chain
   // TODO: Change to Uncommitted
@@ -76,6 +134,11 @@ export class AccountSequenceNumber {
 
   sleepTime: number;
 
+  gapPolicy: SequenceNumberGapPolicy;
+
+  // released sequence numbers waiting to be handed out again, in ascending order
+  releasedNumbers: bigint[] = [];
+
   /**
    * Creates an instance of the class with the specified configuration and account details.
    * This constructor initializes the necessary parameters for managing Aptos transactions.
@@ -85,28 +148,34 @@ export class AccountSequenceNumber {
    * @param maxWaitTime - The maximum time to wait for a transaction to be processed, in milliseconds.
    * @param maximumInFlight - The maximum number of transactions that can be in flight at the same time.
    * @param sleepTime - The time to sleep between transaction checks, in milliseconds.
+   * @param gapPolicy - How to fill the gap left by a released sequence number, defaults to `reuse`.
    * @group Implementation
    * @category Transactions
    */
   constructor(
     aptosConfig: AptosConfig,
-    account: Account,
+    account: TransactionSigner,
     maxWaitTime: number,
     maximumInFlight: number,
     sleepTime: number,
+    gapPolicy: SequenceNumberGapPolicy = "reuse",
   ) {
+    super();
     this.aptosConfig = aptosConfig;
     this.account = account;
     this.maxWaitTime = maxWaitTime;
     this.maximumInFlight = maximumInFlight;
     this.sleepTime = sleepTime;
+    this.gapPolicy = gapPolicy;
   }
 
   /**
    * Returns the next available sequence number for this account.
    * This function ensures that the sequence number is updated and synchronized, handling potential delays in transaction commits.
+   * Released sequence numbers are handed out again first, lowest first.
    *
-   * @returns {BigInt} The next available sequence number.
+   * @returns {BigInt} The next available sequence number, or null if it cannot be read from the chain, which is reported
+   * with a `sequenceNumberError` event.
    * @group Implementation
    * @category Transactions
    */
@@ -123,6 +192,18 @@ export class AccountSequenceNumber {
         await this.initialize();
       }
 
+      // A released sequence number does not add to the transactions in flight, so it is handed out right away
+      const releasedNumber = this.releasedNumbers.shift();
+      if (releasedNumber !== undefined) {
+        this.emit(AccountSequenceNumberEventsEnum.GapFilled, {
+          message: `sequence number ${releasedNumber} of ${this.account.accountAddress.toString()} is reused`,
+          sequenceNumber: releasedNumber,
+          policy: this.gapPolicy,
+          filledWith: "transaction",
+        });
+        return releasedNumber;
+      }
+
       if (this.currentNumber! - this.lastUncommintedNumber! >= this.maximumInFlight) {
         await this.update();
 
@@ -130,11 +211,7 @@ export class AccountSequenceNumber {
         while (this.currentNumber! - this.lastUncommintedNumber! >= this.maximumInFlight) {
           await sleep(this.sleepTime);
           if (nowInSeconds() - startTime > this.maxWaitTime) {
-            /* eslint-disable no-console */
-            console.warn(
-              `Waited over 30 seconds for a transaction to commit, re-syncing ${this.account.accountAddress.toString()}`,
-            );
-            await this.initialize();
+            await this.resync();
           } else {
             await this.update();
           }
@@ -143,7 +220,11 @@ export class AccountSequenceNumber {
       nextNumber = this.currentNumber!;
       this.currentNumber! += BigInt(1);
     } catch (e) {
-      console.error("error in getting next sequence number for this account", e);
+      this.emit(AccountSequenceNumberEventsEnum.SequenceNumberError, {
+        message: `error in getting next sequence number for ${this.account.accountAddress.toString()}`,
+        error: e,
+      });
+      return null;
     } finally {
       this.lock = false;
     }
@@ -166,6 +247,7 @@ export class AccountSequenceNumber {
     });
     this.currentNumber = BigInt(sequenceNumber);
     this.lastUncommintedNumber = BigInt(sequenceNumber);
+    this.releasedNumbers = [];
   }
 
   /**
@@ -181,9 +263,92 @@ export class AccountSequenceNumber {
       accountAddress: this.account.accountAddress,
     });
     this.lastUncommintedNumber = BigInt(sequenceNumber);
+    // Released sequence numbers that have been used on chain in the meantime can no longer be handed out
+    this.releasedNumbers = this.releasedNumbers.filter((released) => released >= this.lastUncommintedNumber!);
     return this.lastUncommintedNumber;
   }
 
+  /**
+   * Gives back a sequence number handed out by `nextSequenceNumber()` whose transaction never reached the mempool,
+   * e.g. because it was rejected at submission.
+   *
+   * If it was the last sequence number handed out, the local sequence number simply steps back.  Otherwise every
+   * later transaction is stuck behind the gap it leaves, which is filled according to the `gapPolicy`.
+   *
+   * @param sequenceNumber - The sequence number of the transaction that was not submitted.
+   * @group Implementation
+   * @category Transactions
+   */
+  async release(sequenceNumber: bigint): Promise<void> {
+    if (
+      this.currentNumber === null ||
+      sequenceNumber >= this.currentNumber ||
+      (this.lastUncommintedNumber !== null && sequenceNumber < this.lastUncommintedNumber) ||
+      this.releasedNumbers.includes(sequenceNumber)
+    ) {
+      return;
+    }
+    if (sequenceNumber === this.currentNumber - BigInt(1)) {
+      this.currentNumber = sequenceNumber;
+      return;
+    }
+
+    const address = this.account.accountAddress.toString();
+    this.emit(AccountSequenceNumberEventsEnum.GapDetected, {
+      message: `sequence number ${sequenceNumber} of ${address} was released, filling the gap with policy ${this.gapPolicy}`,
+      sequenceNumber,
+      policy: this.gapPolicy,
+    });
+    if (this.gapPolicy === "noop") {
+      try {
+        const transaction = await generateTransaction({
+          aptosConfig: this.aptosConfig,
+          sender: this.account.accountAddress,
+          data: {
+            function: "0x1::aptos_account::transfer",
+            functionArguments: [this.account.accountAddress, 0],
+            abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+          },
+          options: { accountSequenceNumber: sequenceNumber },
+        });
+        const { hash } = await signAndSubmitTransaction({
+          aptosConfig: this.aptosConfig,
+          transaction,
+          signer: this.account,
+        });
+        this.emit(AccountSequenceNumberEventsEnum.GapFilled, {
+          message: `sequence number ${sequenceNumber} of ${address} is filled by no-op transaction ${hash}`,
+          sequenceNumber,
+          policy: this.gapPolicy,
+          filledWith: "noop",
+          transactionHash: hash,
+        });
+        return;
+      } catch (e) {
+        this.emit(AccountSequenceNumberEventsEnum.SequenceNumberError, {
+          message: `failed to fill sequence number ${sequenceNumber} of ${address} with a no-op, reusing it instead`,
+          error: e,
+        });
+      }
+    }
+    // Check again, as the sequence number may have been handed out again while the no-op was submitted
+    if (!this.releasedNumbers.includes(sequenceNumber)) {
+      this.releasedNumbers.push(sequenceNumber);
+      this.releasedNumbers.sort((a, b) => (a < b ? -1 : 1));
+    }
+  }
+
+  /**
+   * Resets the local sequence number to the one on chain after waiting too long for transactions to commit.
+   */
+  private async resync(): Promise<void> {
+    await this.initialize();
+    this.emit(AccountSequenceNumberEventsEnum.Resynced, {
+      message: `Waited over ${this.maxWaitTime} seconds for a transaction to commit, re-synced ${this.account.accountAddress.toString()}`,
+      sequenceNumber: this.currentNumber!,
+    });
+  }
+
   /**
    * Synchronizes the local sequence number with the sequence number on-chain for the specified account.
    * This function polls the network until all submitted transactions have either been committed or until the maximum wait time has elapsed.
@@ -207,20 +372,34 @@ export class AccountSequenceNumber {
       const startTime = nowInSeconds();
       while (this.lastUncommintedNumber !== this.currentNumber) {
         if (nowInSeconds() - startTime > this.maxWaitTime) {
-          /* eslint-disable no-console */
-          console.warn(
-            `Waited over 30 seconds for a transaction to commit, re-syncing ${this.account.accountAddress.toString()}`,
-          );
-          await this.initialize();
+          await this.resync();
         } else {
           await sleep(this.sleepTime);
           await this.update();
         }
       }
     } catch (e) {
-      console.error("error in synchronizing this account sequence number with the one on chain", e);
+      this.emit(AccountSequenceNumberEventsEnum.SequenceNumberError, {
+        message: `error in synchronizing the sequence number of ${this.account.accountAddress.toString()} with the one on chain`,
+        error: e,
+      });
+      throw e;
     } finally {
       this.lock = false;
     }
   }
 }
+
+/**
+ * Determines whether a transaction submission failed because the node rejected the transaction, in which case it
+ * never reached the mempool and its sequence number can be released.  Other failures, such as network errors, leave it
+ * unknown whether the transaction was accepted.
+ *
+ * @param error - The error the submission failed with.
+ * @returns Whether the node responded with a client error.
+ * @group Implementation
+ * @category Transactions
+ */
+export function isRejectedSubmission(error: any): boolean {
+  return error instanceof AptosApiError && error.status >= 400 && error.status < 500;
+}
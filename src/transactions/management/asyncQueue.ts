@@ -61,6 +61,22 @@ export class AsyncQueue<T> {
     });
   }
 
+  /**
+   * Removes the first queued item matching a predicate, without affecting pending dequeues.
+   *
+   * @param predicate - Decides whether an item is the one to remove.
+   * @returns The removed item, or undefined if no queued item matched.
+   * @group Implementation
+   * @category Transactions
+   */
+  remove(predicate: (item: T) => boolean): T | undefined {
+    const index = this.queue.findIndex(predicate);
+    if (index === -1) {
+      return undefined;
+    }
+    return this.queue.splice(index, 1)[0];
+  }
+
   /**
    * Determine whether the queue is empty.
    *
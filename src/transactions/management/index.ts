@@ -1,2 +1,4 @@
 export * from "./accountSequenceNumber";
+export * from "./transactionSenderPool";
 export * from "./transactionWorker";
+export * from "./transactionWorkerStorage";
@@ -0,0 +1,436 @@
+/* eslint-disable no-param-reassign */
+
+import EventEmitter from "eventemitter3";
+import { AptosConfig } from "../../api/aptosConfig";
+import { isKeylessSigner, TransactionSigner } from "../../account";
+import { FailedTransactionError, waitForTransaction } from "../../internal/transaction";
+import { generateTransaction, signTransaction, submitTransaction } from "../../internal/transactionSubmission";
+import { InputGenerateTransactionOptions, InputGenerateTransactionPayloadData } from "../types";
+import { AccountSequenceNumber, isRejectedSubmission, SequenceNumberGapPolicy } from "./accountSequenceNumber";
+import { FailureEventData, SuccessEventData } from "./transactionWorker";
+
+/**
+ * Events emitted by a {@link TransactionSenderPool}, for the transactions of all of its accounts.
+ * @group Implementation
+ * @category Transactions
+ */
+export enum TransactionSenderPoolEventsEnum {
+  // fired after a transaction gets sent to the chain
+  TransactionSent = "transactionSent",
+  // fired if there is an error sending the transaction to the chain
+  TransactionSendFailed = "transactionSendFailed",
+  // fired when a single transaction has executed successfully
+  TransactionExecuted = "transactionExecuted",
+  // fired if a single transaction fails in execution
+  TransactionExecutionFailed = "transactionExecutionFailed",
+  // fired when all pushed transactions have been processed
+  ExecutionFinish = "executionFinish",
+  // fired when an account is taken out of rotation after repeated failures
+  AccountRemoved = "accountRemoved",
+  // fired when an account is put back into rotation
+  AccountRestored = "accountRestored",
+}
+
+/**
+ * Defines the events emitted by a {@link TransactionSenderPool}.
+ * @group Implementation
+ * @category Transactions
+ */
+export interface TransactionSenderPoolEvents {
+  transactionSent: (data: SenderPoolSuccessEventData) => void;
+  transactionSendFailed: (data: SenderPoolFailureEventData) => void;
+  transactionExecuted: (data: SenderPoolSuccessEventData) => void;
+  transactionExecutionFailed: (data: SenderPoolFailureEventData) => void;
+  executionFinish: (data: { message: string }) => void;
+  accountRemoved: (data: SenderPoolAccountEventData) => void;
+  accountRestored: (data: SenderPoolAccountEventData) => void;
+}
+
+/**
+ * The payload for a success event, along with the account that sent the transaction.
+ * @group Implementation
+ * @category Transactions
+ */
+export type SenderPoolSuccessEventData = SuccessEventData & {
+  sender: string;
+  sequenceNumber: bigint;
+};
+
+/**
+ * The payload for a failure event, along with the account that sent the transaction.  The sequence number is
+ * missing if the failure happened before one was assigned.
+ * @group Implementation
+ * @category Transactions
+ */
+export type SenderPoolFailureEventData = FailureEventData & {
+  sender: string;
+  sequenceNumber?: bigint;
+};
+
+/**
+ * The payload for an event about an account of the pool.
+ * @group Implementation
+ * @category Transactions
+ */
+export type SenderPoolAccountEventData = {
+  message: string;
+  sender: string;
+};
+
+/**
+ * Options for a {@link TransactionSenderPool}.
+ *
+ * @param maxWaitTime - The maximum wait time in seconds before re-syncing an account's sequence number to the
+ * on-chain state, default is 30 seconds.
+ * @param maximumInFlight - The maximum number of transactions in flight per account, default is 100.
+ * @param sleepTime - The time to wait in seconds before re-evaluating the sequence number of an account with the
+ * maximum number of transactions in flight, default is 10 seconds.
+ * @param maxConsecutiveFailures - The number of consecutive failures after which an account is taken out of
+ * rotation, default is 3.  Transactions that are committed but fail in execution do not count as failures.
+ * @param cooldownMs - How long an account is kept out of rotation, default is 30 seconds.  It is then re-synced with
+ * the chain before it is used again.
+ * @param gapPolicy - How an account fills the gap left by a transaction the node rejected, defaults to `reuse`.
+ * @group Implementation
+ * @category Transactions
+ */
+export type TransactionSenderPoolOptions = {
+  maxWaitTime?: number;
+  maximumInFlight?: number;
+  sleepTime?: number;
+  maxConsecutiveFailures?: number;
+  cooldownMs?: number;
+  gapPolicy?: SequenceNumberGapPolicy;
+};
+
+/**
+ * The health of one account in a {@link TransactionSenderPool}.
+ *
+ * @param address - The address of the account.
+ * @param inFlight - The number of transactions sent from the account that have not been executed yet.
+ * @param executed - The number of transactions from the account that executed successfully.
+ * @param failed - The number of transactions from the account that failed to be sent or executed.
+ * @param consecutiveFailures - The number of failures since the last success.
+ * @param inRotation - Whether new transactions are assigned to the account.
+ * @group Implementation
+ * @category Transactions
+ */
+export type SenderAccountStatus = {
+  address: string;
+  inFlight: number;
+  executed: number;
+  failed: number;
+  consecutiveFailures: number;
+  inRotation: boolean;
+};
+
+type PoolAccount = Omit<SenderAccountStatus, "address"> & {
+  account: TransactionSigner;
+  sequenceNumber: AccountSequenceNumber;
+  // a removed account waits for its cooldown, then for its transactions in flight to finish, before re-syncing
+  coolingDown: boolean;
+};
+
+/**
+ * TransactionSenderPool spreads pushed payloads over several sender accounts, so that throughput is not capped by
+ * the sequence number pipeline of a single account.
+ *
+ * Each account has its own `AccountSequenceNumber`.  Every payload is assigned to the account in rotation with the
+ * fewest transactions in flight, taking turns on ties.  An account failing `maxConsecutiveFailures` times in a row
+ * is taken out of rotation for `cooldownMs`, after which it is re-synced with the chain and used again.  While no
+ * account is in rotation, payloads wait in the queue.
+ *
+ * @example
+ * ```typescript
+ * const pool = new TransactionSenderPool(config, [alice, bob, carol]);
+ * pool.on(TransactionSenderPoolEventsEnum.TransactionExecuted, ({ sender, transactionHash }) => {
+ *   console.log(`${sender} executed ${transactionHash}`);
+ * });
+ * for (const recipient of recipients) {
+ *   pool.push({ function: "0x1::aptos_account::transfer", functionArguments: [recipient, 100] });
+ * }
+ * ```
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionSenderPool extends EventEmitter<TransactionSenderPoolEvents> {
+  readonly aptosConfig: AptosConfig;
+
+  readonly maxConsecutiveFailures: number;
+
+  readonly cooldownMs: number;
+
+  readonly maximumInFlight: number;
+
+  /**
+   * payloads waiting to be assigned to an account
+   * @group Implementation
+   * @category Transactions
+   */
+  readonly transactionsQueue: Array<
+    [InputGenerateTransactionPayloadData, InputGenerateTransactionOptions | undefined]
+  > = [];
+
+  private readonly accounts: PoolAccount[];
+
+  // the account the next tie is broken in favor of
+  private nextAccountIndex = 0;
+
+  /**
+   * Creates a pool sending transactions from the given accounts.
+   *
+   * @param aptosConfig - A configuration object for Aptos.
+   * @param accounts - The accounts used to send transactions. Each account must only be used by this pool.
+   * @param options - Optional settings for the pool.
+   * @group Implementation
+   * @category Transactions
+   */
+  constructor(aptosConfig: AptosConfig, accounts: TransactionSigner[], options?: TransactionSenderPoolOptions) {
+    super();
+    if (accounts.length === 0) {
+      throw new Error("A transaction sender pool needs at least one account");
+    }
+    const addresses = new Set(accounts.map((account) => account.accountAddress.toString()));
+    if (addresses.size !== accounts.length) {
+      throw new Error("The accounts of a transaction sender pool must be distinct");
+    }
+
+    const { maxWaitTime = 30, maximumInFlight = 100, sleepTime = 10, gapPolicy } = options ?? {};
+    this.aptosConfig = aptosConfig;
+    this.maximumInFlight = maximumInFlight;
+    this.maxConsecutiveFailures = options?.maxConsecutiveFailures ?? 3;
+    this.cooldownMs = options?.cooldownMs ?? 30 * 1000;
+    this.accounts = accounts.map((account) => ({
+      account,
+      sequenceNumber: new AccountSequenceNumber(
+        aptosConfig,
+        account,
+        maxWaitTime,
+        maximumInFlight,
+        sleepTime,
+        gapPolicy,
+      ),
+      inFlight: 0,
+      executed: 0,
+      failed: 0,
+      consecutiveFailures: 0,
+      inRotation: true,
+      coolingDown: false,
+    }));
+  }
+
+  /**
+   * Pushes a payload to be sent by one of the pool's accounts.
+   *
+   * @param transactionData - The transaction payload containing necessary details.
+   * @param options - Optional parameters for transaction configuration, the sequence number is assigned by the pool.
+   * @group Implementation
+   * @category Transactions
+   */
+  async push(
+    transactionData: InputGenerateTransactionPayloadData,
+    options?: Omit<InputGenerateTransactionOptions, "accountSequenceNumber">,
+  ): Promise<void> {
+    this.transactionsQueue.push([transactionData, options]);
+    this.dispatch();
+  }
+
+  /**
+   * Returns the health of every account in the pool.
+   * @group Implementation
+   * @category Transactions
+   */
+  getAccountStatuses(): SenderAccountStatus[] {
+    return this.accounts.map(({ account, inFlight, executed, failed, consecutiveFailures, inRotation }) => ({
+      address: account.accountAddress.toString(),
+      inFlight,
+      executed,
+      failed,
+      consecutiveFailures,
+      inRotation,
+    }));
+  }
+
+  /**
+   * Assigns queued payloads to accounts for as long as there are accounts with room for them.
+   */
+  private dispatch() {
+    while (this.transactionsQueue.length > 0) {
+      const poolAccount = this.pickAccount();
+      if (poolAccount === undefined) return;
+      const [transactionData, options] = this.transactionsQueue.shift()!;
+      poolAccount.inFlight += 1;
+      this.send(poolAccount, transactionData, options).finally(() => {
+        poolAccount.inFlight -= 1;
+        this.settle(poolAccount);
+        if (this.transactionsQueue.length === 0 && this.accounts.every(({ inFlight }) => inFlight === 0)) {
+          this.emit(TransactionSenderPoolEventsEnum.ExecutionFinish, { message: "all pushed transactions finished" });
+        }
+      });
+    }
+  }
+
+  /**
+   * Picks the account in rotation with the fewest transactions in flight, if any has room for another one.
+   */
+  private pickAccount(): PoolAccount | undefined {
+    let picked: PoolAccount | undefined;
+    let pickedIndex = 0;
+    for (let offset = 0; offset < this.accounts.length; offset += 1) {
+      const index = (this.nextAccountIndex + offset) % this.accounts.length;
+      const poolAccount = this.accounts[index];
+      if (
+        poolAccount.inRotation &&
+        poolAccount.inFlight < this.maximumInFlight &&
+        (picked === undefined || poolAccount.inFlight < picked.inFlight)
+      ) {
+        picked = poolAccount;
+        pickedIndex = index;
+      }
+    }
+    if (picked !== undefined) {
+      this.nextAccountIndex = (pickedIndex + 1) % this.accounts.length;
+    }
+    return picked;
+  }
+
+  /**
+   * Sends a transaction from an account and waits for its execution, emitting events for the outcome.
+   */
+  private async send(
+    poolAccount: PoolAccount,
+    transactionData: InputGenerateTransactionPayloadData,
+    options?: InputGenerateTransactionOptions,
+  ): Promise<void> {
+    const { account } = poolAccount;
+    const sender = account.accountAddress.toString();
+
+    let sequenceNumber: bigint | undefined;
+    let submitted = false;
+    let transactionHash: string;
+    try {
+      sequenceNumber = (await poolAccount.sequenceNumber.nextSequenceNumber()) ?? undefined;
+      const transaction = await generateTransaction({
+        aptosConfig: this.aptosConfig,
+        sender: account.accountAddress,
+        data: transactionData,
+        options: { ...options, accountSequenceNumber: sequenceNumber },
+      });
+      if (isKeylessSigner(account)) {
+        await account.checkKeylessAccountValidity(this.aptosConfig);
+      }
+      const senderAuthenticator = await signTransaction({ signer: account, transaction });
+      submitted = true;
+      const pendingTransaction = await submitTransaction({
+        aptosConfig: this.aptosConfig,
+        transaction,
+        senderAuthenticator,
+      });
+      transactionHash = pendingTransaction.hash;
+    } catch (error: any) {
+      // A transaction that never reached the mempool leaves a gap that would stall every later one, but one whose
+      // submission failed without a rejection may still have reached it
+      if (sequenceNumber !== undefined && (!submitted || isRejectedSubmission(error))) {
+        await poolAccount.sequenceNumber.release(sequenceNumber);
+      }
+      this.recordFailure(poolAccount);
+      this.emit(TransactionSenderPoolEventsEnum.TransactionSendFailed, {
+        message: `failed to send transaction from ${sender} with error ${error}`,
+        error,
+        sender,
+        sequenceNumber,
+      });
+      return;
+    }
+    this.emit(TransactionSenderPoolEventsEnum.TransactionSent, {
+      message: `transaction hash ${transactionHash} has been committed to chain`,
+      transactionHash,
+      sender,
+      sequenceNumber: sequenceNumber!,
+    });
+
+    try {
+      await waitForTransaction({ aptosConfig: this.aptosConfig, transactionHash });
+      poolAccount.executed += 1;
+      poolAccount.consecutiveFailures = 0;
+      this.emit(TransactionSenderPoolEventsEnum.TransactionExecuted, {
+        message: `transaction hash ${transactionHash} has been executed on chain`,
+        transactionHash,
+        sender,
+        sequenceNumber: sequenceNumber!,
+      });
+    } catch (error: any) {
+      // A transaction committed with a failed status says nothing about the health of the account
+      if (error instanceof FailedTransactionError) {
+        poolAccount.failed += 1;
+        poolAccount.consecutiveFailures = 0;
+      } else {
+        this.recordFailure(poolAccount);
+      }
+      this.emit(TransactionSenderPoolEventsEnum.TransactionExecutionFailed, {
+        message: `failed to execute transaction ${transactionHash} with error ${error}`,
+        error,
+        sender,
+        sequenceNumber,
+      });
+    }
+  }
+
+  /**
+   * Counts a failure against an account, taking it out of rotation once it failed too many times in a row.
+   */
+  private recordFailure(poolAccount: PoolAccount) {
+    poolAccount.failed += 1;
+    poolAccount.consecutiveFailures += 1;
+    if (!poolAccount.inRotation || poolAccount.consecutiveFailures < this.maxConsecutiveFailures) return;
+
+    poolAccount.inRotation = false;
+    poolAccount.coolingDown = true;
+    const sender = poolAccount.account.accountAddress.toString();
+    this.emit(TransactionSenderPoolEventsEnum.AccountRemoved, {
+      message: `account ${sender} failed ${poolAccount.consecutiveFailures} times in a row and is taken out of rotation`,
+      sender,
+    });
+    setTimeout(() => {
+      poolAccount.coolingDown = false;
+      this.settle(poolAccount);
+    }, this.cooldownMs);
+  }
+
+  /**
+   * Called when an account finished a transaction or its cooldown, restores the account once it has no transactions
+   * in flight anymore, and hands out further payloads.
+   */
+  private settle(poolAccount: PoolAccount) {
+    if (!poolAccount.inRotation && !poolAccount.coolingDown && poolAccount.inFlight === 0) {
+      this.restore(poolAccount);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Re-syncs an account's sequence number with the chain, and puts the account back into rotation.
+   */
+  private async restore(poolAccount: PoolAccount) {
+    // Keep the account from being restored twice while re-syncing
+    poolAccount.coolingDown = true;
+    const sender = poolAccount.account.accountAddress.toString();
+    try {
+      await poolAccount.sequenceNumber.initialize();
+    } catch {
+      // Try again after another cooldown
+      setTimeout(() => {
+        poolAccount.coolingDown = false;
+        this.settle(poolAccount);
+      }, this.cooldownMs);
+      return;
+    }
+    poolAccount.coolingDown = false;
+    poolAccount.inRotation = true;
+    poolAccount.consecutiveFailures = 0;
+    this.emit(TransactionSenderPoolEventsEnum.AccountRestored, {
+      message: `account ${sender} has been re-synced and is back in rotation`,
+      sender,
+    });
+    this.dispatch();
+  }
+}
@@ -2,14 +2,41 @@
 
 import EventEmitter from "eventemitter3";
 import { AptosConfig } from "../../api/aptosConfig";
-import { Account } from "../../account";
-import { waitForTransaction } from "../../internal/transaction";
-import { generateTransaction, signAndSubmitTransaction } from "../../internal/transactionSubmission";
-import { PendingTransactionResponse, TransactionResponse } from "../../types";
-import { InputGenerateTransactionOptions, InputGenerateTransactionPayloadData } from "../types";
-import { AccountSequenceNumber } from "./accountSequenceNumber";
+import { TransactionSigner } from "../../account";
+import { Deserializer } from "../../bcs/deserializer";
+import { AptosApiError } from "../../errors";
+import { getTransactionByHash, waitForTransaction } from "../../internal/transaction";
+import {
+  buildTransactionPayload,
+  generateTransaction,
+  signAndSubmitTransaction,
+  signTransaction,
+  submitTransaction,
+} from "../../internal/transactionSubmission";
+import {
+  CommittedTransactionResponse,
+  isUserTransactionResponse,
+  PendingTransactionResponse,
+  TransactionResponse,
+} from "../../types";
+import { nowInSeconds, sleep } from "../../utils/helpers";
+import { AccountAuthenticator } from "../authenticator/account";
+import { buildTransaction, generateUserTransactionHash } from "../transactionBuilder/transactionBuilder";
+import {
+  AnyTransactionPayloadInstance,
+  InputGenerateTransactionOptions,
+  InputGenerateTransactionPayloadData,
+} from "../types";
+import { AccountSequenceNumber, isRejectedSubmission, SequenceNumberGapPolicy } from "./accountSequenceNumber";
 import { AsyncQueue, AsyncQueueCancelledError } from "./asyncQueue";
 import { SimpleTransaction } from "../instances/simpleTransaction";
+import { TransactionPayload } from "../instances/transactionPayload";
+import {
+  PersistedTransaction,
+  PersistedTransactionOptions,
+  TransactionWorkerState,
+  TransactionWorkerStorage,
+} from "./transactionWorkerStorage";
 
 /**
  * @group Implementation
@@ -59,22 +86,82 @@ export type ExecutionFinishEventData = {
 
 /**
  * The payload for a success event.
+ *
+ * @param payload - The payload the transaction was pushed with. For a transaction resumed from storage after a
+ * restart, this is the generated transaction payload.
+ * @param correlationId - The correlation id the transaction was pushed with, if any.
+ * @param sequenceNumber - The sequence number assigned to the transaction.
  * @group Implementation
  * @category Transactions
  */
 export type SuccessEventData = {
   message: string;
   transactionHash: string;
+  payload?: InputGenerateTransactionPayloadData | TransactionPayload;
+  correlationId?: string;
+  sequenceNumber?: bigint;
 };
 
 /**
- * The payload for a failure event.
+ * The payload for a failure event, with the same details about the transaction as a {@link SuccessEventData}.
  * @group Implementation
  * @category Transactions
  */
 export type FailureEventData = {
   message: string;
   error: string;
+  payload?: InputGenerateTransactionPayloadData | TransactionPayload;
+  correlationId?: string;
+  sequenceNumber?: bigint;
+};
+
+/**
+ * A handle on a transaction pushed to a {@link TransactionWorker}.
+ *
+ * The promises of a handle never cause unhandled rejections, so it is safe to ignore them.
+ * @group Implementation
+ * @category Transactions
+ */
+export interface TransactionHandle {
+  /**
+   * The correlation id the transaction was pushed with, if any.
+   */
+  readonly correlationId?: string;
+
+  /**
+   * Resolves to the sequence number assigned to the transaction once it is generated.
+   */
+  readonly sequenceNumber: Promise<bigint>;
+
+  /**
+   * Resolves to the transaction once it has been committed successfully, or rejects if it could not be sent, failed in
+   * execution or was cancelled.
+   */
+  readonly result: Promise<CommittedTransactionResponse>;
+
+  /**
+   * Takes the transaction out of the queue, if it has not been generated yet.  Both promises of the handle then
+   * reject with a {@link TransactionCancelledError}.
+   *
+   * @returns Whether the transaction was cancelled, after the cancellation has been persisted.
+   */
+  cancel(): Promise<boolean>;
+}
+
+/**
+ * The error a {@link TransactionHandle} rejects with when its transaction is cancelled.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TransactionCancelledError extends Error {}
+
+// what the worker knows about a pushed transaction until its outcome is known
+type PushedTransaction = {
+  payload: InputGenerateTransactionPayloadData | TransactionPayload;
+  correlationId?: string;
+  resolveSequenceNumber?: (sequenceNumber: bigint) => void;
+  resolve?: (transaction: CommittedTransactionResponse) => void;
+  reject?: (error: any) => void;
 };
 
 /**
@@ -88,13 +175,24 @@ export type FailureEventData = {
  * 1) waits for resolution of the submission process or get pre-execution validation error
  * and 2) waits for the resolution of the execution process or get an execution error.
  * The worker fires events for any submission and/or execution success and/or failure.
+ *
+ * When given a {@link TransactionWorkerStorage}, the worker persists every transaction from the moment it is pushed
+ * until its outcome is known, and writes the signed transaction to storage before submitting it.  A new worker
+ * started with the same storage, e.g. after the process crashed, reconciles the persisted transactions against the
+ * account's on-chain sequence number:
+ * 1) transactions with a sequence number below the on-chain one have been committed, and are reported as executed
+ * or failed,
+ * 2) the others are submitted again unchanged, or if they have expired, signed again with the same sequence number
+ * and a new expiration timestamp, so that no sequence number is skipped,
+ * and 3) transactions that had not been signed yet are queued again, ahead of any newly pushed ones.
+ * A transaction is thus never signed twice with different sequence numbers.
  * @group Implementation
  * @category Transactions
  */
 export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
   readonly aptosConfig: AptosConfig;
 
-  readonly account: Account;
+  readonly account: TransactionSigner;
 
   // current account sequence number
   // TODO: Rename Sequnce -> Sequence
@@ -102,6 +200,9 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
 
   readonly taskQueue: AsyncQueue<() => Promise<void>> = new AsyncQueue<() => Promise<void>>();
 
+  // where the worker persists its transactions, if anywhere
+  readonly storage?: TransactionWorkerStorage;
+
   // process has started
   started: boolean;
 
@@ -113,7 +214,7 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
    * @category Transactions
    */
   transactionsQueue = new AsyncQueue<
-    [InputGenerateTransactionPayloadData, InputGenerateTransactionOptions | undefined]
+    [InputGenerateTransactionPayloadData | TransactionPayload, InputGenerateTransactionOptions | undefined, string]
   >();
 
   /**
@@ -121,7 +222,7 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
    * @group Implementation
    * @category Transactions
    */
-  outstandingTransactions = new AsyncQueue<[Promise<PendingTransactionResponse>, bigint]>();
+  outstandingTransactions = new AsyncQueue<[Promise<PendingTransactionResponse>, bigint, string]>();
 
   /**
    * transactions that have been submitted to chain
@@ -137,29 +238,51 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
    */
   executedTransactions: Array<[string, bigint, any]> = [];
 
+  // transactions that have not finished yet, by id
+  private readonly pushedTransactions = new Map<string, PushedTransaction>();
+
+  // the persisted state of the transactions that have not finished yet, by id, in the order they were pushed
+  private readonly persistedTransactions = new Map<string, PersistedTransaction>();
+
+  private nextTransactionId = 0;
+
+  private loadingState?: Promise<void>;
+
+  // pushes and saves are chained, so that they complete in the order they were started
+  private pushing: Promise<void> = Promise.resolve();
+
+  private saving: Promise<void> = Promise.resolve();
+
   /**
    * Initializes a new instance of the class, providing a framework for receiving payloads to be processed.
    *
    * @param aptosConfig - A configuration object for Aptos.
-   * @param account - The account that will be used for sending transactions.
+   * @param account - The account that will be used for sending transactions, which may be an `AsyncSigner`.
    * @param maxWaitTime - The maximum wait time to wait before re-syncing the sequence number to the current on-chain state,
    * default is 30 seconds.
    * @param maximumInFlight - The maximum number of transactions that can be submitted per account, default is 100.
    * @param sleepTime - The time to wait in seconds before re-evaluating if the maximum number of transactions are in flight,
    * default is 10 seconds.
+   * @param storage - Where to persist transactions, so that the worker can resume after a restart. By default
+   * transactions are only kept in memory.
+   * @param gapPolicy - How to fill the gap left by a transaction that was never submitted, e.g. because the node
+   * rejected it, defaults to `reuse`.
    * @group Implementation
    * @category Transactions
    */
   constructor(
     aptosConfig: AptosConfig,
-    account: Account,
+    account: TransactionSigner,
     maxWaitTime: number = 30,
     maximumInFlight: number = 100,
     sleepTime: number = 10,
+    storage?: TransactionWorkerStorage,
+    gapPolicy?: SequenceNumberGapPolicy,
   ) {
     super();
     this.aptosConfig = aptosConfig;
     this.account = account;
+    this.storage = storage;
     this.started = false;
     this.accountSequnceNumber = new AccountSequenceNumber(
       aptosConfig,
@@ -167,6 +290,7 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
       maxWaitTime,
       maximumInFlight,
       sleepTime,
+      gapPolicy,
     );
   }
 
@@ -184,15 +308,17 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
       /* eslint-disable no-constant-condition */
       while (true) {
         const sequenceNumber = await this.accountSequnceNumber.nextSequenceNumber();
-        if (sequenceNumber === null) return;
-        const transaction = await this.generateNextTransaction(this.account, sequenceNumber);
-        if (!transaction) return;
-        const pendingTransaction = signAndSubmitTransaction({
-          aptosConfig: this.aptosConfig,
-          transaction,
-          signer: this.account,
-        });
-        await this.outstandingTransactions.enqueue([pendingTransaction, sequenceNumber]);
+        if (sequenceNumber === null) {
+          // The sequence number couldn't be read from the chain, which the account reported; try again until stopped
+          if (this.taskQueue.isCancelled()) return;
+          await sleep(this.accountSequnceNumber.sleepTime);
+        } else {
+          const next = await this.dequeueNextTransaction(this.account, sequenceNumber);
+          if (!next) return;
+          this.pushedTransactions.get(next.id)?.resolveSequenceNumber?.(sequenceNumber);
+          const pendingTransaction = this.signAndSubmit(next.transaction, next.id);
+          await this.outstandingTransactions.enqueue([pendingTransaction, sequenceNumber, next.id]);
+        }
       }
     } catch (error: any) {
       if (error instanceof AsyncQueueCancelledError) {
@@ -221,16 +347,19 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
       while (true) {
         const awaitingTransactions = [];
         const sequenceNumbers = [];
-        let [pendingTransaction, sequenceNumber] = await this.outstandingTransactions.dequeue();
+        const transactionIds = [];
+        let [pendingTransaction, sequenceNumber, transactionId] = await this.outstandingTransactions.dequeue();
 
         awaitingTransactions.push(pendingTransaction);
         sequenceNumbers.push(sequenceNumber);
+        transactionIds.push(transactionId);
 
         while (!this.outstandingTransactions.isEmpty()) {
-          [pendingTransaction, sequenceNumber] = await this.outstandingTransactions.dequeue();
+          [pendingTransaction, sequenceNumber, transactionId] = await this.outstandingTransactions.dequeue();
 
           awaitingTransactions.push(pendingTransaction);
           sequenceNumbers.push(sequenceNumber);
+          transactionIds.push(transactionId);
         }
         // send awaiting transactions to chain
         const sentTransactions = await Promise.allSettled(awaitingTransactions);
@@ -238,6 +367,7 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
           // check sent transaction status
           const sentTransaction = sentTransactions[i];
           sequenceNumber = sequenceNumbers[i];
+          transactionId = transactionIds[i];
           if (sentTransaction.status === promiseFulfilledStatus) {
             // transaction sent to chain
             this.sentTransactions.push([sentTransaction.value.hash, sequenceNumber, null]);
@@ -245,15 +375,23 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
             this.emit(TransactionWorkerEventsEnum.TransactionSent, {
               message: `transaction hash ${sentTransaction.value.hash} has been committed to chain`,
               transactionHash: sentTransaction.value.hash,
+              ...this.eventDetails(transactionId, sequenceNumber),
             });
-            await this.checkTransaction(sentTransaction, sequenceNumber);
+            await this.checkTransaction(sentTransaction, sequenceNumber, transactionId);
           } else {
             // send transaction failed
             this.sentTransactions.push([sentTransaction.status, sequenceNumber, sentTransaction.reason]);
+            await this.forgetTransaction(transactionId);
+            // the transaction never reached the mempool, so its sequence number would block every later one
+            if (isRejectedSubmission(sentTransaction.reason)) {
+              await this.accountSequnceNumber.release(sequenceNumber);
+            }
             this.emit(TransactionWorkerEventsEnum.TransactionSendFailed, {
               message: `failed to commit transaction ${this.sentTransactions.length} with error ${sentTransaction.reason}`,
               error: sentTransaction.reason,
+              ...this.eventDetails(transactionId, sequenceNumber),
             });
+            this.settleTransaction(transactionId, { error: sentTransaction.reason });
           }
         }
         this.emit(TransactionWorkerEventsEnum.ExecutionFinish, {
@@ -272,14 +410,20 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
    * Once a transaction has been sent to the chain, this function checks for its execution status.
    * @param sentTransaction - The transaction that was sent to the chain and is now waiting to be executed.
    * @param sequenceNumber - The account's sequence number that was sent with the transaction.
+   * @param transactionId - The id the worker tracks the transaction by.
    * @group Implementation
    * @category Transactions
    */
-  async checkTransaction(sentTransaction: PromiseFulfilledResult<PendingTransactionResponse>, sequenceNumber: bigint) {
+  async checkTransaction(
+    sentTransaction: PromiseFulfilledResult<PendingTransactionResponse>,
+    sequenceNumber: bigint,
+    transactionId?: string,
+  ) {
     try {
-      const waitFor: Array<Promise<TransactionResponse>> = [];
+      const waitFor: Array<Promise<CommittedTransactionResponse>> = [];
       waitFor.push(waitForTransaction({ aptosConfig: this.aptosConfig, transactionHash: sentTransaction.value.hash }));
       const sentTransactions = await Promise.allSettled(waitFor);
+      await this.forgetTransaction(transactionId);
 
       for (let i = 0; i < sentTransactions.length; i += 1) {
         const executedTransaction = sentTransactions[i];
@@ -289,14 +433,18 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
           this.emit(TransactionWorkerEventsEnum.TransactionExecuted, {
             message: `transaction hash ${executedTransaction.value.hash} has been executed on chain`,
             transactionHash: sentTransaction.value.hash,
+            ...this.eventDetails(transactionId, sequenceNumber),
           });
+          this.settleTransaction(transactionId, { transaction: executedTransaction.value });
         } else {
           // transaction execution failed
           this.executedTransactions.push([executedTransaction.status, sequenceNumber, executedTransaction.reason]);
           this.emit(TransactionWorkerEventsEnum.TransactionExecutionFailed, {
             message: `failed to execute transaction ${this.executedTransactions.length} with error ${executedTransaction.reason}`,
             error: executedTransaction.reason,
+            ...this.eventDetails(transactionId, sequenceNumber),
           });
+          this.settleTransaction(transactionId, { error: executedTransaction.reason });
         }
       }
     } catch (error: any) {
@@ -307,6 +455,16 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
   /**
    * Pushes a transaction to the transactions queue for processing.
    *
+   * If the worker has a storage, the transaction payload is generated right away, and the returned promise resolves
+   * once it has been persisted.
+   *
+   * @example
+   * ```typescript
+   * const handle = await worker.push(payload, undefined, "order-42");
+   * worker.start();
+   * const committed = await handle.result;
+   * ```
+   *
    * @param transactionData - The transaction payload containing necessary details.
    * @param transactionData.abi - For all entry function payloads, the ABI to skip remote ABI lookups.
    * @param options - Optional parameters for transaction configuration.
@@ -314,14 +472,134 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
    * @param options.gasUnitPrice - Gas unit price for the transaction.
    * @param options.expireTimestamp - Expiration timestamp on the transaction.
    * @param options.accountSequenceNumber - The sequence number for the transaction.
+   * @param correlationId - Optional. An id of the caller's choosing, passed along in the events for the transaction.
+   * @returns A handle on the transaction, to follow its progress or cancel it.
+   * @throws if the options have a `replayProtectionNonce`, as the worker orders its transactions by sequence number.
    * @group Implementation
    * @category Transactions
    */
   async push(
     transactionData: InputGenerateTransactionPayloadData,
     options?: InputGenerateTransactionOptions,
-  ): Promise<void> {
-    this.transactionsQueue.enqueue([transactionData, options]);
+    correlationId?: string,
+  ): Promise<TransactionHandle> {
+    if (options?.replayProtectionNonce !== undefined) {
+      // An orderless transaction wouldn't use the sequence number assigned to it, which would leave a gap
+      throw new Error("The transactions of a worker can't be orderless, submit them without the worker instead");
+    }
+    if (this.storage === undefined) {
+      return this.enqueue(transactionData, transactionData, options, correlationId);
+    }
+    const pushed = this.pushing.then(() => this.persistAndEnqueue(transactionData, options, correlationId));
+    this.pushing = pushed.then(
+      () => {},
+      () => {},
+    );
+    return pushed;
+  }
+
+  /**
+   * Queues a pushed transaction and creates its handle.
+   */
+  private enqueue(
+    transactionData: InputGenerateTransactionPayloadData,
+    payload: InputGenerateTransactionPayloadData | TransactionPayload,
+    options: InputGenerateTransactionOptions | undefined,
+    correlationId: string | undefined,
+    id: string = this.nextId(),
+  ): TransactionHandle {
+    const pushed: PushedTransaction = { payload: transactionData, correlationId };
+    const sequenceNumber = new Promise<bigint>((resolve, reject) => {
+      pushed.resolveSequenceNumber = resolve;
+      pushed.reject = reject;
+    });
+    const result = new Promise<CommittedTransactionResponse>((resolve, reject) => {
+      pushed.resolve = resolve;
+      const rejectSequenceNumber = pushed.reject!;
+      pushed.reject = (error) => {
+        rejectSequenceNumber(error);
+        reject(error);
+      };
+    });
+    // The caller may not be interested in the outcome
+    sequenceNumber.catch(() => {});
+    result.catch(() => {});
+
+    this.pushedTransactions.set(id, pushed);
+    this.transactionsQueue.enqueue([payload, options, id]);
+    return { correlationId, sequenceNumber, result, cancel: () => this.cancel(id) };
+  }
+
+  /**
+   * Takes a transaction out of the queue if it is still there.
+   */
+  private async cancel(id: string): Promise<boolean> {
+    if (this.transactionsQueue.remove(([, , queuedId]) => queuedId === id) === undefined) {
+      return false;
+    }
+    await this.forgetTransaction(id);
+    this.settleTransaction(id, { error: new TransactionCancelledError(`Transaction ${id} was cancelled`) });
+    return true;
+  }
+
+  /**
+   * Resolves or rejects the handle of a transaction whose outcome is known.
+   */
+  private settleTransaction(
+    id: string | undefined,
+    outcome: { transaction: CommittedTransactionResponse; error?: never } | { transaction?: never; error: any },
+  ) {
+    if (id === undefined) return;
+    const pushed = this.pushedTransactions.get(id);
+    this.pushedTransactions.delete(id);
+    if (outcome.transaction !== undefined) {
+      // The sequence number has been resolved before, unless the transaction was resumed from storage
+      pushed?.resolve?.(outcome.transaction);
+    } else {
+      pushed?.reject?.(outcome.error);
+    }
+  }
+
+  /**
+   * Collects the details about a transaction that are passed along in its events.
+   */
+  private eventDetails(
+    id: string | undefined,
+    sequenceNumber?: bigint,
+  ): Pick<SuccessEventData, "payload" | "correlationId" | "sequenceNumber"> {
+    const pushed = id === undefined ? undefined : this.pushedTransactions.get(id);
+    return { payload: pushed?.payload, correlationId: pushed?.correlationId, sequenceNumber };
+  }
+
+  private nextId(): string {
+    const id = String(this.nextTransactionId);
+    this.nextTransactionId += 1;
+    return id;
+  }
+
+  /**
+   * Generates the payload of a pushed transaction, persists it and queues it.
+   */
+  private async persistAndEnqueue(
+    transactionData: InputGenerateTransactionPayloadData,
+    options: InputGenerateTransactionOptions | undefined,
+    correlationId: string | undefined,
+  ): Promise<TransactionHandle> {
+    await this.loadState();
+    const payload = await buildTransactionPayload({
+      aptosConfig: this.aptosConfig,
+      sender: this.account.accountAddress,
+      data: transactionData,
+    });
+    const id = this.nextId();
+    this.persistedTransactions.set(id, {
+      id,
+      payload: payload.bcsToHex().toString(),
+      options: persistedOptions(options),
+      correlationId,
+    });
+    await this.saveState();
+    return this.enqueue(transactionData, payload, options, correlationId, id);
   }
 
   /**
@@ -333,15 +611,204 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
    * @group Implementation
    * @category Transactions
    */
-  async generateNextTransaction(account: Account, sequenceNumber: bigint): Promise<SimpleTransaction | undefined> {
+  async generateNextTransaction(
+    account: TransactionSigner,
+    sequenceNumber: bigint,
+  ): Promise<SimpleTransaction | undefined> {
+    const next = await this.dequeueNextTransaction(account, sequenceNumber);
+    return next?.transaction;
+  }
+
+  /**
+   * Generates the next transaction in the queue, along with the id the worker tracks it by.
+   */
+  private async dequeueNextTransaction(
+    account: TransactionSigner,
+    sequenceNumber: bigint,
+  ): Promise<{ transaction: SimpleTransaction; id: string } | undefined> {
     if (this.transactionsQueue.isEmpty()) return undefined;
-    const [transactionData, options] = await this.transactionsQueue.dequeue();
-    return generateTransaction({
+    const [transactionData, options, id] = await this.transactionsQueue.dequeue();
+    const transactionOptions = { ...options, accountSequenceNumber: sequenceNumber };
+    try {
+      const transaction =
+        transactionData instanceof TransactionPayload
+          ? await buildTransaction({
+              aptosConfig: this.aptosConfig,
+              sender: account.accountAddress,
+              payload: transactionData as AnyTransactionPayloadInstance,
+              options: transactionOptions,
+            })
+          : await generateTransaction({
+              aptosConfig: this.aptosConfig,
+              sender: account.accountAddress,
+              data: transactionData,
+              options: transactionOptions,
+            });
+      return { transaction, id };
+    } catch (error: any) {
+      // The transaction will never be submitted, so it must neither be resumed nor hold on to its sequence number
+      await this.forgetTransaction(id);
+      await this.accountSequnceNumber.release(sequenceNumber);
+      this.settleTransaction(id, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Signs and submits a transaction.  A persisted transaction is saved together with its signature before it is
+   * submitted, so that it is never signed again with a different sequence number.
+   */
+  private async signAndSubmit(transaction: SimpleTransaction, id: string): Promise<PendingTransactionResponse> {
+    const persisted = this.persistedTransactions.get(id);
+    if (persisted === undefined) {
+      return signAndSubmitTransaction({ aptosConfig: this.aptosConfig, transaction, signer: this.account });
+    }
+    const senderAuthenticator = await signTransaction({ signer: this.account, transaction });
+    persisted.sequenceNumber = transaction.rawTransaction.sequence_number.toString();
+    persisted.transaction = transaction.bcsToHex().toString();
+    persisted.senderAuthenticator = senderAuthenticator.bcsToHex().toString();
+    persisted.hash = generateUserTransactionHash({ transaction, senderAuthenticator });
+    await this.saveState();
+    return submitTransaction({ aptosConfig: this.aptosConfig, transaction, senderAuthenticator });
+  }
+
+  /**
+   * Loads the persisted state once, queueing the transactions that had not been signed yet.
+   *
+   * @throws {Error} Throws an error if the state belongs to another account.
+   */
+  private loadState(): Promise<void> {
+    if (this.storage === undefined) return Promise.resolve();
+    const { storage } = this;
+    this.loadingState ??= (async () => {
+      const state = await storage.load();
+      if (state === undefined) return;
+      const accountAddress = this.account.accountAddress.toString();
+      if (state.accountAddress !== accountAddress) {
+        throw new Error(
+          `Transaction worker state belongs to ${state.accountAddress}, it can not be used for ${accountAddress}`,
+        );
+      }
+      for (const persisted of state.transactions) {
+        this.persistedTransactions.set(persisted.id, persisted);
+        this.pushedTransactions.set(persisted.id, {
+          payload: deserializePayload(persisted.payload),
+          correlationId: persisted.correlationId,
+        });
+        this.nextTransactionId = Math.max(this.nextTransactionId, Number(persisted.id) + 1);
+        if (persisted.sequenceNumber === undefined) {
+          this.transactionsQueue.enqueue([deserializePayload(persisted.payload), persisted.options, persisted.id]);
+        }
+      }
+    })();
+    return this.loadingState;
+  }
+
+  /**
+   * Reconciles the persisted transactions that had been signed with the on-chain sequence number of the account, and
+   * continues the local sequence number after the highest one still in flight.
+   */
+  private async resume(): Promise<void> {
+    await this.loadState();
+    const signedTransactions = [...this.persistedTransactions.values()]
+      .filter((persisted) => persisted.sequenceNumber !== undefined)
+      .sort((a, b) => (BigInt(a.sequenceNumber!) < BigInt(b.sequenceNumber!) ? -1 : 1));
+
+    const onChainSequenceNumber = await this.accountSequnceNumber.update();
+    let nextSequenceNumber = onChainSequenceNumber;
+    for (const persisted of signedTransactions) {
+      const sequenceNumber = BigInt(persisted.sequenceNumber!);
+      if (sequenceNumber < onChainSequenceNumber) {
+        await this.reportCommittedTransaction(persisted, sequenceNumber);
+      } else {
+        const pendingTransaction = this.resubmit(persisted, sequenceNumber);
+        await this.outstandingTransactions.enqueue([pendingTransaction, sequenceNumber, persisted.id]);
+        nextSequenceNumber = sequenceNumber + BigInt(1);
+      }
+    }
+    this.accountSequnceNumber.currentNumber = nextSequenceNumber;
+  }
+
+  /**
+   * Reports the outcome of a persisted transaction whose sequence number has already been used on chain.
+   */
+  private async reportCommittedTransaction(persisted: PersistedTransaction, sequenceNumber: bigint): Promise<void> {
+    let committed: TransactionResponse | undefined;
+    try {
+      committed = await getTransactionByHash({ aptosConfig: this.aptosConfig, transactionHash: persisted.hash! });
+    } catch (error: any) {
+      if (!(error instanceof AptosApiError && error.status === 404)) {
+        throw error;
+      }
+    }
+    await this.forgetTransaction(persisted.id);
+
+    if (committed && isUserTransactionResponse(committed) && committed.success) {
+      this.executedTransactions.push([committed.hash, sequenceNumber, null]);
+      this.emit(TransactionWorkerEventsEnum.TransactionExecuted, {
+        message: `transaction hash ${committed.hash} has been executed on chain`,
+        transactionHash: committed.hash,
+        ...this.eventDetails(persisted.id, sequenceNumber),
+      });
+      this.settleTransaction(persisted.id, { transaction: committed });
+    } else {
+      const error =
+        committed && isUserTransactionResponse(committed)
+          ? committed.vm_status
+          : `sequence number ${sequenceNumber} was used by another transaction`;
+      this.executedTransactions.push(["rejected", sequenceNumber, error]);
+      this.emit(TransactionWorkerEventsEnum.TransactionExecutionFailed, {
+        message: `failed to execute transaction ${persisted.hash} with error ${error}`,
+        error,
+        ...this.eventDetails(persisted.id, sequenceNumber),
+      });
+      this.settleTransaction(persisted.id, { error });
+    }
+  }
+
+  /**
+   * Submits a persisted transaction again, signing it again with the same sequence number if it has expired.
+   */
+  private async resubmit(persisted: PersistedTransaction, sequenceNumber: bigint): Promise<PendingTransactionResponse> {
+    const transaction = SimpleTransaction.deserialize(Deserializer.fromHex(persisted.transaction!));
+    if (transaction.rawTransaction.expiration_timestamp_secs > BigInt(nowInSeconds())) {
+      const senderAuthenticator = AccountAuthenticator.deserialize(
+        Deserializer.fromHex(persisted.senderAuthenticator!),
+      );
+      return submitTransaction({ aptosConfig: this.aptosConfig, transaction, senderAuthenticator });
+    }
+    // An expired transaction can no longer be committed, so its sequence number can safely be signed again
+    const renewedTransaction = await buildTransaction({
       aptosConfig: this.aptosConfig,
-      sender: account.accountAddress,
-      data: transactionData,
-      options: { ...options, accountSequenceNumber: sequenceNumber },
+      sender: this.account.accountAddress,
+      payload: deserializePayload(persisted.payload) as AnyTransactionPayloadInstance,
+      options: { ...persisted.options, expireTimestamp: undefined, accountSequenceNumber: sequenceNumber },
     });
+    return this.signAndSubmit(renewedTransaction, persisted.id);
+  }
+
+  /**
+   * Removes a transaction whose outcome is known from the worker's storage.
+   */
+  private async forgetTransaction(id?: string): Promise<void> {
+    if (id === undefined || !this.persistedTransactions.delete(id)) return;
+    await this.saveState();
+  }
+
+  /**
+   * Saves a snapshot of the persisted transactions, after any save still in progress.
+   */
+  private saveState(): Promise<void> {
+    if (this.storage === undefined) return Promise.resolve();
+    const { storage } = this;
+    const state: TransactionWorkerState = {
+      version: 1,
+      accountAddress: this.account.accountAddress.toString(),
+      transactions: [...this.persistedTransactions.values()].map((persisted) => ({ ...persisted })),
+    };
+    const saved = this.saving.then(() => storage.save(state));
+    this.saving = saved.catch(() => {});
+    return saved;
   }
 
   /**
@@ -374,6 +841,9 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
       throw new Error("worker has already started");
     }
     this.started = true;
+    if (this.storage !== undefined) {
+      this.taskQueue.enqueue(() => this.resume());
+    }
     this.taskQueue.enqueue(() => this.submitNextTransaction());
     this.taskQueue.enqueue(() => this.processTransactions());
     this.run();
@@ -394,3 +864,19 @@ export class TransactionWorker extends EventEmitter<TransactionWorkerEvents> {
     this.taskQueue.cancel();
   }
 }
+
+/**
+ * Keeps the options of a pushed transaction that are persisted with it.
+ */
+function persistedOptions(options?: InputGenerateTransactionOptions): PersistedTransactionOptions | undefined {
+  if (options === undefined) return undefined;
+  const { maxGasAmount, gasUnitPrice, expireTimestamp } = options;
+  return { maxGasAmount, gasUnitPrice, expireTimestamp };
+}
+
+/**
+ * Deserializes a persisted transaction payload.
+ */
+function deserializePayload(payload: string): TransactionPayload {
+  return TransactionPayload.deserialize(Deserializer.fromHex(payload));
+}
@@ -0,0 +1,97 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { InputGenerateTransactionOptions } from "../types";
+
+/**
+ * The transaction options kept for a persisted transaction, i.e. everything but the sequence number, which the
+ * worker assigns.
+ * @group Implementation
+ * @category Transactions
+ */
+export type PersistedTransactionOptions = Pick<
+  InputGenerateTransactionOptions,
+  "maxGasAmount" | "gasUnitPrice" | "expireTimestamp"
+>;
+
+/**
+ * A transaction the worker has accepted but not yet seen the outcome of.
+ *
+ * A transaction without a `sequenceNumber` is still queued.  Once it has been assigned one, it is persisted together
+ * with the signed transaction before it is submitted, so that after a restart it is submitted again byte for byte
+ * instead of being signed a second time.
+ *
+ * @param id - Identifies the transaction within the worker's state.
+ * @param payload - The BCS serialized transaction payload, as a hex string.
+ * @param options - The options the transaction was pushed with.
+ * @param correlationId - The correlation id the transaction was pushed with.
+ * @param sequenceNumber - The sequence number assigned to the transaction, as a decimal string.
+ * @param transaction - The BCS serialized `SimpleTransaction`, as a hex string.
+ * @param senderAuthenticator - The BCS serialized sender `AccountAuthenticator`, as a hex string.
+ * @param hash - The hash of the signed transaction.
+ * @group Implementation
+ * @category Transactions
+ */
+export type PersistedTransaction = {
+  id: string;
+  payload: string;
+  options?: PersistedTransactionOptions;
+  correlationId?: string;
+  sequenceNumber?: string;
+  transaction?: string;
+  senderAuthenticator?: string;
+  hash?: string;
+};
+
+/**
+ * Everything a `TransactionWorker` needs to resume after a restart.  The state only contains plain JSON values.
+ *
+ * @param version - The version of the state format.
+ * @param accountAddress - The address of the account the transactions are sent from.
+ * @param transactions - The transactions the worker has not finished with, in the order they were pushed.
+ * @group Implementation
+ * @category Transactions
+ */
+export type TransactionWorkerState = {
+  version: 1;
+  accountAddress: string;
+  transactions: PersistedTransaction[];
+};
+
+/**
+ * Where a `TransactionWorker` persists its state.
+ *
+ * The worker saves the complete state every time it changes, and waits for a save to complete before it submits a
+ * transaction.  Saves are never run concurrently.
+ * @group Implementation
+ * @category Transactions
+ */
+export interface TransactionWorkerStorage {
+  /**
+   * Loads the last saved state, or undefined if nothing has been saved yet.
+   */
+  load(): Promise<TransactionWorkerState | undefined>;
+
+  /**
+   * Replaces the saved state.
+   */
+  save(state: TransactionWorkerState): Promise<void>;
+}
+
+/**
+ * A {@link TransactionWorkerStorage} keeping the state in memory, which lets a new worker in the same process pick up
+ * where a stopped one left off.  Use a `FileTransactionWorkerStorage` from the CLI entry point to survive restarts.
+ * @group Implementation
+ * @category Transactions
+ */
+export class InMemoryTransactionWorkerStorage implements TransactionWorkerStorage {
+  private state?: TransactionWorkerState;
+
+  async load(): Promise<TransactionWorkerState | undefined> {
+    return this.state === undefined ? undefined : structuredClone(this.state);
+  }
+
+  async save(state: TransactionWorkerState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
@@ -0,0 +1,436 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress } from "../../core";
+import { MoveFunction, MoveFunctionGenericTypeParam, MoveModule, MoveModuleId, MoveStruct } from "../../types";
+import { TypeTag, TypeTagReference } from "../typeTag";
+import { parseTypeTag } from "../typeTag/parser";
+import { findFirstNonSignerArg } from "./helpers";
+
+/**
+ * A TypeScript module generated from the ABI of a Move module by {@link generateTypeScriptFromAbis}.
+ * @group Implementation
+ * @category Transactions
+ */
+export type GeneratedModuleFile = {
+  /**
+   * The Move module the file was generated from, e.g. `0x1::coin`
+   */
+  moduleId: MoveModuleId;
+  /**
+   * The name of the file, e.g. `coin.ts`
+   */
+  fileName: string;
+  /**
+   * The TypeScript source of the file
+   */
+  code: string;
+};
+
+/**
+ * The options of the generated code.
+ * @group Implementation
+ * @category Transactions
+ */
+export type AbiCodegenOptions = {
+  /**
+   * The module the generated code imports the SDK from. Defaults to `@aptos-labs/ts-sdk`.
+   */
+  sdkImport?: string;
+};
+
+/**
+ * Names that the generated code uses, which struct types can't shadow.
+ */
+const RESERVED_TYPE_NAMES = new Set(["Array", "Promise", "Record", "Aptos"]);
+
+/**
+ * The state of the generation of one file.
+ */
+type CodegenContext = {
+  module: MoveModule;
+  moduleId: string;
+  /**
+   * The generated modules, by module id, with the name their files are imported as
+   */
+  generated: Map<string, { fileName: string; namespace: string; module: MoveModule }>;
+  /**
+   * The names imported from the SDK
+   */
+  sdkImports: Set<string>;
+  /**
+   * The other generated files that are imported, by namespace
+   */
+  fileImports: Map<string, string>;
+};
+
+function normalizeModuleId(address: string | AccountAddress, moduleName: string): string {
+  return `${AccountAddress.from(address).toString()}::${moduleName}`;
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(
+    /([a-z0-9])_+([a-zA-Z0-9])/g,
+    (_match, before: string, after: string) => before + after.toUpperCase(),
+  );
+}
+
+function structTypeName(name: string): string {
+  return RESERVED_TYPE_NAMES.has(name) ? `${name}Struct` : name;
+}
+
+function typeParameters(params: Array<MoveFunctionGenericTypeParam>): string {
+  if (params.length === 0) {
+    return "";
+  }
+  return `<${params.map((_param, i) => `T${i} = any`).join(", ")}>`;
+}
+
+/**
+ * Returns the TypeScript type of an argument of an entry or view function, in the forms that
+ * `checkOrConvertArgument` converts.
+ */
+function argumentType(typeTag: TypeTag, ctx: CodegenContext): string {
+  switch (typeTag.toString()) {
+    case "bool":
+      return "boolean";
+    case "u8":
+    case "u16":
+    case "u32":
+    case "i8":
+    case "i16":
+    case "i32":
+      return "number";
+    case "u64":
+    case "u128":
+    case "u256":
+    case "i64":
+    case "i128":
+    case "i256":
+      ctx.sdkImports.add("AnyNumber");
+      return "AnyNumber";
+    case "address":
+      ctx.sdkImports.add("AccountAddressInput");
+      return "AccountAddressInput";
+    default:
+      break;
+  }
+  if (typeTag.isVector()) {
+    if (typeTag.value.isU8()) {
+      return "string | Uint8Array";
+    }
+    return `Array<${argumentType(typeTag.value, ctx)}>`;
+  }
+  if (typeTag.isStruct()) {
+    if (typeTag.isString()) {
+      return "string";
+    }
+    if (typeTag.isObject()) {
+      ctx.sdkImports.add("AccountAddressInput");
+      return "AccountAddressInput";
+    }
+    if (typeTag.isOption()) {
+      return `${argumentType(typeTag.value.typeArgs[0], ctx)} | null | undefined`;
+    }
+  }
+  if (typeTag.isFunction()) {
+    return "Uint8Array";
+  }
+  ctx.sdkImports.add("EntryFunctionArgumentTypes");
+  ctx.sdkImports.add("SimpleEntryFunctionArgumentTypes");
+  return "EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes";
+}
+
+/**
+ * Returns the TypeScript type of a Move value in the JSON format of the API, e.g. of a struct field or of the
+ * result of a view function.  Generic type parameters are kept as `T0`, `T1`, ... in struct fields, and are `any`
+ * elsewhere.
+ */
+function valueType(typeTag: TypeTag, ctx: CodegenContext, inStruct: boolean): string {
+  switch (typeTag.toString()) {
+    case "bool":
+      return "boolean";
+    case "u8":
+    case "u16":
+    case "u32":
+    case "i8":
+    case "i16":
+    case "i32":
+      return "number";
+    case "u64":
+    case "u128":
+    case "u256":
+    case "i64":
+    case "i128":
+    case "i256":
+    case "address":
+    case "signer":
+      return "string";
+    default:
+      break;
+  }
+  if (typeTag.isGeneric()) {
+    return inStruct ? typeTag.toString() : "any";
+  }
+  if (typeTag.isVector()) {
+    if (typeTag.value.isU8()) {
+      return "string";
+    }
+    return `Array<${valueType(typeTag.value, ctx, inStruct)}>`;
+  }
+  if (typeTag instanceof TypeTagReference) {
+    return valueType(typeTag.value, ctx, inStruct);
+  }
+  if (!typeTag.isStruct()) {
+    return "any";
+  }
+  if (typeTag.isString()) {
+    return "string";
+  }
+  if (typeTag.isObject()) {
+    return "{ inner: string }";
+  }
+  if (typeTag.isOption()) {
+    return `{ vec: [] | [${valueType(typeTag.value.typeArgs[0], ctx, inStruct)}] }`;
+  }
+
+  const { address, moduleName, name, typeArgs } = typeTag.value;
+  const moduleId = normalizeModuleId(address, moduleName.identifier);
+  const generated = ctx.generated.get(moduleId);
+  if (!generated?.module.structs.some((struct) => struct.name === name.identifier)) {
+    return "Record<string, any>";
+  }
+  const args = typeArgs.length > 0 ? `<${typeArgs.map((arg) => valueType(arg, ctx, inStruct)).join(", ")}>` : "";
+  if (moduleId === ctx.moduleId) {
+    return `${structTypeName(name.identifier)}${args}`;
+  }
+  ctx.fileImports.set(generated.namespace, generated.fileName);
+  return `${generated.namespace}.${structTypeName(name.identifier)}${args}`;
+}
+
+function generateStruct(struct: MoveStruct, ctx: CodegenContext): string {
+  const fields = struct.fields.map((field) => {
+    const fieldType = valueType(parseTypeTag(field.type, { allowGenerics: true }), ctx, true);
+    return `  ${field.name}: ${fieldType};`;
+  });
+  const kind = struct.is_event ? "event" : "struct";
+  return [
+    "/**",
+    ` * The \`${ctx.moduleId}::${struct.name}\` ${kind}.`,
+    " */",
+    `export type ${structTypeName(struct.name)}${typeParameters(struct.generic_type_params)} = {`,
+    ...fields,
+    "};",
+  ].join("\n");
+}
+
+function abiTypeParameters(params: Array<MoveFunctionGenericTypeParam>, ctx: CodegenContext): string {
+  const typeParams = params.map((param) => {
+    const constraints = param.constraints.map((constraint) => {
+      ctx.sdkImports.add("MoveAbility");
+      return `MoveAbility.${constraint.toUpperCase()}`;
+    });
+    return `{ constraints: [${constraints.join(", ")}] }`;
+  });
+  return `[${typeParams.join(", ")}]`;
+}
+
+function abiTypeTags(types: Array<string>, ctx: CodegenContext): string {
+  if (types.length === 0) {
+    return "[]";
+  }
+  ctx.sdkImports.add("parseTypeTag");
+  const typeTags = types.map((type) =>
+    /\bT\d+\b/.test(type)
+      ? `parseTypeTag(${JSON.stringify(type)}, { allowGenerics: true })`
+      : `parseTypeTag(${JSON.stringify(type)})`,
+  );
+  return `[${typeTags.join(", ")}]`;
+}
+
+/**
+ * Returns the fields of the `args` parameter of a generated function, and the lines that pass them on.
+ */
+function functionArgs(
+  func: MoveFunction,
+  params: Array<string>,
+  ctx: CodegenContext,
+): { fields: Array<string>; payload: Array<string> } {
+  const fields: Array<string> = [];
+  const payload: Array<string> = [];
+  if (func.generic_type_params.length > 0) {
+    ctx.sdkImports.add("TypeArgument");
+    fields.push(`typeArguments: [${func.generic_type_params.map(() => "TypeArgument").join(", ")}]`);
+    payload.push("typeArguments: args.typeArguments,");
+  }
+  if (params.length > 0) {
+    const types = params.map((param) => argumentType(parseTypeTag(param, { allowGenerics: true }), ctx));
+    fields.push(`functionArguments: [${types.join(", ")}]`);
+    payload.push("functionArguments: args.functionArguments,");
+  } else {
+    payload.push("functionArguments: [],");
+  }
+  return { fields, payload };
+}
+
+function generateEntryFunction(func: MoveFunction, ctx: CodegenContext): string {
+  const signers = findFirstNonSignerArg(func);
+  const params = func.params.slice(signers);
+  const { fields, payload } = functionArgs(func, params, ctx);
+  ctx.sdkImports.add("InputEntryFunctionDataWithABI");
+  const argsParam = fields.length > 0 ? `args: { ${fields.join("; ")} }` : "";
+  return [
+    "  /**",
+    `   * Builds the payload of the \`${ctx.moduleId}::${func.name}\` entry function.`,
+    "   */",
+    `  ${toCamelCase(func.name)}(${argsParam}): InputEntryFunctionDataWithABI {`,
+    "    return {",
+    `      function: "${ctx.moduleId}::${func.name}",`,
+    ...payload.map((line) => `      ${line}`),
+    "      abi: {",
+    `        signers: ${signers},`,
+    `        typeParameters: ${abiTypeParameters(func.generic_type_params, ctx)},`,
+    `        parameters: ${abiTypeTags(params, ctx)},`,
+    "      },",
+    "    };",
+    "  },",
+  ].join("\n");
+}
+
+function generateViewFunction(func: MoveFunction, ctx: CodegenContext): string {
+  const { fields, payload } = functionArgs(func, func.params, ctx);
+  ctx.sdkImports.add("Aptos");
+  ctx.sdkImports.add("LedgerVersionArg");
+  const returnType = `[${func.return.map((type) => valueType(parseTypeTag(type, { allowGenerics: true }), ctx, false)).join(", ")}]`;
+  const argsParam =
+    fields.length > 0
+      ? `args: { ${fields.join("; ")}; options?: LedgerVersionArg }`
+      : "args: { options?: LedgerVersionArg } = {}";
+  return [
+    "  /**",
+    `   * Calls the \`${ctx.moduleId}::${func.name}\` view function.`,
+    "   */",
+    `  async ${toCamelCase(func.name)}(aptos: Aptos, ${argsParam}): Promise<${returnType}> {`,
+    "    return aptos.view<Array<any>>({",
+    "      payload: {",
+    `        function: "${ctx.moduleId}::${func.name}",`,
+    ...payload.map((line) => `        ${line}`),
+    "        abi: {",
+    `          typeParameters: ${abiTypeParameters(func.generic_type_params, ctx)},`,
+    `          parameters: ${abiTypeTags(func.params, ctx)},`,
+    `          returnTypes: ${abiTypeTags(func.return, ctx)},`,
+    "        },",
+    "      },",
+    "      options: args.options,",
+    `    }) as Promise<${returnType}>;`,
+    "  },",
+  ].join("\n");
+}
+
+function generateModule(ctx: CodegenContext, options: AbiCodegenOptions): string {
+  const { module } = ctx;
+  const structs = module.structs.filter((struct) => !struct.is_native).map((struct) => generateStruct(struct, ctx));
+  const entryFunctions = module.exposed_functions
+    .filter((func) => func.is_entry)
+    .map((func) => generateEntryFunction(func, ctx));
+  const viewFunctions = module.exposed_functions
+    .filter((func) => func.is_view)
+    .map((func) => generateViewFunction(func, ctx));
+
+  const sections: Array<string> = [`export const MODULE_ID = "${ctx.moduleId}";`, ...structs];
+  sections.push(
+    [
+      "/**",
+      ` * Payload builders for the entry functions of \`${ctx.moduleId}\`, to pass to \`aptos.transaction.build.simple\`.`,
+      " */",
+      "export const entry = {",
+      ...(entryFunctions.length > 0 ? [entryFunctions.join("\n\n")] : []),
+      "};",
+    ].join("\n"),
+  );
+  sections.push(
+    [
+      "/**",
+      ` * Callers of the view functions of \`${ctx.moduleId}\`.`,
+      " */",
+      "export const view = {",
+      ...(viewFunctions.length > 0 ? [viewFunctions.join("\n\n")] : []),
+      "};",
+    ].join("\n"),
+  );
+
+  const imports: Array<string> = [];
+  if (ctx.sdkImports.size > 0) {
+    const names = Array.from(ctx.sdkImports).sort();
+    imports.push(`import { ${names.join(", ")} } from "${options.sdkImport ?? "@aptos-labs/ts-sdk"}";`);
+  }
+  Array.from(ctx.fileImports.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([namespace, fileName]) => {
+      imports.push(`import type * as ${namespace} from "./${fileName.replace(/\.ts$/, "")}";`);
+    });
+
+  const header = [
+    `// Generated from the ABI of ${ctx.moduleId}. Do not edit this file by hand.`,
+    "/* eslint-disable */",
+  ].join("\n");
+  return `${[header, imports.join("\n"), ...sections].filter((section) => section.length > 0).join("\n\n")}\n`;
+}
+
+/**
+ * Generates TypeScript modules from the ABIs of Move modules, e.g. as returned by `fetchModuleAbi`. Each module
+ * gets a file with:
+ *
+ * - a type for each struct, in the JSON format of the API, for resources and events
+ * - `entry`, with a builder for each entry function that returns an `InputEntryFunctionDataWithABI`
+ * - `view`, with a caller for each view function with typed results
+ *
+ * The ABIs are embedded in the generated code, so that no ABI is fetched when the functions are used. Structs of
+ * other generated modules are imported from their files, and other structs are typed as `Record<string, any>`.
+ *
+ * @example
+ * ```typescript
+ * const files = generateTypeScriptFromAbis({ modules: [await fetchModuleAbi("0x1", "coin", aptosConfig)] });
+ * // ... write the files, then:
+ * import { entry, view } from "./coin";
+ * const transaction = await aptos.transaction.build.simple({
+ *   sender: alice.accountAddress,
+ *   data: entry.transfer({ typeArguments: ["0x1::aptos_coin::AptosCoin"], functionArguments: [bob, 100] }),
+ * });
+ * const [balance] = await view.balance(aptos, {
+ *   typeArguments: ["0x1::aptos_coin::AptosCoin"],
+ *   functionArguments: [alice.accountAddress],
+ * });
+ * ```
+ *
+ * @param args.modules - The ABIs of the modules to generate code for.
+ * @param args.sdkImport - The module the generated code imports the SDK from. Defaults to `@aptos-labs/ts-sdk`.
+ * @returns A file for each module.
+ * @group Implementation
+ * @category Transactions
+ */
+export function generateTypeScriptFromAbis(
+  args: { modules: Array<MoveModule> } & AbiCodegenOptions,
+): Array<GeneratedModuleFile> {
+  const { modules, ...options } = args;
+  const nameCounts = new Map<string, number>();
+  modules.forEach((module) => nameCounts.set(module.name, (nameCounts.get(module.name) ?? 0) + 1));
+
+  const generated: CodegenContext["generated"] = new Map();
+  modules.forEach((module) => {
+    const address = AccountAddress.from(module.address);
+    const sharedName = (nameCounts.get(module.name) ?? 0) > 1;
+    const baseName = sharedName ? `${address.toStringWithoutPrefix()}_${module.name}` : module.name;
+    generated.set(normalizeModuleId(address, module.name), {
+      fileName: `${baseName}.ts`,
+      // An identifier can't start with the digits of the address
+      namespace: `${toCamelCase(sharedName ? `m${baseName}` : baseName)}Module`,
+      module,
+    });
+  });
+
+  return Array.from(generated.entries()).map(([moduleId, { fileName, module }]) => {
+    const ctx: CodegenContext = { module, moduleId, generated, sdkImports: new Set(), fileImports: new Map() };
+    return { moduleId: moduleId as MoveModuleId, fileName, code: generateModule(ctx, options) };
+  });
+}
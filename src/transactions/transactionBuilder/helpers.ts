@@ -8,7 +8,25 @@ import {
   InputScriptData,
   SimpleEntryFunctionArgumentTypes,
 } from "../types";
-import { Bool, FixedBytes, MoveOption, MoveString, MoveVector, U128, U16, U256, U32, U64, U8 } from "../../bcs";
+import {
+  Bool,
+  FixedBytes,
+  I128,
+  I16,
+  I256,
+  I32,
+  I64,
+  I8,
+  MoveOption,
+  MoveString,
+  MoveVector,
+  U128,
+  U16,
+  U256,
+  U32,
+  U64,
+  U8,
+} from "../../bcs";
 import { AccountAddress } from "../../core";
 import { MoveFunction } from "../../types";
 
@@ -166,6 +184,7 @@ export function isEncodedEntryFunctionArgument(
      * @category Transactions
      */
     isBcsU256(arg) ||
+    isBcsSignedInteger(arg) ||
     /**
      * Determines if the provided argument is an instance of AccountAddress.
      * This function helps validate whether a given input corresponds to a valid BCS address type.
@@ -268,6 +287,60 @@ export function isBcsU128(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionA
 export function isBcsU256(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is U256 {
   return arg instanceof U256;
 }
+/**
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsI8(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is I8 {
+  return arg instanceof I8;
+}
+/**
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsI16(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is I16 {
+  return arg instanceof I16;
+}
+/**
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsI32(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is I32 {
+  return arg instanceof I32;
+}
+/**
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsI64(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is I64 {
+  return arg instanceof I64;
+}
+/**
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsI128(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is I128 {
+  return arg instanceof I128;
+}
+/**
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsI256(arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes): arg is I256 {
+  return arg instanceof I256;
+}
+/**
+ * Determines if the provided argument is an instance of any of the signed integer classes, I8 through I256.
+ *
+ * @param arg - The argument to check, which can be of type EntryFunctionArgumentTypes or SimpleEntryFunctionArgumentTypes.
+ * @group Implementation
+ * @category Transactions
+ */
+export function isBcsSignedInteger(
+  arg: EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes,
+): arg is I8 | I16 | I32 | I64 | I128 | I256 {
+  return isBcsI8(arg) || isBcsI16(arg) || isBcsI32(arg) || isBcsI64(arg) || isBcsI128(arg) || isBcsI256(arg);
+}
 
 /**
  * Determines if the provided argument contains script data input by checking for the presence of bytecode.
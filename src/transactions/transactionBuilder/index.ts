@@ -4,4 +4,6 @@
 export * from "./helpers";
 export * from "./transactionBuilder";
 export * from "./remoteAbi";
+export * from "./moveValueDecoder";
+export * from "./abiCodegen";
 export * from "./signingMessage";
@@ -0,0 +1,270 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AptosConfig } from "../../api/aptosConfig";
+import { Deserializer } from "../../bcs/deserializer";
+import { AccountAddress, Hex } from "../../core";
+import { HexInput, MoveModule, MoveStruct } from "../../types";
+import { StructTag, TypeTag, TypeTagStruct, TypeTagVector } from "../typeTag";
+import { parseTypeTag } from "../typeTag/parser";
+import { fetchModuleAbi } from "./remoteAbi";
+
+/**
+ * A Move value decoded from BCS, in the same shape as the JSON API returns it:
+ *
+ * `bool -> boolean`
+ *
+ * `u8, u16, u32, i8, i16, i32 -> number`
+ *
+ * `u64, u128, u256, i64, i128, i256 -> string`
+ *
+ * `address, signer -> string`
+ *
+ * `vector<u8> -> hex string`
+ *
+ * `vector -> Array`
+ *
+ * `0x1::string::String -> string`
+ *
+ * `struct -> object of its fields`, e.g. `{ vec: [] }` for an Option and `{ inner: "0x1" }` for an Object
+ * @group Implementation
+ * @category Transactions
+ */
+export type DecodedMoveValue =
+  | boolean
+  | number
+  | string
+  | Array<DecodedMoveValue>
+  | { [field: string]: DecodedMoveValue };
+
+/**
+ * Returns the key of a module in the ABIs passed to {@link decodeMoveValue}.
+ */
+function moduleKey(address: AccountAddress, moduleName: string): string {
+  return `${address.toString()}::${moduleName}`;
+}
+
+/**
+ * Replaces the generic type parameters in a type, e.g. in the type of a struct field, with the given type arguments.
+ *
+ * @param typeTag - The type that may contain generic type parameters.
+ * @param typeArgs - The type arguments, by index of the generic type parameter.
+ * @returns The type without generic type parameters.
+ * @group Implementation
+ * @category Transactions
+ */
+export function substituteTypeArguments(typeTag: TypeTag, typeArgs: Array<TypeTag>): TypeTag {
+  if (typeTag.isGeneric()) {
+    const typeArg = typeArgs[typeTag.value];
+    if (typeArg === undefined) {
+      throw new Error(`No type argument for generic type parameter ${typeTag.toString()}`);
+    }
+    return typeArg;
+  }
+  if (typeTag.isVector()) {
+    return new TypeTagVector(substituteTypeArguments(typeTag.value, typeArgs));
+  }
+  if (typeTag.isStruct()) {
+    const { address, moduleName, name } = typeTag.value;
+    return new TypeTagStruct(
+      new StructTag(
+        address,
+        moduleName,
+        name,
+        typeTag.value.typeArgs.map((typeArg) => substituteTypeArguments(typeArg, typeArgs)),
+      ),
+    );
+  }
+  return typeTag;
+}
+
+/**
+ * Finds the definition of a struct in the given module ABIs.
+ */
+function findStruct(typeTag: TypeTagStruct, modules: Map<string, MoveModule>): MoveStruct {
+  const { address, moduleName, name } = typeTag.value;
+  const struct = modules
+    .get(moduleKey(address, moduleName.identifier))
+    ?.structs.find((moduleStruct) => moduleStruct.name === name.identifier);
+  if (struct === undefined) {
+    throw new Error(`Could not find struct ABI for '${typeTag.toString()}'`);
+  }
+  if (struct.is_native) {
+    throw new Error(`Native struct '${typeTag.toString()}' can't be decoded`);
+  }
+  return struct;
+}
+
+/**
+ * Returns the field types of a struct, with its type arguments filled in.
+ */
+function structFields(typeTag: TypeTagStruct, modules: Map<string, MoveModule>): Array<[string, TypeTag]> {
+  return findStruct(typeTag, modules).fields.map((field) => [
+    field.name,
+    substituteTypeArguments(parseTypeTag(field.type, { allowGenerics: true }), typeTag.value.typeArgs),
+  ]);
+}
+
+/**
+ * Fetches the ABIs of the modules that define the structs in the given types, including the structs nested in their
+ * fields, so that values of the types can be decoded with {@link decodeMoveValue}.
+ *
+ * Strings, options and objects are decoded without their module ABIs.
+ *
+ * @param args.aptosConfig - The configuration settings for Aptos.
+ * @param args.typeTags - The types of the values to decode.
+ * @returns The module ABIs.
+ * @throws Error if a module or struct ABI can't be found.
+ * @group Implementation
+ * @category Transactions
+ */
+export async function fetchStructAbis(args: {
+  aptosConfig: AptosConfig;
+  typeTags: Array<TypeTag>;
+}): Promise<Array<MoveModule>> {
+  const { aptosConfig, typeTags } = args;
+  const modules = new Map<string, MoveModule>();
+  const visited = new Set<string>();
+
+  const visit = async (typeTag: TypeTag): Promise<void> => {
+    if (typeTag.isVector()) {
+      await visit(typeTag.value);
+      return;
+    }
+    if (!typeTag.isStruct() || typeTag.isString() || typeTag.isObject() || visited.has(typeTag.toString())) {
+      return;
+    }
+    visited.add(typeTag.toString());
+    if (typeTag.isOption()) {
+      await visit(typeTag.value.typeArgs[0]);
+      return;
+    }
+
+    const { address, moduleName } = typeTag.value;
+    const key = moduleKey(address, moduleName.identifier);
+    if (!modules.has(key)) {
+      const moduleAbi = await fetchModuleAbi(address.toString(), moduleName.identifier, aptosConfig);
+      if (!moduleAbi) {
+        throw new Error(`Could not find module ABI for '${key}'`);
+      }
+      modules.set(key, moduleAbi);
+    }
+    const fields = structFields(typeTag, modules);
+    for (let i = 0; i < fields.length; i += 1) {
+      // Fields are visited one at a time, so that each module is only fetched once
+      // eslint-disable-next-line no-await-in-loop
+      await visit(fields[i][1]);
+    }
+  };
+
+  for (let i = 0; i < typeTags.length; i += 1) {
+    // eslint-disable-next-line no-await-in-loop
+    await visit(typeTags[i]);
+  }
+  return Array.from(modules.values());
+}
+
+/**
+ * Decodes a single value of the given type from the deserializer.
+ */
+function decode(typeTag: TypeTag, deserializer: Deserializer, modules: Map<string, MoveModule>): DecodedMoveValue {
+  switch (typeTag.toString()) {
+    case "bool":
+      return deserializer.deserializeBool();
+    case "u8":
+      return deserializer.deserializeU8();
+    case "u16":
+      return deserializer.deserializeU16();
+    case "u32":
+      return deserializer.deserializeU32();
+    case "u64":
+      return deserializer.deserializeU64().toString();
+    case "u128":
+      return deserializer.deserializeU128().toString();
+    case "u256":
+      return deserializer.deserializeU256().toString();
+    case "i8":
+      return deserializer.deserializeI8();
+    case "i16":
+      return deserializer.deserializeI16();
+    case "i32":
+      return deserializer.deserializeI32();
+    case "i64":
+      return deserializer.deserializeI64().toString();
+    case "i128":
+      return deserializer.deserializeI128().toString();
+    case "i256":
+      return deserializer.deserializeI256().toString();
+    case "address":
+    case "signer":
+      return AccountAddress.deserialize(deserializer).toString();
+    default:
+      break;
+  }
+  if (typeTag.isVector()) {
+    if (typeTag.value.isU8()) {
+      return Hex.fromHexInput(deserializer.deserializeBytes()).toString();
+    }
+    const length = deserializer.deserializeUleb128AsU32();
+    const values: Array<DecodedMoveValue> = [];
+    for (let i = 0; i < length; i += 1) {
+      values.push(decode(typeTag.value, deserializer, modules));
+    }
+    return values;
+  }
+  if (typeTag.isStruct()) {
+    if (typeTag.isString()) {
+      return deserializer.deserializeStr();
+    }
+    if (typeTag.isOption()) {
+      return { vec: decode(new TypeTagVector(typeTag.value.typeArgs[0]), deserializer, modules) };
+    }
+    if (typeTag.isObject()) {
+      return { inner: AccountAddress.deserialize(deserializer).toString() };
+    }
+    const value: { [field: string]: DecodedMoveValue } = {};
+    structFields(typeTag, modules).forEach(([name, fieldType]) => {
+      value[name] = decode(fieldType, deserializer, modules);
+    });
+    return value;
+  }
+  throw new Error(`Type '${typeTag.toString()}' can't be decoded`);
+}
+
+/**
+ * Decodes the BCS bytes of a Move value into a JS value, in the same shape as the JSON API returns it. Structs are
+ * decoded with the struct definitions in the given module ABIs, which {@link fetchStructAbis} fetches.
+ *
+ * @example
+ * ```typescript
+ * const typeTag = parseTypeTag("0x1::coin::CoinStore<0x1::aptos_coin::AptosCoin>");
+ * const modules = await fetchStructAbis({ aptosConfig, typeTags: [typeTag] });
+ * const coinStore = decodeMoveValue({ typeTag, bytes, modules });
+ * console.log(coinStore.coin.value);
+ * ```
+ *
+ * @param args.typeTag - The type of the value.
+ * @param args.bytes - The BCS bytes of the value.
+ * @param args.modules - The ABIs of the modules that define the structs in the type.
+ * @returns The decoded value.
+ * @throws Error if a struct definition is missing, the type can't be decoded, e.g. a function value, or there are
+ * bytes left after the value.
+ * @group Implementation
+ * @category Transactions
+ */
+export function decodeMoveValue<T extends DecodedMoveValue = any>(args: {
+  typeTag: TypeTag;
+  bytes: HexInput;
+  modules: Array<MoveModule>;
+}): T {
+  const { typeTag, bytes, modules } = args;
+  const modulesByKey = new Map(
+    modules.map((moduleAbi) => [moduleKey(AccountAddress.from(moduleAbi.address), moduleAbi.name), moduleAbi]),
+  );
+  const deserializer = new Deserializer(Hex.fromHexInput(bytes).toUint8Array());
+  const value = decode(typeTag, deserializer, modulesByKey);
+  if (deserializer.remaining() !== 0) {
+    throw new Error(`Unexpected ${deserializer.remaining()} bytes left after decoding '${typeTag.toString()}'`);
+  }
+  return value as T;
+}
@@ -15,6 +15,7 @@ import {
   KeylessPublicKey,
   KeylessSignature,
   Secp256k1PublicKey,
+  Secp256r1PublicKey,
   FederatedKeylessPublicKey,
   MultiKey,
   MultiKeySignature,
@@ -24,7 +25,12 @@ import { getInfo } from "../../internal/utils";
 import { getLedgerInfo } from "../../internal/general";
 import { getGasPriceEstimation } from "../../internal/transaction";
 import { NetworkToChainId } from "../../utils/apiEndpoints";
-import { DEFAULT_MAX_GAS_AMOUNT, DEFAULT_TXN_EXP_SEC_FROM_NOW } from "../../utils/const";
+import {
+  DEFAULT_MAX_GAS_AMOUNT,
+  DEFAULT_TXN_EXP_SEC_FROM_NOW,
+  ORDERLESS_TXN_MAX_EXP_SEC_FROM_NOW,
+  ORDERLESS_TXN_SEQUENCE_NUMBER,
+} from "../../utils/const";
 import { normalizeBundle } from "../../utils/normalizeBundle";
 import {
   AccountAuthenticator,
@@ -51,6 +57,13 @@ import {
   MultiSigTransactionPayload,
   RawTransaction,
   Script,
+  TransactionExecutable,
+  TransactionExecutableEmpty,
+  TransactionExecutableEntryFunction,
+  TransactionExecutableScript,
+  TransactionExtraConfigV1,
+  TransactionInnerPayload,
+  TransactionInnerPayloadV1,
   TransactionPayloadEntryFunction,
   TransactionPayloadMultiSig,
   TransactionPayloadScript,
@@ -83,6 +96,7 @@ import { isScriptDataInput } from "./helpers";
 import { SimpleTransaction } from "../instances/simpleTransaction";
 import { MultiAgentTransaction } from "../instances/multiAgentTransaction";
 import { getFunctionParts } from "../../utils/helpers";
+import { AnyNumber } from "../../types";
 
 /**
  * Builds a transaction payload based on the provided arguments and returns a transaction payload.
@@ -337,6 +351,47 @@ function generateTransactionPayloadScript(args: InputScriptData) {
   );
 }
 
+/**
+ * Converts a transaction payload to the newer payload format, optionally with a replay protection nonce, which makes
+ * the transaction orderless.  A payload already in the newer format keeps its executable and multisig address.
+ *
+ * @param payload - The transaction payload to convert.
+ * @param replayProtectionNonce - Optional. The nonce protecting the transaction against replays.
+ * @returns The payload in the newer format.
+ * @group Implementation
+ * @category Transactions
+ */
+export function convertPayloadToInnerPayload(
+  payload: AnyTransactionPayloadInstance,
+  replayProtectionNonce?: AnyNumber,
+): TransactionInnerPayload {
+  let executable: TransactionExecutable;
+  let multisigAddress: AccountAddress | undefined;
+  if (payload instanceof TransactionInnerPayloadV1) {
+    if (replayProtectionNonce === undefined) {
+      return payload;
+    }
+    ({ executable } = payload);
+    multisigAddress = (payload.extra_config as TransactionExtraConfigV1).multisig_address;
+  } else if (payload instanceof TransactionPayloadEntryFunction) {
+    executable = new TransactionExecutableEntryFunction(payload.entryFunction);
+  } else if (payload instanceof TransactionPayloadScript) {
+    executable = new TransactionExecutableScript(payload.script);
+  } else if (payload instanceof TransactionPayloadMultiSig) {
+    const { multisig_address: address, transaction_payload: multisigPayload } = payload.multiSig;
+    executable = multisigPayload
+      ? new TransactionExecutableEntryFunction(multisigPayload.transaction_payload)
+      : new TransactionExecutableEmpty();
+    multisigAddress = address;
+  } else {
+    throw new Error(`Unsupported transaction payload ${payload.constructor.name}`);
+  }
+  return new TransactionInnerPayloadV1(
+    executable,
+    new TransactionExtraConfigV1(multisigAddress, replayProtectionNonce),
+  );
+}
+
 /**
  * Generates a raw transaction that can be sent to the Aptos network.
  *
@@ -358,7 +413,12 @@ export async function generateRawTransaction(args: {
   options?: InputGenerateTransactionOptions;
   feePayerAddress?: AccountAddressInput;
 }): Promise<RawTransaction> {
-  const { aptosConfig, sender, payload, options, feePayerAddress } = args;
+  const { aptosConfig, sender, options, feePayerAddress } = args;
+  const payload =
+    options?.replayProtectionNonce !== undefined
+      ? convertPayloadToInnerPayload(args.payload, options.replayProtectionNonce)
+      : args.payload;
+  const isOrderless = payload instanceof TransactionInnerPayload && payload.replayProtectionNonce !== undefined;
 
   const getChainId = async () => {
     if (NetworkToChainId[aptosConfig.network]) {
@@ -377,6 +437,11 @@ export async function generateRawTransaction(args: {
   };
 
   const getSequenceNumberForAny = async () => {
+    // The sequence number of an orderless transaction is ignored, so there is no need to look it up
+    if (isOrderless) {
+      return ORDERLESS_TXN_SEQUENCE_NUMBER;
+    }
+
     const getSequenceNumber = async () => {
       if (options?.accountSequenceNumber !== undefined) {
         return options.accountSequenceNumber;
@@ -415,6 +480,12 @@ export async function generateRawTransaction(args: {
     gasUnitPrice: options?.gasUnitPrice ?? BigInt(gasEstimate),
     expireTimestamp: options?.expireTimestamp ?? BigInt(Math.floor(Date.now() / 1000) + DEFAULT_TXN_EXP_SEC_FROM_NOW),
   };
+  if (
+    isOrderless &&
+    BigInt(expireTimestamp) > BigInt(Math.floor(Date.now() / 1000) + ORDERLESS_TXN_MAX_EXP_SEC_FROM_NOW)
+  ) {
+    throw new Error(`Orderless transactions must expire within ${ORDERLESS_TXN_MAX_EXP_SEC_FROM_NOW} seconds`);
+  }
 
   return new RawTransaction(
     AccountAddress.from(sender),
@@ -614,7 +685,8 @@ export function getAuthenticatorForSimulation(publicKey?: PublicKey) {
   const convertToAnyPublicKey =
     KeylessPublicKey.isInstance(publicKey) ||
     FederatedKeylessPublicKey.isInstance(publicKey) ||
-    Secp256k1PublicKey.isInstance(publicKey);
+    Secp256k1PublicKey.isInstance(publicKey) ||
+    publicKey instanceof Secp256r1PublicKey;
   const accountPublicKey = convertToAnyPublicKey ? new AnyPublicKey(publicKey) : publicKey;
 
   // No need to for the signature to be matching in scheme. All that matters for simulations is that it's not valid
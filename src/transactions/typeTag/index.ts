@@ -4,11 +4,12 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable class-methods-use-this */
 /* eslint-disable max-classes-per-file */
+/* eslint-disable no-bitwise */
 import { Deserializer } from "../../bcs/deserializer";
 import { Serializable, Serializer } from "../../bcs/serializer";
 import { AccountAddress } from "../../core";
 import { Identifier } from "../instances/identifier";
-import { TypeTagVariants } from "../../types";
+import { FunctionParamOrReturnTagVariants, MoveAbility, TypeTagVariants } from "../../types";
 
 /**
  * Represents a type tag in the serialization framework, serving as a base class for various specific type tags.
@@ -63,6 +64,20 @@ export abstract class TypeTag extends Serializable {
         return TypeTagU32.load(deserializer);
       case TypeTagVariants.U256:
         return TypeTagU256.load(deserializer);
+      case TypeTagVariants.Function:
+        return TypeTagFunction.load(deserializer);
+      case TypeTagVariants.I8:
+        return TypeTagI8.load(deserializer);
+      case TypeTagVariants.I16:
+        return TypeTagI16.load(deserializer);
+      case TypeTagVariants.I32:
+        return TypeTagI32.load(deserializer);
+      case TypeTagVariants.I64:
+        return TypeTagI64.load(deserializer);
+      case TypeTagVariants.I128:
+        return TypeTagI128.load(deserializer);
+      case TypeTagVariants.I256:
+        return TypeTagI256.load(deserializer);
       case TypeTagVariants.Generic:
         // This is only used for ABI representation, and cannot actually be used as a type.
         return TypeTagGeneric.load(deserializer);
@@ -129,6 +144,17 @@ export abstract class TypeTag extends Serializable {
     return this instanceof TypeTagVector;
   }
 
+  /**
+   * Checks if the current instance is a function type, the type of a Move function value.
+   *
+   * @returns {boolean} True if the instance is of type TypeTagFunction, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isFunction(): this is TypeTagFunction {
+    return this instanceof TypeTagFunction;
+  }
+
   /**
    * Determines if the current instance is a structure type.
    *
@@ -206,6 +232,72 @@ export abstract class TypeTag extends Serializable {
     return this instanceof TypeTagU256;
   }
 
+  /**
+   * Checks if the current instance is of type TypeTagI8.
+   *
+   * @returns {boolean} Returns true if the instance is of type TypeTagI8, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isI8(): this is TypeTagI8 {
+    return this instanceof TypeTagI8;
+  }
+
+  /**
+   * Checks if the current instance is of type TypeTagI16.
+   *
+   * @returns {boolean} Returns true if the instance is of type TypeTagI16, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isI16(): this is TypeTagI16 {
+    return this instanceof TypeTagI16;
+  }
+
+  /**
+   * Checks if the current instance is of type TypeTagI32.
+   *
+   * @returns {boolean} Returns true if the instance is of type TypeTagI32, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isI32(): this is TypeTagI32 {
+    return this instanceof TypeTagI32;
+  }
+
+  /**
+   * Checks if the current instance is of type TypeTagI64.
+   *
+   * @returns {boolean} Returns true if the instance is of type TypeTagI64, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isI64(): this is TypeTagI64 {
+    return this instanceof TypeTagI64;
+  }
+
+  /**
+   * Checks if the current instance is of type TypeTagI128.
+   *
+   * @returns {boolean} Returns true if the instance is of type TypeTagI128, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isI128(): this is TypeTagI128 {
+    return this instanceof TypeTagI128;
+  }
+
+  /**
+   * Checks if the current instance is of type TypeTagI256.
+   *
+   * @returns {boolean} Returns true if the instance is of type TypeTagI256, otherwise false.
+   * @group Implementation
+   * @category Transactions
+   */
+  isI256(): this is TypeTagI256 {
+    return this instanceof TypeTagI256;
+  }
+
   isPrimitive(): boolean {
     return (
       this instanceof TypeTagSigner ||
@@ -216,7 +308,13 @@ export abstract class TypeTag extends Serializable {
       this instanceof TypeTagU32 ||
       this instanceof TypeTagU64 ||
       this instanceof TypeTagU128 ||
-      this instanceof TypeTagU256
+      this instanceof TypeTagU256 ||
+      this instanceof TypeTagI8 ||
+      this instanceof TypeTagI16 ||
+      this instanceof TypeTagI32 ||
+      this instanceof TypeTagI64 ||
+      this instanceof TypeTagI128 ||
+      this instanceof TypeTagI256
     );
   }
 }
@@ -401,6 +499,138 @@ export class TypeTagU256 extends TypeTag {
   }
 }
 
+/**
+ * Represents a type tag for the signed I8 data type.
+ * This class extends the base TypeTag class and provides methods for serialization and deserialization.
+ *
+ * @extends TypeTag
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagI8 extends TypeTag {
+  toString(): string {
+    return "i8";
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.I8);
+  }
+
+  static load(_deserializer: Deserializer): TypeTagI8 {
+    return new TypeTagI8();
+  }
+}
+
+/**
+ * Represents a type tag for the signed I16 data type.
+ * This class extends the base TypeTag class and provides methods for serialization and deserialization.
+ *
+ * @extends TypeTag
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagI16 extends TypeTag {
+  toString(): string {
+    return "i16";
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.I16);
+  }
+
+  static load(_deserializer: Deserializer): TypeTagI16 {
+    return new TypeTagI16();
+  }
+}
+
+/**
+ * Represents a type tag for the signed I32 data type.
+ * This class extends the base TypeTag class and provides methods for serialization and deserialization.
+ *
+ * @extends TypeTag
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagI32 extends TypeTag {
+  toString(): string {
+    return "i32";
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.I32);
+  }
+
+  static load(_deserializer: Deserializer): TypeTagI32 {
+    return new TypeTagI32();
+  }
+}
+
+/**
+ * Represents a type tag for the signed I64 data type.
+ * This class extends the base TypeTag class and provides methods for serialization and deserialization.
+ *
+ * @extends TypeTag
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagI64 extends TypeTag {
+  toString(): string {
+    return "i64";
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.I64);
+  }
+
+  static load(_deserializer: Deserializer): TypeTagI64 {
+    return new TypeTagI64();
+  }
+}
+
+/**
+ * Represents a type tag for the signed I128 data type.
+ * This class extends the base TypeTag class and provides methods for serialization and deserialization.
+ *
+ * @extends TypeTag
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagI128 extends TypeTag {
+  toString(): string {
+    return "i128";
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.I128);
+  }
+
+  static load(_deserializer: Deserializer): TypeTagI128 {
+    return new TypeTagI128();
+  }
+}
+
+/**
+ * Represents a type tag for the signed I256 data type.
+ * This class extends the base TypeTag class and provides methods for serialization and deserialization.
+ *
+ * @extends TypeTag
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagI256 extends TypeTag {
+  toString(): string {
+    return "i256";
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.I256);
+  }
+
+  static load(_deserializer: Deserializer): TypeTagI256 {
+    return new TypeTagI256();
+  }
+}
+
 /**
  * Represents a type tag for an address in the system.
  * This class extends the TypeTag class and provides functionality
@@ -458,17 +688,21 @@ export class TypeTagSigner extends TypeTag {
  */
 export class TypeTagReference extends TypeTag {
   toString(): `&${string}` {
-    return `&${this.value.toString()}`;
+    return this.mutable ? `&mut ${this.value.toString()}` : `&${this.value.toString()}`;
   }
 
   /**
    * Initializes a new instance of the class with the specified parameters.
    *
    * @param value - The TypeTag to reference.
+   * @param mutable - Whether the reference is mutable, i.e. `&mut`. Defaults to false.
    * @group Implementation
    * @category Transactions
    */
-  constructor(public readonly value: TypeTag) {
+  constructor(
+    public readonly value: TypeTag,
+    public readonly mutable: boolean = false,
+  ) {
     super();
   }
 
@@ -663,6 +897,109 @@ export class TypeTagStruct extends TypeTag {
   }
 }
 
+/**
+ * The bits of each ability in the serialized ability set of a function type.
+ * @group Implementation
+ * @category Transactions
+ */
+const ABILITY_BITS: Record<MoveAbility, number> = {
+  [MoveAbility.COPY]: 0x1,
+  [MoveAbility.DROP]: 0x2,
+  [MoveAbility.STORE]: 0x4,
+  [MoveAbility.KEY]: 0x8,
+};
+
+/**
+ * Represents the type of a Move function value (closure), e.g. `|u64, &signer| bool has copy + drop`.
+ * References are only allowed in the parameters and results of a function type, where they are represented with
+ * TypeTagReference.
+ *
+ * @param args - The parameter types of the function.
+ * @param results - The return types of the function.
+ * @param abilities - The abilities of the function value, kept in the order copy, drop, store and key.
+ * @group Implementation
+ * @category Transactions
+ */
+export class TypeTagFunction extends TypeTag {
+  public readonly abilities: Array<MoveAbility>;
+
+  toString(): `|${string}` {
+    const args = this.args.map((arg) => arg.toString()).join(", ");
+    let results = "";
+    if (this.results.length === 1) {
+      results = this.results[0].toString();
+    } else if (this.results.length > 1) {
+      results = `(${this.results.map((result) => result.toString()).join(", ")})`;
+    }
+    const abilities = this.abilities.length > 0 ? ` has ${this.abilities.join(" + ")}` : "";
+    return `|${args}|${results}${abilities}`;
+  }
+
+  constructor(
+    public readonly args: Array<TypeTag>,
+    public readonly results: Array<TypeTag>,
+    abilities: Array<MoveAbility> = [],
+  ) {
+    super();
+    this.abilities = (Object.keys(ABILITY_BITS) as Array<MoveAbility>).filter((ability) => abilities.includes(ability));
+  }
+
+  serialize(serializer: Serializer): void {
+    serializer.serializeU32AsUleb128(TypeTagVariants.Function);
+    serializer.serializeU32AsUleb128(this.args.length);
+    this.args.forEach((arg) => TypeTagFunction.serializeParamOrReturn(serializer, arg));
+    serializer.serializeU32AsUleb128(this.results.length);
+    this.results.forEach((result) => TypeTagFunction.serializeParamOrReturn(serializer, result));
+    serializer.serializeU8(this.abilities.reduce((bits, ability) => bits | ABILITY_BITS[ability], 0));
+  }
+
+  static load(deserializer: Deserializer): TypeTagFunction {
+    const args = TypeTagFunction.deserializeParamsOrReturns(deserializer);
+    const results = TypeTagFunction.deserializeParamsOrReturns(deserializer);
+    const bits = deserializer.deserializeU8();
+    const abilities = (Object.keys(ABILITY_BITS) as Array<MoveAbility>).filter(
+      (ability) => (bits & ABILITY_BITS[ability]) !== 0,
+    );
+    return new TypeTagFunction(args, results, abilities);
+  }
+
+  private static serializeParamOrReturn(serializer: Serializer, typeTag: TypeTag): void {
+    if (typeTag instanceof TypeTagReference) {
+      serializer.serializeU32AsUleb128(
+        typeTag.mutable
+          ? FunctionParamOrReturnTagVariants.MutableReference
+          : FunctionParamOrReturnTagVariants.Reference,
+      );
+      typeTag.value.serialize(serializer);
+    } else {
+      serializer.serializeU32AsUleb128(FunctionParamOrReturnTagVariants.Value);
+      typeTag.serialize(serializer);
+    }
+  }
+
+  private static deserializeParamsOrReturns(deserializer: Deserializer): Array<TypeTag> {
+    const length = deserializer.deserializeUleb128AsU32();
+    const typeTags: Array<TypeTag> = [];
+    for (let i = 0; i < length; i += 1) {
+      const index = deserializer.deserializeUleb128AsU32();
+      switch (index) {
+        case FunctionParamOrReturnTagVariants.Reference:
+          typeTags.push(new TypeTagReference(TypeTag.deserialize(deserializer)));
+          break;
+        case FunctionParamOrReturnTagVariants.MutableReference:
+          typeTags.push(new TypeTagReference(TypeTag.deserialize(deserializer), true));
+          break;
+        case FunctionParamOrReturnTagVariants.Value:
+          typeTags.push(TypeTag.deserialize(deserializer));
+          break;
+        default:
+          throw new Error(`Unknown variant index for FunctionParamOrReturnTag: ${index}`);
+      }
+    }
+    return typeTags;
+  }
+}
+
 /**
  * Represents a structured tag that includes an address, module name,
  * name, and type arguments. This class is used to define and manage
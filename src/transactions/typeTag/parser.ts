@@ -6,7 +6,14 @@ import {
   TypeTag,
   TypeTagAddress,
   TypeTagBool,
+  TypeTagFunction,
   TypeTagGeneric,
+  TypeTagI128,
+  TypeTagI16,
+  TypeTagI256,
+  TypeTagI32,
+  TypeTagI64,
+  TypeTagI8,
   TypeTagReference,
   TypeTagSigner,
   TypeTagStruct,
@@ -20,6 +27,7 @@ import {
 } from ".";
 import { AccountAddress } from "../../core";
 import { Identifier } from "../instances/identifier";
+import { MoveAbility } from "../../types";
 
 /**
  * Determines if the provided string is a valid Move identifier, which can only contain alphanumeric characters and underscores.
@@ -79,6 +87,12 @@ function isPrimitive(str: string) {
     case "u64":
     case "u128":
     case "u256":
+    case "i8":
+    case "i16":
+    case "i32":
+    case "i64":
+    case "i128":
+    case "i256":
       return true;
     default:
       return false;
@@ -138,6 +152,10 @@ export enum TypeTagParserErrorType {
   InvalidModuleNameCharacter = "module name must only contain alphanumeric or '_' characters",
   InvalidStructNameCharacter = "struct name must only contain alphanumeric or '_' characters",
   InvalidAddress = "struct address must be valid",
+  MissingFunctionParametersClose = "no matching '|' for '|'",
+  MissingFunctionResultsClose = "no matching ')' for '('",
+  UnexpectedFunctionTypeArguments = "function types not expected to have type arguments",
+  InvalidAbility = "abilities must be one of copy, drop, store or key",
 }
 
 /**
@@ -264,6 +282,13 @@ export function parseTypeTag(typeStr: string, options?: { allowGenerics?: boolea
       curTypes.push(newType);
       currentStr = "";
       expectedTypes += 1;
+    } else if (char === "|" && currentStr === "") {
+      // Function types can contain commas and whitespace, so the whole type is taken as the current string at once
+      const { end } = parseFunctionTypeTag(typeStr, cur, allowGenerics);
+      currentStr = typeStr.substring(cur, end);
+      cur = end;
+      // eslint-disable-next-line no-continue
+      continue;
     } else if (isValidWhitespaceCharacter(char)) {
       // This means we should save what we have and everything else should skip until the next
       let parsedTypeTag = false;
@@ -354,12 +379,36 @@ function parseTypeTagInner(str: string, types: Array<TypeTag>, allowGenerics: bo
       return new TypeTagU128();
     case "u256":
       return new TypeTagU256();
+    case "i8":
+      return new TypeTagI8();
+    case "i16":
+      return new TypeTagI16();
+    case "i32":
+      return new TypeTagI32();
+    case "i64":
+      return new TypeTagI64();
+    case "i128":
+      return new TypeTagI128();
+    case "i256":
+      return new TypeTagI256();
     case "vector":
       if (types.length !== 1) {
         throw new TypeTagParserError(str, TypeTagParserErrorType.UnexpectedVectorTypeArgumentCount);
       }
       return new TypeTagVector(types[0]);
     default:
+      // Function types are parsed on their own, as they can't have type arguments
+      if (trimmedStr.startsWith("|")) {
+        if (types.length > 0) {
+          throw new TypeTagParserError(str, TypeTagParserErrorType.UnexpectedFunctionTypeArguments);
+        }
+        const { typeTag, end } = parseFunctionTypeTag(trimmedStr, 0, allowGenerics);
+        if (end !== trimmedStr.length) {
+          throw new TypeTagParserError(str, TypeTagParserErrorType.UnexpectedWhitespaceCharacter);
+        }
+        return typeTag;
+      }
+
       // Reference will have to handle the inner type
       if (isRef(trimmedStr)) {
         const actualType = trimmedStr.substring(1);
@@ -408,3 +457,161 @@ function parseTypeTagInner(str: string, types: Array<TypeTag>, allowGenerics: bo
       );
   }
 }
+
+/**
+ * Determines if the abilities of a function type, e.g. `has copy + drop`, start at the given position.
+ * @param typeStr - The type string being parsed.
+ * @param pos - The position to check.
+ * @group Implementation
+ * @category Transactions
+ */
+function isAbilitiesStart(typeStr: string, pos: number) {
+  return typeStr.startsWith("has", pos) && (pos + 3 === typeStr.length || isValidWhitespaceCharacter(typeStr[pos + 3]));
+}
+
+/**
+ * Parses a parameter or result type of a function type starting at the given position. These can be references, e.g.
+ * `&mut u64`, or function types themselves, and end at the first top level ',', '|' or ')' or whitespace.
+ *
+ * @param typeStr - The type string being parsed.
+ * @param start - The position of the parameter or result type.
+ * @param allowGenerics - A boolean indicating whether generics are allowed in the parsing of the type tag.
+ * @returns The parsed type tag and the position after it.
+ * @group Implementation
+ * @category Transactions
+ */
+function parseFunctionParamOrReturn(
+  typeStr: string,
+  start: number,
+  allowGenerics: boolean,
+): { typeTag: TypeTag; end: number } {
+  let pos = consumeWhitespace(typeStr, start);
+  if (typeStr[pos] === "|") {
+    return parseFunctionTypeTag(typeStr, pos, allowGenerics);
+  }
+  if (typeStr[pos] === "&") {
+    pos += 1;
+    const mutable = typeStr.startsWith("mut", pos) && isValidWhitespaceCharacter(typeStr[pos + 3] ?? "");
+    if (mutable) {
+      pos += 3;
+    }
+    const { typeTag, end } = parseFunctionParamOrReturn(typeStr, pos, allowGenerics);
+    return { typeTag: new TypeTagReference(typeTag, mutable), end };
+  }
+
+  let depth = 0;
+  let end = pos;
+  for (; end < typeStr.length; end += 1) {
+    const char = typeStr[end];
+    if (char === "<") {
+      depth += 1;
+    } else if (char === ">") {
+      if (depth === 0) {
+        break;
+      }
+      depth -= 1;
+    } else if (depth === 0 && (char === "," || char === "|" || char === ")" || isValidWhitespaceCharacter(char))) {
+      break;
+    }
+  }
+  if (end === pos) {
+    throw new TypeTagParserError(typeStr, TypeTagParserErrorType.MissingTypeArgument);
+  }
+  return { typeTag: parseTypeTag(typeStr.substring(pos, end), { allowGenerics }), end };
+}
+
+/**
+ * Parses a comma separated list of function parameter or result types, up to the given closing character.
+ *
+ * @param typeStr - The type string being parsed.
+ * @param start - The position after the opening character.
+ * @param close - The closing character, '|' for parameters and ')' for results.
+ * @param allowGenerics - A boolean indicating whether generics are allowed in the parsing of the type tag.
+ * @returns The parsed type tags and the position after the closing character.
+ * @group Implementation
+ * @category Transactions
+ */
+function parseFunctionParamsOrReturns(
+  typeStr: string,
+  start: number,
+  close: "|" | ")",
+  allowGenerics: boolean,
+): { typeTags: Array<TypeTag>; end: number } {
+  const typeTags: Array<TypeTag> = [];
+  let pos = consumeWhitespace(typeStr, start);
+  while (pos < typeStr.length && typeStr[pos] !== close) {
+    const { typeTag, end } = parseFunctionParamOrReturn(typeStr, pos, allowGenerics);
+    typeTags.push(typeTag);
+    pos = consumeWhitespace(typeStr, end);
+    if (typeStr[pos] === ",") {
+      pos += 1;
+    } else if (typeStr[pos] !== close) {
+      break;
+    }
+  }
+  if (typeStr[pos] !== close) {
+    throw new TypeTagParserError(
+      typeStr,
+      close === "|"
+        ? TypeTagParserErrorType.MissingFunctionParametersClose
+        : TypeTagParserErrorType.MissingFunctionResultsClose,
+    );
+  }
+  return { typeTags, end: pos + 1 };
+}
+
+/**
+ * Parses a function type, e.g. `|u64, &signer| bool has copy + drop`, starting at the opening '|'.
+ * Multiple results are written as a tuple e.g. `|u8|(u8, u64)`, and no results as nothing or `()`.
+ *
+ * @param typeStr - The type string being parsed.
+ * @param start - The position of the opening '|'.
+ * @param allowGenerics - A boolean indicating whether generics are allowed in the parsing of the type tag.
+ * @returns The parsed function type tag and the position after it.
+ * @group Implementation
+ * @category Transactions
+ */
+function parseFunctionTypeTag(
+  typeStr: string,
+  start: number,
+  allowGenerics: boolean,
+): { typeTag: TypeTagFunction; end: number } {
+  const params = parseFunctionParamsOrReturns(typeStr, start + 1, "|", allowGenerics);
+  let pos = params.end;
+
+  let results: Array<TypeTag> = [];
+  let next = consumeWhitespace(typeStr, pos);
+  if (typeStr[next] === "(") {
+    const parsed = parseFunctionParamsOrReturns(typeStr, next + 1, ")", allowGenerics);
+    results = parsed.typeTags;
+    pos = parsed.end;
+  } else if (next < typeStr.length && !",>)|".includes(typeStr[next]) && !isAbilitiesStart(typeStr, next)) {
+    const parsed = parseFunctionParamOrReturn(typeStr, next, allowGenerics);
+    results = [parsed.typeTag];
+    pos = parsed.end;
+  }
+
+  const abilities: Array<MoveAbility> = [];
+  next = consumeWhitespace(typeStr, pos);
+  if (isAbilitiesStart(typeStr, next)) {
+    pos = next + 3;
+    do {
+      const abilityStart = consumeWhitespace(typeStr, pos);
+      pos = abilityStart;
+      while (pos < typeStr.length && isValidIdentifier(typeStr[pos])) {
+        pos += 1;
+      }
+      const ability = typeStr.substring(abilityStart, pos) as MoveAbility;
+      if (!Object.values(MoveAbility).includes(ability)) {
+        throw new TypeTagParserError(typeStr, TypeTagParserErrorType.InvalidAbility);
+      }
+      abilities.push(ability);
+      next = consumeWhitespace(typeStr, pos);
+      if (typeStr[next] === "+") {
+        pos = next + 1;
+      }
+    } while (typeStr[next] === "+");
+  }
+
+  return { typeTag: new TypeTagFunction(params.typeTags, results, abilities), end: pos };
+}
@@ -3,7 +3,7 @@
 
 import { AptosConfig } from "../api/aptosConfig";
 import { MoveOption, MoveString, MoveVector } from "../bcs/serializable/moveStructs";
-import { Bool, U128, U16, U256, U32, U64, U8 } from "../bcs/serializable/movePrimitives";
+import { Bool, I128, I16, I256, I32, I64, I8, U128, U16, U256, U32, U64, U8 } from "../bcs/serializable/movePrimitives";
 import { FixedBytes } from "../bcs/serializable/fixedBytes";
 import { AccountAddress, AccountAddressInput } from "../core";
 import { PublicKey } from "../core/crypto";
@@ -13,6 +13,7 @@ import {
   RawTransaction,
   TransactionPayloadEntryFunction,
   TransactionPayloadMultiSig,
+  TransactionInnerPayload,
   TransactionPayloadScript,
 } from "./instances";
 import { AnyNumber, HexInput, MoveFunctionGenericTypeParam, MoveFunctionId, MoveStructId, MoveValue } from "../types";
@@ -51,6 +52,12 @@ export type EntryFunctionArgumentTypes =
   | U64
   | U128
   | U256
+  | I8
+  | I16
+  | I32
+  | I64
+  | I128
+  | I256
   | AccountAddress
   | MoveVector<EntryFunctionArgumentTypes>
   | MoveOption<EntryFunctionArgumentTypes>
@@ -70,6 +77,12 @@ export type ScriptFunctionArgumentTypes =
   | U64
   | U128
   | U256
+  | I8
+  | I16
+  | I32
+  | I64
+  | I128
+  | I256
   | AccountAddress
   | MoveVector<ScriptFunctionArgumentTypes>
   | MoveString
@@ -88,6 +101,7 @@ export type ScriptFunctionArgumentTypes =
  * - u64
  * - u128
  * - u256
+ * - i8, i16, i32, i64, i128 and i256
  * - bool
  * - address
  * - signer
@@ -118,6 +132,13 @@ export type InputGenerateTransactionOptions = {
   gasUnitPrice?: number;
   expireTimestamp?: number;
   accountSequenceNumber?: AnyNumber;
+  /**
+   * Makes the transaction orderless: it is protected against replays by this nonce instead of by the sender's
+   * sequence number, so it can be submitted in any order with other transactions of the sender.  The payload is
+   * generated in the newer payload format, and the transaction has to expire within
+   * `ORDERLESS_TXN_MAX_EXP_SEC_FROM_NOW` seconds.
+   */
+  replayProtectionNonce?: AnyNumber;
 };
 
 /**
@@ -129,7 +150,8 @@ export type InputGenerateTransactionOptions = {
 export type AnyTransactionPayloadInstance =
   | TransactionPayloadEntryFunction
   | TransactionPayloadScript
-  | TransactionPayloadMultiSig;
+  | TransactionPayloadMultiSig
+  | TransactionInnerPayload;
 
 /**
  * The data needed to generate a transaction payload for Entry Function, Script, or Multi Sig types.
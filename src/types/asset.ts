@@ -0,0 +1,44 @@
+import type { MoveStructId } from "./types";
+
+/**
+ * An asset that is a coin, a fungible asset, or both once the coin is paired with a fungible asset by the coin to
+ * fungible asset migration.
+ * @group Implementation
+ * @category Types
+ */
+export type UnifiedAsset = {
+  /**
+   * The coin type of the asset, undefined for a fungible asset without a paired coin
+   */
+  coinType?: MoveStructId;
+  /**
+   * The address of the fungible asset metadata of the asset, undefined for a coin that isn't paired yet
+   */
+  faMetadataAddress?: string;
+};
+
+/**
+ * The migration of the balance of an account from the `CoinStore` of a coin to the primary store of its paired
+ * fungible asset.
+ * @group Implementation
+ * @category Types
+ */
+export type CoinMigrationStatus = UnifiedAsset & {
+  coinType: MoveStructId;
+  /**
+   * Whether the account still has a `CoinStore` of the coin, which `0x1::coin::migrate_to_fungible_store` removes
+   */
+  hasCoinStore: boolean;
+  /**
+   * The balance in the `CoinStore`, "0" when the account has none
+   */
+  coinStoreBalance: string;
+  /**
+   * The balance in the primary store of the paired fungible asset, "0" when the coin isn't paired
+   */
+  fungibleStoreBalance: string;
+  /**
+   * Whether the account holds the coin in the primary store of the paired fungible asset only
+   */
+  migrated: boolean;
+};
@@ -0,0 +1,24 @@
+import type { AccountAddressInput } from "../core/accountAddress";
+
+/**
+ * A fungible store of an asset: the primary store of an account, or any store by its address.
+ * @group Implementation
+ * @category Types
+ */
+export type FungibleStoreTarget =
+  | {
+      /**
+       * The address of the metadata of the asset
+       */
+      fungibleAssetMetadataAddress: AccountAddressInput;
+      /**
+       * The account owning the primary store
+       */
+      owner: AccountAddressInput;
+    }
+  | {
+      /**
+       * The address of the store object
+       */
+      store: AccountAddressInput;
+    };
@@ -1,2 +1,7 @@
+export * from "./asset";
+export * from "./fungibleAsset";
 export * from "./indexer";
+export * from "./multisig";
+export * from "./object";
+export * from "./staking";
 export * from "./types";
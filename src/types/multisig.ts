@@ -0,0 +1,48 @@
+import type { EntryFunction } from "../transactions/instances/transactionPayload";
+
+/**
+ * A transaction proposed to a multisig account of `0x1::multisig_account`, with the votes of its owners.
+ * @group Implementation
+ * @category Types
+ */
+export type MultisigTransaction = {
+  /**
+   * The sequence number of the transaction in the multisig account, which the owners vote on
+   */
+  sequenceNumber: string;
+  /**
+   * The owner who proposed the transaction
+   */
+  creator: string;
+  creationTimeSecs: string;
+  /**
+   * The entry function the transaction runs, decoded from the payload stored on chain. It is undefined when only the
+   * hash of the payload was stored, in which case the payload has to be given when the transaction is executed.
+   */
+  payload?: EntryFunction;
+  /**
+   * The SHA3-256 hash of the payload, when only the hash was stored
+   */
+  payloadHash?: string;
+  /**
+   * The owners who approved the transaction
+   */
+  approvals: Array<string>;
+  /**
+   * The owners who rejected the transaction
+   */
+  rejections: Array<string>;
+};
+
+/**
+ * The vote of an owner of a multisig account on a transaction.
+ * @group Implementation
+ * @category Types
+ */
+export type MultisigVote = {
+  voted: boolean;
+  /**
+   * Whether the owner approved the transaction, false if it rejected it or didn't vote
+   */
+  approved: boolean;
+};
@@ -0,0 +1,44 @@
+/**
+ * The `0x1::object::ObjectCore` resource, which every object has at its address.
+ * @group Implementation
+ * @category Types
+ */
+export type ObjectCore = {
+  /**
+   * The creation number of the next GUID of the object, from which the address of the next object it creates with
+   * `0x1::object::create_object_from_object` is derived
+   */
+  guid_creation_num: string;
+  /**
+   * The address of the account or object that owns the object
+   */
+  owner: string;
+  /**
+   * Whether the owner can transfer the object with `0x1::object::transfer`, without a `TransferRef`
+   */
+  allow_ungated_transfer: boolean;
+  transfer_events: {
+    counter: string;
+    guid: { id: { addr: string; creation_num: string } };
+  };
+};
+
+/**
+ * The owners of an object, from its direct owner up to the account at the root of the ownership graph.
+ * @group Implementation
+ * @category Types
+ */
+export type ObjectOwnership = {
+  /**
+   * The address of the object
+   */
+  objectAddress: string;
+  /**
+   * The owners of the object, its direct owner first, ending with the root owner
+   */
+  owners: Array<string>;
+  /**
+   * The owner that isn't itself an object, usually an account, or the burn address for a burnt object
+   */
+  rootOwner: string;
+};
@@ -0,0 +1,39 @@
+/**
+ * The stake of a delegator in a delegation pool of `0x1::delegation_pool`, in octas.
+ * @group Implementation
+ * @category Types
+ */
+export type DelegatedStakingPosition = {
+  poolAddress: string;
+  delegatorAddress: string;
+  /**
+   * The stake earning rewards
+   */
+  active: string;
+  /**
+   * The unlocked stake that can be withdrawn
+   */
+  inactive: string;
+  /**
+   * The stake being unlocked, which still earns rewards until the lockup of the pool expires
+   */
+  pendingInactive: string;
+  /**
+   * The time, in seconds since the Unix epoch, at which the lockup of the pool expires, and the pending inactive stake
+   * becomes inactive at the end of the epoch
+   */
+  lockupExpirationSecs: string;
+  /**
+   * The percentage of the rewards of the pool going to its operator, e.g. 10.5 for 10.5%
+   */
+  operatorCommissionPercentage: number;
+  /**
+   * The stake that can be withdrawn now. It includes the pending inactive stake when the pool left the validator set
+   * and its lockup expired.
+   */
+  withdrawable: string;
+  /**
+   * The stake that can be withdrawn once the lockup of the pool expires, unless it is unlocked or reactivated before
+   */
+  withdrawableAfterLockup: string;
+};
@@ -2,6 +2,7 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import { Network } from "../utils/apiEndpoints";
+import { AptosApiType } from "../utils/const";
 import { OrderBy, TokenStandard } from "./indexer";
 
 /**
@@ -44,10 +45,27 @@ export enum TypeTagVariants {
   U16 = 8,
   U32 = 9,
   U256 = 10,
+  Function = 11,
+  I8 = 12,
+  I16 = 13,
+  I32 = 14,
+  I64 = 15,
+  I128 = 16,
+  I256 = 17,
   Reference = 254, // This is specifically a placeholder and does not represent a real type
   Generic = 255, // This is specifically a placeholder and does not represent a real type
 }
 
+/**
+ * Variants of the parameter and return types of a function type tag, as references are only allowed there.
+ * {@link https://github.com/aptos-labs/aptos-core/blob/main/third_party/move/move-core/types/src/language_storage.rs}
+ */
+export enum FunctionParamOrReturnTagVariants {
+  Reference = 0,
+  MutableReference = 1,
+  Value = 2,
+}
+
 /**
  * Variants of script transaction arguments used in Rust, encompassing various data types for transaction processing.
  * {@link https://github.com/aptos-labs/aptos-core/blob/main/third_party/move/move-core/types/src/transaction_argument.rs#L11}
@@ -73,6 +91,33 @@ export enum TransactionPayloadVariants {
   Script = 0,
   EntryFunction = 2,
   Multisig = 3,
+  Payload = 4,
+}
+
+/**
+ * The versions of the inner payload of the newer transaction payload format.
+ * {@link https://github.com/aptos-labs/aptos-core/blob/main/types/src/transaction/mod.rs}
+ */
+export enum TransactionInnerPayloadVariants {
+  V1 = 0,
+}
+
+/**
+ * The code a transaction in the newer payload format runs.
+ * {@link https://github.com/aptos-labs/aptos-core/blob/main/types/src/transaction/mod.rs}
+ */
+export enum TransactionExecutableVariants {
+  Script = 0,
+  EntryFunction = 1,
+  Empty = 2,
+}
+
+/**
+ * The versions of the extra configuration of the newer transaction payload format.
+ * {@link https://github.com/aptos-labs/aptos-core/blob/main/types/src/transaction/mod.rs}
+ */
+export enum TransactionExtraConfigVariants {
+  V1 = 0,
 }
 
 /**
@@ -116,6 +161,7 @@ export enum AccountAuthenticatorVariant {
 export enum PrivateKeyVariants {
   Ed25519 = "ed25519",
   Secp256k1 = "secp256k1",
+  Secp256r1 = "secp256r1",
 }
 
 /**
@@ -124,6 +170,7 @@ export enum PrivateKeyVariants {
 export enum AnyPublicKeyVariant {
   Ed25519 = 0,
   Secp256k1 = 1,
+  Secp256r1 = 2,
   Keyless = 3,
   FederatedKeyless = 4,
 }
@@ -134,9 +181,17 @@ export enum AnyPublicKeyVariant {
 export enum AnySignatureVariant {
   Ed25519 = 0,
   Secp256k1 = 1,
+  WebAuthn = 2,
   Keyless = 3,
 }
 
+/**
+ * Variants of the signatures inside a WebAuthn assertion.
+ */
+export enum AssertionSignatureVariant {
+  Secp256r1 = 0,
+}
+
 /**
  * Variants of ephemeral public keys used in cryptographic operations.
  */
@@ -195,6 +250,36 @@ export type Uint128 = bigint;
  */
 export type Uint256 = bigint;
 
+/**
+ * An 8-bit signed integer.
+ */
+export type Int8 = number;
+
+/**
+ * A 16-bit signed integer.
+ */
+export type Int16 = number;
+
+/**
+ * A 32-bit signed integer.
+ */
+export type Int32 = number;
+
+/**
+ * A 64-bit signed integer value.
+ */
+export type Int64 = bigint;
+
+/**
+ * A 128-bit signed integer value.
+ */
+export type Int128 = bigint;
+
+/**
+ * A 256-bit signed integer value.
+ */
+export type Int256 = bigint;
+
 /**
  * A number or a bigint value.
  */
@@ -225,6 +310,10 @@ export type AptosSettings = {
   readonly indexerConfig?: IndexerConfig;
 
   readonly faucetConfig?: FaucetConfig;
+
+  readonly middlewares?: ClientMiddleware[];
+
+  readonly cache?: CacheConfig;
 };
 
 /**
@@ -274,17 +363,24 @@ export interface WhereArg<T extends {}> {
 export type ClientConfig = ClientHeadersType & {
   WITH_CREDENTIALS?: boolean;
   API_KEY?: string;
+  RETRY?: RetryConfig;
 };
 
 /**
- * A configuration object for a Fullnode, allowing for the inclusion of extra headers in requests.
+ * A configuration object for a Fullnode, allowing for the inclusion of extra headers in requests and a retry policy
+ * that can fail over to other fullnodes.
  */
-export type FullNodeConfig = ClientHeadersType;
+export type FullNodeConfig = ClientHeadersType & {
+  RETRY?: FailoverRetryConfig;
+};
 
 /**
- * An Indexer configuration object for sending requests with additional headers.
+ * An Indexer configuration object for sending requests with additional headers and a retry policy that can fail over
+ * to other indexers.
  */
-export type IndexerConfig = ClientHeadersType;
+export type IndexerConfig = ClientHeadersType & {
+  RETRY?: FailoverRetryConfig;
+};
 
 /**
  * A configuration object for a faucet, including optional authentication and headers for requests.
@@ -300,6 +396,63 @@ export type ClientHeadersType = {
   HEADERS?: Record<string, string | number | boolean>;
 };
 
+/**
+ * Information about a single failed attempt of a request, passed to `RetryConfig.shouldRetry` and
+ * recorded on the error thrown once the request gives up.
+ *
+ * @param attempt - The 1-based number of the attempt.
+ * @param url - The full URL the attempt was sent to.
+ * @param status - The HTTP status of the response, if a response was received.
+ * @param error - The error thrown by the client, if no response was received.
+ * @param delayMs - The time waited before the next attempt, if there was one.
+ */
+export type RequestAttempt = {
+  attempt: number;
+  url: string;
+  status?: number;
+  error?: unknown;
+  delayMs?: number;
+};
+
+/**
+ * A retry policy for requests, applying exponential backoff with optional jitter between attempts.
+ *
+ * Only idempotent requests are retried by default, i.e. GET requests, view functions, simulations, table reads and
+ * indexer queries.  Transaction submissions and faucet requests are sent exactly once unless `retryNonIdempotent` is set.
+ *
+ * @param maxAttempts - The maximum number of attempts including the first one. Defaults to 3.
+ * @param initialDelayMs - The delay before the first retry. Defaults to 200.
+ * @param maxDelayMs - The upper bound for any single delay, including one requested with `Retry-After`. Defaults to 10000.
+ * @param backoffMultiplier - The factor the delay grows by after each attempt. Defaults to 2.
+ * @param jitter - Whether to pick a random delay between 0 and the computed backoff ("full jitter"). Defaults to true.
+ * @param respectRetryAfter - Whether to wait as long as the `Retry-After` response header asks. Defaults to true.
+ * @param retryableStatusCodes - The HTTP statuses that are retried. Defaults to 408, 429, 500, 502, 503 and 504.
+ * @param retryNonIdempotent - Whether to also retry requests that are not safe to repeat. Defaults to false.
+ * @param shouldRetry - An optional hook deciding whether a failed attempt is retried, used instead of `retryableStatusCodes`.
+ * The attempt limit and the idempotency check still apply.
+ */
+export type RetryConfig = {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+  jitter?: boolean;
+  respectRetryAfter?: boolean;
+  retryableStatusCodes?: number[];
+  retryNonIdempotent?: boolean;
+  shouldRetry?: (attempt: RequestAttempt) => boolean;
+};
+
+/**
+ * A retry policy that can additionally move each retry to the next URL in `failoverUrls`, cycling back to the
+ * configured endpoint after the last one.
+ *
+ * @param failoverUrls - Additional endpoints, in order of preference, to try after the configured one.
+ */
+export type FailoverRetryConfig = RetryConfig & {
+  failoverUrls?: string[];
+};
+
 /**
  * Represents a client for making requests to a service provider.
  *
@@ -312,6 +465,7 @@ export interface ClientRequest<Req> {
   originMethod?: string;
   body?: Req;
   contentType?: string;
+  acceptType?: string;
   params?: any;
   overrides?: ClientConfig & FullNodeConfig & IndexerConfig & FaucetConfig;
   headers?: Record<string, any>;
@@ -343,8 +497,100 @@ export interface Client {
    * @param requestOptions.overrides - Optional configuration overrides for the request.
    */
   provider<Req, Res>(requestOptions: ClientRequest<Req>): Promise<ClientResponse<Res>>;
+
+  /**
+   * Optional. Sends a request whose response is BCS, i.e. with an `accept` header of `application/x-bcs`, and returns
+   * the raw bytes of the response. Requests that accept BCS go to `provider` if it isn't set.
+   *
+   * @param requestOptions - The options for the request, as for `provider`.
+   */
+  binaryProvider?<Req>(requestOptions: ClientRequest<Req>): Promise<ClientResponse<ArrayBuffer | Uint8Array>>;
+}
+
+/**
+ * A response as stored in a {@link ResponseCache}, with the headers converted to a plain object.
+ */
+export type CachedResponse = {
+  status: number;
+  statusText: string;
+  data: any;
+  headers: Record<string, string>;
+};
+
+/**
+ * A store for fullnode responses, e.g. in memory, IndexedDB or Redis.
+ *
+ * Implementations must treat keys as opaque strings and may evict entries at any time.  Entries set with a `ttlMs`
+ * must not be returned once it has passed, entries set without one may be kept indefinitely.
+ */
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | undefined> | CachedResponse | undefined;
+  set(key: string, response: CachedResponse, ttlMs?: number): Promise<void> | void;
 }
 
+/**
+ * Describes which fullnode requests can be answered from a {@link ResponseCache}, and for how long.
+ *
+ * @param method - The HTTP method of the request.
+ * @param pattern - Matched against the request URL, without query parameters.
+ * @param requiresLedgerVersion - Only match requests pinned to a `ledger_version` query parameter.
+ * @param ttlMs - How long responses stay valid. Responses are cached indefinitely if unset.
+ * @param isCacheable - An optional check of a successful response, e.g. to skip pending transactions.
+ */
+export type CacheRule = {
+  method: "GET" | "POST";
+  pattern: RegExp;
+  requiresLedgerVersion?: boolean;
+  ttlMs?: number;
+  isCacheable?: (response: ClientResponse<any>) => boolean;
+};
+
+/**
+ * The response cache of an SDK client instance.
+ *
+ * @param store - Where responses are stored.
+ * @param rules - Which requests are cached, defaults to `DEFAULT_CACHE_RULES`, covering immutable chain data.
+ */
+export type CacheConfig = {
+  store: ResponseCache;
+  rules?: CacheRule[];
+};
+
+/**
+ * Information about the request a middleware is invoked for.
+ *
+ * @param apiType - The type of API the request is sent to, e.g. fullnode or indexer.
+ * @param originMethod - The SDK method the request came from, if known.
+ */
+export type ClientMiddlewareContext = {
+  apiType: AptosApiType;
+  originMethod?: string;
+};
+
+/**
+ * A middleware wrapping every request sent through the `Client` of an `AptosConfig`.
+ *
+ * Middlewares run in the order they are registered, each one wrapping the next, with the last one wrapping the client
+ * itself.  A middleware can change the request before handing it to `next`, change or replace the response that `next`
+ * resolves to, or observe errors thrown by it.
+ *
+ * @example
+ * ```typescript
+ * const tracing: ClientMiddleware = async (request, context, next) =>
+ *   next({ ...request, headers: { ...request.headers, traceparent: createTraceParent() } });
+ * ```
+ *
+ * @param request - The request about to be sent, including the final headers.
+ * @param context - The API type and origin method of the request.
+ * @param next - Sends the request through the rest of the chain.
+ * @returns The response for the request.
+ */
+export type ClientMiddleware = (
+  request: ClientRequest<any>,
+  context: ClientMiddlewareContext,
+  next: (request: ClientRequest<any>) => Promise<ClientResponse<any>>,
+) => Promise<ClientResponse<any>>;
+
 /**
  * The API request type
  *
@@ -398,6 +644,14 @@ export type LedgerVersionArg = {
   ledgerVersion?: AnyNumber;
 };
 
+/**
+ * The format to fetch a Move value in. BCS values are decoded with the ABIs of their modules into the same values
+ * as JSON ones, defaulting to JSON if not specified.
+ */
+export type AcceptTypeArg = {
+  acceptType?: MimeType.JSON | MimeType.BCS;
+};
+
 /**
  * RESPONSE TYPES
  */
@@ -560,6 +814,10 @@ export type PendingTransactionResponse = {
   hash: string;
   sender: string;
   sequence_number: string;
+  /**
+   * The replay protection nonce of an orderless transaction, whose sequence number is ignored
+   */
+  replay_protection_nonce?: string;
   max_gas_amount: string;
   gas_unit_price: string;
   expiration_timestamp_secs: string;
@@ -593,6 +851,10 @@ export type UserTransactionResponse = {
   changes: Array<WriteSetChange>;
   sender: string;
   sequence_number: string;
+  /**
+   * The replay protection nonce of an orderless transaction, whose sequence number is ignored
+   */
+  replay_protection_nonce?: string;
   max_gas_amount: string;
   gas_unit_price: string;
   expiration_timestamp_secs: string;
@@ -1238,6 +1500,8 @@ export type MoveType =
  * `Vector -> Array<MoveValue>`
  *
  * `Option -> MoveValue | null | undefined`
+ *
+ * `Function value -> MoveClosure`
  */
 export type MoveValue =
   | boolean
@@ -1252,8 +1516,30 @@ export type MoveValue =
   | MoveObjectType
   | MoveStructId
   | MoveOptionType
+  | MoveClosure
   | Array<MoveValue>;
 
+/**
+ * A Move function value (closure), as decoded from the JSON output of a view function.
+ *
+ * The node returns function values as objects with `__fun_name__`, `__mask__` and `__captured__` fields, in the same
+ * way that it returns enum values with a `__variant__` field.
+ */
+export type MoveClosure = {
+  /**
+   * The function the value calls, e.g. `0x1::module::function`
+   */
+  function: MoveFunctionId;
+  /**
+   * The bitmask of the parameters of the function that are captured by the closure
+   */
+  mask: number;
+  /**
+   * The captured values, in parameter order
+   */
+  captured: Array<MoveValue>;
+};
+
 /**
  * A string representation of a Move module, formatted as `module_name::function_name`.
  * Module names are case-sensitive.
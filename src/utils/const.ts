@@ -38,6 +38,24 @@ export const DEFAULT_MAX_GAS_AMOUNT = 200000;
  */
 export const DEFAULT_TXN_EXP_SEC_FROM_NOW = 20;
 
+/**
+ * The latest an orderless transaction may expire, in seconds from now.
+ *
+ * Orderless transactions are protected against replays by their nonce, which the chain only remembers for a short
+ * time, so it rejects orderless transactions that expire later than this.
+ * @group Implementation
+ * @category Utils
+ */
+export const ORDERLESS_TXN_MAX_EXP_SEC_FROM_NOW = 60;
+
+/**
+ * The sequence number set on orderless transactions.  The chain ignores the sequence number of a transaction that
+ * carries a replay protection nonce.
+ * @group Implementation
+ * @category Utils
+ */
+export const ORDERLESS_TXN_SEQUENCE_NUMBER = BigInt("0xdeadbeef");
+
 /**
  * The default number of seconds to wait for a transaction to be processed.
  *
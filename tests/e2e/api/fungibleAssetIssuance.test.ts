@@ -0,0 +1,150 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { execSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Account, AccountAddress, MoveStructId, SimpleTransaction } from "../../../src";
+import { FUND_AMOUNT, longTestTimeout } from "../../unit/helper";
+import { getAptosClient } from "../helper";
+import { publishPackage } from "../transaction/helper";
+
+const { aptos } = getAptosClient();
+
+const FA_ISSUER_PACKAGE = path.join(__dirname, "../../../move/fa_issuer");
+
+/**
+ * Compiles the `fa_issuer` package at the address of the account with the CLI, and publishes it.
+ */
+async function publishIssuer(account: Account) {
+  const outputFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "fa_issuer-")), "fa_issuer.json");
+  execSync(
+    `aptos move build-publish-payload --json-output-file ${outputFile} --package-dir ${FA_ISSUER_PACKAGE} ` +
+      `--named-addresses FAIssuer=${account.accountAddress} --assume-yes`,
+  );
+  const { args } = JSON.parse(fs.readFileSync(outputFile, "utf8"));
+  await publishPackage(aptos, account, args[0].value, args[1].value);
+}
+
+async function submit(signer: Account, transaction: SimpleTransaction) {
+  const { hash } = await aptos.signAndSubmitTransaction({ signer, transaction });
+  return aptos.waitForTransaction({ transactionHash: hash });
+}
+
+async function primaryStore(owner: Account, metadataAddress: AccountAddress) {
+  const functionArguments = [owner.accountAddress.toString(), metadataAddress.toString()];
+  const typeArguments: Array<MoveStructId> = ["0x1::fungible_asset::Metadata"];
+  const [balance] = await aptos.view<[string]>({
+    payload: { function: "0x1::primary_fungible_store::balance", typeArguments, functionArguments },
+  });
+  const [frozen] = await aptos.view<[boolean]>({
+    payload: { function: "0x1::primary_fungible_store::is_frozen", typeArguments, functionArguments },
+  });
+  return { balance, frozen };
+}
+
+describe("FungibleAsset issuance", () => {
+  const issuer = Account.generate();
+  const creator = Account.generate();
+  const holder = Account.generate();
+
+  beforeAll(async () => {
+    await aptos.fundAccount({ accountAddress: issuer.accountAddress, amount: FUND_AMOUNT });
+    await aptos.fundAccount({ accountAddress: creator.accountAddress, amount: FUND_AMOUNT });
+    await aptos.fundAccount({ accountAddress: holder.accountAddress, amount: FUND_AMOUNT });
+    await publishIssuer(issuer);
+    // The first compilation fetches the framework the package depends on
+  }, 5 * longTestTimeout);
+
+  test(
+    "it creates, mints, burns, freezes and unfreezes a fungible asset",
+    async () => {
+      const issuerAddress = issuer.accountAddress;
+      const { transaction, metadataAddress } = await aptos.createFungibleAssetTransaction({
+        sender: creator.accountAddress,
+        issuerAddress,
+        name: "Issued Token",
+        symbol: "ISSUED",
+        decimals: 6,
+        maxSupply: 1000,
+      });
+      await submit(creator, transaction);
+      const [metadata] = await aptos.view<[{ symbol: string; decimals: number }]>({
+        payload: {
+          function: "0x1::fungible_asset::metadata",
+          typeArguments: ["0x1::fungible_asset::Metadata"],
+          functionArguments: [metadataAddress.toString()],
+        },
+      });
+      expect(metadata).toMatchObject({ symbol: "ISSUED", decimals: 6 });
+
+      const fungibleAssetMetadataAddress = metadataAddress;
+      await submit(
+        creator,
+        await aptos.mintFungibleAssetTransaction({
+          sender: creator.accountAddress,
+          issuerAddress,
+          fungibleAssetMetadataAddress,
+          recipient: holder.accountAddress,
+          amount: 100,
+        }),
+      );
+      expect(await primaryStore(holder, metadataAddress)).toEqual({ balance: "100", frozen: false });
+
+      await submit(
+        creator,
+        await aptos.burnFungibleAssetTransaction({
+          sender: creator.accountAddress,
+          issuerAddress,
+          fungibleAssetMetadataAddress,
+          owner: holder.accountAddress,
+          amount: 40,
+        }),
+      );
+      expect(await primaryStore(holder, metadataAddress)).toEqual({ balance: "60", frozen: false });
+
+      await submit(
+        creator,
+        await aptos.freezeFungibleStoreTransaction({
+          sender: creator.accountAddress,
+          issuerAddress,
+          fungibleAssetMetadataAddress,
+          owner: holder.accountAddress,
+        }),
+      );
+      expect(await primaryStore(holder, metadataAddress)).toEqual({ balance: "60", frozen: true });
+      const transfer = () =>
+        aptos.transferFungibleAsset({
+          sender: holder,
+          fungibleAssetMetadataAddress,
+          recipient: creator.accountAddress,
+          amount: 10,
+        });
+      await expect(submit(holder, await transfer())).rejects.toThrow();
+
+      await submit(
+        creator,
+        await aptos.unfreezeFungibleStoreTransaction({
+          sender: creator.accountAddress,
+          issuerAddress,
+          fungibleAssetMetadataAddress,
+          owner: holder.accountAddress,
+        }),
+      );
+      await submit(holder, await transfer());
+      expect(await primaryStore(holder, metadataAddress)).toEqual({ balance: "50", frozen: false });
+
+      // Only the owner of the metadata can manage the asset
+      const mintByHolder = await aptos.mintFungibleAssetTransaction({
+        sender: holder.accountAddress,
+        issuerAddress,
+        fungibleAssetMetadataAddress,
+        recipient: holder.accountAddress,
+        amount: 1,
+      });
+      await expect(submit(holder, mintByHolder)).rejects.toThrow();
+    },
+    longTestTimeout,
+  );
+});
@@ -952,6 +952,75 @@ describe("transaction submission", () => {
     });
   });
 
+  describe("orderless", () => {
+    const buildOrderless = (replayProtectionNonce: number, withFeePayer?: boolean) =>
+      aptos.transaction.build.simple({
+        sender: singleSignerED25519SenderAccount.accountAddress,
+        withFeePayer,
+        data: {
+          function: `${contractPublisherAccount.accountAddress}::transfer::transfer`,
+          functionArguments: [1, receiverAccounts[0].accountAddress],
+        },
+        options: { replayProtectionNonce },
+      });
+
+    test("it simulates and submits orderless transactions in any order", async () => {
+      const nonce = Math.floor(Math.random() * 1_000_000_000);
+      const first = await buildOrderless(nonce);
+      const second = await buildOrderless(nonce + 1);
+
+      const [simulation] = await aptos.transaction.simulate.simple({
+        signerPublicKey: singleSignerED25519SenderAccount.publicKey,
+        transaction: first,
+      });
+      expect(simulation.success).toBe(true);
+
+      const secondResponse = await aptos.signAndSubmitTransaction({
+        signer: singleSignerED25519SenderAccount,
+        transaction: second,
+      });
+      const firstResponse = await aptos.signAndSubmitTransaction({
+        signer: singleSignerED25519SenderAccount,
+        transaction: first,
+      });
+      const committed = await Promise.all(
+        [firstResponse, secondResponse].map(({ hash }) => aptos.waitForTransaction({ transactionHash: hash })),
+      );
+
+      expect(committed.map(({ success }) => success)).toEqual([true, true]);
+    });
+
+    test("it rejects an orderless transaction with a nonce that has been used", async () => {
+      const nonce = Math.floor(Math.random() * 1_000_000_000);
+      const response = await aptos.signAndSubmitTransaction({
+        signer: singleSignerED25519SenderAccount,
+        transaction: await buildOrderless(nonce),
+      });
+      await aptos.waitForTransaction({ transactionHash: response.hash });
+
+      await expect(
+        aptos.signAndSubmitTransaction({
+          signer: singleSignerED25519SenderAccount,
+          transaction: await buildOrderless(nonce),
+        }),
+      ).rejects.toThrow();
+    });
+
+    test("with fee payer", async () => {
+      const transaction = await buildOrderless(Math.floor(Math.random() * 1_000_000_000), true);
+      const senderAuthenticator = aptos.transaction.sign({ signer: singleSignerED25519SenderAccount, transaction });
+      const feePayerAuthenticator = aptos.transaction.signAsFeePayer({ signer: feePayerAccount, transaction });
+      const response = await aptos.transaction.submit.simple({
+        transaction,
+        senderAuthenticator,
+        feePayerAuthenticator,
+      });
+      const committed = await aptos.waitForTransaction({ transactionHash: response.hash });
+
+      expect(committed.success).toBe(true);
+    });
+  });
+
   describe("transactions with no account authenticator", () => {
     test("it fails to submit a transaction when authenticator in not provided", async () => {
       const transaction = await aptos.transaction.build.simple({
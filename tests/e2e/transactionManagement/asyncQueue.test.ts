@@ -85,4 +85,17 @@ describe("asyncQueue", () => {
 
     expect(asyncQueue.isCancelled()).toBe(false);
   });
+
+  it("should remove a queued item", async () => {
+    const asyncQueue = new AsyncQueue<number>();
+
+    asyncQueue.enqueue(1);
+    asyncQueue.enqueue(2);
+    asyncQueue.enqueue(3);
+
+    expect(asyncQueue.remove((item) => item === 2)).toBe(2);
+    expect(asyncQueue.remove((item) => item === 4)).toBeUndefined();
+    expect(await asyncQueue.dequeue()).toBe(1);
+    expect(await asyncQueue.dequeue()).toBe(3);
+  });
 });
@@ -0,0 +1,287 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { runInNewContext } from "vm";
+import ts from "typescript";
+
+import * as sdk from "../../src";
+import {
+  AccountAddress,
+  generateTypeScriptFromAbis,
+  MoveAbility,
+  MoveFunctionVisibility,
+  MoveModule,
+  parseTypeTag,
+} from "../../src";
+import { readModuleAbis, writeTypeScriptFromAbis } from "../../src/cli";
+
+const ADDRESS = `0x${"42".repeat(32)}`;
+
+const tokenModule: MoveModule = {
+  address: ADDRESS,
+  name: "gen_token",
+  friends: [],
+  exposed_functions: [
+    {
+      name: "mint_to",
+      visibility: MoveFunctionVisibility.PUBLIC,
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [{ constraints: [MoveAbility.STORE] }],
+      params: ["&signer", "address", "u64", "vector<u8>", "0x1::option::Option<0x1::string::String>", "vector<T0>"],
+      return: [],
+    },
+    {
+      name: "pause",
+      visibility: MoveFunctionVisibility.PUBLIC,
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer"],
+      return: [],
+    },
+    {
+      name: "balance_of",
+      visibility: MoveFunctionVisibility.PUBLIC,
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["u64", `${ADDRESS}::gen_token::Store<u8>`, `${ADDRESS}::gen_events::Minted`],
+    },
+    {
+      name: "helper",
+      visibility: MoveFunctionVisibility.PUBLIC,
+      is_entry: false,
+      is_view: false,
+      generic_type_params: [],
+      params: [],
+      return: [],
+    },
+  ],
+  structs: [
+    {
+      name: "Store",
+      is_native: false,
+      is_event: false,
+      abilities: [MoveAbility.KEY],
+      generic_type_params: [{ constraints: [] }],
+      fields: [
+        { name: "amount", type: "u128" },
+        { name: "items", type: "vector<T0>" },
+        { name: "owner", type: "0x1::object::Object<0x1::object::ObjectCore>" },
+        { name: "last", type: `0x1::option::Option<${ADDRESS}::gen_events::Minted>` },
+      ],
+    },
+  ],
+};
+
+const eventsModule: MoveModule = {
+  address: ADDRESS,
+  name: "gen_events",
+  friends: [],
+  exposed_functions: [],
+  structs: [
+    {
+      name: "Minted",
+      is_native: false,
+      is_event: true,
+      abilities: [MoveAbility.DROP, MoveAbility.STORE],
+      generic_type_params: [],
+      fields: [
+        { name: "to", type: "address" },
+        { name: "amount", type: "u64" },
+        { name: "metadata", type: "0x1::fungible_asset::Metadata" },
+      ],
+    },
+  ],
+};
+
+/**
+ * Transpiles a generated module and runs it, with the SDK import resolved to the source tree.
+ */
+function load(code: string, imports: Record<string, any> = {}): any {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+  });
+  const moduleObject = { exports: {} as any };
+  runInNewContext(outputText, {
+    require: (name: string) => (name === "@aptos-labs/ts-sdk" ? sdk : imports[name]),
+    module: moduleObject,
+    exports: moduleObject.exports,
+  });
+  return moduleObject.exports;
+}
+
+describe("generateTypeScriptFromAbis", () => {
+  const files = generateTypeScriptFromAbis({ modules: [tokenModule, eventsModule] });
+  const [token, events] = files;
+
+  it("should generate a file per module", () => {
+    expect(files.map((file) => [file.moduleId, file.fileName])).toEqual([
+      [`${ADDRESS}::gen_token`, "gen_token.ts"],
+      [`${ADDRESS}::gen_events`, "gen_events.ts"],
+    ]);
+  });
+
+  it("should generate struct types in the JSON format", () => {
+    expect(token.code).toContain(`export type Store<T0 = any> = {
+  amount: string;
+  items: Array<T0>;
+  owner: { inner: string };
+  last: { vec: [] | [genEventsModule.Minted] };
+};`);
+    expect(token.code).toMatch(/import type \* as genEventsModule from ".\/gen_events";/);
+    expect(events.code).toContain(`export type Minted = {
+  to: string;
+  amount: string;
+  metadata: Record<string, any>;
+};`);
+  });
+
+  it("should generate typed entry function payload builders with their ABIs", () => {
+    expect(token.code).toContain(
+      "mintTo(args: { typeArguments: [TypeArgument]; functionArguments: " +
+        "[AccountAddressInput, AnyNumber, string | Uint8Array, string | null | undefined, " +
+        "Array<EntryFunctionArgumentTypes | SimpleEntryFunctionArgumentTypes>] }): InputEntryFunctionDataWithABI",
+    );
+    expect(token.code).toContain("pause(): InputEntryFunctionDataWithABI");
+    expect(token.code).not.toContain("helper");
+
+    const { entry } = load(token.code, { "./gen_events": {} });
+    const payload = entry.mintTo({
+      typeArguments: ["u8"],
+      functionArguments: ["0x1", 10, "0x01", null, [1, 2]],
+    });
+    expect(payload.function).toEqual(`${ADDRESS}::gen_token::mint_to`);
+    expect(payload.abi.signers).toEqual(1);
+    expect(payload.abi.typeParameters).toEqual([{ constraints: [MoveAbility.STORE] }]);
+    expect(payload.abi.parameters.map((param: sdk.TypeTag) => param.toString())).toEqual([
+      "address",
+      "u64",
+      "vector<u8>",
+      "0x1::option::Option<0x1::string::String>",
+      "vector<T0>",
+    ]);
+    expect(entry.pause()).toEqual({
+      function: `${ADDRESS}::gen_token::pause`,
+      functionArguments: [],
+      abi: { signers: 1, typeParameters: [], parameters: [] },
+    });
+  });
+
+  it("should build entry function payloads without fetching ABIs", async () => {
+    const { entry } = load(token.code, { "./gen_events": {} });
+    const payload = await sdk.generateTransactionPayload({
+      aptosConfig: new sdk.AptosConfig({
+        network: sdk.Network.LOCAL,
+        client: {
+          provider: async () => {
+            throw new Error("no requests expected");
+          },
+        },
+      }),
+      ...entry.mintTo({
+        typeArguments: ["u8"],
+        functionArguments: [AccountAddress.ONE, 10n, new Uint8Array([1]), "name", [1, 2]],
+      }),
+    });
+    expect(payload).toBeInstanceOf(sdk.TransactionPayloadEntryFunction);
+  });
+
+  it("should generate view function callers with typed results", async () => {
+    expect(token.code).toContain(
+      "async balanceOf(aptos: Aptos, args: { functionArguments: [AccountAddressInput]; options?: LedgerVersionArg }): " +
+        "Promise<[string, Store<number>, genEventsModule.Minted]>",
+    );
+    const { view } = load(token.code, { "./gen_events": {} });
+    const aptos = { view: jest.fn(async () => ["5"]) };
+    await expect(view.balanceOf(aptos, { functionArguments: ["0x1"], options: { ledgerVersion: 1 } })).resolves.toEqual(
+      ["5"],
+    );
+    const [[{ payload, options }]] = aptos.view.mock.calls as any;
+    expect(payload.function).toEqual(`${ADDRESS}::gen_token::balance_of`);
+    expect(payload.abi.returnTypes).toEqual([
+      parseTypeTag("u64"),
+      parseTypeTag(`${ADDRESS}::gen_token::Store<u8>`),
+      parseTypeTag(`${ADDRESS}::gen_events::Minted`),
+    ]);
+    expect(options).toEqual({ ledgerVersion: 1 });
+  });
+
+  it("should name the modules that share a name after their address", () => {
+    const userModule: MoveModule = {
+      address: ADDRESS,
+      name: "gen_user",
+      friends: [],
+      exposed_functions: [],
+      structs: [
+        {
+          name: "Seen",
+          is_native: false,
+          is_event: false,
+          abilities: [MoveAbility.KEY],
+          generic_type_params: [],
+          fields: [
+            { name: "framework", type: "0x1::gen_events::Minted" },
+            { name: "own", type: `${ADDRESS}::gen_events::Minted` },
+          ],
+        },
+      ],
+    };
+    const sharedFiles = generateTypeScriptFromAbis({
+      modules: [{ ...eventsModule, address: "0x1" }, eventsModule, userModule],
+    });
+    expect(sharedFiles.map((file) => file.fileName)).toEqual([
+      "1_gen_events.ts",
+      `${"42".repeat(32)}_gen_events.ts`,
+      "gen_user.ts",
+    ]);
+    const user = sharedFiles[2].code;
+    expect(user).toMatch(/import type \* as m1GenEventsModule from ".\/1_gen_events";/);
+    expect(user).toContain("framework: m1GenEventsModule.Minted;");
+    expect(user).toContain(`own: m${"42".repeat(32)}GenEventsModule.Minted;`);
+    sharedFiles.forEach((file) => {
+      const { diagnostics } = ts.transpileModule(file.code, { reportDiagnostics: true });
+      expect(diagnostics).toEqual([]);
+    });
+  });
+
+  it("should import the SDK from the given module", () => {
+    const [file] = generateTypeScriptFromAbis({ modules: [eventsModule], sdkImport: "../sdk" });
+    expect(file.code).not.toContain("@aptos-labs/ts-sdk");
+    expect(generateTypeScriptFromAbis({ modules: [tokenModule], sdkImport: "../sdk" })[0].code).toMatch(
+      /from "\.\.\/sdk";/,
+    );
+  });
+});
+
+describe("ABI files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "abi-codegen-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should read module ABIs and modules with bytecode", async () => {
+    const path = join(dir, "abis.json");
+    await writeFile(path, JSON.stringify([tokenModule, { bytecode: "0x", abi: eventsModule }]));
+    expect(await readModuleAbis(path)).toEqual([tokenModule, eventsModule]);
+
+    await writeFile(path, JSON.stringify({ foo: "bar" }));
+    await expect(readModuleAbis(path)).rejects.toThrow("doesn't contain module ABIs");
+  });
+
+  it("should write the generated files", async () => {
+    const outDir = join(dir, "generated");
+    const files = await writeTypeScriptFromAbis({ modules: [eventsModule], outDir });
+    expect(await readFile(join(outDir, "gen_events.ts"), "utf8")).toEqual(files[0].code);
+  });
+});
@@ -0,0 +1,257 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AccountActivity,
+  AccountActivityType,
+  AccountAddress,
+  Aptos,
+  AptosApiError,
+  ClientRequest,
+  createUserDerivedObjectAddress,
+} from "../../src";
+import { MockFullnode } from "./helper";
+
+const ALICE = `0x${"42".repeat(32)}`;
+const BOB = `0x${"43".repeat(32)}`;
+const BOB_STORE = `0x${"44".repeat(32)}`;
+const TOKEN = `0x${"45".repeat(32)}`;
+const OBJECT = `0x${"46".repeat(32)}`;
+const COIN = "0x1::test_coin::TestCoin";
+const ALICE_STORE = createUserDerivedObjectAddress(AccountAddress.from(ALICE), AccountAddress.A).toString();
+
+function event(type: string, data: any, guid = { creation_number: "0", account_address: "0x0" }) {
+  return { guid, sequence_number: "0", type, data };
+}
+
+function write(address: string, type: string, data: any) {
+  return { type: "write_resource", address, state_key_hash: "0x0", data: { type, data } };
+}
+
+function userTransaction(version: number, sender: string, fields: any) {
+  return {
+    type: "user_transaction",
+    version: `${version}`,
+    hash: `0x${version}`,
+    timestamp: `${version * 1000}`,
+    sender,
+    success: true,
+    gas_used: "10",
+    gas_unit_price: "100",
+    events: [],
+    changes: [],
+    ...fields,
+  };
+}
+
+const TRANSACTIONS = [
+  // Bob sends APT from his primary store to Alice's concurrent primary store
+  userTransaction(0, BOB, {
+    events: [
+      event("0x1::fungible_asset::Withdraw", { store: BOB_STORE, amount: "300" }),
+      event("0x1::fungible_asset::Deposit", { store: ALICE_STORE, amount: "300" }),
+    ],
+    changes: [write(BOB_STORE, "0x1::fungible_asset::FungibleStore", { metadata: { inner: "0xa" }, balance: "0" })],
+  }),
+  // Alice sends a coin to Bob
+  userTransaction(1, ALICE, {
+    events: [
+      event("0x1::coin::CoinWithdraw", { coin_type: COIN, account: ALICE, amount: "5" }),
+      event("0x1::coin::CoinDeposit", { coin_type: COIN, account: BOB, amount: "5" }),
+    ],
+  }),
+  // Bob sends Alice a coin with the handle events and a token, and Alice pays the gas
+  userTransaction(2, BOB, {
+    signature: { type: "fee_payer_signature", fee_payer_address: ALICE },
+    events: [
+      event("0x1::coin::DepositEvent", { amount: "7" }, { creation_number: "2", account_address: ALICE }),
+      event("0x1::object::Transfer", { object: TOKEN, from: BOB, to: ALICE }),
+    ],
+    changes: [
+      write(ALICE, `0x1::coin::CoinStore<${COIN}>`, {
+        coin: { value: "7" },
+        deposit_events: { counter: "1", guid: { id: { addr: ALICE, creation_num: "2" } } },
+        withdraw_events: { counter: "0", guid: { id: { addr: ALICE, creation_num: "3" } } },
+      }),
+      write(TOKEN, "0x4::token::Token", { name: "token" }),
+    ],
+  }),
+  { type: "block_metadata_transaction", version: "3", hash: "0x3", timestamp: "3000", events: [], changes: [] },
+  // Alice transfers an object to Bob
+  userTransaction(4, BOB, {
+    events: [event("0x1::object::Transfer", { object: OBJECT, from: ALICE, to: BOB })],
+  }),
+];
+
+/**
+ * A fullnode serving the transactions up to its ledger version, and the resources that aren't in their write sets.
+ */
+class ActivityFullnode extends MockFullnode {
+  ledgerVersion = TRANSACTIONS.length - 1;
+
+  /**
+   * Whether reading a resource that isn't served fails with a server error, rather than not being found
+   */
+  unavailable = false;
+
+  respond(req: ClientRequest<any>): [number, any] {
+    if (req.url.endsWith("/transactions")) {
+      const start = Number(req.params?.start);
+      const limit = Number(req.params?.limit);
+      return [200, TRANSACTIONS.slice(start, Math.min(start + limit, this.ledgerVersion + 1))];
+    }
+    if (req.url.endsWith(`${ALICE_STORE}/resource/0x1::fungible_asset::FungibleStore`)) {
+      return [200, { type: "0x1::fungible_asset::FungibleStore", data: { metadata: { inner: "0xa" }, balance: "0" } }];
+    }
+    if (req.url.endsWith(`${BOB_STORE}/resource/0x1::object::ObjectCore`)) {
+      return [200, { type: "0x1::object::ObjectCore", data: { owner: BOB } }];
+    }
+    if (req.url.includes("/resource/") && this.unavailable) {
+      return [503, { message: "Unavailable" }];
+    }
+    return super.respond(req);
+  }
+}
+
+async function take(iterable: AsyncIterable<AccountActivity>, count: number): Promise<Array<AccountActivity>> {
+  const activities: Array<AccountActivity> = [];
+  for await (const activity of iterable) {
+    activities.push(activity);
+    if (activities.length === count) break;
+  }
+  return activities;
+}
+
+describe("AccountActivityWatcher", () => {
+  it("should derive the activities of the account from events and write sets", async () => {
+    const fullnode = new ActivityFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const watcher = aptos.watchAccountActivity({ accountAddress: ALICE, fromVersion: 0, pollIntervalMs: 1 });
+    expect(await take(watcher, 6)).toEqual([
+      {
+        version: "0",
+        hash: "0x0",
+        timestamp: "0",
+        type: AccountActivityType.DEPOSIT,
+        asset: "0xa",
+        amount: "300",
+        store: ALICE_STORE,
+        counterparties: [BOB],
+      },
+      {
+        version: "1",
+        hash: "0x1",
+        timestamp: "1000",
+        type: AccountActivityType.WITHDRAW,
+        asset: COIN,
+        amount: "5",
+        counterparties: [BOB],
+      },
+      {
+        version: "1",
+        hash: "0x1",
+        timestamp: "1000",
+        type: AccountActivityType.GAS_FEE,
+        asset: "0x1::aptos_coin::AptosCoin",
+        amount: "1000",
+      },
+      {
+        version: "2",
+        hash: "0x2",
+        timestamp: "2000",
+        type: AccountActivityType.DEPOSIT,
+        asset: COIN,
+        amount: "7",
+        counterparties: [BOB],
+      },
+      {
+        version: "2",
+        hash: "0x2",
+        timestamp: "2000",
+        type: AccountActivityType.TOKEN_TRANSFER,
+        object: TOKEN,
+        from: BOB,
+        to: ALICE,
+      },
+      {
+        version: "2",
+        hash: "0x2",
+        timestamp: "2000",
+        type: AccountActivityType.GAS_FEE,
+        asset: "0x1::aptos_coin::AptosCoin",
+        amount: "1000",
+      },
+    ]);
+    watcher.stop();
+  });
+
+  it("should report object transfers and follow the chain", async () => {
+    const fullnode = new ActivityFullnode();
+    fullnode.ledgerVersion = 3;
+    const aptos = new Aptos(fullnode.config());
+    const checkpoints: Array<string> = [];
+    const watcher = aptos.watchAccountActivity({
+      accountAddress: ALICE,
+      fromVersion: 3,
+      pollIntervalMs: 1,
+      onCheckpoint: (version) => {
+        checkpoints.push(version);
+      },
+    });
+    const iterator = watcher[Symbol.asyncIterator]();
+    const next = iterator.next();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 20);
+    });
+    expect(watcher.checkpoint).toEqual("4");
+    fullnode.ledgerVersion = 4;
+    expect((await next).value).toEqual({
+      version: "4",
+      hash: "0x4",
+      timestamp: "4000",
+      type: AccountActivityType.OBJECT_TRANSFER,
+      object: OBJECT,
+      from: ALICE,
+      to: BOB,
+    });
+
+    // The checkpoint moves past a transaction once the next activity is requested
+    expect(watcher.checkpoint).toEqual("4");
+    const pending = iterator.next();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 20);
+    });
+    expect(watcher.checkpoint).toEqual("5");
+    expect(checkpoints).toEqual(["3", "4", "5"]);
+    watcher.stop();
+    expect((await pending).done).toBe(true);
+  });
+
+  it("should resume from a stored version and start at the latest version by default", async () => {
+    const fullnode = new ActivityFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const resumed = aptos.watchAccountActivity({ accountAddress: BOB, fromVersion: 2, pollIntervalMs: 1 });
+    expect((await take(resumed, 2)).map((activity) => [activity.version, activity.type])).toEqual([
+      ["2", AccountActivityType.TOKEN_TRANSFER],
+      ["4", AccountActivityType.OBJECT_TRANSFER],
+    ]);
+
+    const latest = aptos.watchAccountActivity({ accountAddress: BOB, pollIntervalMs: 1 });
+    const next = latest[Symbol.asyncIterator]().next();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 20);
+    });
+    expect(latest.checkpoint).toEqual("5");
+    latest.stop();
+    expect((await next).done).toBe(true);
+  });
+
+  it("should fail rather than skip an activity when a resource can't be read", async () => {
+    const fullnode = new ActivityFullnode();
+    fullnode.unavailable = true;
+    const aptos = new Aptos(fullnode.config());
+    const watcher = aptos.watchAccountActivity({ accountAddress: BOB, fromVersion: 4, pollIntervalMs: 1 });
+    await expect(take(watcher, 1)).rejects.toThrow(AptosApiError);
+    watcher.stop();
+  });
+});
@@ -0,0 +1,135 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  Account,
+  AccountSequenceNumber,
+  AccountSequenceNumberEventsEnum,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  Deserializer,
+  Network,
+  SequenceNumberGapPolicy,
+  SignedTransaction,
+  TransactionPayloadEntryFunction,
+} from "../../src";
+
+/**
+ * Creates a sequence number for an account at sequence number 0 on a mock fullnode.  Submissions are recorded, or
+ * rejected if `chain.rejectSubmissions` is set.  Reading the account fails if `chain.down` is set.
+ */
+function mockSequenceNumber(gapPolicy?: SequenceNumberGapPolicy) {
+  const account = Account.generate();
+  const chain = { sequenceNumber: 0, submitted: [] as SignedTransaction[], rejectSubmissions: false, down: false };
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    if (req.method === "POST" && req.url.endsWith("/transactions")) {
+      if (chain.rejectSubmissions) {
+        return { status: 400, statusText: "Bad Request", data: { message: "rejected" } as Res, headers: {} };
+      }
+      chain.submitted.push(SignedTransaction.deserialize(new Deserializer(req.body as Uint8Array)));
+      return { status: 202, statusText: "Accepted", data: { hash: "0x1" } as Res, headers: {} };
+    }
+    if (chain.down) {
+      return { status: 503, statusText: "Service Unavailable", data: { message: "down" } as Res, headers: {} };
+    }
+    if (req.url.endsWith("/estimate_gas_price")) {
+      return { status: 200, statusText: "OK", data: { gas_estimate: 100 } as Res, headers: {} };
+    }
+    const data = { sequence_number: String(chain.sequenceNumber), authentication_key: "0x0" } as Res;
+    return { status: 200, statusText: "OK", data, headers: {} };
+  };
+  const config = new AptosConfig({ network: Network.LOCAL, client: { provider } });
+  const sequenceNumber = new AccountSequenceNumber(config, account, 30, 100, 10, gapPolicy);
+  return { account, chain, sequenceNumber };
+}
+
+async function take(sequenceNumber: AccountSequenceNumber, count: number): Promise<Array<bigint | null>> {
+  const taken = [];
+  for (let i = 0; i < count; i += 1) {
+    // eslint-disable-next-line no-await-in-loop
+    taken.push(await sequenceNumber.nextSequenceNumber());
+  }
+  return taken;
+}
+
+describe("AccountSequenceNumber gap recovery", () => {
+  test("it steps back when the last sequence number is released", async () => {
+    const { sequenceNumber } = mockSequenceNumber();
+    const gaps: bigint[] = [];
+    sequenceNumber.on(AccountSequenceNumberEventsEnum.GapDetected, (data) => gaps.push(data.sequenceNumber));
+
+    await take(sequenceNumber, 3);
+    await sequenceNumber.release(BigInt(2));
+    expect(await take(sequenceNumber, 1)).toEqual([BigInt(2)]);
+    expect(gaps).toEqual([]);
+  });
+
+  test("it hands out released sequence numbers again", async () => {
+    const { sequenceNumber } = mockSequenceNumber();
+    const events: string[] = [];
+    sequenceNumber.on(AccountSequenceNumberEventsEnum.GapDetected, (data) =>
+      events.push(`detected ${data.sequenceNumber}`),
+    );
+    sequenceNumber.on(AccountSequenceNumberEventsEnum.GapFilled, (data) =>
+      events.push(`filled ${data.sequenceNumber} with ${data.filledWith}`),
+    );
+
+    await take(sequenceNumber, 4);
+    await sequenceNumber.release(BigInt(2));
+    await sequenceNumber.release(BigInt(1));
+    await sequenceNumber.release(BigInt(1));
+    expect(await take(sequenceNumber, 3)).toEqual([BigInt(1), BigInt(2), BigInt(4)]);
+    expect(events).toEqual(["detected 2", "detected 1", "filled 1 with transaction", "filled 2 with transaction"]);
+  });
+
+  test("it forgets released sequence numbers that have been used on chain", async () => {
+    const { chain, sequenceNumber } = mockSequenceNumber();
+    await take(sequenceNumber, 4);
+    await sequenceNumber.release(BigInt(1));
+    await sequenceNumber.release(BigInt(2));
+    chain.sequenceNumber = 2;
+    await sequenceNumber.update();
+    await sequenceNumber.release(BigInt(0));
+    expect(await take(sequenceNumber, 2)).toEqual([BigInt(2), BigInt(4)]);
+  });
+
+  test("it fills a gap with a no-op transaction", async () => {
+    const { account, chain, sequenceNumber } = mockSequenceNumber("noop");
+    const filled: string[] = [];
+    sequenceNumber.on(AccountSequenceNumberEventsEnum.GapFilled, (data) => filled.push(data.filledWith));
+
+    await take(sequenceNumber, 3);
+    await sequenceNumber.release(BigInt(1));
+    expect(filled).toEqual(["noop"]);
+    expect(chain.submitted).toHaveLength(1);
+    const noop = chain.submitted[0].raw_txn;
+    expect(noop.sequence_number).toBe(BigInt(1));
+    expect((noop.payload as TransactionPayloadEntryFunction).entryFunction.function_name.identifier).toBe("transfer");
+    expect(noop.sender.equals(account.accountAddress)).toBe(true);
+    expect(await take(sequenceNumber, 1)).toEqual([BigInt(3)]);
+  });
+
+  test("it reuses a sequence number when the no-op transaction is rejected", async () => {
+    const { chain, sequenceNumber } = mockSequenceNumber("noop");
+    const errors: string[] = [];
+    sequenceNumber.on(AccountSequenceNumberEventsEnum.SequenceNumberError, (data) => errors.push(data.message));
+    chain.rejectSubmissions = true;
+
+    await take(sequenceNumber, 3);
+    await sequenceNumber.release(BigInt(1));
+    expect(errors).toHaveLength(1);
+    expect(await take(sequenceNumber, 1)).toEqual([BigInt(1)]);
+  });
+
+  test("it reports errors instead of handing out a wrong sequence number", async () => {
+    const { chain, sequenceNumber } = mockSequenceNumber();
+    const errors: any[] = [];
+    sequenceNumber.on(AccountSequenceNumberEventsEnum.SequenceNumberError, (data) => errors.push(data.error));
+    chain.down = true;
+
+    expect(await sequenceNumber.nextSequenceNumber()).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(sequenceNumber.lock).toBe(false);
+  });
+});
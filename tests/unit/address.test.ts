@@ -1,6 +1,11 @@
 /* eslint-disable max-len */
 import { AccountAddress } from "../../src";
-import { createTokenAddress, createObjectAddress, createResourceAddress } from "../../src/core/account/utils/address";
+import {
+  createTokenAddress,
+  createObjectAddress,
+  createResourceAddress,
+  createGuidObjectAddress,
+} from "../../src/core/account/utils/address";
 
 describe("address", () => {
   /**
@@ -50,4 +55,10 @@ describe("address", () => {
     const address = createResourceAddress(creatorAddress, seed);
     expect(address.toString()).toEqual("0x764cb760889d5ab6caabf0594d82adfbf0c0076f36268563e5209fa3734d7f3e");
   });
+
+  test("create an object address from the GUID of its creator", () => {
+    const creatorAddress = AccountAddress.from("0x120e79e45d21ef439963580c77a023e2729db799e96e61f878fac98fde5b9cc9");
+    const address = createGuidObjectAddress(creatorAddress, 0x4000000000003n);
+    expect(address.toString()).toEqual("0xc082875a62a66d889fcec2a82ceeb98765aaea5d3797575bcc221e5f6c88ddd6");
+  });
 });
@@ -0,0 +1,206 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { Aptos, ClientRequest, Deserializer, EntryFunction, Hex, MoveStructId } from "../../src";
+import { callOf, MockFullnode, TRANSACTION_OPTIONS } from "./helper";
+
+const ACCOUNT = `0x${"42".repeat(32)}`;
+const RECIPIENT = `0x${"43".repeat(32)}`;
+const ISSUER = `0x${"44".repeat(32)}`;
+
+/**
+ * A fullnode serving the pairing of the coins and fungible assets in `pairs`, and the `CoinStore` balances in
+ * `coinStores`. The pairing is cached by the SDK, so each test uses its own assets.
+ */
+class AssetFullnode extends MockFullnode {
+  pairs: Array<[MoveStructId, string]> = [];
+
+  coinStores: Record<string, string> = {};
+
+  /**
+   * The view functions called, with their type arguments
+   */
+  views: Array<string> = [];
+
+  respond(req: ClientRequest<any>): [number, any] {
+    if (req.url.endsWith("/view")) {
+      const entryFunction = EntryFunction.deserialize(new Deserializer(req.body as Uint8Array));
+      const name = `${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`;
+      const typeArgument = entryFunction.type_args[0]?.toString();
+      this.views.push(typeArgument ? `${name}<${typeArgument}>` : name);
+      const address = () => new Deserializer(entryFunction.args[0].bcsToBytes()).deserializeFixedBytes(32);
+      switch (name) {
+        case "coin::paired_metadata": {
+          const pair = this.pairs.find(([coinType]) => coinType === typeArgument);
+          return [200, [{ vec: pair ? [{ inner: pair[1] }] : [] }]];
+        }
+        case "coin::paired_coin": {
+          const metadata = Hex.fromHexInput(address()).toString();
+          const pair = this.pairs.find(([, faAddress]) => faAddress === metadata);
+          if (!pair) {
+            return [200, [{ vec: [] }]];
+          }
+          const [accountAddress, moduleName, structName] = pair[0].split("::");
+          const encode = (text: string) => Hex.fromHexInput(new TextEncoder().encode(text)).toString();
+          return [
+            200,
+            [
+              {
+                vec: [
+                  { account_address: accountAddress, module_name: encode(moduleName), struct_name: encode(structName) },
+                ],
+              },
+            ],
+          ];
+        }
+        case "coin::balance":
+          return [200, ["300"]];
+        default:
+          return [200, ["100"]];
+      }
+    }
+    const coinStore = req.url.match(/resource\/0x1::coin::CoinStore<(.*)>$/);
+    if (coinStore && this.coinStores[coinStore[1]] !== undefined) {
+      return [200, { type: "", data: { coin: { value: this.coinStores[coinStore[1]] }, frozen: false } }];
+    }
+    return super.respond(req);
+  }
+}
+
+describe("Asset", () => {
+  it("should resolve the pairing from either side", async () => {
+    const fullnode = new AssetFullnode();
+    const coinType = `${ISSUER}::resolve::Coin` as const;
+    const faAddress = `0x${"51".repeat(32)}`;
+    fullnode.pairs.push([coinType, faAddress]);
+    const aptos = new Aptos(fullnode.config());
+
+    expect(await aptos.resolveAsset({ coinType })).toEqual({ coinType, faMetadataAddress: faAddress });
+    expect(await aptos.resolveAsset({ faMetadataAddress: faAddress })).toEqual({
+      coinType,
+      faMetadataAddress: faAddress,
+    });
+    expect(await aptos.resolveAsset({ coinType: `${ISSUER}::resolve::Unpaired` })).toEqual({
+      coinType: `${ISSUER}::resolve::Unpaired`,
+      faMetadataAddress: undefined,
+    });
+    // The pairing is cached
+    await aptos.resolveAsset({ coinType });
+    expect(fullnode.views).toEqual([
+      `coin::paired_metadata<${coinType}>`,
+      "coin::paired_coin",
+      `coin::paired_metadata<${ISSUER}::resolve::Unpaired>`,
+    ]);
+
+    // APT is paired with 0xa without reading the chain
+    expect(await aptos.resolveAsset({ coinType: "0x1::aptos_coin::AptosCoin" })).toEqual({
+      coinType: "0x1::aptos_coin::AptosCoin",
+      faMetadataAddress: `0x${"0".repeat(63)}a`,
+    });
+    expect(fullnode.views.length).toEqual(3);
+    await expect(aptos.resolveAsset({})).rejects.toThrow("Either coinType, faMetadataAddress, or both");
+  });
+
+  it("should read the balance of the coin when there is one", async () => {
+    const fullnode = new AssetFullnode();
+    const coinType = `${ISSUER}::balance::Coin` as const;
+    const pairedAddress = `0x${"52".repeat(32)}`;
+    const faOnlyAddress = `0x${"53".repeat(32)}`;
+    fullnode.pairs.push([coinType, pairedAddress]);
+    const aptos = new Aptos(fullnode.config());
+
+    expect(await aptos.getAssetBalance({ accountAddress: ACCOUNT, faMetadataAddress: pairedAddress })).toEqual("300");
+    expect(fullnode.views.at(-1)).toEqual(`coin::balance<${coinType}>`);
+    expect(
+      await aptos.getAssetBalance({
+        accountAddress: ACCOUNT,
+        faMetadataAddress: faOnlyAddress,
+        options: { ledgerVersion: 7 },
+      }),
+    ).toEqual("100");
+    expect(fullnode.views.at(-1)).toEqual("primary_fungible_store::balance<0x1::object::ObjectCore>");
+    expect(fullnode.requests.at(-1)?.params?.ledger_version).toEqual(7);
+  });
+
+  it("should transfer a coin with its paired fungible asset, or a fungible asset alone", async () => {
+    const fullnode = new AssetFullnode();
+    const coinType = `${ISSUER}::transfer::Coin` as const;
+    const pairedAddress = `0x${"54".repeat(32)}`;
+    const faOnlyAddress = `0x${"55".repeat(32)}`;
+    fullnode.pairs.push([coinType, pairedAddress]);
+    const aptos = new Aptos(fullnode.config());
+    const transfer = async (asset: { coinType?: MoveStructId; faMetadataAddress?: string }) =>
+      callOf(
+        await aptos.transferAssetTransaction({
+          sender: ACCOUNT,
+          recipient: RECIPIENT,
+          amount: 5,
+          options: TRANSACTION_OPTIONS,
+          ...asset,
+        }),
+      );
+
+    expect(await transfer({ faMetadataAddress: pairedAddress })).toMatchObject({
+      functionId: "0x1::aptos_account::transfer_coins",
+      typeArguments: [coinType],
+    });
+    expect(await transfer({ coinType: `${ISSUER}::transfer::Unpaired` })).toMatchObject({
+      functionId: "0x1::aptos_account::transfer_coins",
+      typeArguments: [`${ISSUER}::transfer::Unpaired`],
+    });
+    expect(await transfer({ faMetadataAddress: faOnlyAddress })).toMatchObject({
+      functionId: "0x1::aptos_account::transfer_fungible_assets",
+      typeArguments: [],
+    });
+
+    const migration = await aptos.migrateCoinToFungibleStoreTransaction({
+      sender: ACCOUNT,
+      coinType,
+      options: TRANSACTION_OPTIONS,
+    });
+    expect(callOf(migration)).toMatchObject({
+      functionId: "0x1::coin::migrate_to_fungible_store",
+      typeArguments: [coinType],
+    });
+  });
+
+  it("should report the migration status of an account at one ledger version", async () => {
+    const fullnode = new AssetFullnode();
+    const coinType = `${ISSUER}::migration::Coin` as const;
+    fullnode.pairs.push([coinType, `0x${"56".repeat(32)}`]);
+    fullnode.coinStores[coinType] = "40";
+    const aptos = new Aptos(fullnode.config());
+
+    expect(await aptos.getCoinMigrationStatus({ accountAddress: ACCOUNT, coinType })).toEqual({
+      coinType,
+      faMetadataAddress: `0x${"56".repeat(32)}`,
+      hasCoinStore: true,
+      coinStoreBalance: "40",
+      fungibleStoreBalance: "100",
+      migrated: false,
+    });
+    const versions = fullnode.requests
+      .filter((req) => req.url.endsWith("/view") || req.url.includes("/resource/"))
+      .map((req) => req.params?.ledger_version);
+    expect(versions.slice(-2)).toEqual([20n, 20n]);
+
+    delete fullnode.coinStores[coinType];
+    expect(await aptos.getCoinMigrationStatus({ accountAddress: ACCOUNT, coinType })).toMatchObject({
+      hasCoinStore: false,
+      coinStoreBalance: "0",
+      migrated: true,
+    });
+
+    // A coin that isn't paired can't be migrated
+    const unpaired = `${ISSUER}::migration::Unpaired` as const;
+    fullnode.coinStores[unpaired] = "10";
+    expect(await aptos.getCoinMigrationStatus({ accountAddress: ACCOUNT, coinType: unpaired })).toEqual({
+      coinType: unpaired,
+      faMetadataAddress: undefined,
+      hasCoinStore: true,
+      coinStoreBalance: "10",
+      fungibleStoreBalance: "0",
+      migrated: false,
+    });
+  });
+});
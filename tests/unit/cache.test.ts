@@ -0,0 +1,103 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  LruResponseCache,
+  Network,
+  getAptosFullNode,
+  postAptosFullNode,
+  sleep,
+} from "../../src";
+
+function mockConfig(data: (req: ClientRequest<any>) => any = () => ({ value: 1 }), status = 200) {
+  const requests: ClientRequest<any>[] = [];
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    requests.push(req);
+    return { status, statusText: "OK", data: data(req), headers: new Headers({ "x-aptos-chain-id": "4" }) };
+  };
+  const store = new LruResponseCache();
+  const config = new AptosConfig({ network: Network.LOCAL, client: { provider }, cache: { store } });
+  return { config, requests, store };
+}
+
+describe("response cache", () => {
+  test("it answers immutable reads from the cache", async () => {
+    const { config, requests } = mockConfig();
+    const get = () =>
+      getAptosFullNode<{}, { value: number }>({
+        aptosConfig: config,
+        originMethod: "a",
+        path: "transactions/by_version/5",
+      });
+
+    const first = await get();
+    first.data.value = 2;
+    const second = await get();
+    expect(requests).toHaveLength(1);
+    expect(second.data.value).toBe(1);
+    expect(second.headers["x-aptos-chain-id"]).toBe("4");
+  });
+
+  test("it only caches transactions by hash once they are committed", async () => {
+    let type = "pending_transaction";
+    const { config, requests } = mockConfig(() => ({ type }));
+    const get = () => getAptosFullNode({ aptosConfig: config, originMethod: "a", path: "transactions/by_hash/0xabc" });
+
+    await get();
+    type = "user_transaction";
+    await get();
+    await get();
+    expect(requests).toHaveLength(2);
+  });
+
+  test("it only caches view calls pinned to a ledger version", async () => {
+    const { config, requests } = mockConfig();
+    const view = (ledgerVersion?: number) =>
+      postAptosFullNode({
+        aptosConfig: config,
+        originMethod: "view",
+        path: "view",
+        params: { ledger_version: ledgerVersion },
+        body: { function: "0x1::a::b" },
+      });
+
+    await view();
+    await view();
+    expect(requests).toHaveLength(2);
+    await view(10);
+    await view(10);
+    await view(11);
+    expect(requests).toHaveLength(4);
+  });
+
+  test("it does not cache errors or mutable reads", async () => {
+    const { config, requests } = mockConfig(() => ({ message: "not found" }), 404);
+    const get = (path: string) => getAptosFullNode({ aptosConfig: config, originMethod: "a", path }).catch(() => {});
+
+    await get("blocks/by_height/100");
+    await get("blocks/by_height/100");
+    await get("accounts/0x1/resource/0x1::account::Account");
+    await get("accounts/0x1/resource/0x1::account::Account");
+    expect(requests).toHaveLength(4);
+  });
+
+  test("it evicts the least recently used entries and expired ones", async () => {
+    const store = new LruResponseCache(2);
+    const response = { status: 200, statusText: "OK", data: {}, headers: {} };
+    store.set("a", response);
+    store.set("b", response);
+    store.get("a");
+    store.set("c", response);
+    expect(store.get("a")).toBeDefined();
+    expect(store.get("b")).toBeUndefined();
+    expect(store.size).toBe(2);
+
+    store.set("d", response, 10);
+    expect(store.get("d")).toBeDefined();
+    await sleep(20);
+    expect(store.get("d")).toBeUndefined();
+  });
+});
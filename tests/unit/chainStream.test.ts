@@ -0,0 +1,181 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { Aptos, Block, ClientRequest } from "../../src";
+import { MockFullnode } from "./helper";
+
+function transactionAt(version: number) {
+  return { type: "state_checkpoint_transaction", version: `${version}`, hash: `0x${version}`, events: [], changes: [] };
+}
+
+/**
+ * A fullnode with two transactions per block, that returns at most `pageSize` transactions per request.
+ */
+class BlockFullnode extends MockFullnode {
+  blockHeight = 9;
+
+  oldestBlockHeight = 0;
+
+  pageSize = 100;
+
+  /**
+   * The start and limit of the transaction requests
+   */
+  transactionRequests: Array<[number, number]> = [];
+
+  get lastVersion(): number {
+    return this.blockHeight * 2 + 1;
+  }
+
+  respond(req: ClientRequest<any>): [number, any] {
+    if (req.url.endsWith("/transactions")) {
+      const start = Number(req.params?.start);
+      this.transactionRequests.push([start, Number(req.params?.limit)]);
+      const end = Math.min(start + Number(req.params?.limit), start + this.pageSize, this.lastVersion + 1);
+      const transactions = [];
+      for (let version = start; version < end; version += 1) {
+        transactions.push(transactionAt(version));
+      }
+      return [200, transactions];
+    }
+    const block = req.url.match(/blocks\/by_height\/(\d+)$/);
+    if (block) {
+      const height = Number(block[1]);
+      return [
+        200,
+        {
+          block_height: `${height}`,
+          block_hash: `0x${height}`,
+          block_timestamp: `${height * 1000}`,
+          first_version: `${height * 2}`,
+          last_version: `${height * 2 + 1}`,
+          transactions: req.params?.with_transactions
+            ? [transactionAt(height * 2), transactionAt(height * 2 + 1)]
+            : undefined,
+        },
+      ];
+    }
+    return super.respond(req);
+  }
+
+  ledgerInfo(): {} {
+    return {
+      chain_id: 4,
+      ledger_version: `${this.lastVersion}`,
+      oldest_ledger_version: `${this.oldestBlockHeight * 2}`,
+      block_height: `${this.blockHeight}`,
+      oldest_block_height: `${this.oldestBlockHeight}`,
+    };
+  }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<Array<T>> {
+  const items: Array<T> = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("TransactionStream", () => {
+  it("should read the transactions between the bounds in concurrent batches", async () => {
+    const fullnode = new BlockFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const stream = aptos.streamTransactions({ fromVersion: 2, toVersion: 16, batchSize: 4, concurrency: 2 });
+    const transactions = await collect(stream);
+    expect(transactions.map((transaction) => Number(transaction.version))).toEqual(
+      Array.from({ length: 15 }, (_, i) => i + 2),
+    );
+    expect(fullnode.transactionRequests).toEqual([
+      [2, 4],
+      [6, 4],
+      [10, 4],
+      [14, 3],
+    ]);
+    expect(stream.checkpoint).toEqual("17");
+  });
+
+  it("should read a range again when the fullnode returns fewer transactions than requested", async () => {
+    const fullnode = new BlockFullnode();
+    fullnode.pageSize = 3;
+    const aptos = new Aptos(fullnode.config());
+    const transactions = await collect(
+      aptos.streamTransactions({ fromVersion: 0, toVersion: 9, batchSize: 5, concurrency: 2 }),
+    );
+    expect(transactions.map((transaction) => Number(transaction.version))).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    // The second range of the first round is dropped, as it doesn't follow the short first batch
+    expect(fullnode.transactionRequests.slice(0, 4)).toEqual([
+      [0, 5],
+      [5, 5],
+      [3, 5],
+      [8, 2],
+    ]);
+  });
+
+  it("should follow the chain with a backoff at the latest version", async () => {
+    const fullnode = new BlockFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const stream = aptos.streamTransactions({ pollIntervalMs: 1, maxPollIntervalMs: 4 });
+    const iterator = stream[Symbol.asyncIterator]();
+    const next = iterator.next();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 30);
+    });
+    expect(stream.checkpoint).toEqual("20");
+    expect(fullnode.transactionRequests).toEqual([]);
+    fullnode.blockHeight = 10;
+    expect((await next).value.version).toEqual("20");
+    expect((await iterator.next()).value.version).toEqual("21");
+
+    const pending = iterator.next();
+    stream.stop();
+    expect((await pending).done).toBe(true);
+    expect(stream.checkpoint).toEqual("22");
+  });
+
+  it("should resume from its checkpoint", async () => {
+    const fullnode = new BlockFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const first = aptos.streamTransactions({ fromVersion: 0 });
+    const iterator = first[Symbol.asyncIterator]();
+    await iterator.next();
+    await iterator.next();
+    await iterator.return(undefined);
+
+    // The last transaction is delivered again, as it may not have been handled
+    const second = aptos.streamTransactions({ fromVersion: BigInt(first.checkpoint!), toVersion: 3 });
+    expect((await collect(second)).map((transaction) => transaction.version)).toEqual(["1", "2", "3"]);
+  });
+
+  it("should fail when the start has been pruned", async () => {
+    const fullnode = new BlockFullnode();
+    fullnode.oldestBlockHeight = 2;
+    const aptos = new Aptos(fullnode.config());
+    await expect(collect(aptos.streamTransactions({ fromVersion: 1 }))).rejects.toThrow("has been pruned");
+  });
+});
+
+describe("BlockStream", () => {
+  it("should read the blocks between the bounds in order", async () => {
+    const fullnode = new BlockFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const blocks: Array<Block> = await collect(
+      aptos.streamBlocks({ fromHeight: 3, toHeight: 8, withTransactions: true, concurrency: 3 }),
+    );
+    expect(blocks.map((block) => block.block_height)).toEqual(["3", "4", "5", "6", "7", "8"]);
+    expect(blocks[0].transactions?.map((transaction) => (transaction as any).version)).toEqual(["6", "7"]);
+  });
+
+  it("should follow the chain from the latest block", async () => {
+    const fullnode = new BlockFullnode();
+    const aptos = new Aptos(fullnode.config());
+    const stream = aptos.streamBlocks({ pollIntervalMs: 1 });
+    const next = stream[Symbol.asyncIterator]().next();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 20);
+    });
+    fullnode.blockHeight = 11;
+    expect((await next).value).toMatchObject({ block_height: "10", first_version: "20" });
+    stream.stop();
+  });
+});
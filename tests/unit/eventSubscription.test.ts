@@ -0,0 +1,259 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  Aptos,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  EventCheckpoint,
+  Network,
+  SubscribedEvent,
+} from "../../src";
+
+const PING = "0x1::test::Ping";
+const PONG = "0x1::test::Pong";
+
+/**
+ * The events of transaction `version`: a Ping and, for even versions, a Pong from `0x2`.
+ */
+function eventsAt(version: number) {
+  const events = [
+    { guid: { creation_number: "0", account_address: "0x0" }, sequence_number: "0", type: PING, data: { version } },
+  ];
+  if (version % 2 === 0) {
+    events.push({
+      guid: { creation_number: "3", account_address: "0x2" },
+      sequence_number: `${version / 2}`,
+      type: PONG,
+      data: { version },
+    });
+  }
+  return events;
+}
+
+/**
+ * A fullnode and indexer serving the transactions up to their versions.
+ */
+class MockChain {
+  ledgerVersion = 9;
+
+  oldestVersion = 0;
+
+  indexedVersion = 9;
+
+  requests: Array<ClientRequest<any>> = [];
+
+  config(): AptosConfig {
+    const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+      this.requests.push(req);
+      return { status: 200, statusText: "OK", data: this.respond(req) as Res, headers: {} };
+    };
+    return new AptosConfig({ network: Network.LOCAL, client: { provider } });
+  }
+
+  respond(req: ClientRequest<any>): any {
+    if (req.method === "POST") {
+      const { query, variables } = req.body as { query: string; variables: any };
+      if (query.includes("processor_status")) {
+        return { data: { processor_status: [{ last_success_version: this.indexedVersion }] } };
+      }
+      return { data: { events: this.indexerEvents(variables) } };
+    }
+    if (req.url.endsWith("/transactions")) {
+      const start = Number(req.params?.start);
+      const limit = Number(req.params?.limit);
+      const transactions = [];
+      for (let version = start; version < start + limit && version <= this.ledgerVersion; version += 1) {
+        transactions.push({ type: "user_transaction", version: `${version}`, events: eventsAt(version) });
+      }
+      return transactions;
+    }
+    return {
+      chain_id: 4,
+      ledger_version: `${this.ledgerVersion}`,
+      oldest_ledger_version: `${this.oldestVersion}`,
+      block_height: "0",
+      oldest_block_height: "0",
+    };
+  }
+
+  indexerEvents(variables: any) {
+    const { where_condition: where, limit } = variables;
+    const {
+      indexed_type: { _eq: eventType } = { _eq: undefined },
+      creation_number: { _eq: creationNumber } = { _eq: undefined },
+      _or: [
+        {
+          transaction_version: { _gt: afterVersion },
+        },
+        {
+          transaction_version: { _eq: atVersion },
+          event_index: { _gte: atIndex },
+        },
+      ],
+    } = where;
+    const rows = [];
+    for (let version = 0; version <= this.indexedVersion; version += 1) {
+      const events = eventsAt(version);
+      for (let i = 0; i < events.length; i += 1) {
+        const event = events[i];
+        const position = version > Number(afterVersion) || (version === Number(atVersion) && i >= atIndex);
+        const matches =
+          (!eventType || eventType === event.type) &&
+          (creationNumber === undefined || creationNumber === event.guid.creation_number);
+        if (position && matches) {
+          rows.push({
+            account_address: event.guid.account_address,
+            creation_number: Number(event.guid.creation_number),
+            data: event.data,
+            event_index: i,
+            sequence_number: Number(event.sequence_number),
+            transaction_block_height: 0,
+            transaction_version: version,
+            type: event.type,
+            indexed_type: event.type,
+          });
+        }
+      }
+    }
+    return rows.slice(0, limit);
+  }
+}
+
+async function take(iterable: AsyncIterable<SubscribedEvent>, count: number): Promise<Array<SubscribedEvent>> {
+  const events: Array<SubscribedEvent> = [];
+  for await (const event of iterable) {
+    events.push(event);
+    if (events.length === count) break;
+  }
+  return events;
+}
+
+describe("EventSubscription", () => {
+  describe("with the fullnode", () => {
+    it("should deliver matching events in order and follow the chain", async () => {
+      const chain = new MockChain();
+      const aptos = new Aptos(chain.config());
+      const checkpoints: Array<EventCheckpoint> = [];
+      const subscription = aptos.event.subscribe({
+        filter: { eventType: PONG, accountAddress: "0x2", creationNumber: 3 },
+        fromVersion: 3,
+        batchSize: 4,
+        pollIntervalMs: 1,
+        onCheckpoint: (checkpoint) => {
+          checkpoints.push(checkpoint);
+        },
+      });
+
+      const iterator = subscription[Symbol.asyncIterator]();
+      const versions: Array<string> = [];
+      for (let i = 0; i < 3; i += 1) {
+        // eslint-disable-next-line no-await-in-loop
+        const { value } = await iterator.next();
+        versions.push(value.version);
+        expect(value).toMatchObject({ eventIndex: 1, type: PONG, accountAddress: "0x2", creationNumber: "3" });
+      }
+      expect(versions).toEqual(["4", "6", "8"]);
+
+      // New transactions are picked up while polling at the tip
+      const next = iterator.next();
+      chain.ledgerVersion = 12;
+      expect((await next).value.version).toEqual("10");
+      // The checkpoint moves past an event once the next one is requested
+      expect(subscription.checkpoint).toEqual({ version: "10", eventIndex: 0 });
+      expect(checkpoints[0]).toEqual({ version: "3", eventIndex: 0 });
+      expect(checkpoints).toContainEqual({ version: "8", eventIndex: 2 });
+
+      const pending = iterator.next();
+      subscription.stop();
+      expect((await pending).done).toBe(true);
+    });
+
+    it("should resume from a checkpoint without repeating events", async () => {
+      const chain = new MockChain();
+      const aptos = new Aptos(chain.config());
+      const first = aptos.event.subscribe({ filter: {}, fromVersion: 0, pollIntervalMs: 1 });
+      expect((await take(first, 2)).map((event) => [event.version, event.type])).toEqual([
+        ["0", PING],
+        ["0", PONG],
+      ]);
+
+      // The last event is delivered again, as it may not have been handled
+      const second = aptos.event.subscribe({ filter: {}, checkpoint: first.checkpoint, pollIntervalMs: 1 });
+      expect((await take(second, 3)).map((event) => [event.version, event.type])).toEqual([
+        ["0", PONG],
+        ["1", PING],
+        ["2", PING],
+      ]);
+    });
+
+    it("should start after the latest version by default", async () => {
+      const chain = new MockChain();
+      const aptos = new Aptos(chain.config());
+      const subscription = aptos.event.subscribe({ filter: { eventType: PING }, pollIntervalMs: 1 });
+      const next = subscription[Symbol.asyncIterator]().next();
+      await new Promise((resolve) => {
+        setTimeout(resolve, 20);
+      });
+      chain.ledgerVersion = 10;
+      expect((await next).value.version).toEqual("10");
+      subscription.stop();
+    });
+
+    it("should fail when the checkpoint has been pruned", async () => {
+      const chain = new MockChain();
+      chain.oldestVersion = 5;
+      const aptos = new Aptos(chain.config());
+      const subscription = aptos.event.subscribe({ filter: {}, fromVersion: 2 });
+      await expect(take(subscription, 1)).rejects.toThrow("has been pruned");
+    });
+  });
+
+  describe("with the indexer", () => {
+    it("should query the matching events and move past indexed versions", async () => {
+      const chain = new MockChain();
+      const aptos = new Aptos(chain.config());
+      const subscription = aptos.event.subscribe({
+        filter: { eventType: PONG },
+        fromVersion: 5,
+        source: "indexer",
+        batchSize: 2,
+        pollIntervalMs: 1,
+      });
+      const iterator = subscription[Symbol.asyncIterator]();
+      expect((await iterator.next()).value).toMatchObject({ version: "6", eventIndex: 1, type: PONG });
+      expect((await iterator.next()).value).toMatchObject({ version: "8", eventIndex: 1, type: PONG });
+
+      // Once caught up, the checkpoint moves to the version after the last indexed one
+      const next = iterator.next();
+      await new Promise((resolve) => {
+        setTimeout(resolve, 20);
+      });
+      expect(subscription.checkpoint).toEqual({ version: "10", eventIndex: 0 });
+      chain.indexedVersion = 12;
+      expect((await next).value).toMatchObject({ version: "10", eventIndex: 1 });
+
+      const { variables } = chain.requests[chain.requests.length - 1].body as any;
+      expect(variables.where_condition.indexed_type).toEqual({ _eq: PONG });
+      expect(variables.order_by).toEqual([{ transaction_version: "asc" }, { event_index: "asc" }]);
+      subscription.stop();
+    });
+
+    it("should send a bigint creation number as a string", async () => {
+      const chain = new MockChain();
+      const aptos = new Aptos(chain.config());
+      const subscription = aptos.event.subscribe({
+        filter: { accountAddress: "0x2", creationNumber: 3n },
+        fromVersion: 5,
+        source: "indexer",
+      });
+      expect((await take(subscription, 1))[0]).toMatchObject({ version: "6", creationNumber: "3" });
+
+      const { body } = chain.requests[chain.requests.length - 1];
+      expect(body.variables.where_condition.creation_number).toEqual({ _eq: "3" });
+      expect(() => JSON.stringify(body)).not.toThrow();
+      subscription.stop();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress, Aptos, createObjectAddress, U128 } from "../../src";
+import { callOf, MockFullnode, TRANSACTION_OPTIONS } from "./helper";
+
+const CREATOR = `0x${"42".repeat(32)}`;
+const ISSUER = `0x${"43".repeat(32)}`;
+const METADATA = `0x${"44".repeat(32)}`;
+const HOLDER = `0x${"45".repeat(32)}`;
+describe("FungibleAsset issuance", () => {
+  const aptos = new Aptos(new MockFullnode().config());
+
+  it("should create an asset at the named object of the creator and the symbol", async () => {
+    const { transaction, metadataAddress } = await aptos.createFungibleAssetTransaction({
+      sender: CREATOR,
+      issuerAddress: ISSUER,
+      name: "My Token",
+      symbol: "MTK",
+      decimals: 8,
+      maxSupply: 1000n,
+      withdrawHook: `${HOLDER}::hooks::withdraw`,
+      depositHook: `${HOLDER}::hooks::deposit`,
+      options: TRANSACTION_OPTIONS,
+    });
+    expect(metadataAddress.equals(createObjectAddress(AccountAddress.from(CREATOR), "MTK"))).toBe(true);
+
+    const { functionId, args } = callOf(transaction);
+    expect(functionId).toEqual(`${ISSUER}::issuer::create`);
+    expect(new TextDecoder().decode(args[0].deserializeBytes())).toEqual("MTK");
+    expect(args[1].deserializeOption(U128)?.value).toEqual(1000n);
+    expect([args[2].deserializeStr(), args[3].deserializeStr(), args[4].deserializeU8()]).toEqual([
+      "My Token",
+      "MTK",
+      8,
+    ]);
+    expect([args[5].deserializeStr(), args[6].deserializeStr()]).toEqual(["", ""]);
+    expect(AccountAddress.deserialize(args[7]).toString()).toEqual(HOLDER);
+    expect(args[8].deserializeStr()).toEqual("hooks");
+    expect(args[9].deserializeOption("string")).toEqual("withdraw");
+    expect(args[10].deserializeOption("string")).toEqual("deposit");
+  });
+
+  it("should create an asset without a maximum supply or hooks, at the address of its seed", async () => {
+    const { transaction, metadataAddress } = await aptos.createFungibleAssetTransaction({
+      sender: CREATOR,
+      issuerAddress: ISSUER,
+      name: "My Token",
+      symbol: "MTK",
+      decimals: 6,
+      seed: "0x0102",
+      options: TRANSACTION_OPTIONS,
+    });
+    expect(metadataAddress.equals(createObjectAddress(AccountAddress.from(CREATOR), new Uint8Array([1, 2])))).toBe(
+      true,
+    );
+    const { args } = callOf(transaction);
+    expect(args[1].deserializeOption(U128)).toBeUndefined();
+    expect(args[9].deserializeOption("string")).toBeUndefined();
+    expect(args[10].deserializeOption("string")).toBeUndefined();
+  });
+
+  it("should require the hooks to be in the same module", async () => {
+    await expect(
+      aptos.createFungibleAssetTransaction({
+        sender: CREATOR,
+        issuerAddress: ISSUER,
+        name: "My Token",
+        symbol: "MTK",
+        decimals: 8,
+        withdrawHook: `${HOLDER}::hooks::withdraw`,
+        depositHook: `${HOLDER}::other_hooks::deposit`,
+        options: TRANSACTION_OPTIONS,
+      }),
+    ).rejects.toThrow("must be functions of the same module");
+  });
+
+  it("should mint, burn, freeze and unfreeze", async () => {
+    const mint = callOf(
+      await aptos.mintFungibleAssetTransaction({
+        sender: CREATOR,
+        issuerAddress: ISSUER,
+        fungibleAssetMetadataAddress: METADATA,
+        recipient: HOLDER,
+        amount: 10,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(mint.functionId).toEqual(`${ISSUER}::issuer::mint`);
+    expect(AccountAddress.deserialize(mint.args[0]).toString()).toEqual(METADATA);
+    expect(mint.args[2].deserializeU64()).toEqual(10n);
+
+    const burn = callOf(
+      await aptos.burnFungibleAssetTransaction({
+        sender: CREATOR,
+        issuerAddress: ISSUER,
+        fungibleAssetMetadataAddress: METADATA,
+        owner: HOLDER,
+        amount: 4,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(burn.functionId).toEqual(`${ISSUER}::issuer::burn`);
+    expect(AccountAddress.deserialize(burn.args[1]).toString()).toEqual(HOLDER);
+
+    const burnFromStore = callOf(
+      await aptos.burnFungibleAssetTransaction({
+        sender: CREATOR,
+        issuerAddress: ISSUER,
+        store: HOLDER,
+        amount: 4,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(burnFromStore.functionId).toEqual(`${ISSUER}::issuer::burn_from_store`);
+
+    const freeze = callOf(
+      await aptos.freezeFungibleStoreTransaction({
+        sender: CREATOR,
+        issuerAddress: ISSUER,
+        fungibleAssetMetadataAddress: METADATA,
+        owner: HOLDER,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(freeze.functionId).toEqual(`${ISSUER}::issuer::set_primary_store_frozen`);
+    expect(freeze.args[2].deserializeBool()).toBe(true);
+
+    const unfreeze = callOf(
+      await aptos.unfreezeFungibleStoreTransaction({
+        sender: CREATOR,
+        issuerAddress: ISSUER,
+        store: HOLDER,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(unfreeze.functionId).toEqual(`${ISSUER}::issuer::set_store_frozen`);
+    expect(unfreeze.args[1].deserializeBool()).toBe(false);
+  });
+});
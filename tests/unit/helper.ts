@@ -3,15 +3,20 @@
 /* eslint-disable max-len */
 
 import {
+  AptosConfig,
   ClientRequest,
   ClientResponse,
   Deserializer,
   Ed25519PrivateKey,
+  EntryFunction,
   EphemeralKeyPair,
   Groth16VerificationKey,
   Hex,
   KeylessConfiguration,
   MoveJWK,
+  Network,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
   ZeroKnowledgeSig,
 } from "../../src";
 
@@ -213,3 +218,100 @@ export async function customClient<Req, Res>(requestOptions: ClientRequest<Req>)
     request,
   };
 }
+
+/**
+ * Gas options that let a transaction be built without asking the fullnode for them.
+ */
+export const TRANSACTION_OPTIONS = { accountSequenceNumber: 0, gasUnitPrice: 100, maxGasAmount: 1000 };
+
+/**
+ * A fullnode for unit tests, that records the requests it gets and answers them with `respond`. It doesn't have any
+ * resource and answers every other request with its ledger info; tests extend it to serve what they need.
+ */
+export class MockFullnode {
+  ledgerVersion = 20;
+
+  requests: Array<ClientRequest<any>> = [];
+
+  config(): AptosConfig {
+    const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+      this.requests.push(req);
+      const [status, data] = this.respond(req);
+      return { status, statusText: status === 200 ? "OK" : "Error", data, headers: {} };
+    };
+    return new AptosConfig({ network: Network.LOCAL, client: { provider } });
+  }
+
+  /**
+   * Returns the status and the data of the response to a request.
+   */
+  respond(req: ClientRequest<any>): [number, any] {
+    if (req.url.includes("/resource/")) {
+      return [404, { message: "Resource not found", error_code: "resource_not_found" }];
+    }
+    return [200, this.ledgerInfo()];
+  }
+
+  ledgerInfo(): {} {
+    return {
+      chain_id: 4,
+      ledger_version: `${this.ledgerVersion}`,
+      oldest_ledger_version: "0",
+      block_height: "0",
+      oldest_block_height: "0",
+    };
+  }
+}
+
+/**
+ * A fullnode answering view functions with the given results, by module and function name.
+ */
+export class ViewFullnode extends MockFullnode {
+  views: Record<string, Array<any>>;
+
+  constructor(views: Record<string, Array<any>> = {}) {
+    super();
+    this.views = views;
+  }
+
+  respond(req: ClientRequest<any>): [number, any] {
+    if (req.url.endsWith("/view")) {
+      const entryFunction = EntryFunction.deserialize(new Deserializer(req.body as Uint8Array));
+      return [
+        200,
+        this.views[`${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`],
+      ];
+    }
+    return super.respond(req);
+  }
+}
+
+/**
+ * Returns the entry function a transaction calls.
+ */
+export function entryFunctionOf(transaction: SimpleTransaction): EntryFunction {
+  const { payload } = transaction.rawTransaction;
+  expect(payload).toBeInstanceOf(TransactionPayloadEntryFunction);
+  return (payload as TransactionPayloadEntryFunction).entryFunction;
+}
+
+export function functionIdOf(entryFunction: EntryFunction): string {
+  const { module_name: moduleId, function_name: functionName } = entryFunction;
+  return `${moduleId.address.toString()}::${moduleId.name.identifier}::${functionName.identifier}`;
+}
+
+/**
+ * Returns the function a transaction calls, its type arguments, and a deserializer for each of its arguments.
+ */
+export function callOf(transaction: SimpleTransaction): {
+  functionId: string;
+  typeArguments: Array<string>;
+  args: Array<Deserializer>;
+} {
+  const entryFunction = entryFunctionOf(transaction);
+  return {
+    functionId: functionIdOf(entryFunction),
+    typeArguments: entryFunction.type_args.map((typeArg) => typeArg.toString()),
+    args: entryFunction.args.map((arg) => new Deserializer(arg.bcsToBytes())),
+  };
+}
@@ -0,0 +1,151 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  Account,
+  AccountAuthenticatorEd25519,
+  AccountAuthenticatorSingleKey,
+  AnySignature,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  Deserializer,
+  Ed25519Signature,
+  HttpSigner,
+  Network,
+  SignedTransaction,
+  SigningSchemeInput,
+  TransactionWorker,
+  TypeTagAddress,
+  TypeTagU64,
+  generateSigningMessageForTransaction,
+} from "../../src";
+import { generateTransaction, signAndSubmitTransaction } from "../../src/internal/transactionSubmission";
+import { LocalSigningService } from "../../src/cli";
+
+const transferData = {
+  function: "0x1::aptos_account::transfer" as const,
+  functionArguments: [Account.generate().accountAddress, 100],
+  abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+};
+const gasOptions = { maxGasAmount: 2000, gasUnitPrice: 100 };
+
+/**
+ * Creates a config for a fullnode recording every submitted transaction and reporting it as executed.
+ */
+function mockChain() {
+  const submitted: SignedTransaction[] = [];
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    let data: any;
+    if (req.method === "POST" && req.url.endsWith("/transactions")) {
+      submitted.push(SignedTransaction.deserialize(new Deserializer(req.body as Uint8Array)));
+      data = { hash: `0x${submitted.length.toString(16).padStart(64, "0")}`, type: "pending_transaction" };
+    } else if (/\/transactions\/(wait_)?by_hash\//.test(req.url)) {
+      data = { hash: req.url.split("/").pop(), type: "user_transaction", success: true };
+    } else if (/\/accounts\/[^/]+$/.test(req.url)) {
+      data = { sequence_number: "3", authentication_key: "0x0" };
+    } else {
+      throw new Error(`unexpected request ${req.method} ${req.url}`);
+    }
+    return { status: 200, statusText: "OK", data, headers: {} };
+  };
+  return { submitted, config: new AptosConfig({ network: Network.LOCAL, client: { provider } }) };
+}
+
+describe("HttpSigner", () => {
+  const services: LocalSigningService[] = [];
+
+  async function serve(account: Account): Promise<HttpSigner> {
+    const service = new LocalSigningService(account);
+    services.push(service);
+    return HttpSigner.fromService({ url: await service.start() });
+  }
+
+  afterEach(async () => {
+    await Promise.all(services.splice(0).map((service) => service.stop()));
+  });
+
+  test("it signs like the account behind the service with a legacy Ed25519 key", async () => {
+    const account = Account.generate();
+    const signer = await serve(account);
+    expect(signer.accountAddress.equals(account.accountAddress)).toBe(true);
+    expect(signer.publicKey.toString()).toEqual(account.publicKey.toString());
+
+    const { config } = mockChain();
+    const transaction = await generateTransaction({
+      aptosConfig: config,
+      sender: signer.accountAddress,
+      data: transferData,
+      options: gasOptions,
+    });
+    const authenticator = await signer.signTransactionWithAuthenticator(transaction);
+    expect(authenticator).toBeInstanceOf(AccountAuthenticatorEd25519);
+    expect(authenticator.bcsToBytes()).toEqual(account.signTransactionWithAuthenticator(transaction).bcsToBytes());
+    expect(
+      account.verifySignature({ message: "0x1234", signature: (await signer.sign("0x1234")) as Ed25519Signature }),
+    ).toBe(true);
+  });
+
+  test("it signs like the account behind the service with a single key", async () => {
+    const account = Account.generate({ scheme: SigningSchemeInput.Ed25519, legacy: false });
+    const signer = await serve(account);
+
+    const { config } = mockChain();
+    const transaction = await generateTransaction({
+      aptosConfig: config,
+      sender: signer.accountAddress,
+      data: transferData,
+      options: gasOptions,
+    });
+    const authenticator = await signer.signTransactionWithAuthenticator(transaction);
+    expect(authenticator).toBeInstanceOf(AccountAuthenticatorSingleKey);
+    expect(
+      account.publicKey.verifySignature({
+        message: generateSigningMessageForTransaction(transaction),
+        signature: (await signer.signTransaction(transaction)) as AnySignature,
+      }),
+    ).toBe(true);
+  });
+
+  test("it signs and submits a transaction", async () => {
+    const account = Account.generate();
+    const signer = await serve(account);
+    const { submitted, config } = mockChain();
+    const transaction = await generateTransaction({
+      aptosConfig: config,
+      sender: signer.accountAddress,
+      data: transferData,
+      options: gasOptions,
+    });
+
+    await signAndSubmitTransaction({ aptosConfig: config, signer, transaction });
+
+    expect(submitted).toHaveLength(1);
+    expect(submitted[0].authenticator.bcsToBytes()[0]).toBe(0);
+    expect(submitted[0].raw_txn.sender.equals(account.accountAddress)).toBe(true);
+  });
+
+  test("it sends the transactions of a TransactionWorker", async () => {
+    const signer = await serve(Account.generate());
+    const { submitted, config } = mockChain();
+    const worker = new TransactionWorker(config, signer);
+
+    const handle = await worker.push(transferData, gasOptions);
+    worker.start();
+
+    expect(await handle.sequenceNumber).toBe(BigInt(3));
+    expect((await handle.result).success).toBe(true);
+    expect(submitted).toHaveLength(1);
+    worker.stop();
+  });
+
+  test("it reports errors of the service", async () => {
+    const signer = await serve(Account.generate());
+    const broken = new HttpSigner({
+      url: `${signer.url}/missing`,
+      accountAddress: signer.accountAddress,
+      publicKey: signer.publicKey,
+    });
+    await expect(broken.sign("0x1234")).rejects.toThrow("responded to");
+  });
+});
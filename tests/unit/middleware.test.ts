@@ -0,0 +1,94 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AptosApiType,
+  AptosConfig,
+  ClientMiddleware,
+  ClientRequest,
+  ClientResponse,
+  Network,
+  RequestTiming,
+  getAptosFullNode,
+  loggingMiddleware,
+  postAptosIndexer,
+  timingMiddleware,
+} from "../../src";
+
+function mockConfig(middlewares: ClientMiddleware[], fail?: Error) {
+  const requests: ClientRequest<any>[] = [];
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    requests.push(req);
+    if (fail) {
+      throw fail;
+    }
+    return { status: 200, statusText: "OK", data: { data: { source: "provider" } } as Res, headers: {} };
+  };
+  const config = new AptosConfig({ network: Network.LOCAL, client: { provider }, middlewares });
+  return { config, requests };
+}
+
+describe("client middlewares", () => {
+  test("it runs middlewares in registration order around the client", async () => {
+    const order: string[] = [];
+    const tracker =
+      (name: string): ClientMiddleware =>
+      async (request, context, next) => {
+        order.push(`${name}:request`);
+        const response = await next(request);
+        order.push(`${name}:response`);
+        return response;
+      };
+    const { config } = mockConfig([tracker("outer"), tracker("inner")]);
+
+    await getAptosFullNode({ aptosConfig: config, originMethod: "testOrder", path: "" });
+    expect(order).toEqual(["outer:request", "inner:request", "inner:response", "outer:response"]);
+  });
+
+  test("it lets middlewares change the request and the response", async () => {
+    const tracing: ClientMiddleware = async (request, context, next) => {
+      const response = await next({ ...request, headers: { ...request.headers, traceparent: "00-trace" } });
+      return { ...response, data: { data: { source: `${context.apiType}:${context.originMethod}` } } };
+    };
+    const { config, requests } = mockConfig([tracing]);
+
+    const response = await postAptosIndexer<{}, { source: string }>({
+      aptosConfig: config,
+      originMethod: "testRewrite",
+      path: "",
+      body: {},
+    });
+    expect(requests[0].headers?.traceparent).toBe("00-trace");
+    expect(requests[0].headers?.["x-aptos-client"]).toBeDefined();
+    expect(response.data.source).toBe(`${AptosApiType.INDEXER}:testRewrite`);
+  });
+
+  test("it logs requests and their outcome", async () => {
+    const lines: string[] = [];
+    const { config } = mockConfig([loggingMiddleware({ log: (line) => lines.push(line) })]);
+
+    await getAptosFullNode({ aptosConfig: config, originMethod: "testLogging", path: "accounts/0x1" });
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain("[Fullnode] GET");
+    expect(lines[0]).toContain("accounts/0x1 (testLogging) sending");
+    expect(lines[1]).toContain("responded with 200 OK");
+  });
+
+  test("it reports timings for successful and failed requests", async () => {
+    const timings: RequestTiming[] = [];
+    const middleware = timingMiddleware({ onTiming: (timing) => timings.push(timing) });
+
+    await getAptosFullNode({ aptosConfig: mockConfig([middleware]).config, originMethod: "testTiming", path: "" });
+    await expect(
+      getAptosFullNode({
+        aptosConfig: mockConfig([middleware], new Error("down")).config,
+        originMethod: "x",
+        path: "",
+      }),
+    ).rejects.toThrow("down");
+
+    expect(timings[0]).toMatchObject({ apiType: AptosApiType.FULLNODE, originMethod: "testTiming", status: 200 });
+    expect(timings[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(timings[1].error).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,203 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AccountAddress,
+  Aptos,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  decodeMoveValue,
+  MimeType,
+  MoveFunctionVisibility,
+  MoveModule,
+  MoveStruct,
+  Network,
+  parseTypeTag,
+  Serializer,
+} from "../../src";
+
+const MODULE_ADDRESS = `0x${"12".repeat(32)}`;
+const OBJECT_ADDRESS = AccountAddress.from(`0x${"ab".repeat(32)}`);
+
+function struct(name: string, fields: Array<[string, string]>, typeParams = 0): MoveStruct {
+  return {
+    name,
+    is_native: false,
+    is_event: false,
+    abilities: [],
+    generic_type_params: Array.from({ length: typeParams }, () => ({ constraints: [] })),
+    fields: fields.map(([fieldName, type]) => ({ name: fieldName, type })),
+  };
+}
+
+const decoderModule: MoveModule = {
+  address: MODULE_ADDRESS,
+  name: "decoder_test",
+  friends: [],
+  exposed_functions: [
+    {
+      name: "get",
+      visibility: MoveFunctionVisibility.PUBLIC,
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [{ constraints: [] }],
+      params: [],
+      return: ["u8", `${MODULE_ADDRESS}::decoder_test::Inner`, "vector<T0>"],
+    },
+  ],
+  structs: [
+    struct(
+      "Holder",
+      [
+        ["id", "u64"],
+        ["name", "0x1::string::String"],
+        ["values", "vector<T0>"],
+        ["maybe", `0x1::option::Option<${MODULE_ADDRESS}::decoder_test::Inner>`],
+        ["object", `0x1::object::Object<${MODULE_ADDRESS}::decoder_test::Inner>`],
+        ["bytes", "vector<u8>"],
+        ["owner", "address"],
+        ["delta", "i64"],
+      ],
+      1,
+    ),
+    struct("Inner", [
+      ["flag", "bool"],
+      ["amount", "u128"],
+    ]),
+  ],
+};
+
+function serializeInner(serializer: Serializer, flag: boolean, amount: bigint) {
+  serializer.serializeBool(flag);
+  serializer.serializeU128(amount);
+}
+
+function serializeHolder(): Uint8Array {
+  const serializer = new Serializer();
+  serializer.serializeU64(7);
+  serializer.serializeStr("holder");
+  // values: vector<u32>
+  serializer.serializeU32AsUleb128(2);
+  serializer.serializeU32(1);
+  serializer.serializeU32(2);
+  // maybe: Some(Inner)
+  serializer.serializeU32AsUleb128(1);
+  serializeInner(serializer, true, 10n ** 20n);
+  OBJECT_ADDRESS.serialize(serializer);
+  serializer.serializeBytes(new Uint8Array([1, 2, 3]));
+  AccountAddress.ONE.serialize(serializer);
+  serializer.serializeI64(-5);
+  return serializer.toUint8Array();
+}
+
+const expectedHolder = {
+  id: "7",
+  name: "holder",
+  values: [1, 2],
+  maybe: { vec: [{ flag: true, amount: "100000000000000000000" }] },
+  object: { inner: OBJECT_ADDRESS.toString() },
+  bytes: "0x010203",
+  owner: "0x1",
+  delta: "-5",
+};
+
+function config(args: { binary?: boolean } = {}) {
+  const requests: Array<ClientRequest<any>> = [];
+  const respond = async (req: ClientRequest<any>): Promise<ClientResponse<any>> => {
+    requests.push(req);
+    let data: any;
+    if (req.url.endsWith("/module/decoder_test")) {
+      data = { bytecode: "0x", abi: decoderModule };
+    } else if (req.url.includes("/resource/")) {
+      data = serializeHolder();
+    } else if (req.url.endsWith("/view")) {
+      const serializer = new Serializer();
+      serializer.serializeU32AsUleb128(3);
+      serializer.serializeBytes(new Uint8Array([9]));
+      const inner = new Serializer();
+      serializeInner(inner, false, 1n);
+      serializer.serializeBytes(inner.toUint8Array());
+      serializer.serializeBytes(new Uint8Array([1, 0xff, 0xff]));
+      data = serializer.toUint8Array();
+    } else {
+      throw new Error(`unexpected request ${req.method} ${req.url}`);
+    }
+    return { status: 200, statusText: "OK", data, headers: {} };
+  };
+  const client = args.binary
+    ? {
+        provider: async <Req, Res>(req: ClientRequest<Req>) => {
+          if (req.headers?.accept === MimeType.BCS) {
+            throw new Error("BCS requests should go to the binary provider");
+          }
+          return (await respond(req)) as ClientResponse<Res>;
+        },
+        binaryProvider: async <Req>(req: ClientRequest<Req>) => respond(req),
+      }
+    : { provider: async <Req, Res>(req: ClientRequest<Req>) => (await respond(req)) as ClientResponse<Res> };
+  return { requests, aptosConfig: new AptosConfig({ network: Network.LOCAL, client }) };
+}
+
+describe("decodeMoveValue", () => {
+  it("should decode nested structs, vectors, options, objects and strings", () => {
+    const typeTag = parseTypeTag(`${MODULE_ADDRESS}::decoder_test::Holder<u32>`);
+    expect(decodeMoveValue({ typeTag, bytes: serializeHolder(), modules: [decoderModule] })).toEqual(expectedHolder);
+  });
+
+  it("should decode primitives", () => {
+    const serializer = new Serializer();
+    serializer.serializeU32AsUleb128(2);
+    serializer.serializeStr("a");
+    serializer.serializeStr("b");
+    expect(
+      decodeMoveValue({
+        typeTag: parseTypeTag("vector<0x1::string::String>"),
+        bytes: serializer.toUint8Array(),
+        modules: [],
+      }),
+    ).toEqual(["a", "b"]);
+    expect(
+      decodeMoveValue({ typeTag: parseTypeTag("u256"), bytes: new Uint8Array(32).fill(0xff), modules: [] }),
+    ).toEqual((2n ** 256n - 1n).toString());
+    expect(decodeMoveValue({ typeTag: parseTypeTag("i8"), bytes: "0xff", modules: [] })).toEqual(-1);
+  });
+
+  it("should fail on missing structs and trailing bytes", () => {
+    const typeTag = parseTypeTag(`${MODULE_ADDRESS}::decoder_test::Missing`);
+    expect(() => decodeMoveValue({ typeTag, bytes: "0x00", modules: [decoderModule] })).toThrow(
+      "Could not find struct ABI",
+    );
+    expect(() => decodeMoveValue({ typeTag: parseTypeTag("u8"), bytes: "0x0102", modules: [] })).toThrow(
+      "Unexpected 1 bytes left",
+    );
+    expect(() => decodeMoveValue({ typeTag: parseTypeTag("|u8|"), bytes: "0x00", modules: [] })).toThrow(
+      "can't be decoded",
+    );
+  });
+});
+
+describe("BCS reads", () => {
+  it("should decode resources with MimeType.BCS", async () => {
+    const { requests, aptosConfig } = config();
+    const aptos = new Aptos(aptosConfig);
+    const resource = await aptos.getAccountResource({
+      accountAddress: "0x1",
+      resourceType: `${MODULE_ADDRESS}::decoder_test::Holder<u32>`,
+      options: { acceptType: MimeType.BCS },
+    });
+    expect(resource).toEqual(expectedHolder);
+    const resourceRequest = requests.find((req) => req.url.includes("/resource/"));
+    expect(resourceRequest?.headers?.accept).toEqual(MimeType.BCS);
+  });
+
+  it("should decode view results with MimeType.BCS through the binary provider", async () => {
+    const { aptosConfig } = config({ binary: true });
+    const aptos = new Aptos(aptosConfig);
+    const result = await aptos.view({
+      payload: { function: `${MODULE_ADDRESS}::decoder_test::get`, typeArguments: ["u16"] },
+      options: { acceptType: MimeType.BCS },
+    });
+    expect(result).toEqual([9, { flag: false, amount: "1" }, [65535]]);
+  });
+});
@@ -0,0 +1,235 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { sha3_256 as sha3Hash } from "@noble/hashes/sha3";
+import {
+  AccountAddress,
+  Aptos,
+  Deserializer,
+  EntryFunction,
+  generateTransactionPayload,
+  Hex,
+  MultiSigTransactionPayload,
+  TransactionPayloadMultiSig,
+  TypeTagAddress,
+  TypeTagU64,
+} from "../../src";
+import { entryFunctionOf, functionIdOf, TRANSACTION_OPTIONS, ViewFullnode } from "./helper";
+
+const OWNER = `0x${"42".repeat(32)}`;
+const OTHER_OWNER = `0x${"43".repeat(32)}`;
+const MULTISIG = `0x${"44".repeat(32)}`;
+const RECIPIENT = `0x${"45".repeat(32)}`;
+
+const TRANSFER = {
+  function: "0x1::aptos_account::transfer" as const,
+  functionArguments: [RECIPIENT, 100],
+  abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+};
+
+/**
+ * Returns the bytes of a `vector<u8>` argument.
+ */
+function bytesArgument(entryFunction: EntryFunction, index: number): Uint8Array {
+  return new Deserializer(entryFunction.args[index].bcsToBytes()).deserializeBytes();
+}
+
+async function storedPayload(data: typeof TRANSFER): Promise<string> {
+  const aptosConfig = new ViewFullnode().config();
+  const { entryFunction } = await generateTransactionPayload({ aptosConfig, ...data });
+  return Hex.fromHexInput(new MultiSigTransactionPayload(entryFunction).bcsToBytes()).toString();
+}
+
+describe("Multisig", () => {
+  it("should build a transaction that creates a multisig account", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const transaction = await aptos.multisig.createMultisigAccountTransaction({
+      sender: OWNER,
+      additionalOwners: [OTHER_OWNER],
+      signaturesRequired: 2,
+      metadata: { name: "0x01" },
+      options: TRANSACTION_OPTIONS,
+    });
+    const entryFunction = entryFunctionOf(transaction);
+    expect(functionIdOf(entryFunction)).toEqual("0x1::multisig_account::create_with_owners");
+    expect(entryFunction.args.length).toEqual(4);
+    expect(new Deserializer(entryFunction.args[1].bcsToBytes()).deserializeU64()).toEqual(2n);
+  });
+
+  it("should propose a transaction with its payload or its hash", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const proposal = entryFunctionOf(
+      await aptos.proposeMultisigTransaction({
+        sender: OWNER,
+        multisigAddress: MULTISIG,
+        data: TRANSFER,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(functionIdOf(proposal)).toEqual("0x1::multisig_account::create_transaction");
+    const payload = bytesArgument(proposal, 1);
+    expect(Hex.fromHexInput(payload).toString()).toEqual(await storedPayload(TRANSFER));
+    expect(functionIdOf(aptos.decodeMultisigTransactionPayload({ payload }))).toEqual("0x1::aptos_account::transfer");
+
+    const hashProposal = entryFunctionOf(
+      await aptos.proposeMultisigTransaction({
+        sender: OWNER,
+        multisigAddress: MULTISIG,
+        data: TRANSFER,
+        hashOnly: true,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(functionIdOf(hashProposal)).toEqual("0x1::multisig_account::create_transaction_with_hash");
+    expect(bytesArgument(hashProposal, 1)).toEqual(sha3Hash(payload));
+  });
+
+  it("should propose changes to the owners and the signatures required", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const proposedFunction = async (args: any) =>
+      functionIdOf(
+        aptos.decodeMultisigTransactionPayload({
+          payload: bytesArgument(
+            entryFunctionOf(
+              await aptos.proposeMultisigOwnersChangeTransaction({
+                sender: OWNER,
+                multisigAddress: MULTISIG,
+                options: TRANSACTION_OPTIONS,
+                ...args,
+              }),
+            ),
+            1,
+          ),
+        }),
+      );
+    expect(await proposedFunction({ addOwners: [RECIPIENT] })).toEqual("0x1::multisig_account::add_owners");
+    expect(await proposedFunction({ removeOwners: [OTHER_OWNER] })).toEqual("0x1::multisig_account::remove_owners");
+    expect(await proposedFunction({ signaturesRequired: 3 })).toEqual(
+      "0x1::multisig_account::update_signatures_required",
+    );
+    await expect(proposedFunction({ addOwners: [RECIPIENT], removeOwners: [OTHER_OWNER] })).rejects.toThrow(
+      "can't be added and removed",
+    );
+  });
+
+  it("should remove owners and change the signatures required by swapping no owner for them", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const proposal = entryFunctionOf(
+      await aptos.proposeMultisigOwnersChangeTransaction({
+        sender: OWNER,
+        multisigAddress: MULTISIG,
+        removeOwners: [OTHER_OWNER],
+        signaturesRequired: 1,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    const change = aptos.decodeMultisigTransactionPayload({ payload: bytesArgument(proposal, 1) });
+    expect(functionIdOf(change)).toEqual("0x1::multisig_account::swap_owners_and_update_signatures_required");
+    const [added, removed, signaturesRequired] = change.args.map((arg) => new Deserializer(arg.bcsToBytes()));
+    expect(added.deserializeVector(AccountAddress)).toEqual([]);
+    expect(removed.deserializeVector(AccountAddress).map((owner) => owner.toString())).toEqual([OTHER_OWNER]);
+    expect(signaturesRequired.deserializeU64()).toEqual(1n);
+  });
+
+  it("should vote on and execute transactions", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const approval = entryFunctionOf(
+      await aptos.approveMultisigTransaction({
+        sender: OWNER,
+        multisigAddress: MULTISIG,
+        sequenceNumber: 3,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(functionIdOf(approval)).toEqual("0x1::multisig_account::approve_transaction");
+    const rejection = entryFunctionOf(
+      await aptos.rejectMultisigTransaction({
+        sender: OWNER,
+        multisigAddress: MULTISIG,
+        sequenceNumber: 3,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(functionIdOf(rejection)).toEqual("0x1::multisig_account::reject_transaction");
+
+    // Without data, the stored payload is executed
+    const stored = await aptos.executeMultisigTransaction({
+      sender: OWNER,
+      multisigAddress: MULTISIG,
+      options: TRANSACTION_OPTIONS,
+    });
+    const storedPayload = stored.rawTransaction.payload as TransactionPayloadMultiSig;
+    expect(storedPayload).toBeInstanceOf(TransactionPayloadMultiSig);
+    expect(storedPayload.multiSig.multisig_address.toString()).toEqual(MULTISIG);
+    expect(storedPayload.multiSig.transaction_payload).toBeUndefined();
+
+    const given = await aptos.executeMultisigTransaction({
+      sender: OWNER,
+      multisigAddress: MULTISIG,
+      data: TRANSFER,
+      options: TRANSACTION_OPTIONS,
+    });
+    const givenPayload = given.rawTransaction.payload as TransactionPayloadMultiSig;
+    expect(functionIdOf(givenPayload.multiSig.transaction_payload!.transaction_payload)).toEqual(
+      "0x1::aptos_account::transfer",
+    );
+  });
+
+  it("should read the pending transactions with their payloads and votes", async () => {
+    const payload = await storedPayload(TRANSFER);
+    const fullnode = new ViewFullnode({
+      "multisig_account::get_pending_transactions": [
+        [
+          {
+            payload: { vec: [payload] },
+            payload_hash: { vec: [] },
+            votes: {
+              data: [
+                { key: OWNER, value: true },
+                { key: OTHER_OWNER, value: false },
+              ],
+            },
+            creator: OWNER,
+            creation_time_secs: "100",
+          },
+          {
+            payload: { vec: [] },
+            payload_hash: { vec: ["0x1234"] },
+            votes: { data: [{ key: OTHER_OWNER, value: true }] },
+            creator: OTHER_OWNER,
+            creation_time_secs: "200",
+          },
+        ],
+      ],
+      "multisig_account::last_resolved_sequence_number": ["4"],
+      "multisig_account::owners": [[OWNER, OTHER_OWNER]],
+      "multisig_account::num_signatures_required": ["2"],
+      "multisig_account::vote": [true, false],
+    });
+    const aptos = new Aptos(fullnode.config());
+
+    const [first, second] = await aptos.getMultisigPendingTransactions({ multisigAddress: MULTISIG });
+    expect(first).toMatchObject({
+      sequenceNumber: "5",
+      creator: OWNER,
+      creationTimeSecs: "100",
+      payloadHash: undefined,
+      approvals: [OWNER],
+      rejections: [OTHER_OWNER],
+    });
+    expect(functionIdOf(first.payload!)).toEqual("0x1::aptos_account::transfer");
+    expect(second).toMatchObject({ sequenceNumber: "6", payload: undefined, payloadHash: "0x1234" });
+    // Both views read the latest ledger version at the time of the call
+    const viewVersions = fullnode.requests
+      .filter((req) => req.url.endsWith("/view"))
+      .map((req) => req.params?.ledger_version);
+    expect(viewVersions).toEqual([20n, 20n]);
+
+    expect(await aptos.getMultisigOwners({ multisigAddress: MULTISIG })).toEqual([OWNER, OTHER_OWNER]);
+    expect(await aptos.getMultisigSignaturesRequired({ multisigAddress: MULTISIG })).toEqual(2);
+    expect(await aptos.getMultisigVote({ multisigAddress: MULTISIG, sequenceNumber: 5, owner: OTHER_OWNER })).toEqual({
+      voted: true,
+      approved: false,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress, Aptos, ClientRequest, createGuidObjectAddress, SimpleTransaction } from "../../src";
+import { callOf, MockFullnode, TRANSACTION_OPTIONS } from "./helper";
+
+const ACCOUNT = `0x${"42".repeat(32)}`;
+const OBJECT = `0x${"43".repeat(32)}`;
+const PARENT = `0x${"44".repeat(32)}`;
+
+const objectCore = (owner: string, allowUngatedTransfer = true) => ({
+  guid_creation_num: "1125899906842625",
+  owner,
+  allow_ungated_transfer: allowUngatedTransfer,
+  transfer_events: { counter: "0", guid: { id: { addr: owner, creation_num: "1125899906842624" } } },
+});
+
+/**
+ * A fullnode serving the resources in `resources`, by address and type, at ledger version 20.
+ */
+class ObjectFullnode extends MockFullnode {
+  resources: Record<string, {}> = {};
+
+  respond(req: ClientRequest<any>): [number, any] {
+    const resource = req.url.match(/accounts\/(0x[0-9a-f]+)\/resource\/(.*)$/);
+    const data = resource && this.resources[`${resource[1]}/${resource[2]}`];
+    return resource && data !== undefined ? [200, { type: resource[2], data }] : super.respond(req);
+  }
+
+  resourceVersions(): Array<unknown> {
+    return this.requests.filter((req) => req.url.includes("/resource/")).map((req) => req.params?.ledger_version);
+  }
+}
+
+/**
+ * Returns the function an object transaction calls, with its type arguments, and its address arguments.
+ */
+function objectCallOf(transaction: SimpleTransaction): { call: string; args: Array<string> } {
+  const { functionId, typeArguments, args } = callOf(transaction);
+  return {
+    call: `${functionId}<${typeArguments.join(", ")}>`,
+    args: args.map((arg) => AccountAddress.deserialize(arg).toString()),
+  };
+}
+
+describe("AptosObject", () => {
+  it("should follow the owners of an object up to its root owner at one ledger version", async () => {
+    const fullnode = new ObjectFullnode();
+    fullnode.resources[`${OBJECT}/0x1::object::ObjectCore`] = objectCore(PARENT, false);
+    fullnode.resources[`${PARENT}/0x1::object::ObjectCore`] = objectCore(ACCOUNT);
+    const aptos = new Aptos(fullnode.config());
+
+    expect(await aptos.getObjectOwnership({ objectAddress: OBJECT })).toEqual({
+      objectAddress: OBJECT,
+      owners: [PARENT, ACCOUNT],
+      rootOwner: ACCOUNT,
+    });
+    expect(fullnode.resourceVersions()).toEqual([20n, 20n, 20n]);
+
+    expect(await aptos.isObjectUngatedTransferAllowed({ objectAddress: OBJECT })).toBe(false);
+    expect(await aptos.isObjectUngatedTransferAllowed({ objectAddress: PARENT })).toBe(true);
+    expect((await aptos.getObjectCore({ objectAddress: OBJECT, options: { ledgerVersion: 5 } })).owner).toEqual(PARENT);
+    expect(fullnode.resourceVersions().at(-1)).toEqual(5);
+  });
+
+  it("should reject an ownership graph deeper than objects can be nested", async () => {
+    const fullnode = new ObjectFullnode();
+    fullnode.resources[`${OBJECT}/0x1::object::ObjectCore`] = objectCore(OBJECT);
+    const aptos = new Aptos(fullnode.config());
+
+    await expect(aptos.getObjectOwnership({ objectAddress: OBJECT })).rejects.toThrow(
+      "is nested in more than 8 objects",
+    );
+  });
+
+  it("should derive the address of the next object created from the GUID of an object or an account", async () => {
+    const fullnode = new ObjectFullnode();
+    fullnode.resources[`${PARENT}/0x1::object::ObjectCore`] = objectCore(ACCOUNT);
+    fullnode.resources[`${ACCOUNT}/0x1::account::Account`] = { guid_creation_num: "7" };
+    const aptos = new Aptos(fullnode.config());
+
+    const fromObject = await aptos.getNextGuidObjectAddress({ creatorAddress: PARENT });
+    expect(fromObject.equals(createGuidObjectAddress(AccountAddress.from(PARENT), 1125899906842625n))).toBe(true);
+    const fromAccount = await aptos.getNextGuidObjectAddress({ creatorAddress: ACCOUNT });
+    expect(fromAccount.equals(createGuidObjectAddress(AccountAddress.from(ACCOUNT), 7))).toBe(true);
+    await expect(aptos.getNextGuidObjectAddress({ creatorAddress: OBJECT })).rejects.toThrow(
+      "has neither an ObjectCore nor an Account resource",
+    );
+  });
+
+  it("should read the resources of an object by key at one ledger version", async () => {
+    const fullnode = new ObjectFullnode();
+    fullnode.resources[`${OBJECT}/0x1::object::ObjectCore`] = objectCore(ACCOUNT);
+    fullnode.resources[`${OBJECT}/0x4::token::Token`] = { name: "Token #1" };
+    const aptos = new Aptos(fullnode.config());
+
+    const resources = await aptos.getObjectResources<{
+      core: { owner: string };
+      token: { name: string };
+      store: { frozen: boolean };
+    }>({
+      objectAddress: OBJECT,
+      resourceTypes: {
+        core: "0x1::object::ObjectCore",
+        token: "0x4::token::Token",
+        store: "0x1::fungible_asset::FungibleStore",
+      },
+    });
+    expect(resources.core?.owner).toEqual(ACCOUNT);
+    expect(resources.token).toEqual({ name: "Token #1" });
+    expect(resources.store).toBeUndefined();
+    expect(fullnode.resourceVersions()).toEqual([20n, 20n, 20n]);
+  });
+
+  it("should build the transfer and burn transactions of the object module", async () => {
+    const aptos = new Aptos(new ObjectFullnode().config());
+
+    expect(
+      objectCallOf(
+        await aptos.transferObjectTransaction({
+          sender: ACCOUNT,
+          objectAddress: OBJECT,
+          recipient: PARENT,
+          objectType: "0x4::token::Token",
+          options: TRANSACTION_OPTIONS,
+        }),
+      ),
+    ).toEqual({ call: "0x1::object::transfer<0x4::token::Token>", args: [OBJECT, PARENT] });
+    expect(
+      objectCallOf(
+        await aptos.transferObjectToObjectTransaction({
+          sender: ACCOUNT,
+          objectAddress: OBJECT,
+          toObjectAddress: PARENT,
+          options: TRANSACTION_OPTIONS,
+        }),
+      ),
+    ).toEqual({
+      call: "0x1::object::transfer_to_object<0x1::object::ObjectCore, 0x1::object::ObjectCore>",
+      args: [OBJECT, PARENT],
+    });
+    expect(
+      objectCallOf(
+        await aptos.burnObjectTransaction({ sender: ACCOUNT, objectAddress: OBJECT, options: TRANSACTION_OPTIONS }),
+      ),
+    ).toEqual({ call: "0x1::object::burn<0x1::object::ObjectCore>", args: [OBJECT] });
+    expect(
+      objectCallOf(
+        await aptos.unburnObjectTransaction({ sender: ACCOUNT, objectAddress: OBJECT, options: TRANSACTION_OPTIONS }),
+      ),
+    ).toEqual({ call: "0x1::object::unburn<0x1::object::ObjectCore>", args: [OBJECT] });
+  });
+});
@@ -0,0 +1,108 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  Account,
+  AptosConfig,
+  Deserializer,
+  EntryFunction,
+  MultiSig,
+  Network,
+  ORDERLESS_TXN_SEQUENCE_NUMBER,
+  Serializer,
+  SimpleTransaction,
+  TransactionExecutableEmpty,
+  TransactionExecutableEntryFunction,
+  TransactionExtraConfigV1,
+  TransactionInnerPayloadV1,
+  TransactionPayload,
+  TransactionPayloadEntryFunction,
+  TransactionPayloadMultiSig,
+  TypeTagAddress,
+  TypeTagU64,
+  U64,
+  buildTransaction,
+  convertPayloadToInnerPayload,
+  generateTransactionPayloadWithABI,
+} from "../../src";
+
+const recipient = Account.generate().accountAddress;
+const entryFunction = EntryFunction.build("0x1::aptos_account", "transfer", [], [recipient, new U64(100)]);
+const gasOptions = { maxGasAmount: 2000, gasUnitPrice: 100 };
+
+describe("orderless transactions", () => {
+  test("it serializes and deserializes the newer payload format", () => {
+    const payload = new TransactionInnerPayloadV1(
+      new TransactionExecutableEntryFunction(entryFunction),
+      new TransactionExtraConfigV1(undefined, 7),
+    );
+    const bytes = payload.bcsToBytes();
+    const serializer = new Serializer();
+    entryFunction.serialize(serializer);
+    const entryFunctionBytes = serializer.toUint8Array();
+
+    // Payload variant, inner payload variant and executable variant, followed by the entry function
+    expect(bytes.slice(0, 3)).toEqual(new Uint8Array([4, 0, 1]));
+    expect(bytes.slice(3, 3 + entryFunctionBytes.length)).toEqual(entryFunctionBytes);
+    // Extra config variant, no multisig address and the nonce
+    expect(bytes.slice(3 + entryFunctionBytes.length)).toEqual(new Uint8Array([0, 0, 1, 7, 0, 0, 0, 0, 0, 0, 0]));
+
+    const deserialized = TransactionPayload.deserialize(new Deserializer(bytes));
+    expect(deserialized).toBeInstanceOf(TransactionInnerPayloadV1);
+    expect((deserialized as TransactionInnerPayloadV1).replayProtectionNonce).toBe(BigInt(7));
+    expect(deserialized.bcsToBytes()).toEqual(bytes);
+  });
+
+  test("it converts payloads to the newer format", () => {
+    const converted = convertPayloadToInnerPayload(new TransactionPayloadEntryFunction(entryFunction), 1);
+    expect((converted as TransactionInnerPayloadV1).executable).toBeInstanceOf(TransactionExecutableEntryFunction);
+    expect(converted.replayProtectionNonce).toBe(BigInt(1));
+
+    const multisigAddress = Account.generate().accountAddress;
+    const approval = convertPayloadToInnerPayload(new TransactionPayloadMultiSig(new MultiSig(multisigAddress)));
+    expect((approval as TransactionInnerPayloadV1).executable).toBeInstanceOf(TransactionExecutableEmpty);
+    const extraConfig = (approval as TransactionInnerPayloadV1).extra_config as TransactionExtraConfigV1;
+    expect(extraConfig.multisig_address?.equals(multisigAddress)).toBe(true);
+    expect(approval.replayProtectionNonce).toBeUndefined();
+
+    const withNonce = convertPayloadToInnerPayload(approval, 2) as TransactionInnerPayloadV1;
+    expect((withNonce.extra_config as TransactionExtraConfigV1).multisig_address?.equals(multisigAddress)).toBe(true);
+    expect(withNonce.replayProtectionNonce).toBe(BigInt(2));
+  });
+
+  test("it builds an orderless transaction without looking up the sequence number", async () => {
+    const provider = async (): Promise<never> => {
+      throw new Error("unexpected request");
+    };
+    const aptosConfig = new AptosConfig({ network: Network.LOCAL, client: { provider } });
+    const payload = generateTransactionPayloadWithABI({
+      function: "0x1::aptos_account::transfer",
+      functionArguments: [recipient, 100],
+      abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+    });
+
+    const transaction = await buildTransaction({
+      aptosConfig,
+      sender: Account.generate().accountAddress,
+      payload,
+      options: { ...gasOptions, replayProtectionNonce: 42 },
+    });
+
+    expect(transaction.rawTransaction.sequence_number).toBe(ORDERLESS_TXN_SEQUENCE_NUMBER);
+    expect((transaction.rawTransaction.payload as TransactionInnerPayloadV1).replayProtectionNonce).toBe(BigInt(42));
+    const deserialized = SimpleTransaction.deserialize(new Deserializer(transaction.bcsToBytes()));
+    expect(deserialized.rawTransaction.payload).toBeInstanceOf(TransactionInnerPayloadV1);
+  });
+
+  test("it rejects orderless transactions that expire too late", async () => {
+    const aptosConfig = new AptosConfig({ network: Network.LOCAL });
+    await expect(
+      buildTransaction({
+        aptosConfig,
+        sender: Account.generate().accountAddress,
+        payload: new TransactionPayloadEntryFunction(entryFunction),
+        options: { ...gasOptions, replayProtectionNonce: 1, expireTimestamp: Math.floor(Date.now() / 1000) + 600 },
+      }),
+    ).rejects.toThrow("Orderless transactions must expire within 60 seconds");
+  });
+});
@@ -0,0 +1,105 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AptosApiType,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  Network,
+  RequestLimitConfig,
+  getAptosFullNode,
+  postAptosFullNode,
+  postAptosIndexer,
+  rateLimitMiddleware,
+  sleep,
+} from "../../src";
+
+/**
+ * Creates a config whose client answers after `latencyMs`, tracking how many requests are in flight at most.
+ */
+function mockConfig(limits: Partial<Record<AptosApiType, RequestLimitConfig>>, latencyMs = 20) {
+  const stats = { sent: [] as ClientRequest<any>[], inFlight: 0, maxInFlight: 0 };
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    stats.sent.push(req);
+    stats.inFlight += 1;
+    stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+    await sleep(latencyMs);
+    stats.inFlight -= 1;
+    return { status: 200, statusText: "OK", data: { data: { url: req.url } } as Res, headers: {} };
+  };
+  const config = new AptosConfig({
+    network: Network.LOCAL,
+    client: { provider },
+    middlewares: [rateLimitMiddleware(limits)],
+  });
+  return { config, stats };
+}
+
+describe("rate limit middleware", () => {
+  test("it caps the number of concurrent requests", async () => {
+    const { config, stats } = mockConfig({ [AptosApiType.FULLNODE]: { maxConcurrency: 2 } });
+    await Promise.all(
+      Array.from({ length: 6 }, (_, i) =>
+        getAptosFullNode({ aptosConfig: config, originMethod: "test", path: `${i}` }),
+      ),
+    );
+    expect(stats.sent).toHaveLength(6);
+    expect(stats.maxInFlight).toBe(2);
+  });
+
+  test("it spaces requests out once the burst is used up", async () => {
+    const { config } = mockConfig({ [AptosApiType.FULLNODE]: { requestsPerSecond: 20, burst: 2 } }, 0);
+    const start = Date.now();
+    await Promise.all(
+      Array.from({ length: 4 }, (_, i) =>
+        getAptosFullNode({ aptosConfig: config, originMethod: "test", path: `${i}` }),
+      ),
+    );
+    // Two requests go out immediately, the other two wait 50ms each for a new token
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+  });
+
+  test("it only limits the configured api types", async () => {
+    const { config, stats } = mockConfig({ [AptosApiType.FULLNODE]: { maxConcurrency: 1 } });
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        postAptosIndexer({ aptosConfig: config, originMethod: "test", path: "", body: {} }),
+      ),
+    );
+    expect(stats.maxInFlight).toBe(3);
+  });
+
+  test("it shares one request between identical concurrent reads", async () => {
+    const { config, stats } = mockConfig({ [AptosApiType.FULLNODE]: { dedupe: true } });
+    const view = (originMethod: string) =>
+      postAptosFullNode({ aptosConfig: config, originMethod, path: "view", body: { function: "0x1::a::b" } });
+    const [first, second] = await Promise.all([view("a"), view("b")]);
+    await Promise.all([
+      getAptosFullNode({ aptosConfig: config, originMethod: "test", path: "accounts/0x1" }),
+      getAptosFullNode({ aptosConfig: config, originMethod: "test", path: "accounts/0x1" }),
+      getAptosFullNode({ aptosConfig: config, originMethod: "test", path: "accounts/0x2" }),
+    ]);
+    expect(stats.sent).toHaveLength(3);
+    expect(first.data).toEqual(second.data);
+    expect(first).not.toBe(second);
+    expect(first.data).not.toBe(second.data);
+
+    // Once the shared request has completed, the next identical read goes out on its own
+    await view("c");
+    expect(stats.sent).toHaveLength(4);
+  });
+
+  test("it never shares transaction submissions", async () => {
+    const { config, stats } = mockConfig({ [AptosApiType.FULLNODE]: { dedupe: true } });
+    const submit = () =>
+      postAptosFullNode({ aptosConfig: config, originMethod: "test", path: "transactions", body: {} });
+    await Promise.all([submit(), submit()]);
+    expect(stats.sent).toHaveLength(2);
+  });
+
+  test("it rejects invalid limits", () => {
+    expect(() => rateLimitMiddleware({ [AptosApiType.FULLNODE]: { requestsPerSecond: 0 } })).toThrow();
+    expect(() => rateLimitMiddleware({ [AptosApiType.INDEXER]: { maxConcurrency: 0 } })).toThrow();
+  });
+});
@@ -2,6 +2,7 @@ import {
   AccountAddress,
   Bool,
   checkOrConvertArgument,
+  FixedBytes,
   MoveOption,
   MoveString,
   MoveVector,
@@ -209,6 +210,18 @@ describe("Remote ABI", () => {
       );
     });
 
+    it("should take BCS encoded function values", () => {
+      const closure = new Uint8Array([1, 2, 3]);
+      expect(checkOrConvertArgument(closure, parseTypeTag("|u64|bool has drop"), 0, [])).toEqual(
+        new FixedBytes(closure),
+      );
+      expect(checkOrConvertArgument(new FixedBytes(closure), parseTypeTag("|u64|"), 0, [])).toEqual(
+        new FixedBytes(closure),
+      );
+      expect(() => checkOrConvertArgument("0x1::m::f", parseTypeTag("|u64|"), 0, [])).toThrowError("Type mismatch");
+      expect(() => checkOrConvertArgument(new U8(1), parseTypeTag("|u64|"), 0, [])).toThrowError("Type mismatch");
+    });
+
     it("should fail on invalid simple inputs", () => {
       expect(() => checkOrConvertArgument(false, parseTypeTag("address"), 0, [])).toThrowError();
       expect(() => checkOrConvertArgument(0, parseTypeTag("bool"), 0, [])).toThrowError();
@@ -0,0 +1,146 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  AptosApiError,
+  AptosApiType,
+  AptosConfig,
+  AptosNetworkError,
+  ClientRequest,
+  ClientResponse,
+  Network,
+  aptosRequest,
+  computeRetryDelayMs,
+  isIdempotentRequest,
+  parseRetryAfterMs,
+} from "../../src";
+
+const FULLNODE = "http://primary.test/v1";
+const FAILOVER = "http://failover.test/v1";
+
+/**
+ * Creates a config whose client answers with the given responses in order, recording every request it receives.
+ */
+function mockConfig(responses: Array<Partial<ClientResponse<any>> | Error>) {
+  const requests: ClientRequest<any>[] = [];
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    requests.push(req);
+    const next = responses.shift();
+    if (next instanceof Error) {
+      throw next;
+    }
+    return { status: 200, statusText: "OK", data: {} as Res, headers: {}, ...next };
+  };
+  const config = new AptosConfig({ network: Network.LOCAL, client: { provider } });
+  return { config, requests };
+}
+
+const retry = { initialDelayMs: 1, jitter: false };
+
+describe("retry policy", () => {
+  test("it sends a single attempt when no retry policy is configured", async () => {
+    const { config, requests } = mockConfig([{ status: 503, statusText: "Service Unavailable" }]);
+    const promise = aptosRequest({ url: FULLNODE, method: "GET", path: "accounts/0x1" }, config, AptosApiType.FULLNODE);
+    await expect(promise).rejects.toThrow(AptosApiError);
+    await promise.catch((e) => expect(e.attempts).toBeUndefined());
+    expect(requests).toHaveLength(1);
+  });
+
+  test("it retries idempotent requests until one succeeds", async () => {
+    const { config, requests } = mockConfig([{ status: 503 }, new Error("socket hang up"), { data: { ok: true } }]);
+    const response = await aptosRequest<{}, { ok: boolean }>(
+      { url: FULLNODE, method: "GET", path: "accounts/0x1", overrides: { RETRY: retry } },
+      config,
+      AptosApiType.FULLNODE,
+    );
+    expect(response.data.ok).toBe(true);
+    expect(requests).toHaveLength(3);
+  });
+
+  test("it records every failed attempt on the thrown error", async () => {
+    const { config } = mockConfig([{ status: 429 }, { status: 502 }, { status: 500 }]);
+    const error = await aptosRequest(
+      { url: FULLNODE, method: "GET", path: "accounts/0x1", overrides: { RETRY: retry } },
+      config,
+      AptosApiType.FULLNODE,
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(AptosApiError);
+    expect(error.status).toBe(500);
+    expect(error.attempts.map((a: any) => a.status)).toEqual([429, 502, 500]);
+    expect(error.attempts.map((a: any) => a.delayMs)).toEqual([1, 2, undefined]);
+  });
+
+  test("it does not retry statuses outside of the retryable ones", async () => {
+    const { config, requests } = mockConfig([{ status: 404 }]);
+    const error = await aptosRequest(
+      { url: FULLNODE, method: "GET", path: "accounts/0x1", overrides: { RETRY: retry } },
+      config,
+      AptosApiType.FULLNODE,
+    ).catch((e) => e);
+    expect(error.status).toBe(404);
+    expect(error.attempts).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("it never retries a transaction submission by default", async () => {
+    const { config, requests } = mockConfig([new Error("ECONNRESET"), { status: 202 }]);
+    const error = await aptosRequest(
+      { url: FULLNODE, method: "POST", path: "transactions", overrides: { RETRY: retry } },
+      config,
+      AptosApiType.FULLNODE,
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(AptosNetworkError);
+    expect(error.innerError.message).toBe("ECONNRESET");
+    expect(error.attempts).toHaveLength(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("it fails over to the next url on every retry", async () => {
+    const { config, requests } = mockConfig([new Error("down"), new Error("down"), { status: 200 }]);
+    await aptosRequest(
+      { url: FULLNODE, method: "POST", path: "view", overrides: { RETRY: { ...retry, failoverUrls: [FAILOVER] } } },
+      config,
+      AptosApiType.FULLNODE,
+    );
+    expect(requests.map((r) => r.url)).toEqual([`${FULLNODE}/view`, `${FAILOVER}/view`, `${FULLNODE}/view`]);
+  });
+
+  test("it lets shouldRetry decide on eligible attempts", async () => {
+    const { config, requests } = mockConfig([{ status: 400 }, { status: 200 }]);
+    await aptosRequest(
+      { url: FULLNODE, method: "GET", overrides: { RETRY: { ...retry, shouldRetry: (a) => a.status === 400 } } },
+      config,
+      AptosApiType.FULLNODE,
+    );
+    expect(requests).toHaveLength(2);
+  });
+
+  test("it classifies requests by idempotency", () => {
+    const post = (path: string) => ({ url: FULLNODE, method: "POST" as const, path });
+    expect(isIdempotentRequest({ url: FULLNODE, method: "GET" }, AptosApiType.FAUCET)).toBe(true);
+    expect(isIdempotentRequest(post("view"), AptosApiType.FULLNODE)).toBe(true);
+    expect(isIdempotentRequest(post("transactions/simulate"), AptosApiType.FULLNODE)).toBe(true);
+    expect(isIdempotentRequest(post("tables/0x1/item"), AptosApiType.FULLNODE)).toBe(true);
+    expect(isIdempotentRequest(post("transactions"), AptosApiType.FULLNODE)).toBe(false);
+    expect(isIdempotentRequest(post("transactions/batch"), AptosApiType.FULLNODE)).toBe(false);
+    expect(isIdempotentRequest(post("fund"), AptosApiType.FAUCET)).toBe(false);
+    expect(isIdempotentRequest({ url: FULLNODE, method: "POST" }, AptosApiType.INDEXER)).toBe(true);
+  });
+
+  test("it computes delays from Retry-After and exponential backoff", () => {
+    expect(parseRetryAfterMs({ "retry-after": "2" })).toBe(2000);
+    expect(parseRetryAfterMs(new Headers({ "retry-after": "3" }))).toBe(3000);
+    expect(parseRetryAfterMs({ "retry-after": new Date(Date.now() - 1000).toUTCString() })).toBe(0);
+    expect(parseRetryAfterMs({ "retry-after": "soon" })).toBeUndefined();
+    expect(parseRetryAfterMs({})).toBeUndefined();
+
+    const config = { initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+    expect(computeRetryDelayMs(config, 1)).toBe(100);
+    expect(computeRetryDelayMs(config, 3)).toBe(400);
+    expect(computeRetryDelayMs(config, 10)).toBe(1000);
+    expect(computeRetryDelayMs(config, 1, 500)).toBe(500);
+    expect(computeRetryDelayMs(config, 1, 5000)).toBe(1000);
+    expect(computeRetryDelayMs({ ...config, respectRetryAfter: false }, 1, 500)).toBe(100);
+    expect(computeRetryDelayMs({ ...config, jitter: true }, 3)).toBeLessThan(400);
+  });
+});
@@ -0,0 +1,171 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { p256 } from "@noble/curves/p256";
+import { sha256 } from "@noble/hashes/sha256";
+import {
+  AccountAuthenticatorSingleKey,
+  AnyPublicKey,
+  AnySignature,
+  AnySignatureVariant,
+  ChainId,
+  Deserializer,
+  EntryFunction,
+  Hex,
+  PrivateKey,
+  PrivateKeyVariants,
+  RawTransaction,
+  Secp256r1PrivateKey,
+  Secp256r1PublicKey,
+  Secp256r1Signature,
+  SimpleTransaction,
+  TransactionPayloadEntryFunction,
+  U64,
+  WebAuthnAssertion,
+  WebAuthnSignature,
+  WebAuthnSigner,
+  generateSigningMessageForTransaction,
+} from "../../src";
+
+/**
+ * Stands in for a WebAuthn authenticator holding the given private key.
+ */
+function authenticator(privateKey: Uint8Array, type = "webauthn.get") {
+  return async (challenge: Uint8Array): Promise<WebAuthnAssertion> => {
+    const clientDataJSON = new TextEncoder().encode(
+      JSON.stringify({ type, challenge: Buffer.from(challenge).toString("base64url"), origin: "https://example.com" }),
+    );
+    const authenticatorData = new Uint8Array(37).fill(1);
+    const signedData = new Uint8Array([...authenticatorData, ...sha256(clientDataJSON)]);
+    const signature = p256.sign(sha256(signedData), privateKey);
+    return { authenticatorData, clientDataJSON, signature: signature.toDERRawBytes() };
+  };
+}
+
+function transaction(sender: WebAuthnSigner, sequenceNumber = 0): SimpleTransaction {
+  const entryFunction = EntryFunction.build("0x1::aptos_account", "transfer", [], [sender.accountAddress, new U64(1)]);
+  return new SimpleTransaction(
+    new RawTransaction(
+      sender.accountAddress,
+      BigInt(sequenceNumber),
+      new TransactionPayloadEntryFunction(entryFunction),
+      BigInt(2000),
+      BigInt(100),
+      BigInt(Math.floor(Date.now() / 1000) + 60),
+      new ChainId(4),
+    ),
+  );
+}
+
+describe("Secp256r1", () => {
+  it("should sign and verify messages", () => {
+    const privateKey = Secp256r1PrivateKey.generate();
+    const publicKey = privateKey.publicKey();
+    const signature = privateKey.sign("0x1234");
+
+    expect(publicKey.toUint8Array()).toHaveLength(Secp256r1PublicKey.LENGTH);
+    expect(publicKey.verifySignature({ message: "0x1234", signature })).toBe(true);
+    expect(publicKey.verifySignature({ message: "0x1235", signature })).toBe(false);
+    expect(p256.Signature.fromCompact(signature.toUint8Array()).hasHighS()).toBe(false);
+  });
+
+  it("should decompress compressed public keys", () => {
+    const privateKey = Secp256r1PrivateKey.generate();
+    const compressed = p256.getPublicKey(privateKey.toUint8Array(), true);
+    expect(new Secp256r1PublicKey(compressed)).toEqual(privateKey.publicKey());
+    expect(() => new Secp256r1PublicKey("0x1234")).toThrow(`PublicKey length should be ${Secp256r1PublicKey.LENGTH}`);
+  });
+
+  it("should format and parse AIP-80 private keys", () => {
+    const privateKey = Secp256r1PrivateKey.generate();
+    expect(privateKey.toString()).toEqual(
+      PrivateKey.formatPrivateKey(privateKey.toHexString(), PrivateKeyVariants.Secp256r1),
+    );
+    expect(privateKey.toString().startsWith("secp256r1-priv-0x")).toBe(true);
+    expect(new Secp256r1PrivateKey(privateKey.toString(), true).toUint8Array()).toEqual(privateKey.toUint8Array());
+  });
+
+  it("should normalize DER signatures to low S", () => {
+    const privateKey = Secp256r1PrivateKey.generate();
+    const hash = sha256(new Uint8Array([1, 2, 3]));
+    const signature = p256.sign(hash, privateKey.toUint8Array());
+    const highS = new p256.Signature(signature.r, p256.CURVE.n - signature.normalizeS().s);
+
+    const normalized = Secp256r1Signature.fromDER(highS.toDERRawBytes());
+    expect(normalized.toUint8Array()).toEqual(signature.normalizeS().toCompactRawBytes());
+  });
+
+  it("should serialize and deserialize through AnyPublicKey", () => {
+    const publicKey = new AnyPublicKey(Secp256r1PrivateKey.generate().publicKey());
+    expect(publicKey.bcsToBytes()[0]).toBe(2);
+    const deserialized = AnyPublicKey.deserialize(new Deserializer(publicKey.bcsToBytes()));
+    expect(deserialized.publicKey).toBeInstanceOf(Secp256r1PublicKey);
+    expect(deserialized.bcsToBytes()).toEqual(publicKey.bcsToBytes());
+  });
+});
+
+describe("WebAuthn", () => {
+  const privateKey = Secp256r1PrivateKey.generate();
+  const publicKey = privateKey.publicKey();
+
+  it("should sign transactions with an assertion", async () => {
+    const signer = new WebAuthnSigner({ publicKey, getAssertion: authenticator(privateKey.toUint8Array()) });
+    expect(signer.accountAddress.equals(new AnyPublicKey(publicKey).authKey().derivedAddress())).toBe(true);
+
+    const txn = transaction(signer);
+    const authenticatorOfTxn = await signer.signTransactionWithAuthenticator(txn);
+    expect(authenticatorOfTxn).toBeInstanceOf(AccountAuthenticatorSingleKey);
+
+    const { signature } = authenticatorOfTxn.signature;
+    expect(signature).toBeInstanceOf(WebAuthnSignature);
+    const webAuthnSignature = signature as WebAuthnSignature;
+    expect(Hex.fromHexInput(Buffer.from(webAuthnSignature.getClientData().challenge, "base64url")).toString()).toEqual(
+      Hex.fromHexInput(WebAuthnSignature.challenge(generateSigningMessageForTransaction(txn))).toString(),
+    );
+    expect(
+      signer.publicKey.verifySignature({
+        message: generateSigningMessageForTransaction(txn),
+        signature: authenticatorOfTxn.signature,
+      }),
+    ).toBe(true);
+    expect(
+      signer.publicKey.verifySignature({
+        message: generateSigningMessageForTransaction(transaction(signer, 1)),
+        signature: authenticatorOfTxn.signature,
+      }),
+    ).toBe(false);
+  });
+
+  it("should serialize and deserialize through AnySignature", async () => {
+    const signer = new WebAuthnSigner({ publicKey, getAssertion: authenticator(privateKey.toUint8Array()) });
+    const signature = await signer.sign("0x1234");
+    const bytes = signature.bcsToBytes();
+    expect(bytes[0]).toBe(AnySignatureVariant.WebAuthn);
+
+    const deserialized = AnySignature.deserialize(new Deserializer(bytes));
+    expect(deserialized.signature).toBeInstanceOf(WebAuthnSignature);
+    expect(deserialized.bcsToBytes()).toEqual(bytes);
+    expect(signer.publicKey.verifySignature({ message: "0x1234", signature: deserialized })).toBe(true);
+  });
+
+  it("should reject assertions that do not sign the message", async () => {
+    const otherKey = Secp256r1PrivateKey.generate();
+    const wrongKey = new WebAuthnSigner({ publicKey, getAssertion: authenticator(otherKey.toUint8Array()) });
+    await expect(wrongKey.sign("0x1234")).rejects.toThrow("The WebAuthn assertion does not sign the message");
+
+    const wrongType = new WebAuthnSigner({
+      publicKey,
+      getAssertion: authenticator(privateKey.toUint8Array(), "webauthn.create"),
+    });
+    await expect(wrongType.sign("0x1234")).rejects.toThrow("The WebAuthn assertion does not sign the message");
+
+    const assertion = await authenticator(privateKey.toUint8Array())(WebAuthnSignature.challenge("0x1234"));
+    const signature = new WebAuthnSignature(
+      Secp256r1Signature.fromDER(assertion.signature),
+      assertion.authenticatorData,
+      assertion.clientDataJSON,
+    );
+    expect(signature.verify({ message: "0x1234", publicKey })).toBe(true);
+    expect(signature.verify({ message: "0x5678", publicKey })).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  checkOrConvertArgument,
+  Deserializer,
+  EntryFunction,
+  I128,
+  I16,
+  I256,
+  I32,
+  I64,
+  I8,
+  MoveOption,
+  MoveVector,
+  parseTypeTag,
+  ScriptTransactionArgumentVariants,
+  Serializer,
+  TypeTag,
+  TypeTagI128,
+  TypeTagI16,
+  TypeTagI256,
+  TypeTagI32,
+  TypeTagI64,
+  TypeTagI8,
+  TypeTagVariants,
+  TypeTagVector,
+} from "../../src";
+import {
+  MAX_I128_BIG_INT,
+  MAX_I16_NUMBER,
+  MAX_I256_BIG_INT,
+  MAX_I32_NUMBER,
+  MAX_I64_BIG_INT,
+  MAX_I8_NUMBER,
+  MIN_I128_BIG_INT,
+  MIN_I16_NUMBER,
+  MIN_I256_BIG_INT,
+  MIN_I32_NUMBER,
+  MIN_I64_BIG_INT,
+  MIN_I8_NUMBER,
+} from "../../src/bcs/consts";
+
+describe("Signed integers", () => {
+  describe("Serializer and Deserializer", () => {
+    it("should serialize two's complement little endian values", () => {
+      const serializer = new Serializer();
+      serializer.serializeI8(-1);
+      serializer.serializeI16(-2);
+      serializer.serializeI32(MIN_I32_NUMBER);
+      serializer.serializeI64(-1n);
+      expect(serializer.toUint8Array()).toEqual(
+        new Uint8Array([0xff, 0xfe, 0xff, 0x00, 0x00, 0x00, 0x80, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+      );
+    });
+
+    it("should round-trip the bounds of every width", () => {
+      const serializer = new Serializer();
+      [MIN_I8_NUMBER, MAX_I8_NUMBER].forEach((value) => serializer.serializeI8(value));
+      [MIN_I16_NUMBER, MAX_I16_NUMBER].forEach((value) => serializer.serializeI16(value));
+      [MIN_I32_NUMBER, MAX_I32_NUMBER].forEach((value) => serializer.serializeI32(value));
+      [MIN_I64_BIG_INT, MAX_I64_BIG_INT].forEach((value) => serializer.serializeI64(value));
+      [MIN_I128_BIG_INT, MAX_I128_BIG_INT].forEach((value) => serializer.serializeI128(value));
+      [MIN_I256_BIG_INT, MAX_I256_BIG_INT].forEach((value) => serializer.serializeI256(value));
+
+      const deserializer = new Deserializer(serializer.toUint8Array());
+      expect([deserializer.deserializeI8(), deserializer.deserializeI8()]).toEqual([MIN_I8_NUMBER, MAX_I8_NUMBER]);
+      expect([deserializer.deserializeI16(), deserializer.deserializeI16()]).toEqual([MIN_I16_NUMBER, MAX_I16_NUMBER]);
+      expect([deserializer.deserializeI32(), deserializer.deserializeI32()]).toEqual([MIN_I32_NUMBER, MAX_I32_NUMBER]);
+      expect([deserializer.deserializeI64(), deserializer.deserializeI64()]).toEqual([
+        MIN_I64_BIG_INT,
+        MAX_I64_BIG_INT,
+      ]);
+      expect([deserializer.deserializeI128(), deserializer.deserializeI128()]).toEqual([
+        MIN_I128_BIG_INT,
+        MAX_I128_BIG_INT,
+      ]);
+      expect([deserializer.deserializeI256(), deserializer.deserializeI256()]).toEqual([
+        MIN_I256_BIG_INT,
+        MAX_I256_BIG_INT,
+      ]);
+      expect(deserializer.remaining()).toBe(0);
+    });
+
+    it("should throw on out of range values", () => {
+      const serializer = new Serializer();
+      expect(() => serializer.serializeI8(MAX_I8_NUMBER + 1)).toThrow();
+      expect(() => serializer.serializeI16(MIN_I16_NUMBER - 1)).toThrow();
+      expect(() => serializer.serializeI32(MAX_I32_NUMBER + 1)).toThrow();
+      expect(() => serializer.serializeI64(MIN_I64_BIG_INT - 1n)).toThrow();
+      expect(() => serializer.serializeI128(MAX_I128_BIG_INT + 1n)).toThrow();
+      expect(() => serializer.serializeI256(MIN_I256_BIG_INT - 1n)).toThrow();
+      expect(() => new I8(128)).toThrow();
+      expect(() => new I64(MAX_I64_BIG_INT + 1n)).toThrow();
+    });
+  });
+
+  describe("Move primitives", () => {
+    it("should serialize and deserialize each class", () => {
+      const values = [new I8(-5), new I16(-500), new I32(-50000), new I64(-5n), new I128(-5n), new I256(-5n)];
+      const classes = [I8, I16, I32, I64, I128, I256];
+      values.forEach((value, i) => {
+        const deserialized = classes[i].deserialize(new Deserializer(value.bcsToBytes()));
+        expect(deserialized.value).toEqual(value.value);
+      });
+    });
+
+    it("should serialize script arguments as serialized bytes", () => {
+      const serializer = new Serializer();
+      new I16(-1).serializeForScriptFunction(serializer);
+      expect(serializer.toUint8Array()).toEqual(
+        new Uint8Array([ScriptTransactionArgumentVariants.Serialized, 2, 0xff, 0xff]),
+      );
+    });
+
+    it("should build vectors and options of signed integers", () => {
+      expect(MoveVector.I8([-1, 1]).bcsToBytes()).toEqual(new Uint8Array([2, 0xff, 1]));
+      expect(MoveVector.I64([-1n]).values[0]).toEqual(new I64(-1n));
+      expect(MoveOption.I32(-1).unwrap()).toEqual(new I32(-1));
+      expect(MoveOption.I256().isSome()).toBe(false);
+    });
+  });
+
+  describe("TypeTag", () => {
+    const typeTags: Array<[TypeTag, string, TypeTagVariants]> = [
+      [new TypeTagI8(), "i8", TypeTagVariants.I8],
+      [new TypeTagI16(), "i16", TypeTagVariants.I16],
+      [new TypeTagI32(), "i32", TypeTagVariants.I32],
+      [new TypeTagI64(), "i64", TypeTagVariants.I64],
+      [new TypeTagI128(), "i128", TypeTagVariants.I128],
+      [new TypeTagI256(), "i256", TypeTagVariants.I256],
+    ];
+
+    it.each(typeTags)("should serialize, deserialize and parse %s", (typeTag, name, variant) => {
+      expect(typeTag.toString()).toEqual(name);
+      expect(typeTag.bcsToBytes()).toEqual(new Uint8Array([variant]));
+      expect(TypeTag.deserialize(new Deserializer(typeTag.bcsToBytes()))).toEqual(typeTag);
+      expect(parseTypeTag(name)).toEqual(typeTag);
+      expect(typeTag.isPrimitive()).toBe(true);
+    });
+
+    it("should parse signed integers in nested types", () => {
+      expect(parseTypeTag("vector<i8>")).toEqual(new TypeTagVector(new TypeTagI8()));
+      expect(parseTypeTag("0x1::option::Option<i128>").toString()).toEqual("0x1::option::Option<i128>");
+    });
+  });
+
+  describe("Argument conversion", () => {
+    it("should convert simple arguments", () => {
+      expect(checkOrConvertArgument(-128, parseTypeTag("i8"), 0, [])).toEqual(new I8(-128));
+      expect(checkOrConvertArgument("-32768", parseTypeTag("i16"), 0, [])).toEqual(new I16(-32768));
+      expect(checkOrConvertArgument(-1, parseTypeTag("i32"), 0, [])).toEqual(new I32(-1));
+      expect(checkOrConvertArgument("-9223372036854775808", parseTypeTag("i64"), 0, [])).toEqual(
+        new I64(MIN_I64_BIG_INT),
+      );
+      expect(checkOrConvertArgument(-1n, parseTypeTag("i128"), 0, [])).toEqual(new I128(-1n));
+      expect(checkOrConvertArgument(MAX_I256_BIG_INT, parseTypeTag("i256"), 0, [])).toEqual(new I256(MAX_I256_BIG_INT));
+      expect(checkOrConvertArgument([-1, 2], parseTypeTag("vector<i8>"), 0, [])).toEqual(MoveVector.I8([-1, 2]));
+      expect(checkOrConvertArgument(null, parseTypeTag("0x1::option::Option<i64>"), 0, [])).toEqual(
+        new MoveOption<I64>(null),
+      );
+    });
+
+    it("should reject out of range and mismatched arguments", () => {
+      expect(() => checkOrConvertArgument(128, parseTypeTag("i8"), 0, [])).toThrow();
+      expect(() => checkOrConvertArgument(MAX_I64_BIG_INT + 1n, parseTypeTag("i64"), 0, [])).toThrow();
+      expect(() => checkOrConvertArgument(true, parseTypeTag("i32"), 0, [])).toThrow("Type mismatch");
+      expect(() => checkOrConvertArgument(new I8(1), parseTypeTag("i16"), 0, [])).toThrow("Type mismatch");
+      expect(checkOrConvertArgument(new I16(-1), parseTypeTag("i16"), 0, [])).toEqual(new I16(-1));
+    });
+
+    it("should build entry functions with signed integer arguments", () => {
+      const entryFunction = EntryFunction.build("0x1::test", "signed", [], [new I64(-1n), MoveVector.I8([-1])]);
+      expect(entryFunction.args[0].bcsToBytes()).toEqual(new Uint8Array(8).fill(0xff));
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { AccountAddress, Aptos } from "../../src";
+import { callOf, TRANSACTION_OPTIONS, ViewFullnode } from "./helper";
+
+const DELEGATOR = `0x${"42".repeat(32)}`;
+const POOL = `0x${"44".repeat(32)}`;
+
+describe("Staking", () => {
+  it("should build the transactions of a delegator", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const builders = {
+      "0x1::delegation_pool::add_stake": aptos.addDelegatedStakeTransaction,
+      "0x1::delegation_pool::unlock": aptos.unlockDelegatedStakeTransaction,
+      "0x1::delegation_pool::reactivate_stake": aptos.reactivateDelegatedStakeTransaction,
+      "0x1::delegation_pool::withdraw": aptos.withdrawDelegatedStakeTransaction,
+    };
+    const entries = Object.entries(builders);
+    for (let i = 0; i < entries.length; i += 1) {
+      const [functionId, builder] = entries[i];
+      // eslint-disable-next-line no-await-in-loop
+      const transaction = await builder.call(aptos, {
+        sender: DELEGATOR,
+        poolAddress: POOL,
+        amount: 500,
+        options: TRANSACTION_OPTIONS,
+      });
+      const call = callOf(transaction);
+      expect(call.functionId).toEqual(functionId);
+      expect(AccountAddress.deserialize(call.args[0]).toString()).toEqual(POOL);
+      expect(call.args[1].deserializeU64()).toEqual(500n);
+    }
+  });
+
+  it("should build the transactions of a delegation pool owner", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const pool = callOf(
+      await aptos.initializeDelegationPoolTransaction({
+        sender: DELEGATOR,
+        operatorCommissionPercentage: 10.5,
+        seed: "0x0102",
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(pool.functionId).toEqual("0x1::delegation_pool::initialize_delegation_pool");
+    expect(pool.args[0].deserializeU64()).toEqual(1050n);
+    expect(pool.args[1].deserializeBytes()).toEqual(new Uint8Array([1, 2]));
+
+    const commission = callOf(
+      await aptos.updateDelegationPoolCommissionTransaction({
+        sender: DELEGATOR,
+        operatorCommissionPercentage: 7,
+        options: TRANSACTION_OPTIONS,
+      }),
+    );
+    expect(commission.functionId).toEqual("0x1::delegation_pool::update_commission_percentage");
+    expect(commission.args[0].deserializeU64()).toEqual(700n);
+    await expect(
+      aptos.updateDelegationPoolCommissionTransaction({ sender: DELEGATOR, operatorCommissionPercentage: 101 }),
+    ).rejects.toThrow("must be between 0 and 100");
+  });
+
+  it("should build the transactions of a stake pool", async () => {
+    const aptos = new Aptos(new ViewFullnode().config());
+    const pool = callOf(
+      await aptos.initializeStakePoolTransaction({ sender: DELEGATOR, amount: 10, options: TRANSACTION_OPTIONS }),
+    );
+    expect(pool.functionId).toEqual("0x1::stake::initialize_stake_owner");
+    // The sender is the operator and the voter by default
+    expect(AccountAddress.deserialize(pool.args[1]).toString()).toEqual(DELEGATOR);
+    expect(AccountAddress.deserialize(pool.args[2]).toString()).toEqual(DELEGATOR);
+
+    const unlock = callOf(
+      await aptos.unlockStakePoolStakeTransaction({ sender: DELEGATOR, amount: 3, options: TRANSACTION_OPTIONS }),
+    );
+    expect(unlock.functionId).toEqual("0x1::stake::unlock");
+    expect(unlock.args[0].deserializeU64()).toEqual(3n);
+
+    const voter = callOf(
+      await aptos.setStakePoolVoterTransaction({ sender: DELEGATOR, voter: POOL, options: TRANSACTION_OPTIONS }),
+    );
+    expect(voter.functionId).toEqual("0x1::stake::set_delegated_voter");
+
+    const leave = callOf(
+      await aptos.leaveValidatorSetTransaction({ sender: DELEGATOR, poolAddress: POOL, options: TRANSACTION_OPTIONS }),
+    );
+    expect(leave.functionId).toEqual("0x1::stake::leave_validator_set");
+  });
+
+  it("should read the staking position of a delegator at one ledger version", async () => {
+    const views = {
+      "delegation_pool::get_stake": ["1000", "200", "300"],
+      "delegation_pool::operator_commission_percentage": ["1050"],
+      "stake::get_lockup_secs": ["1700000000"],
+      "delegation_pool::can_withdraw_pending_inactive": [false],
+    };
+    const fullnode = new ViewFullnode(views);
+    const aptos = new Aptos(fullnode.config());
+    const position = await aptos.getDelegatedStakingPosition({ poolAddress: POOL, delegatorAddress: DELEGATOR });
+    expect(position).toEqual({
+      poolAddress: POOL,
+      delegatorAddress: DELEGATOR,
+      active: "1000",
+      inactive: "200",
+      pendingInactive: "300",
+      lockupExpirationSecs: "1700000000",
+      operatorCommissionPercentage: 10.5,
+      withdrawable: "200",
+      withdrawableAfterLockup: "500",
+    });
+    const viewVersions = fullnode.requests
+      .filter((req) => req.url.endsWith("/view"))
+      .map((req) => req.params?.ledger_version);
+    expect(viewVersions).toEqual([20n, 20n, 20n, 20n]);
+
+    // Once the pool left the validator set and its lockup expired, the pending inactive stake can be withdrawn
+    const inactivePool = new Aptos(
+      new ViewFullnode({ ...views, "delegation_pool::can_withdraw_pending_inactive": [true] }).config(),
+    );
+    const inactivePosition = await inactivePool.getDelegatedStakingPosition({
+      poolAddress: POOL,
+      delegatorAddress: DELEGATOR,
+      options: { ledgerVersion: 10 },
+    });
+    expect(inactivePosition.withdrawable).toEqual("500");
+  });
+});
@@ -0,0 +1,178 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  Account,
+  AptosConfig,
+  AsyncSigner,
+  ClientRequest,
+  ClientResponse,
+  Deserializer,
+  InputGenerateTransactionPayloadData,
+  Network,
+  SignedTransaction,
+  TransactionSenderPool,
+  TransactionSenderPoolEventsEnum,
+  TypeTagAddress,
+  TypeTagU64,
+} from "../../src";
+
+const transfer: InputGenerateTransactionPayloadData = {
+  function: "0x1::aptos_account::transfer",
+  functionArguments: [Account.generate().accountAddress, 1],
+  abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+};
+const gasOptions = { maxGasAmount: 2000, gasUnitPrice: 100 };
+
+/**
+ * Creates a config for a fullnode that rejects submissions from the `rejecting` senders, and reports every submitted
+ * transaction as executed, or as failed if `chain.abort` is set.
+ */
+function mockChain() {
+  const chain = { submitted: [] as SignedTransaction[], rejecting: new Set<string>(), abort: false };
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    if (req.method === "POST" && req.url.endsWith("/transactions")) {
+      const signedTransaction = SignedTransaction.deserialize(new Deserializer(req.body as Uint8Array));
+      if (chain.rejecting.has(signedTransaction.raw_txn.sender.toString())) {
+        const data = { message: "INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE" } as Res;
+        return { status: 400, statusText: "Bad Request", data, headers: {} };
+      }
+      chain.submitted.push(signedTransaction);
+      const hash = `0x${chain.submitted.length.toString(16).padStart(64, "0")}`;
+      return { status: 202, statusText: "Accepted", data: { hash } as Res, headers: {} };
+    }
+    if (/\/transactions\/(wait_)?by_hash\//.test(req.url)) {
+      const hash = req.url.split("/").pop();
+      const data = { hash, type: "user_transaction", success: !chain.abort, vm_status: "Executed successfully" };
+      return { status: 200, statusText: "OK", data: data as Res, headers: {} };
+    }
+    if (/\/accounts\/[^/]+$/.test(req.url)) {
+      const data = { sequence_number: "0", authentication_key: "0x0" } as Res;
+      return { status: 200, statusText: "OK", data, headers: {} };
+    }
+    throw new Error(`unexpected request ${req.method} ${req.url}`);
+  };
+  return { chain, config: new AptosConfig({ network: Network.LOCAL, client: { provider } }) };
+}
+
+function once(pool: TransactionSenderPool, event: TransactionSenderPoolEventsEnum) {
+  return new Promise<void>((resolve) => {
+    pool.once(event, () => resolve());
+  });
+}
+
+describe("TransactionSenderPool", () => {
+  test("it spreads payloads evenly over its accounts", async () => {
+    const { chain, config } = mockChain();
+    const accounts = [Account.generate(), Account.generate(), Account.generate()];
+    const pool = new TransactionSenderPool(config, accounts);
+    const executed: string[] = [];
+    pool.on(TransactionSenderPoolEventsEnum.TransactionExecuted, ({ sender }) => executed.push(sender));
+
+    const finished = once(pool, TransactionSenderPoolEventsEnum.ExecutionFinish);
+    for (let i = 0; i < 9; i += 1) {
+      pool.push(transfer, gasOptions);
+    }
+    await finished;
+
+    expect(executed).toHaveLength(9);
+    accounts.forEach((account) => {
+      const sequenceNumbers = chain.submitted
+        .filter((signed) => signed.raw_txn.sender.equals(account.accountAddress))
+        .map((signed) => signed.raw_txn.sequence_number);
+      expect(sequenceNumbers.sort()).toEqual([BigInt(0), BigInt(1), BigInt(2)]);
+    });
+    expect(pool.getAccountStatuses().map(({ executed: count, inFlight }) => [count, inFlight])).toEqual([
+      [3, 0],
+      [3, 0],
+      [3, 0],
+    ]);
+  });
+
+  test("it takes a failing account out of rotation and restores it after a cooldown", async () => {
+    const { chain, config } = mockChain();
+    const [healthy, failing] = [Account.generate(), Account.generate()];
+    chain.rejecting.add(failing.accountAddress.toString());
+    const pool = new TransactionSenderPool(config, [healthy, failing], { maxConsecutiveFailures: 2, cooldownMs: 200 });
+    const sendFailures: string[] = [];
+    pool.on(TransactionSenderPoolEventsEnum.TransactionSendFailed, ({ sender }) => sendFailures.push(sender));
+
+    const removed = once(pool, TransactionSenderPoolEventsEnum.AccountRemoved);
+    for (let i = 0; i < 4; i += 1) {
+      pool.push(transfer, gasOptions);
+    }
+    await removed;
+    expect(pool.getAccountStatuses()[1]).toMatchObject({ inRotation: false, consecutiveFailures: 2, failed: 2 });
+
+    const restored = once(pool, TransactionSenderPoolEventsEnum.AccountRestored);
+    let finished = once(pool, TransactionSenderPoolEventsEnum.ExecutionFinish);
+    for (let i = 0; i < 4; i += 1) {
+      pool.push(transfer, gasOptions);
+    }
+    await finished;
+    expect(sendFailures).toEqual([failing.accountAddress.toString(), failing.accountAddress.toString()]);
+    expect(pool.getAccountStatuses()[0].executed).toBe(6);
+
+    chain.rejecting.clear();
+    await restored;
+    expect(pool.getAccountStatuses()[1]).toMatchObject({ inRotation: true, consecutiveFailures: 0 });
+    finished = once(pool, TransactionSenderPoolEventsEnum.ExecutionFinish);
+    pool.push(transfer, gasOptions);
+    pool.push(transfer, gasOptions);
+    await finished;
+    const restoredSubmissions = chain.submitted.filter((signed) =>
+      signed.raw_txn.sender.equals(failing.accountAddress),
+    );
+    // The sequence numbers burned by the rejected transactions are reused after re-syncing
+    expect(restoredSubmissions.map((signed) => signed.raw_txn.sequence_number)).toEqual([BigInt(0)]);
+  });
+
+  test("it gives back the sequence number of a transaction that was never submitted", async () => {
+    const { chain, config } = mockChain();
+    const account = Account.generate();
+    let signerAvailable = false;
+    const signer: AsyncSigner = {
+      publicKey: account.publicKey,
+      accountAddress: account.accountAddress,
+      signWithAuthenticator: async (message) => account.signWithAuthenticator(message),
+      signTransactionWithAuthenticator: async (transaction) => {
+        if (!signerAvailable) {
+          throw new Error("signer unavailable");
+        }
+        return account.signTransactionWithAuthenticator(transaction);
+      },
+      sign: async (message) => account.sign(message),
+      signTransaction: async (transaction) => account.signTransaction(transaction),
+    };
+    const pool = new TransactionSenderPool(config, [signer]);
+
+    let finished = once(pool, TransactionSenderPoolEventsEnum.ExecutionFinish);
+    pool.push(transfer, gasOptions);
+    await finished;
+    expect(pool.getAccountStatuses()[0]).toMatchObject({ executed: 0, consecutiveFailures: 1 });
+
+    signerAvailable = true;
+    finished = once(pool, TransactionSenderPoolEventsEnum.ExecutionFinish);
+    pool.push(transfer, gasOptions);
+    await finished;
+    expect(chain.submitted.map((signed) => signed.raw_txn.sequence_number)).toEqual([BigInt(0)]);
+  });
+
+  test("it does not count failed executions against an account", async () => {
+    const { chain, config } = mockChain();
+    chain.abort = true;
+    const pool = new TransactionSenderPool(config, [Account.generate()], { maxConsecutiveFailures: 1 });
+    const finished = once(pool, TransactionSenderPoolEventsEnum.ExecutionFinish);
+    pool.push(transfer, gasOptions);
+    pool.push(transfer, gasOptions);
+    await finished;
+    expect(pool.getAccountStatuses()[0]).toMatchObject({ inRotation: true, failed: 2, consecutiveFailures: 0 });
+  });
+
+  test("it rejects an empty or duplicated list of accounts", () => {
+    const { config } = mockChain();
+    const account = Account.generate();
+    expect(() => new TransactionSenderPool(config, [])).toThrow("at least one account");
+    expect(() => new TransactionSenderPool(config, [account, account])).toThrow("must be distinct");
+  });
+});
@@ -0,0 +1,147 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import {
+  Account,
+  AccountSequenceNumberEventsEnum,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  Deserializer,
+  InputGenerateTransactionPayloadData,
+  Network,
+  SignedTransaction,
+  SuccessEventData,
+  TransactionCancelledError,
+  TransactionWorker,
+  TransactionWorkerEventsEnum,
+  TypeTagAddress,
+  TypeTagU64,
+} from "../../src";
+import { FailedTransactionError } from "../../src/internal/transaction";
+
+const sender = Account.generate();
+
+function transfer(amount: number): InputGenerateTransactionPayloadData {
+  return {
+    function: "0x1::aptos_account::transfer",
+    functionArguments: [Account.generate().accountAddress, amount],
+    abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+  };
+}
+const gasOptions = { maxGasAmount: 2000, gasUnitPrice: 100 };
+
+/**
+ * Creates a config for a fullnode reporting every submitted transaction as executed, or as failed if `chain.abort`
+ * is set. The account can't be read while `chain.down` is set.
+ */
+function mockChain() {
+  const chain = { submitted: [] as SignedTransaction[], abort: false, down: false };
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    let data: any;
+    if (req.method === "POST" && req.url.endsWith("/transactions")) {
+      chain.submitted.push(SignedTransaction.deserialize(new Deserializer(req.body as Uint8Array)));
+      data = { hash: `0x${chain.submitted.length.toString(16).padStart(64, "0")}`, type: "pending_transaction" };
+    } else if (/\/transactions\/(wait_)?by_hash\//.test(req.url)) {
+      const hash = req.url.split("/").pop();
+      data = { hash, type: "user_transaction", success: !chain.abort, vm_status: "Move abort" };
+    } else if (/\/accounts\/[^/]+$/.test(req.url)) {
+      if (chain.down) {
+        throw new Error("fullnode unavailable");
+      }
+      data = { sequence_number: "5", authentication_key: "0x0" };
+    } else {
+      throw new Error(`unexpected request ${req.method} ${req.url}`);
+    }
+    return { status: 200, statusText: "OK", data, headers: {} };
+  };
+  return { chain, config: new AptosConfig({ network: Network.LOCAL, client: { provider } }) };
+}
+
+describe("TransactionWorker handles", () => {
+  test("it resolves the sequence number and the committed transaction of a push", async () => {
+    const { config } = mockChain();
+    const worker = new TransactionWorker(config, sender);
+    const executed: SuccessEventData[] = [];
+    worker.on(TransactionWorkerEventsEnum.TransactionExecuted, (data) => executed.push(data));
+
+    const first = await worker.push(transfer(1), gasOptions, "first");
+    const secondPayload = transfer(2);
+    const second = await worker.push(secondPayload, gasOptions);
+    worker.start();
+
+    expect(await first.sequenceNumber).toBe(BigInt(5));
+    expect(await second.sequenceNumber).toBe(BigInt(6));
+    expect((await second.result).success).toBe(true);
+    expect(first.correlationId).toBe("first");
+    expect(executed[0]).toMatchObject({ correlationId: "first", sequenceNumber: BigInt(5) });
+    expect(executed[1]).toMatchObject({ payload: secondPayload, correlationId: undefined, sequenceNumber: BigInt(6) });
+    worker.stop();
+  });
+
+  test("it rejects the result of a failed transaction", async () => {
+    const { chain, config } = mockChain();
+    chain.abort = true;
+    const worker = new TransactionWorker(config, sender);
+    const handle = await worker.push(transfer(1), gasOptions);
+    worker.start();
+
+    await expect(handle.result).rejects.toThrow(FailedTransactionError);
+    worker.stop();
+  });
+
+  test("it rejects orderless transactions", async () => {
+    const { chain, config } = mockChain();
+    const worker = new TransactionWorker(config, sender);
+
+    await expect(worker.push(transfer(1), { ...gasOptions, replayProtectionNonce: 7 })).rejects.toThrow("orderless");
+    expect(chain.submitted).toHaveLength(0);
+  });
+
+  test("it keeps running when the sequence number of its account can't be read", async () => {
+    const { chain, config } = mockChain();
+    chain.down = true;
+    const worker = new TransactionWorker(config, sender, 30, 100, 1);
+    const errors: string[] = [];
+    worker.accountSequnceNumber.on(AccountSequenceNumberEventsEnum.SequenceNumberError, (data) =>
+      errors.push(data.message),
+    );
+
+    const pushed = await worker.push(transfer(1), gasOptions);
+    worker.start();
+    await new Promise((resolve) => {
+      setTimeout(resolve, 20);
+    });
+    expect(errors.length).toBeGreaterThan(0);
+    expect(chain.submitted).toHaveLength(0);
+
+    chain.down = false;
+    expect(await pushed.sequenceNumber).toBe(BigInt(5));
+    expect((await pushed.result).success).toBe(true);
+    worker.stop();
+  });
+
+  test("it passes the gap policy to the sequence number of its account", () => {
+    const { config } = mockChain();
+    expect(new TransactionWorker(config, sender).accountSequnceNumber.gapPolicy).toBe("reuse");
+    const worker = new TransactionWorker(config, sender, 30, 100, 10, undefined, "noop");
+    expect(worker.accountSequnceNumber.gapPolicy).toBe("noop");
+  });
+
+  test("it cancels transactions that are still queued", async () => {
+    const { chain, config } = mockChain();
+    const worker = new TransactionWorker(config, sender);
+    const cancelled = await worker.push(transfer(1), gasOptions);
+    const kept = await worker.push(transfer(2), gasOptions);
+
+    expect(await cancelled.cancel()).toBe(true);
+    await expect(cancelled.sequenceNumber).rejects.toThrow(TransactionCancelledError);
+    await expect(cancelled.result).rejects.toThrow(TransactionCancelledError);
+
+    worker.start();
+    await kept.result;
+    expect(await kept.cancel()).toBe(false);
+    expect(chain.submitted.map((signed) => signed.raw_txn.sequence_number)).toEqual([BigInt(5)]);
+    worker.stop();
+  });
+});
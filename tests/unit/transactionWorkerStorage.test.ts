@@ -0,0 +1,177 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  Account,
+  AptosConfig,
+  ClientRequest,
+  ClientResponse,
+  Deserializer,
+  InMemoryTransactionWorkerStorage,
+  InputGenerateTransactionPayloadData,
+  Network,
+  SignedTransaction,
+  TransactionWorker,
+  TransactionWorkerEventsEnum,
+  TypeTagAddress,
+  TypeTagU64,
+  nowInSeconds,
+} from "../../src";
+import { FileTransactionWorkerStorage } from "../../src/cli";
+
+const sender = Account.generate();
+const recipient = Account.generate();
+
+const transfer: InputGenerateTransactionPayloadData = {
+  function: "0x1::aptos_account::transfer",
+  functionArguments: [recipient.accountAddress, 1],
+  abi: { typeParameters: [], parameters: [new TypeTagAddress(), new TypeTagU64()] },
+};
+const gasOptions = { maxGasAmount: 2000, gasUnitPrice: 100 };
+
+/**
+ * Creates a config for a fullnode on which the account is at `chain.sequenceNumber`.  Submissions are recorded, and
+ * never answered if `chain.hang` is set.  Every transaction looked up by hash has executed successfully.
+ */
+function mockChain(sequenceNumber: number) {
+  const chain = { sequenceNumber, hang: false, submitted: [] as SignedTransaction[], lookedUp: [] as string[] };
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    let data: any;
+    if (req.method === "POST" && req.url.endsWith("/transactions")) {
+      const signedTransaction = SignedTransaction.deserialize(new Deserializer(req.body as Uint8Array));
+      chain.submitted.push(signedTransaction);
+      if (chain.hang) {
+        await new Promise(() => {});
+      }
+      data = { hash: `0x${chain.submitted.length.toString(16).padStart(64, "0")}`, type: "pending_transaction" };
+    } else if (/\/transactions\/(wait_)?by_hash\//.test(req.url)) {
+      const hash = req.url.split("/").pop()!;
+      chain.lookedUp.push(hash);
+      data = { hash, type: "user_transaction", success: true, vm_status: "Executed successfully" };
+    } else if (/\/accounts\/[^/]+$/.test(req.url)) {
+      data = { sequence_number: String(chain.sequenceNumber), authentication_key: "0x0" };
+    } else {
+      throw new Error(`unexpected request ${req.method} ${req.url}`);
+    }
+    return { status: 200, statusText: "OK", data, headers: {} };
+  };
+  return { chain, config: new AptosConfig({ network: Network.LOCAL, client: { provider } }) };
+}
+
+/**
+ * Resolves once the worker emitted an event `count` times.
+ */
+function waitForEvents(worker: TransactionWorker, event: TransactionWorkerEventsEnum, count: number) {
+  return new Promise<void>((resolve) => {
+    let seen = 0;
+    worker.on(event, () => {
+      seen += 1;
+      if (seen === count) resolve();
+    });
+  });
+}
+
+describe("TransactionWorker storage", () => {
+  test("it persists pushed transactions", async () => {
+    const { config } = mockChain(0);
+    const storage = new InMemoryTransactionWorkerStorage();
+    const worker = new TransactionWorker(config, sender, 30, 100, 10, storage);
+
+    await worker.push(transfer, { ...gasOptions, expireTimestamp: 1000 });
+    await worker.push(transfer);
+
+    const state = await storage.load();
+    expect(state?.accountAddress).toBe(sender.accountAddress.toString());
+    expect(state?.transactions).toHaveLength(2);
+    expect(state?.transactions[0]).toMatchObject({ id: "0", options: { ...gasOptions, expireTimestamp: 1000 } });
+    expect(state?.transactions[1].sequenceNumber).toBeUndefined();
+    expect(worker.transactionsQueue.queue).toHaveLength(2);
+  });
+
+  test("it resumes without submitting a sequence number twice or skipping one", async () => {
+    const storage = new InMemoryTransactionWorkerStorage();
+
+    // The first worker signs three transactions, but crashes before any submission completes
+    const first = mockChain(10);
+    first.chain.hang = true;
+    const crashed = new TransactionWorker(first.config, sender, 30, 100, 10, storage);
+    await crashed.push(transfer, gasOptions, "committed");
+    await crashed.push(transfer, gasOptions);
+    await crashed.push(transfer, { ...gasOptions, expireTimestamp: nowInSeconds() - 10 });
+    crashed.start();
+    while (first.chain.submitted.length < 3) {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => {
+        setTimeout(resolve, 5);
+      });
+    }
+    crashed.stop();
+    const crashedState = await storage.load();
+    expect(crashedState?.transactions.map((persisted) => persisted.sequenceNumber)).toEqual(["10", "11", "12"]);
+
+    // Meanwhile the first transaction has been committed
+    const second = mockChain(11);
+    const worker = new TransactionWorker(second.config, sender, 30, 100, 10, storage);
+    const executed = waitForEvents(worker, TransactionWorkerEventsEnum.TransactionExecuted, 4);
+    const correlationIds: Array<string | undefined> = [];
+    worker.on(TransactionWorkerEventsEnum.TransactionExecuted, ({ correlationId }) =>
+      correlationIds.push(correlationId),
+    );
+    await worker.push(transfer, gasOptions);
+    worker.start();
+    await executed;
+
+    expect(second.chain.lookedUp).toContain(crashedState?.transactions[0].hash);
+    expect(correlationIds[0]).toBe("committed");
+    const sequenceNumbers = second.chain.submitted.map((signed) => signed.raw_txn.sequence_number);
+    expect(sequenceNumbers).toEqual([BigInt(11), BigInt(12), BigInt(13)]);
+    // The unexpired transaction is submitted again unchanged, the expired one is signed again
+    expect(second.chain.submitted[0].bcsToHex().toString()).toBe(first.chain.submitted[1].bcsToHex().toString());
+    expect(second.chain.submitted[1].raw_txn.expiration_timestamp_secs).toBeGreaterThan(BigInt(nowInSeconds()));
+    expect((await storage.load())?.transactions).toEqual([]);
+    worker.stop();
+  });
+
+  test("it forgets a transaction that fails to build and gives back its sequence number", async () => {
+    const { chain, config } = mockChain(3);
+    const storage = new InMemoryTransactionWorkerStorage();
+    const worker = new TransactionWorker(config, sender, 30, 100, 10, storage);
+
+    // Without a gas unit price the worker asks the fullnode for an estimate, which fails
+    const failed = await worker.push(transfer);
+    await expect(worker.submitNextTransaction()).rejects.toThrow("Submit transaction failed");
+    await expect(failed.result).rejects.toThrow("unexpected request");
+    expect((await storage.load())?.transactions).toEqual([]);
+
+    const next = await worker.push(transfer, gasOptions);
+    await worker.submitNextTransaction();
+    expect(await next.sequenceNumber).toBe(BigInt(3));
+    expect(chain.submitted.map((signed) => signed.raw_txn.sequence_number)).toEqual([BigInt(3)]);
+  });
+
+  test("it rejects state persisted for another account", async () => {
+    const { config } = mockChain(0);
+    const storage = new InMemoryTransactionWorkerStorage();
+    await new TransactionWorker(config, Account.generate(), 30, 100, 10, storage).push(transfer);
+
+    const worker = new TransactionWorker(config, sender, 30, 100, 10, storage);
+    await expect(worker.push(transfer)).rejects.toThrow("Transaction worker state belongs to");
+  });
+
+  test("it keeps the state in a file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "transaction-worker-"));
+    try {
+      const storage = new FileTransactionWorkerStorage(join(directory, "nested", "state.json"));
+      expect(await storage.load()).toBeUndefined();
+
+      const state = { version: 1 as const, accountAddress: "0x1", transactions: [{ id: "0", payload: "0x00" }] };
+      await storage.save(state);
+      expect(await new FileTransactionWorkerStorage(storage.path).load()).toEqual(state);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -6,6 +6,8 @@ import {
   TypeTag,
   TypeTagAddress,
   TypeTagBool,
+  TypeTagFunction,
+  TypeTagReference,
   TypeTagSigner,
   TypeTagStruct,
   TypeTagU128,
@@ -18,6 +20,7 @@ import {
   Deserializer,
   Serializer,
   parseTypeTag,
+  MoveAbility,
 } from "../../src";
 
 const expectedTypeTag = {
@@ -147,4 +150,20 @@ describe("Deserialize TypeTags", () => {
     expect(deserialized.value.name.identifier).toEqual("SomeResource");
     expect(deserialized.value.typeArgs.length).toEqual(0);
   });
+
+  test("deserializes a TypeTagFunction correctly", () => {
+    const tag = new TypeTagFunction(
+      [new TypeTagReference(new TypeTagSigner()), new TypeTagReference(new TypeTagU64(), true), new TypeTagU8()],
+      [new TypeTagBool()],
+      [MoveAbility.DROP, MoveAbility.COPY],
+    );
+    expect(tag.isPrimitive()).toBe(false);
+    expect(tag.isFunction()).toBe(true);
+
+    // Variant 11, then the parameters and results as references, mutable references or values, then the abilities
+    expect(tag.bcsToBytes()).toEqual(new Uint8Array([11, 3, 0, 5, 1, 2, 2, 1, 1, 2, 0, 0x3]));
+    const deserialized = TypeTag.deserialize(new Deserializer(tag.bcsToBytes()));
+    expect(deserialized).toEqual(tag);
+    expect(deserialized.toString()).toEqual("|&signer, &mut u64, u8|bool has copy + drop");
+  });
 });
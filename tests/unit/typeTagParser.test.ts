@@ -11,6 +11,7 @@ import {
   TypeTag,
   TypeTagAddress,
   TypeTagBool,
+  TypeTagFunction,
   TypeTagGeneric,
   TypeTagSigner,
   TypeTagStruct,
@@ -27,6 +28,7 @@ import {
   aptosCoinStructTag,
   Identifier,
   APTOS_COIN,
+  MoveAbility,
 } from "../../src";
 
 const TAG_STRUCT_NAME = "0x1::tag::Tag";
@@ -265,6 +267,60 @@ describe("TypeTagParser", () => {
     expect(() => parseTypeTag("vector<u8, u8>")).toThrow(TypeTagParserErrorType.UnexpectedVectorTypeArgumentCount);
   });
 
+  test("function types", () => {
+    const functionTypes = [
+      { str: "||", type: new TypeTagFunction([], []) },
+      { str: "|u64|", type: new TypeTagFunction([new TypeTagU64()], []) },
+      {
+        str: "|u64, address|bool",
+        type: new TypeTagFunction([new TypeTagU64(), new TypeTagAddress()], [new TypeTagBool()]),
+      },
+      {
+        str: "|&signer, &mut u64|(u8, vector<u8>)",
+        type: new TypeTagFunction(
+          [new TypeTagReference(new TypeTagSigner()), new TypeTagReference(new TypeTagU64(), true)],
+          [new TypeTagU8(), new TypeTagVector(new TypeTagU8())],
+        ),
+      },
+      {
+        str: "|0x1::tag::Tag<u8, u16>|u8 has copy + drop",
+        type: new TypeTagFunction(
+          [structTagType([new TypeTagU8(), new TypeTagU16()])],
+          [new TypeTagU8()],
+          [MoveAbility.COPY, MoveAbility.DROP],
+        ),
+      },
+      {
+        str: "|u64, |u8|bool|",
+        type: new TypeTagFunction([new TypeTagU64(), new TypeTagFunction([new TypeTagU8()], [new TypeTagBool()])], []),
+      },
+    ];
+    for (let i = 0; i < functionTypes.length; i += 1) {
+      const functionType = functionTypes[i];
+      const parsed = parseTypeTag(functionType.str);
+      expect(parsed).toEqual(functionType.type);
+      expect(parsed.toString()).toEqual(functionType.str);
+    }
+
+    // Spacing, empty results and ability order are normalized
+    expect(parseTypeTag(" | u64 , address | ( ) has drop+copy ").toString()).toEqual("|u64, address| has copy + drop");
+    expect(parseTypeTag("vector<|u8|bool has store>")).toEqual(
+      new TypeTagVector(new TypeTagFunction([new TypeTagU8()], [new TypeTagBool()], [MoveAbility.STORE])),
+    );
+    expect(parseTypeTag(`${TAG_STRUCT_NAME}<|u8|, u8>`)).toEqual(
+      structTagType([new TypeTagFunction([new TypeTagU8()], []), new TypeTagU8()]),
+    );
+    expect(parseTypeTag("|T0|T1", { allowGenerics: true })).toEqual(
+      new TypeTagFunction([new TypeTagGeneric(0)], [new TypeTagGeneric(1)]),
+    );
+
+    typeTagParserError("|u8", TypeTagParserErrorType.MissingFunctionParametersClose);
+    typeTagParserError("|u8|(u8", TypeTagParserErrorType.MissingFunctionResultsClose);
+    typeTagParserError("|u8| has move", TypeTagParserErrorType.InvalidAbility);
+    typeTagParserError("|u8| u8 u8", TypeTagParserErrorType.UnexpectedWhitespaceCharacter);
+    typeTagParserError("|T0|", TypeTagParserErrorType.UnexpectedGenericType, "T0");
+  });
+
   /* These are debatable on whether they are valid or not */
   test("edge case invalid types", () => {
     expect(() => parseTypeTag("0x1::tag::Tag< , u8>")).toThrow();
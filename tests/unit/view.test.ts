@@ -0,0 +1,52 @@
+// Copyright © Aptos Foundation
+// SPDX-License-Identifier: Apache-2.0
+
+import { Aptos, AptosConfig, ClientRequest, ClientResponse, Network } from "../../src";
+
+/**
+ * A fullnode answering every view function with function values nested in the JSON result.
+ */
+function closuresConfig(): AptosConfig {
+  const provider = async <Req, Res>(req: ClientRequest<Req>): Promise<ClientResponse<Res>> => {
+    if (!req.url.endsWith("/view")) {
+      throw new Error(`unexpected request ${req.method} ${req.url}`);
+    }
+    const closure = { __fun_name__: "0x1::m::add", __mask__: "1", __captured__: ["5"] };
+    const data: any = [
+      closure,
+      [{ __fun_name__: "0x1::m::noop", __mask__: 0, __captured__: [] }],
+      { handler: { __fun_name__: "0x1::m::apply", __mask__: 2, __captured__: [closure] }, count: "1" },
+      "10",
+    ];
+    return { status: 200, statusText: "OK", data, headers: {} };
+  };
+  return new AptosConfig({ network: Network.LOCAL, client: { provider } });
+}
+
+const add = { function: "0x1::m::add", mask: 1, captured: ["5"] };
+const decodedClosures = [
+  add,
+  [{ function: "0x1::m::noop", mask: 0, captured: [] }],
+  { handler: { function: "0x1::m::apply", mask: 2, captured: [add] }, count: "1" },
+  "10",
+];
+
+describe("view", () => {
+  it("should decode function values", async () => {
+    const aptos = new Aptos(closuresConfig());
+    const result = await aptos.view({
+      payload: {
+        function: "0x1::m::closures",
+        abi: { typeParameters: [], parameters: [], returnTypes: [] },
+      },
+    });
+    expect(result).toEqual(decodedClosures);
+  });
+});
+
+describe("viewJson", () => {
+  it("should decode function values", async () => {
+    const aptos = new Aptos(closuresConfig());
+    expect(await aptos.viewJson({ payload: { function: "0x1::m::closures" } })).toEqual(decodedClosures);
+  });
+});